@@ -0,0 +1,97 @@
+#include <jni.h>
+#include <jsi/jsi.h>
+
+#include "VisionUtilsBuffers.h"
+
+using namespace facebook;
+
+namespace {
+
+JavaVM *javaVm = nullptr;
+
+JNIEnv *currentEnv() {
+  JNIEnv *env = nullptr;
+  if (javaVm->GetEnv(reinterpret_cast<void **>(&env), JNI_VERSION_1_6) ==
+      JNI_EDETACHED) {
+    javaVm->AttachCurrentThread(&env, nullptr);
+  }
+  return env;
+}
+
+/**
+ * A direct ByteBuffer filled by Kotlin, viewed by JS in place
+ *
+ * Holds a global reference so the JVM keeps the memory alive until the
+ * ArrayBuffer over it is collected.
+ */
+class DirectByteBuffer : public jsi::MutableBuffer {
+ public:
+  DirectByteBuffer(JNIEnv *env, jobject buffer)
+      : ref_(env->NewGlobalRef(buffer)),
+        data_(static_cast<uint8_t *>(env->GetDirectBufferAddress(buffer))),
+        size_(static_cast<size_t>(env->GetDirectBufferCapacity(buffer))) {}
+
+  ~DirectByteBuffer() override {
+    if (JNIEnv *env = currentEnv()) {
+      env->DeleteGlobalRef(ref_);
+    }
+  }
+
+  size_t size() const override {
+    return size_;
+  }
+
+  uint8_t *data() override {
+    return data_;
+  }
+
+ private:
+  jobject ref_;
+  uint8_t *data_;
+  size_t size_;
+};
+
+} // namespace
+
+extern "C" JNIEXPORT jint JNICALL JNI_OnLoad(JavaVM *vm, void *) {
+  javaVm = vm;
+  return JNI_VERSION_1_6;
+}
+
+extern "C" JNIEXPORT jboolean JNICALL
+Java_com_visionutils_TensorTransport_nativeInstall(
+    JNIEnv *,
+    jobject,
+    jlong runtimePtr) {
+  auto *runtime = reinterpret_cast<jsi::Runtime *>(runtimePtr);
+  if (runtime == nullptr) {
+    return JNI_FALSE;
+  }
+  visionutils::BufferRegistry::install(*runtime);
+  return JNI_TRUE;
+}
+
+extern "C" JNIEXPORT jdouble JNICALL
+Java_com_visionutils_TensorTransport_nativePut(
+    JNIEnv *env,
+    jobject,
+    jobject buffer) {
+  return visionutils::BufferRegistry::put(
+      std::make_shared<DirectByteBuffer>(env, buffer));
+}
+
+extern "C" JNIEXPORT jbyteArray JNICALL
+Java_com_visionutils_TensorTransport_nativeTake(
+    JNIEnv *env,
+    jobject,
+    jdouble id) {
+  auto buffer = visionutils::BufferRegistry::take(id);
+  if (!buffer) {
+    return nullptr;
+  }
+  auto size = static_cast<jsize>(buffer->size());
+  jbyteArray bytes = env->NewByteArray(size);
+  env->SetByteArrayRegion(
+      bytes, 0, size, reinterpret_cast<const jbyte *>(buffer->data()));
+  return bytes;
+}
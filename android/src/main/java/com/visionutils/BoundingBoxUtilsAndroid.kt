@@ -1,5 +1,6 @@
 package com.visionutils
 
+import kotlin.math.exp
 import kotlin.math.max
 import kotlin.math.min
 
@@ -242,18 +243,33 @@ object BoundingBoxUtilsAndroid {
         )
     }
 
+    /** Supported NMS modes */
+    val NMS_MODES = setOf("greedy", "soft-linear", "soft-gaussian", "diou", "weighted-boxes-fusion")
+
     /**
      * Apply Non-Maximum Suppression
+     *
+     * - `greedy` / `diou` drop boxes whose IoU (or DIoU) with a kept box exceeds the threshold
+     * - `soft-linear` / `soft-gaussian` decay overlapping scores instead of dropping them
+     * - `weighted-boxes-fusion` merges each cluster into a score-weighted average box
+     *
+     * Unless [agnostic] is set, boxes only suppress boxes with the same `classIndex`.
      */
     fun nonMaxSuppression(
         detections: List<Map<String, Any>>,
         iouThreshold: Double,
         scoreThreshold: Double,
         maxDetections: Int?,
-        format: String
+        format: String,
+        mode: String = "greedy",
+        agnostic: Boolean = true,
+        maxDetectionsPerClass: Int? = null,
+        sigma: Double = 0.5
     ): NMSResult {
         val startTime = System.nanoTime()
 
+        require(mode in NMS_MODES) { "Unknown NMS mode: $mode" }
+
         // Extract boxes and scores from detections
         val boxes = detections.mapNotNull { det ->
             @Suppress("UNCHECKED_CAST")
@@ -266,6 +282,7 @@ object BoundingBoxUtilsAndroid {
         require(boxes.size == scores.size) { "Boxes and scores must have same length" }
 
         val maxDets = maxDetections ?: 100
+        val perClassLimit = maxDetectionsPerClass?.let { min(it, maxDets) } ?: maxDets
 
         // Convert to xyxy for IoU calculation
         val xyxyBoxes = if (format != "xyxy") {
@@ -274,36 +291,38 @@ object BoundingBoxUtilsAndroid {
             boxes
         }
 
-        // Filter by score threshold and sort by score descending
-        data class Candidate(val index: Int, val box: List<Double>, val score: Double, val detection: Map<String, Any>)
-
-        val candidates = detections.indices
-            .filter { scores[it] >= scoreThreshold }
-            .map { Candidate(it, xyxyBoxes[it], scores[it], detections[it]) }
-            .sortedByDescending { it.score }
-            .toMutableList()
-
-        val keepIndices = mutableListOf<Int>()
-        val keepDetections = mutableListOf<Map<String, Any>>()
-        val suppressed = mutableSetOf<Int>()
+        // Filter by score threshold, then split into per-class groups
+        val candidates = detections.indices.filter { scores[it] >= scoreThreshold }
+        val groups = if (agnostic) {
+            listOf(candidates)
+        } else {
+            candidates.groupBy { (detections[it]["classIndex"] as? Number)?.toInt() ?: -1 }.values
+        }
 
-        for (candidate in candidates) {
-            if (candidate.index in suppressed) continue
-            if (keepIndices.size >= maxDets) break
-
-            keepIndices.add(candidate.index)
-            // Preserve original detection with all fields (box, score, classIndex, label)
-            keepDetections.add(candidate.detection)
-
-            // Suppress overlapping boxes
-            for (other in candidates) {
-                if (other.index !in suppressed && other.index != candidate.index) {
-                    val iouResult = calculateIoU(candidate.box, other.box, "xyxy")
-                    if ((iouResult["iou"] ?: 0.0) > iouThreshold) {
-                        suppressed.add(other.index)
-                    }
-                }
+        val kept = groups.flatMap { group ->
+            when (mode) {
+                "soft-linear", "soft-gaussian" -> softSuppress(
+                    group, xyxyBoxes, scores, iouThreshold, scoreThreshold,
+                    mode == "soft-gaussian", sigma, perClassLimit
+                )
+                "weighted-boxes-fusion" -> fuseBoxes(group, xyxyBoxes, scores, iouThreshold, perClassLimit)
+                else -> hardSuppress(group, xyxyBoxes, scores, iouThreshold, mode == "diou", perClassLimit)
+            }
+        }
+            // Merge classes back into a single score-ordered list
+            .sortedWith(compareByDescending<NMSCandidate> { it.score }.thenBy { it.index })
+            .take(maxDets)
+
+        val keepIndices = kept.map { it.index }
+        // Preserve original detection with all fields (box, score, classIndex, label);
+        // fused boxes and decayed scores replace the originals
+        val keepDetections = kept.map { candidate ->
+            val detection = detections[candidate.index].toMutableMap()
+            if (mode == "weighted-boxes-fusion") {
+                detection["box"] = convertBoxFormat(listOf(candidate.box), "xyxy", format)[0]
             }
+            detection["score"] = candidate.score
+            detection.toMap()
         }
 
         val endTime = System.nanoTime()
@@ -318,4 +337,135 @@ object BoundingBoxUtilsAndroid {
             processingTimeMs = processingTimeMs
         )
     }
+
+    private data class NMSCandidate(val index: Int, val box: List<Double>, val score: Double)
+
+    /** IoU of two xyxy boxes */
+    private fun iou(a: List<Double>, b: List<Double>): Double {
+        val intersectionWidth = max(0.0, min(a[2], b[2]) - max(a[0], b[0]))
+        val intersectionHeight = max(0.0, min(a[3], b[3]) - max(a[1], b[1]))
+        val intersection = intersectionWidth * intersectionHeight
+        val union = (a[2] - a[0]) * (a[3] - a[1]) + (b[2] - b[0]) * (b[3] - b[1]) - intersection
+        return if (union > 0) intersection / union else 0.0
+    }
+
+    /** Distance-IoU: IoU minus the squared center distance over the enclosing box diagonal */
+    private fun diou(a: List<Double>, b: List<Double>): Double {
+        val dx = (a[0] + a[2] - b[0] - b[2]) / 2
+        val dy = (a[1] + a[3] - b[1] - b[3]) / 2
+        val cw = max(a[2], b[2]) - min(a[0], b[0])
+        val ch = max(a[3], b[3]) - min(a[1], b[1])
+        val diagonal = cw * cw + ch * ch
+        return iou(a, b) - if (diagonal > 0) (dx * dx + dy * dy) / diagonal else 0.0
+    }
+
+    private fun hardSuppress(
+        group: List<Int>,
+        boxes: List<List<Double>>,
+        scores: List<Double>,
+        iouThreshold: Double,
+        useDIoU: Boolean,
+        limit: Int
+    ): List<NMSCandidate> {
+        val order = group.sortedByDescending { scores[it] }
+        val kept = mutableListOf<NMSCandidate>()
+        val suppressed = mutableSetOf<Int>()
+
+        for (index in order) {
+            if (index in suppressed) continue
+            if (kept.size >= limit) break
+
+            kept.add(NMSCandidate(index, boxes[index], scores[index]))
+            for (other in order) {
+                if (other == index || other in suppressed) continue
+                val overlap = if (useDIoU) diou(boxes[index], boxes[other]) else iou(boxes[index], boxes[other])
+                if (overlap > iouThreshold) {
+                    suppressed.add(other)
+                }
+            }
+        }
+        return kept
+    }
+
+    private fun softSuppress(
+        group: List<Int>,
+        boxes: List<List<Double>>,
+        scores: List<Double>,
+        iouThreshold: Double,
+        scoreThreshold: Double,
+        gaussian: Boolean,
+        sigma: Double,
+        limit: Int
+    ): List<NMSCandidate> {
+        var pool = group.map { NMSCandidate(it, boxes[it], scores[it]) }
+        val kept = mutableListOf<NMSCandidate>()
+
+        while (pool.isNotEmpty() && kept.size < limit) {
+            val top = pool.maxByOrNull { it.score }!!
+            kept.add(top)
+
+            // Decay the remaining scores by their overlap with the kept box
+            pool = pool.filter { it !== top }.mapNotNull { candidate ->
+                val overlap = iou(top.box, candidate.box)
+                val decay = if (gaussian) {
+                    exp(-(overlap * overlap) / sigma)
+                } else {
+                    if (overlap > iouThreshold) 1 - overlap else 1.0
+                }
+                val score = candidate.score * decay
+                if (score >= scoreThreshold) candidate.copy(score = score) else null
+            }
+        }
+        return kept
+    }
+
+    private fun fuseBoxes(
+        group: List<Int>,
+        boxes: List<List<Double>>,
+        scores: List<Double>,
+        iouThreshold: Double,
+        limit: Int
+    ): List<NMSCandidate> {
+        val order = group.sortedByDescending { scores[it] }
+        val members = mutableListOf<MutableList<Int>>()
+        val fused = mutableListOf<List<Double>>()
+
+        for (index in order) {
+            // Match against the best-overlapping fused box so far
+            var match = -1
+            var bestIoU = iouThreshold
+            fused.forEachIndexed { c, box ->
+                val overlap = iou(box, boxes[index])
+                if (overlap > bestIoU) {
+                    bestIoU = overlap
+                    match = c
+                }
+            }
+
+            if (match < 0) {
+                members.add(mutableListOf(index))
+                fused.add(boxes[index])
+                continue
+            }
+
+            members[match].add(index)
+            val totalScore = members[match].sumOf { scores[it] }
+            fused[match] = if (totalScore > 0) {
+                (0 until 4).map { k -> members[match].sumOf { boxes[it][k] * scores[it] } / totalScore }
+            } else {
+                boxes[members[match][0]]
+            }
+        }
+
+        return members.indices
+            .map { c ->
+                NMSCandidate(
+                    members[c][0],
+                    fused[c],
+                    members[c].sumOf { scores[it] } / members[c].size
+                )
+            }
+            .sortedByDescending { it.score }
+            .take(limit)
+    }
 }
@@ -96,9 +96,7 @@ object CameraFrameAndroid {
         val processingTime = (System.nanoTime() - startTime) / 1_000_000.0
 
         return Arguments.createMap().apply {
-            val tensorArray = Arguments.createArray()
-            tensorData.forEach { tensorArray.pushDouble(it) }
-            putArray("tensor", tensorArray)
+            TensorTransport.putFloats(this, "tensor", tensorData)
 
             val shapeArray = Arguments.createArray()
             shapeArray.pushInt(outputHeight)
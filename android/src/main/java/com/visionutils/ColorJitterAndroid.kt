@@ -5,12 +5,10 @@ import android.graphics.Canvas
 import android.graphics.ColorMatrix
 import android.graphics.ColorMatrixColorFilter
 import android.graphics.Paint
-import android.util.Base64
 import com.facebook.react.bridge.Arguments
 import com.facebook.react.bridge.ReadableArray
 import com.facebook.react.bridge.ReadableMap
 import com.facebook.react.bridge.WritableMap
-import java.io.ByteArrayOutputStream
 import kotlin.math.cos
 import kotlin.math.max
 import kotlin.math.sin
@@ -94,10 +92,13 @@ object ColorJitterAndroid {
             result = adjustHue(result, appliedHue.toFloat())
         }
 
-        // Encode to base64
-        val outputStream = ByteArrayOutputStream()
-        result.compress(Bitmap.CompressFormat.PNG, 100, outputStream)
-        val base64String = Base64.encodeToString(outputStream.toByteArray(), Base64.NO_WRAP)
+        val output = if (options.hasKey("output") && !options.isNull("output")) {
+            options.getString("output")
+        } else {
+            null
+        }
+        val map = Arguments.createMap()
+        TensorTransport.putImage(map, result, output)
 
         val width = result.width
         val height = result.height
@@ -105,8 +106,7 @@ object ColorJitterAndroid {
 
         result.recycle()
 
-        return Arguments.createMap().apply {
-            putString("base64", base64String)
+        return map.apply {
             putInt("width", width)
             putInt("height", height)
             putDouble("appliedBrightness", appliedBrightness)
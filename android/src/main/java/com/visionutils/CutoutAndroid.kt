@@ -4,12 +4,10 @@ import android.graphics.Bitmap
 import android.graphics.Canvas
 import android.graphics.Color
 import android.graphics.Paint
-import android.util.Base64
 import com.facebook.react.bridge.Arguments
 import com.facebook.react.bridge.ReadableMap
 import com.facebook.react.bridge.WritableArray
 import com.facebook.react.bridge.WritableMap
-import java.io.ByteArrayOutputStream
 import kotlin.math.min
 import kotlin.math.sqrt
 import kotlin.random.Random
@@ -85,6 +83,11 @@ object CutoutAndroid {
         } else 1.0
 
         // Setup random number generator
+        val output = if (options.hasKey("output") && !options.isNull("output")) {
+            options.getString("output")
+        } else {
+            null
+        }
         val seed = if (options.hasKey("seed") && !options.isNull("seed")) {
             options.getInt("seed")
         } else {
@@ -103,13 +106,11 @@ object CutoutAndroid {
 
         if (!shouldApply || numCutouts == 0) {
             // Return original image without cutouts
-            val outputStream = ByteArrayOutputStream()
-            bitmap.compress(Bitmap.CompressFormat.PNG, 100, outputStream)
-            val base64String = Base64.encodeToString(outputStream.toByteArray(), Base64.NO_WRAP)
+            val map = Arguments.createMap()
+            TensorTransport.putImage(map, bitmap, output)
             val processingTimeMs = (System.nanoTime() - startTimeNs) / 1_000_000.0
 
-            return Arguments.createMap().apply {
-                putString("base64", base64String)
+            return map.apply {
                 putInt("width", width)
                 putInt("height", height)
                 putBoolean("applied", false)
@@ -200,17 +201,14 @@ object CutoutAndroid {
             regions.pushMap(regionInfo)
         }
 
-        // Encode to base64
-        val outputStream = ByteArrayOutputStream()
-        resultBitmap.compress(Bitmap.CompressFormat.PNG, 100, outputStream)
-        val base64String = Base64.encodeToString(outputStream.toByteArray(), Base64.NO_WRAP)
+        val map = Arguments.createMap()
+        TensorTransport.putImage(map, resultBitmap, output)
 
         val processingTimeMs = (System.nanoTime() - startTimeNs) / 1_000_000.0
 
         resultBitmap.recycle()
 
-        return Arguments.createMap().apply {
-            putString("base64", base64String)
+        return map.apply {
             putInt("width", width)
             putInt("height", height)
             putBoolean("applied", true)
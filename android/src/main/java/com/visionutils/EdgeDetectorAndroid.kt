@@ -0,0 +1,248 @@
+package com.visionutils
+
+import android.graphics.Bitmap
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.ReadableMap
+import com.facebook.react.bridge.WritableMap
+import kotlin.math.abs
+import kotlin.math.atan2
+import kotlin.math.min
+import kotlin.math.sqrt
+
+/**
+ * Edge detection using Sobel, Canny and Laplacian operators
+ */
+object EdgeDetectorAndroid {
+
+    /**
+     * Detect edges in an image
+     * @param bitmap The input bitmap
+     * @param source Image source, used to run the image through the pixel pipeline
+     * @param options Edge detection options (type, thresholds, resize, roi, outputFormat)
+     * @return WritableMap containing the edge map (data or base64), dimensions and processingTimeMs
+     */
+    fun detectEdges(
+        bitmap: Bitmap,
+        source: ImageSource,
+        options: ReadableMap
+    ): WritableMap {
+        val startTimeNs = System.nanoTime()
+
+        val type = if (options.hasKey("type")) options.getString("type") ?: "sobel" else "sobel"
+        val lowThreshold = if (options.hasKey("lowThreshold")) options.getDouble("lowThreshold").toFloat() else 50f
+        val highThreshold = if (options.hasKey("highThreshold")) options.getDouble("highThreshold").toFloat() else 150f
+        val outputFormat = if (options.hasKey("outputFormat")) options.getString("outputFormat") ?: "tensor" else "tensor"
+
+        // Run through the pixel pipeline so resize/roi match getPixelData exactly
+        val pixelOptions = GetPixelDataOptions(
+            source = source,
+            colorFormat = ColorFormat.GRAYSCALE,
+            resize = if (options.hasKey("resize")) ResizeOptions.fromMap(options.getMap("resize")) else null,
+            roi = if (options.hasKey("roi")) Roi.fromMap(options.getMap("roi")) else null,
+            normalization = Normalization(preset = NormalizationPreset.RAW),
+            dataLayout = DataLayout.HWC
+        )
+        val grayscale = PixelProcessor.process(bitmap, pixelOptions)
+        val width = grayscale.width
+        val height = grayscale.height
+
+        val edges = when (type) {
+            "sobel" -> sobel(grayscale.data, width, height)
+            "laplacian" -> laplacian(grayscale.data, width, height)
+            "canny" -> canny(grayscale.data, width, height, lowThreshold, highThreshold)
+            else -> throw VisionUtilsException("INVALID_INPUT", "Unknown edge detection type: $type")
+        }
+
+        val result = Arguments.createMap().apply {
+            putInt("width", width)
+            putInt("height", height)
+            putInt("channels", 1)
+            putString("type", type)
+        }
+
+        if (outputFormat == "base64") {
+            val imageOptions = Arguments.createMap().apply {
+                putInt("channels", 1)
+                putString("dataLayout", "hwc")
+            }
+            val image = TensorConverterAndroid.tensorToImage(edges, width, height, imageOptions)
+            result.putString("base64", image.getString("base64"))
+        } else {
+            val dataArray = Arguments.createArray()
+            edges.forEach { dataArray.pushDouble(it.toDouble()) }
+            result.putArray("data", dataArray)
+        }
+
+        val processingTimeMs = (System.nanoTime() - startTimeNs) / 1_000_000.0
+        result.putDouble("processingTimeMs", processingTimeMs)
+
+        return result
+    }
+
+    /**
+     * Sobel gradient magnitude, clamped to [0, 255] and scaled to [0, 1]
+     */
+    private fun sobel(gray: FloatArray, width: Int, height: Int): FloatArray {
+        val (gx, gy) = gradients(gray, width, height)
+        return FloatArray(width * height) { i ->
+            min(255f, sqrt(gx[i] * gx[i] + gy[i] * gy[i])) / 255f
+        }
+    }
+
+    /**
+     * Absolute 4-neighbour Laplacian response, clamped to [0, 255] and scaled to [0, 1]
+     */
+    private fun laplacian(gray: FloatArray, width: Int, height: Int): FloatArray {
+        val edges = FloatArray(width * height)
+        for (y in 0 until height) {
+            for (x in 0 until width) {
+                val center = pixel(gray, x, y, width, height)
+                val response = pixel(gray, x, y - 1, width, height) +
+                    pixel(gray, x, y + 1, width, height) +
+                    pixel(gray, x - 1, y, width, height) +
+                    pixel(gray, x + 1, y, width, height) -
+                    4f * center
+                edges[y * width + x] = min(255f, abs(response)) / 255f
+            }
+        }
+        return edges
+    }
+
+    /**
+     * Canny edge detection: Gaussian blur, Sobel gradients, non-maximum
+     * suppression and hysteresis thresholding. Output is binary {0, 1}.
+     */
+    private fun canny(
+        gray: FloatArray,
+        width: Int,
+        height: Int,
+        lowThreshold: Float,
+        highThreshold: Float
+    ): FloatArray {
+        val blurred = gaussianBlur(gray, width, height)
+        val (gx, gy) = gradients(blurred, width, height)
+        val count = width * height
+
+        val magnitude = FloatArray(count) { i -> sqrt(gx[i] * gx[i] + gy[i] * gy[i]) }
+
+        // Non-maximum suppression along the quantized gradient direction
+        val suppressed = FloatArray(count)
+        for (y in 1 until height - 1) {
+            for (x in 1 until width - 1) {
+                val idx = y * width + x
+                val mag = magnitude[idx]
+                if (mag == 0f) continue
+
+                // Image y axis points down, so 45° runs towards the bottom-right neighbour
+                var angle = Math.toDegrees(atan2(gy[idx], gx[idx]).toDouble())
+                if (angle < 0) angle += 180.0
+
+                val (n1, n2) = when {
+                    angle < 22.5 || angle >= 157.5 -> Pair(magnitude[idx - 1], magnitude[idx + 1])
+                    angle < 67.5 -> Pair(magnitude[idx - width - 1], magnitude[idx + width + 1])
+                    angle < 112.5 -> Pair(magnitude[idx - width], magnitude[idx + width])
+                    else -> Pair(magnitude[idx - width + 1], magnitude[idx + width - 1])
+                }
+
+                if (mag >= n1 && mag >= n2) {
+                    suppressed[idx] = mag
+                }
+            }
+        }
+
+        // Hysteresis: keep weak edges connected to strong edges
+        val edges = FloatArray(count)
+        val stack = ArrayDeque<Int>()
+        for (i in 0 until count) {
+            if (suppressed[i] >= highThreshold) {
+                edges[i] = 1f
+                stack.addLast(i)
+            }
+        }
+
+        while (stack.isNotEmpty()) {
+            val idx = stack.removeLast()
+            val x = idx % width
+            val y = idx / width
+            for (dy in -1..1) {
+                for (dx in -1..1) {
+                    val nx = x + dx
+                    val ny = y + dy
+                    if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue
+                    val nIdx = ny * width + nx
+                    if (edges[nIdx] == 0f && suppressed[nIdx] >= lowThreshold) {
+                        edges[nIdx] = 1f
+                        stack.addLast(nIdx)
+                    }
+                }
+            }
+        }
+
+        return edges
+    }
+
+    /**
+     * Sobel gradients with replicated borders
+     */
+    private fun gradients(gray: FloatArray, width: Int, height: Int): Pair<FloatArray, FloatArray> {
+        val gx = FloatArray(width * height)
+        val gy = FloatArray(width * height)
+
+        for (y in 0 until height) {
+            for (x in 0 until width) {
+                val tl = pixel(gray, x - 1, y - 1, width, height)
+                val t = pixel(gray, x, y - 1, width, height)
+                val tr = pixel(gray, x + 1, y - 1, width, height)
+                val l = pixel(gray, x - 1, y, width, height)
+                val r = pixel(gray, x + 1, y, width, height)
+                val bl = pixel(gray, x - 1, y + 1, width, height)
+                val b = pixel(gray, x, y + 1, width, height)
+                val br = pixel(gray, x + 1, y + 1, width, height)
+
+                val idx = y * width + x
+                gx[idx] = (tr + 2f * r + br) - (tl + 2f * l + bl)
+                gy[idx] = (bl + 2f * b + br) - (tl + 2f * t + tr)
+            }
+        }
+
+        return Pair(gx, gy)
+    }
+
+    /**
+     * 5x5 Gaussian blur (sigma 1.4) with replicated borders
+     */
+    private fun gaussianBlur(gray: FloatArray, width: Int, height: Int): FloatArray {
+        val kernel = floatArrayOf(
+            2f, 4f, 5f, 4f, 2f,
+            4f, 9f, 12f, 9f, 4f,
+            5f, 12f, 15f, 12f, 5f,
+            4f, 9f, 12f, 9f, 4f,
+            2f, 4f, 5f, 4f, 2f
+        )
+        val kernelSum = 159f
+        val output = FloatArray(width * height)
+
+        for (y in 0 until height) {
+            for (x in 0 until width) {
+                var sum = 0f
+                for (ky in -2..2) {
+                    for (kx in -2..2) {
+                        sum += kernel[(ky + 2) * 5 + (kx + 2)] * pixel(gray, x + kx, y + ky, width, height)
+                    }
+                }
+                output[y * width + x] = sum / kernelSum
+            }
+        }
+
+        return output
+    }
+
+    /**
+     * Read a pixel, clamping coordinates to the image bounds
+     */
+    private fun pixel(data: FloatArray, x: Int, y: Int, width: Int, height: Int): Float {
+        val cx = x.coerceIn(0, width - 1)
+        val cy = y.coerceIn(0, height - 1)
+        return data[cy * width + cx]
+    }
+}
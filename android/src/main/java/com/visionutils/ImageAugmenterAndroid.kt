@@ -11,11 +11,9 @@ import android.renderscript.Allocation
 import android.renderscript.Element
 import android.renderscript.RenderScript
 import android.renderscript.ScriptIntrinsicBlur
-import android.util.Base64
 import com.facebook.react.bridge.Arguments
 import com.facebook.react.bridge.ReadableMap
 import com.facebook.react.bridge.WritableMap
-import java.io.ByteArrayOutputStream
 import kotlin.math.abs
 import kotlin.math.cos
 import kotlin.math.sin
@@ -86,10 +84,9 @@ object ImageAugmenterAndroid {
       }
     }
 
-    // Encode to base64
-    val outputStream = ByteArrayOutputStream()
-    result.compress(Bitmap.CompressFormat.PNG, 100, outputStream)
-    val base64String = Base64.encodeToString(outputStream.toByteArray(), Base64.NO_WRAP)
+    val output = if (augmentations.hasKey("output")) augmentations.getString("output") else null
+    val map = Arguments.createMap()
+    TensorTransport.putImage(map, result, output)
 
     val width = result.width
     val height = result.height
@@ -97,8 +94,7 @@ object ImageAugmenterAndroid {
 
     result.recycle()
 
-    return Arguments.createMap().apply {
-      putString("base64", base64String)
+    return map.apply {
       putInt("width", width)
       putInt("height", height)
       putDouble("processingTimeMs", processingTimeMs)
@@ -0,0 +1,353 @@
+package com.visionutils
+
+import kotlin.math.exp
+import kotlin.math.max
+import kotlin.math.min
+import kotlin.math.roundToInt
+
+/**
+ * Contrast preprocessing (histogram equalization, CLAHE) and image filters
+ * (denoise, median, sharpen) on ARGB pixel buffers
+ */
+object ImageFiltersAndroid {
+
+    /**
+     * Apply preprocessing and filters to an ARGB buffer
+     *
+     * Order: histogram equalization → CLAHE → denoise → median → sharpen.
+     * Contrast operations act on luminance so colors are preserved; alpha is untouched.
+     */
+    fun apply(
+        argb: IntArray,
+        width: Int,
+        height: Int,
+        preprocessing: PreprocessingOptions?,
+        filters: FilterOptions?
+    ): IntArray {
+        val pixelCount = width * height
+        if (pixelCount == 0) return argb
+
+        var r = FloatArray(pixelCount) { ((argb[it] shr 16) and 0xFF).toFloat() }
+        var g = FloatArray(pixelCount) { ((argb[it] shr 8) and 0xFF).toFloat() }
+        var b = FloatArray(pixelCount) { (argb[it] and 0xFF).toFloat() }
+
+        preprocessing?.let { pre ->
+            if (pre.histogramEqualization) {
+                val luma = luminance(r, g, b)
+                val hist = histogram(luma, width, 0, 0, width, height)
+                val lut = equalizationLut(hist, pixelCount)
+                shiftLuminance(r, g, b, luma) { lut[bin(luma[it])] }
+            }
+
+            pre.clahe?.let { clahe ->
+                val luma = luminance(r, g, b)
+                val equalized = claheLuminance(luma, width, height, clahe)
+                shiftLuminance(r, g, b, luma) { equalized[it] }
+            }
+        }
+
+        filters?.let { filter ->
+            filter.denoise?.let { denoise ->
+                if (denoise.strength > 0f) {
+                    val result = if (denoise.type == "nlm") {
+                        nonLocalMeans(r, g, b, width, height, denoise.strength)
+                    } else {
+                        bilateral(r, g, b, width, height, denoise.strength)
+                    }
+                    r = result[0]
+                    g = result[1]
+                    b = result[2]
+                }
+            }
+
+            filter.medianFilter?.let { kernelSize ->
+                if (kernelSize >= 3) {
+                    r = median(r, width, height, kernelSize)
+                    g = median(g, width, height, kernelSize)
+                    b = median(b, width, height, kernelSize)
+                }
+            }
+
+            filter.sharpen?.let { sharpen ->
+                if (sharpen > 0f) {
+                    r = unsharpMask(r, width, height, sharpen * 2f)
+                    g = unsharpMask(g, width, height, sharpen * 2f)
+                    b = unsharpMask(b, width, height, sharpen * 2f)
+                }
+            }
+        }
+
+        return IntArray(pixelCount) { i ->
+            val alpha = argb[i] ushr 24
+            val red = r[i].roundToInt().coerceIn(0, 255)
+            val green = g[i].roundToInt().coerceIn(0, 255)
+            val blue = b[i].roundToInt().coerceIn(0, 255)
+            (alpha shl 24) or (red shl 16) or (green shl 8) or blue
+        }
+    }
+
+    /**
+     * Compute a 256-bin histogram over a rectangular region of a luminance plane
+     */
+    private fun histogram(luma: FloatArray, width: Int, x0: Int, y0: Int, x1: Int, y1: Int): IntArray {
+        val hist = IntArray(256)
+        for (y in y0 until y1) {
+            for (x in x0 until x1) {
+                hist[bin(luma[y * width + x])]++
+            }
+        }
+        return hist
+    }
+
+    /**
+     * Build a 0-255 lookup table from a histogram's cumulative distribution
+     */
+    private fun equalizationLut(hist: IntArray, count: Int): FloatArray {
+        val lut = FloatArray(256)
+        val cdfMin = hist.firstOrNull { it > 0 } ?: 0
+        val denominator = max(count - cdfMin, 1).toFloat()
+        var cumulative = 0
+        for (i in 0 until 256) {
+            cumulative += hist[i]
+            lut[i] = max(0, cumulative - cdfMin) / denominator * 255f
+        }
+        return lut
+    }
+
+    /**
+     * Contrast Limited Adaptive Histogram Equalization on a luminance plane.
+     * tileSize is the number of tiles per side; clipLimit is relative to the
+     * average bin height, matching OpenCV.
+     */
+    private fun claheLuminance(luma: FloatArray, width: Int, height: Int, options: ClaheOptions): FloatArray {
+        val tilesX = options.tileSize.coerceIn(1, width)
+        val tilesY = options.tileSize.coerceIn(1, height)
+        val tileWidth = width.toFloat() / tilesX
+        val tileHeight = height.toFloat() / tilesY
+
+        // Per-tile clipped lookup tables
+        val luts = Array(tilesX * tilesY) { FloatArray(256) }
+        for (ty in 0 until tilesY) {
+            for (tx in 0 until tilesX) {
+                val x0 = (tx * tileWidth).toInt()
+                val x1 = if (tx == tilesX - 1) width else ((tx + 1) * tileWidth).toInt()
+                val y0 = (ty * tileHeight).toInt()
+                val y1 = if (ty == tilesY - 1) height else ((ty + 1) * tileHeight).toInt()
+                val area = max(1, (x1 - x0) * (y1 - y0))
+
+                val hist = histogram(luma, width, x0, y0, x1, y1)
+
+                // Clip and redistribute the excess uniformly
+                val clip = max(1, (options.clipLimit * area / 256f).toInt())
+                var excess = 0
+                for (i in 0 until 256) {
+                    if (hist[i] > clip) {
+                        excess += hist[i] - clip
+                        hist[i] = clip
+                    }
+                }
+                val increment = excess / 256
+                val remainder = excess % 256
+                for (i in 0 until 256) {
+                    hist[i] += increment + if (i < remainder) 1 else 0
+                }
+
+                val lut = luts[ty * tilesX + tx]
+                var cumulative = 0
+                for (i in 0 until 256) {
+                    cumulative += hist[i]
+                    lut[i] = cumulative.toFloat() / area * 255f
+                }
+            }
+        }
+
+        // Bilinear interpolation between the four nearest tile centers
+        val output = FloatArray(width * height)
+        for (y in 0 until height) {
+            val fy = (y + 0.5f) / tileHeight - 0.5f
+            val ty0 = kotlin.math.floor(fy).toInt().coerceIn(0, tilesY - 1)
+            val ty1 = min(tilesY - 1, ty0 + 1)
+            val wy = (fy - ty0).coerceIn(0f, 1f)
+
+            for (x in 0 until width) {
+                val fx = (x + 0.5f) / tileWidth - 0.5f
+                val tx0 = kotlin.math.floor(fx).toInt().coerceIn(0, tilesX - 1)
+                val tx1 = min(tilesX - 1, tx0 + 1)
+                val wx = (fx - tx0).coerceIn(0f, 1f)
+
+                val value = bin(luma[y * width + x])
+                val top = luts[ty0 * tilesX + tx0][value] * (1 - wx) + luts[ty0 * tilesX + tx1][value] * wx
+                val bottom = luts[ty1 * tilesX + tx0][value] * (1 - wx) + luts[ty1 * tilesX + tx1][value] * wx
+                output[y * width + x] = top * (1 - wy) + bottom * wy
+            }
+        }
+
+        return output
+    }
+
+    /**
+     * Edge-preserving bilateral filter; strength scales window radius and range sigma
+     */
+    private fun bilateral(
+        r: FloatArray, g: FloatArray, b: FloatArray,
+        width: Int, height: Int, strength: Float
+    ): Array<FloatArray> {
+        val radius = 1 + (strength * 3).roundToInt()
+        val sigmaSpace = radius.toFloat()
+        val sigmaColor = 10f + strength * 65f
+        val spaceCoeff = -1f / (2f * sigmaSpace * sigmaSpace)
+        val colorCoeff = -1f / (2f * sigmaColor * sigmaColor)
+
+        val outR = r.copyOf()
+        val outG = g.copyOf()
+        val outB = b.copyOf()
+        for (y in 0 until height) {
+            for (x in 0 until width) {
+                val idx = y * width + x
+                var sumR = 0f
+                var sumG = 0f
+                var sumB = 0f
+                var sumW = 0f
+                for (dy in -radius..radius) {
+                    for (dx in -radius..radius) {
+                        val n = clampedIndex(x + dx, y + dy, width, height)
+                        val dr = r[n] - r[idx]
+                        val dg = g[n] - g[idx]
+                        val db = b[n] - b[idx]
+                        val w = exp((dx * dx + dy * dy) * spaceCoeff + (dr * dr + dg * dg + db * db) * colorCoeff)
+                        sumR += r[n] * w
+                        sumG += g[n] * w
+                        sumB += b[n] * w
+                        sumW += w
+                    }
+                }
+                outR[idx] = sumR / sumW
+                outG[idx] = sumG / sumW
+                outB[idx] = sumB / sumW
+            }
+        }
+        return arrayOf(outR, outG, outB)
+    }
+
+    /**
+     * Non-local means with 3x3 patches and a 7x7 search window; strength scales the filter parameter h
+     */
+    private fun nonLocalMeans(
+        r: FloatArray, g: FloatArray, b: FloatArray,
+        width: Int, height: Int, strength: Float
+    ): Array<FloatArray> {
+        val searchRadius = 3
+        val patchRadius = 1
+        val patchArea = ((2 * patchRadius + 1) * (2 * patchRadius + 1)).toFloat()
+        val h = 5f + strength * 25f
+        val coeff = -1f / (h * h)
+        val luma = luminance(r, g, b)
+
+        val outR = r.copyOf()
+        val outG = g.copyOf()
+        val outB = b.copyOf()
+        for (y in 0 until height) {
+            for (x in 0 until width) {
+                var sumR = 0f
+                var sumG = 0f
+                var sumB = 0f
+                var sumW = 0f
+                for (sy in -searchRadius..searchRadius) {
+                    for (sx in -searchRadius..searchRadius) {
+                        var distance = 0f
+                        for (py in -patchRadius..patchRadius) {
+                            for (px in -patchRadius..patchRadius) {
+                                val a = luma[clampedIndex(x + px, y + py, width, height)]
+                                val c = luma[clampedIndex(x + sx + px, y + sy + py, width, height)]
+                                distance += (a - c) * (a - c)
+                            }
+                        }
+                        distance /= patchArea
+
+                        val n = clampedIndex(x + sx, y + sy, width, height)
+                        val w = exp(distance * coeff)
+                        sumR += r[n] * w
+                        sumG += g[n] * w
+                        sumB += b[n] * w
+                        sumW += w
+                    }
+                }
+                val idx = y * width + x
+                outR[idx] = sumR / sumW
+                outG[idx] = sumG / sumW
+                outB[idx] = sumB / sumW
+            }
+        }
+        return arrayOf(outR, outG, outB)
+    }
+
+    /**
+     * Median filter with an odd square kernel
+     */
+    private fun median(channel: FloatArray, width: Int, height: Int, kernelSize: Int): FloatArray {
+        val radius = kernelSize / 2
+        val output = channel.copyOf()
+        val window = FloatArray(kernelSize * kernelSize)
+        for (y in 0 until height) {
+            for (x in 0 until width) {
+                var k = 0
+                for (dy in -radius..radius) {
+                    for (dx in -radius..radius) {
+                        window[k++] = channel[clampedIndex(x + dx, y + dy, width, height)]
+                    }
+                }
+                window.sort()
+                output[y * width + x] = window[window.size / 2]
+            }
+        }
+        return output
+    }
+
+    /**
+     * Unsharp mask: out = in + amount * (in - blur3x3(in))
+     */
+    private fun unsharpMask(channel: FloatArray, width: Int, height: Int, amount: Float): FloatArray {
+        val output = channel.copyOf()
+        for (y in 0 until height) {
+            for (x in 0 until width) {
+                var blur = 0f
+                for (dy in -1..1) {
+                    for (dx in -1..1) {
+                        val weight = (if (dx == 0) 2f else 1f) * (if (dy == 0) 2f else 1f)
+                        blur += weight * channel[clampedIndex(x + dx, y + dy, width, height)]
+                    }
+                }
+                blur /= 16f
+                val idx = y * width + x
+                output[idx] = channel[idx] + amount * (channel[idx] - blur)
+            }
+        }
+        return output
+    }
+
+    private fun luminance(r: FloatArray, g: FloatArray, b: FloatArray): FloatArray {
+        return FloatArray(r.size) { 0.299f * r[it] + 0.587f * g[it] + 0.114f * b[it] }
+    }
+
+    /**
+     * Replace luminance while keeping chroma (YCbCr): each channel shifts by the luminance delta
+     */
+    private inline fun shiftLuminance(
+        r: FloatArray, g: FloatArray, b: FloatArray,
+        luma: FloatArray,
+        newLuma: (Int) -> Float
+    ) {
+        for (i in luma.indices) {
+            val delta = newLuma(i) - luma[i]
+            r[i] = (r[i] + delta).coerceIn(0f, 255f)
+            g[i] = (g[i] + delta).coerceIn(0f, 255f)
+            b[i] = (b[i] + delta).coerceIn(0f, 255f)
+        }
+    }
+
+    private fun bin(value: Float): Int = value.roundToInt().coerceIn(0, 255)
+
+    private fun clampedIndex(x: Int, y: Int, width: Int, height: Int): Int {
+        return y.coerceIn(0, height - 1) * width + x.coerceIn(0, width - 1)
+    }
+}
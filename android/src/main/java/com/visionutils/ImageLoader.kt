@@ -48,6 +48,9 @@ object ImageLoader {
                 ImageLoadResult(bitmap, null, null)
             }
             ImageSourceType.PHOTO_LIBRARY -> loadFromPhotoLibraryWithMetadata(context, source.value)
+            ImageSourceType.BYTES -> source.bytes?.let { loadFromBytesWithMetadata(it) }
+                ?: loadFromBase64WithMetadata(source.value)
+            ImageSourceType.PIXELS -> ImageLoadResult(loadFromPixels(source), null, null)
         }
     }
 
@@ -232,6 +235,78 @@ object ImageLoader {
         }
     }
 
+    /**
+     * Decode encoded image bytes handed over from a JS buffer
+     */
+    private suspend fun loadFromBytesWithMetadata(bytes: ByteArray): ImageLoadResult {
+        return withContext(Dispatchers.IO) {
+            val options = BitmapFactory.Options().apply {
+                inPreferredConfig = Bitmap.Config.ARGB_8888
+            }
+            val bitmap = BitmapFactory.decodeByteArray(bytes, 0, bytes.size, options)
+                ?: throw VisionUtilsException(
+                    "LOAD_ERROR",
+                    "Failed to decode image bytes"
+                )
+            ImageLoadResult(bitmap, bytes.size, detectImageFormat(bytes))
+        }
+    }
+
+    /**
+     * Wrap a raw 8-bit pixel buffer in a bitmap without going through a codec
+     */
+    private suspend fun loadFromPixels(source: ImageSource): Bitmap {
+        return withContext(Dispatchers.Default) {
+            val width = source.width ?: 0
+            val height = source.height ?: 0
+            if (width <= 0 || height <= 0) {
+                throw VisionUtilsException(
+                    "INVALID_SOURCE",
+                    "Pixels source width and height must be positive"
+                )
+            }
+
+            // Source offsets of R, G, B and (optionally) A within one pixel
+            val channelOrder = when (source.pixelFormat) {
+                "rgba" -> intArrayOf(0, 1, 2, 3)
+                "rgb" -> intArrayOf(0, 1, 2)
+                "bgra" -> intArrayOf(2, 1, 0, 3)
+                "bgr" -> intArrayOf(2, 1, 0)
+                "grayscale" -> intArrayOf(0, 0, 0)
+                else -> throw VisionUtilsException(
+                    "INVALID_SOURCE",
+                    "Invalid pixels source format: ${source.pixelFormat}"
+                )
+            }
+            val channels = if (source.pixelFormat == "grayscale") 1 else channelOrder.size
+
+            val bytes = source.bytes ?: try {
+                Base64.decode(source.value, Base64.DEFAULT)
+            } catch (e: IllegalArgumentException) {
+                throw VisionUtilsException(
+                    "INVALID_SOURCE",
+                    "Invalid base64 string: ${e.message}"
+                )
+            }
+            if (bytes.size != width * height * channels) {
+                throw VisionUtilsException(
+                    "INVALID_SOURCE",
+                    "Pixels source has ${bytes.size} bytes, expected ${width * height * channels}"
+                )
+            }
+
+            val colors = IntArray(width * height) { i ->
+                val offset = i * channels
+                val r = bytes[offset + channelOrder[0]].toInt() and 0xFF
+                val g = bytes[offset + channelOrder[1]].toInt() and 0xFF
+                val b = bytes[offset + channelOrder[2]].toInt() and 0xFF
+                val a = if (channelOrder.size == 4) bytes[offset + channelOrder[3]].toInt() and 0xFF else 255
+                (a shl 24) or (r shl 16) or (g shl 8) or b
+            }
+            Bitmap.createBitmap(colors, width, height, Bitmap.Config.ARGB_8888)
+        }
+    }
+
     /**
      * Load image from app assets
      */
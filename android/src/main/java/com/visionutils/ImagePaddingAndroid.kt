@@ -0,0 +1,118 @@
+package com.visionutils
+
+import android.graphics.Bitmap
+import android.graphics.Color
+import android.util.Base64
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.ReadableMap
+import com.facebook.react.bridge.WritableMap
+import java.io.ByteArrayOutputStream
+
+/**
+ * Pads images with constant, reflect, replicate or circular borders without resizing
+ */
+object ImagePaddingAndroid {
+
+    private val MODES = setOf("constant", "reflect", "replicate", "circular")
+
+    /**
+     * Pad an image
+     * @param bitmap The input bitmap
+     * @param options Padding options (mode, value, padding [top, right, bottom, left], multipleOf)
+     * @return WritableMap containing the padded image and the padding applied
+     */
+    fun pad(bitmap: Bitmap, options: ReadableMap): WritableMap {
+        val startTimeNs = System.nanoTime()
+
+        val mode = if (options.hasKey("mode")) options.getString("mode") ?: "constant" else "constant"
+        if (mode !in MODES) {
+            throw VisionUtilsException("INVALID_INPUT", "Unknown padding mode: $mode")
+        }
+
+        val value = if (options.hasKey("value")) {
+            val arr = options.getArray("value")
+            if (arr != null) List(arr.size()) { arr.getDouble(it).toInt() } else emptyList()
+        } else emptyList()
+
+        val padding = if (options.hasKey("padding")) {
+            val arr = options.getArray("padding")
+            if (arr != null) IntArray(arr.size()) { arr.getDouble(it).toInt() } else IntArray(4)
+        } else IntArray(4)
+        if (padding.size != 4 || padding.any { it < 0 }) {
+            throw VisionUtilsException("INVALID_INPUT", "Padding must be [top, right, bottom, left]")
+        }
+
+        val multipleOf = if (options.hasKey("multipleOf")) {
+            maxOf(1, options.getDouble("multipleOf").toInt())
+        } else 1
+
+        val width = bitmap.width
+        val height = bitmap.height
+
+        // Extend bottom/right so the output is a multiple of `multipleOf`
+        padding[2] += (multipleOf - (padding[0] + height + padding[2]) % multipleOf) % multipleOf
+        padding[1] += (multipleOf - (padding[3] + width + padding[1]) % multipleOf) % multipleOf
+
+        val (top, right, bottom, left) = padding.toList()
+        val outWidth = left + width + right
+        val outHeight = top + height + bottom
+
+        val source = IntArray(width * height)
+        bitmap.getPixels(source, 0, width, 0, 0, width, height)
+
+        fun channel(c: Int, default: Int) = (value.getOrNull(c) ?: default).coerceIn(0, 255)
+        val fill = Color.argb(channel(3, 255), channel(0, 0), channel(1, 0), channel(2, 0))
+
+        val output = IntArray(outWidth * outHeight)
+        for (y in 0 until outHeight) {
+            val sy = sourceIndex(y - top, height, mode)
+            for (x in 0 until outWidth) {
+                val sx = sourceIndex(x - left, width, mode)
+                output[y * outWidth + x] = if (sy < 0 || sx < 0) fill else source[sy * width + sx]
+            }
+        }
+
+        val outputBitmap = Bitmap.createBitmap(outWidth, outHeight, Bitmap.Config.ARGB_8888)
+        outputBitmap.setPixels(output, 0, outWidth, 0, 0, outWidth, outHeight)
+
+        val outputStream = ByteArrayOutputStream()
+        outputBitmap.compress(Bitmap.CompressFormat.PNG, 100, outputStream)
+        val base64String = Base64.encodeToString(outputStream.toByteArray(), Base64.NO_WRAP)
+        outputBitmap.recycle()
+
+        val processingTimeMs = (System.nanoTime() - startTimeNs) / 1_000_000.0
+
+        return Arguments.createMap().apply {
+            putString("imageBase64", base64String)
+            putInt("width", outWidth)
+            putInt("height", outHeight)
+            putArray("padding", Arguments.createArray().apply {
+                listOf(top, right, bottom, left).forEach { pushInt(it) }
+            })
+            putArray("originalSize", Arguments.createArray().apply {
+                pushInt(width)
+                pushInt(height)
+            })
+            putDouble("processingTimeMs", processingTimeMs)
+        }
+    }
+
+    /**
+     * Map an out-of-range index back into [0, length) for the padding mode; -1 for constant
+     */
+    private fun sourceIndex(index: Int, length: Int, mode: String): Int {
+        if (index in 0 until length) return index
+
+        return when (mode) {
+            "replicate" -> if (index < 0) 0 else length - 1
+            "circular" -> ((index % length) + length) % length
+            "reflect" -> {
+                if (length == 1) return 0
+                val period = 2 * (length - 1)
+                val m = ((index % period) + period) % period
+                if (m < length) m else period - m
+            }
+            else -> -1
+        }
+    }
+}
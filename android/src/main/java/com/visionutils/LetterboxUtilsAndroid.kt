@@ -45,18 +45,20 @@ object LetterboxUtilsAndroid {
         }
 
         // Calculate new dimensions
-        var newWidth = (originalWidth * scale).roundToInt()
-        var newHeight = (originalHeight * scale).roundToInt()
-
-        // Apply stride alignment if requested
-        if (autoStride) {
-            newWidth = ((newWidth + stride - 1) / stride) * stride
-            newHeight = ((newHeight + stride - 1) / stride) * stride
-        }
+        val newWidth = (originalWidth * scale).roundToInt()
+        val newHeight = (originalHeight * scale).roundToInt()
 
         // Calculate padding
-        val padW = targetWidth - newWidth
-        val padH = targetHeight - newHeight
+        var padW = targetWidth - newWidth
+        var padH = targetHeight - newHeight
+
+        // With autoStride, only pad up to the next stride multiple (minimum rectangle)
+        if (autoStride && stride > 0) {
+            padW %= stride
+            padH %= stride
+        }
+        val outputWidth = newWidth + padW
+        val outputHeight = newHeight + padH
 
         val padLeft: Int
         val padTop: Int
@@ -76,7 +78,7 @@ object LetterboxUtilsAndroid {
         }
 
         // Create output bitmap
-        val outputBitmap = Bitmap.createBitmap(targetWidth, targetHeight, Bitmap.Config.ARGB_8888)
+        val outputBitmap = Bitmap.createBitmap(outputWidth, outputHeight, Bitmap.Config.ARGB_8888)
         val canvas = Canvas(outputBitmap)
 
         // Fill with pad color
@@ -102,7 +104,7 @@ object LetterboxUtilsAndroid {
             "padding" to listOf(padLeft, padTop, padRight, padBottom),
             "offset" to listOf(padLeft, padTop),
             "originalSize" to listOf(originalWidth, originalHeight),
-            "letterboxedSize" to listOf(targetWidth, targetHeight)
+            "letterboxedSize" to listOf(outputWidth, outputHeight)
         )
 
         val endTime = System.nanoTime()
@@ -110,8 +112,8 @@ object LetterboxUtilsAndroid {
 
         return mapOf(
             "imageBase64" to base64String,
-            "width" to targetWidth,
-            "height" to targetHeight,
+            "width" to outputWidth,
+            "height" to outputHeight,
             "scale" to scale,
             "padding" to listOf(padLeft, padTop, padRight, padBottom),
             "offset" to listOf(padLeft, padTop),
@@ -32,7 +32,18 @@ object PixelProcessor {
         }
 
         // Extract pixel data as RGBA
-        val rgbaPixels = extractRgbaPixels(processedBitmap)
+        var rgbaPixels = extractRgbaPixels(processedBitmap)
+
+        // Apply preprocessing (histogram equalization, CLAHE) and filters
+        if (options.preprocessing != null || options.filters != null) {
+            rgbaPixels = ImageFiltersAndroid.apply(
+                rgbaPixels,
+                processedBitmap.width,
+                processedBitmap.height,
+                options.preprocessing,
+                options.filters
+            )
+        }
 
         // Convert to target color format
         val colorData = convertColorFormat(
@@ -454,7 +465,13 @@ object PixelProcessor {
                 return data // No normalization
             }
             NormalizationPreset.CUSTOM -> {
-                Pair(normalization.mean, normalization.std)
+                // (pixel * scale - mean) / std, with mean and std moved to
+                // the 0-255 range like the presets above
+                val scale = normalization.scale
+                Pair(
+                    FloatArray(normalization.mean.size) { normalization.mean[it] / scale },
+                    FloatArray(normalization.std.size) { normalization.std[it] / scale }
+                )
             }
         }
 
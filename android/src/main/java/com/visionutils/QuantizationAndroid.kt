@@ -73,7 +73,8 @@ object QuantizationAndroid {
         val processingTimeMs = (System.nanoTime() - startTime) / 1_000_000.0
 
         val result = Arguments.createMap()
-        result.putArray("data", intArrayToWritableArray(resultData))
+        TensorTransport.putQuantized(result, "data", resultData, dtype)
+        result.putString("dataType", dtype)
         result.putString("dtype", dtype)
         result.putString("mode", mode)
 
@@ -217,19 +218,12 @@ object QuantizationAndroid {
         val processingTimeMs = (System.nanoTime() - startTime) / 1_000_000.0
 
         val result = Arguments.createMap()
-        result.putArray("data", floatArrayToWritableArray(resultData))
+        TensorTransport.putFloats(result, "data", resultData)
+        result.putString("dataType", "float32")
         result.putDouble("processingTimeMs", processingTimeMs)
         return result
     }
 
-    private fun intArrayToWritableArray(data: IntArray): WritableArray {
-        val array = WritableNativeArray()
-        for (value in data) {
-            array.pushInt(value)
-        }
-        return array
-    }
-
     private fun floatArrayToWritableArray(data: FloatArray): WritableArray {
         val array = WritableNativeArray()
         for (value in data) {
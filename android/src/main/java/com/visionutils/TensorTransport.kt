@@ -0,0 +1,120 @@
+package com.visionutils
+
+import android.graphics.Bitmap
+import android.util.Base64
+import com.facebook.react.bridge.WritableMap
+import java.io.ByteArrayOutputStream
+import java.nio.ByteBuffer
+import java.nio.ByteOrder
+
+/**
+ * Sends large tensors to JS without boxing every value
+ *
+ * With the JSI bindings installed, values are written once into a direct
+ * ByteBuffer that is registered with the native buffer registry, and the
+ * result carries its id (`<key>BufferId`). JS wraps that same memory in an
+ * ArrayBuffer, so nothing is copied across the bridge. Without JSI (e.g.
+ * a remote debugger), the bytes are packed as base64 (`<key>Base64`).
+ *
+ * `bytes` and `pixels` sources come the other way: JS copies them once into
+ * native memory and sends a `bufferId`, which [take] reads.
+ */
+object TensorTransport {
+
+    init {
+        System.loadLibrary("visionutils")
+    }
+
+    @Volatile
+    private var installed = false
+
+    /** Install the JSI bindings into the runtime at [runtimePtr] (a jsi::Runtime*) */
+    fun install(runtimePtr: Long): Boolean {
+        if (runtimePtr == 0L) return false
+        installed = nativeInstall(runtimePtr)
+        return installed
+    }
+
+    /** Put 32-bit floats under [key] */
+    fun putFloats(map: WritableMap, key: String, values: FloatArray) {
+        val buffer = allocate(values.size * 4)
+        buffer.asFloatBuffer().put(values)
+        put(map, key, buffer)
+    }
+
+    /** Put doubles as 32-bit floats under [key] */
+    fun putFloats(map: WritableMap, key: String, values: DoubleArray) {
+        val buffer = allocate(values.size * 4)
+        val floats = buffer.asFloatBuffer()
+        values.forEach { floats.put(it.toFloat()) }
+        put(map, key, buffer)
+    }
+
+    /** Put raw bytes under [key] */
+    fun putBytes(map: WritableMap, key: String, values: ByteArray) {
+        put(map, key, allocate(values.size).put(values))
+    }
+
+    /**
+     * Put [bitmap] under the result keys for [output]: a PNG as `base64`, or
+     * straight-alpha RGBA bytes under `pixels` for a `pixels` source
+     */
+    fun putImage(map: WritableMap, bitmap: Bitmap, output: String?) {
+        if (output != "pixels") {
+            val outputStream = ByteArrayOutputStream()
+            bitmap.compress(Bitmap.CompressFormat.PNG, 100, outputStream)
+            map.putString("base64", Base64.encodeToString(outputStream.toByteArray(), Base64.NO_WRAP))
+            return
+        }
+
+        val colors = IntArray(bitmap.width * bitmap.height)
+        bitmap.getPixels(colors, 0, bitmap.width, 0, 0, bitmap.width, bitmap.height)
+        val rgba = ByteArray(colors.size * 4)
+        colors.forEachIndexed { i, color ->
+            rgba[i * 4] = (color shr 16).toByte()
+            rgba[i * 4 + 1] = (color shr 8).toByte()
+            rgba[i * 4 + 2] = color.toByte()
+            rgba[i * 4 + 3] = (color ushr 24).toByte()
+        }
+        map.putString("base64", "")
+        putBytes(map, "pixels", rgba)
+    }
+
+    /** Take the bytes JS put for a source; null when the id is unknown */
+    fun take(bufferId: Double): ByteArray? = nativeTake(bufferId)
+
+    /** Put quantized integers under [key] using the storage type of [dtype] (int8, uint8, int16) */
+    fun putQuantized(map: WritableMap, key: String, values: IntArray, dtype: String) {
+        val buffer = when (dtype) {
+            "int16" -> allocate(values.size * 2).also { buffer ->
+                values.forEach { buffer.putShort(it.coerceIn(-32768, 32767).toShort()) }
+            }
+            "uint8" -> allocate(values.size).also { buffer ->
+                values.forEach { buffer.put(it.coerceIn(0, 255).toByte()) }
+            }
+            else -> allocate(values.size).also { buffer ->
+                values.forEach { buffer.put(it.coerceIn(-128, 127).toByte()) }
+            }
+        }
+        put(map, key, buffer)
+    }
+
+    private fun allocate(byteLength: Int): ByteBuffer {
+        val buffer = if (installed) ByteBuffer.allocateDirect(byteLength) else ByteBuffer.allocate(byteLength)
+        return buffer.order(ByteOrder.LITTLE_ENDIAN)
+    }
+
+    private fun put(map: WritableMap, key: String, buffer: ByteBuffer) {
+        if (buffer.isDirect) {
+            map.putDouble("${key}BufferId", nativePut(buffer))
+        } else {
+            map.putString("${key}Base64", Base64.encodeToString(buffer.array(), Base64.NO_WRAP))
+        }
+    }
+
+    private external fun nativeInstall(runtimePtr: Long): Boolean
+
+    private external fun nativePut(buffer: ByteBuffer): Double
+
+    private external fun nativeTake(bufferId: Double): ByteArray?
+}
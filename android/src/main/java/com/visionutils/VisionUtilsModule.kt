@@ -41,6 +41,14 @@ class VisionUtilsModule(reactContext: ReactApplicationContext) :
     scope.cancel()
   }
 
+  /**
+   * Install the JSI buffer bindings (runs synchronously on the JS thread)
+   */
+  override fun install(): Boolean {
+    val runtimePtr = reactApplicationContext.javaScriptContextHolder?.get() ?: 0L
+    return TensorTransport.install(runtimePtr)
+  }
+
   /**
    * Get pixel data from a single image
    */
@@ -54,7 +62,7 @@ class VisionUtilsModule(reactContext: ReactApplicationContext) :
         val result = PixelProcessor.process(bitmap, parsedOptions)
 
         withContext(Dispatchers.Main) {
-          promise.resolve(result.toWritableMap())
+          promise.resolve(result.toBinaryWritableMap())
         }
       } catch (e: VisionUtilsException) {
         withContext(Dispatchers.Main) {
@@ -95,7 +103,7 @@ class VisionUtilsModule(reactContext: ReactApplicationContext) :
             val bitmap = ImageLoader.loadImage(context, parsedOptions.source)
             val result = PixelProcessor.process(bitmap, parsedOptions)
 
-            Pair(index, result.toWritableMap())
+            Pair(index, result.toBinaryWritableMap())
           } catch (e: VisionUtilsException) {
             val errorMap = Arguments.createMap().apply {
               putBoolean("error", true)
@@ -1009,9 +1017,14 @@ class VisionUtilsModule(reactContext: ReactApplicationContext) :
         val scoreThreshold = if (options.hasKey("scoreThreshold")) options.getDouble("scoreThreshold") else 0.0
         val maxDetections = if (options.hasKey("maxDetections")) options.getInt("maxDetections") else null
         val format = if (options.hasKey("format")) options.getString("format") ?: "xyxy" else "xyxy"
+        val mode = if (options.hasKey("mode")) options.getString("mode") ?: "greedy" else "greedy"
+        val agnostic = if (options.hasKey("agnostic")) options.getBoolean("agnostic") else true
+        val maxDetectionsPerClass = if (options.hasKey("maxDetectionsPerClass")) options.getInt("maxDetectionsPerClass") else null
+        val sigma = if (options.hasKey("sigma")) options.getDouble("sigma") else 0.5
 
         val result = BoundingBoxUtilsAndroid.nonMaxSuppression(
-          detectionsList, iouThreshold, scoreThreshold, maxDetections, format
+          detectionsList, iouThreshold, scoreThreshold, maxDetections, format,
+          mode, agnostic, maxDetectionsPerClass, sigma
         )
 
         val response = Arguments.createMap().apply {
@@ -1077,10 +1090,13 @@ class VisionUtilsModule(reactContext: ReactApplicationContext) :
         } else listOf(114, 114, 114)
 
         val scaleUp = if (options.hasKey("scaleUp")) options.getBoolean("scaleUp") else true
+        val autoStride = if (options.hasKey("autoStride")) options.getBoolean("autoStride") else false
+        val stride = if (options.hasKey("stride")) options.getDouble("stride").toInt() else 32
+        val center = if (options.hasKey("center")) options.getBoolean("center") else true
 
         val result = LetterboxUtilsAndroid.letterbox(
           bitmap, targetWidth, targetHeight, fillColor, scaleUp,
-          autoStride = false, stride = 32, center = true
+          autoStride = autoStride, stride = stride, center = center
         )
 
         // Convert to proper React Native response
@@ -1642,6 +1658,57 @@ class VisionUtilsModule(reactContext: ReactApplicationContext) :
     }
   }
 
+  /**
+   * Detect edges in an image using Sobel, Canny, or Laplacian operators
+   */
+  override fun detectEdges(source: ReadableMap, options: ReadableMap, promise: Promise) {
+    scope.launch {
+      try {
+        val context = reactApplicationContext.applicationContext
+        val imageSource = ImageSource.fromMap(source)
+        val bitmap = ImageLoader.loadImage(context, imageSource)
+
+        val result = EdgeDetectorAndroid.detectEdges(bitmap, imageSource, options)
+
+        withContext(Dispatchers.Main) {
+          promise.resolve(result)
+        }
+      } catch (e: VisionUtilsException) {
+        withContext(Dispatchers.Main) {
+          promise.reject(e.code, e.message)
+        }
+      } catch (e: Exception) {
+        withContext(Dispatchers.Main) {
+          promise.reject("EDGE_DETECTION_ERROR", e.message ?: "Failed to detect edges")
+        }
+      }
+    }
+  }
+
+  override fun padImage(source: ReadableMap, options: ReadableMap, promise: Promise) {
+    scope.launch {
+      try {
+        val context = reactApplicationContext.applicationContext
+        val imageSource = ImageSource.fromMap(source)
+        val bitmap = ImageLoader.loadImage(context, imageSource)
+
+        val result = ImagePaddingAndroid.pad(bitmap, options)
+
+        withContext(Dispatchers.Main) {
+          promise.resolve(result)
+        }
+      } catch (e: VisionUtilsException) {
+        withContext(Dispatchers.Main) {
+          promise.reject(e.code, e.message)
+        }
+      } catch (e: Exception) {
+        withContext(Dispatchers.Main) {
+          promise.reject("PADDING_ERROR", e.message ?: "Failed to pad image")
+        }
+      }
+    }
+  }
+
   companion object {
     const val NAME = NativeVisionUtilsSpec.NAME
   }
@@ -13,7 +13,9 @@ enum class ImageSourceType {
     FILE,
     BASE64,
     ASSET,
-    PHOTO_LIBRARY;
+    PHOTO_LIBRARY,
+    BYTES,
+    PIXELS;
 
     companion object {
         fun fromString(value: String): ImageSourceType {
@@ -23,6 +25,8 @@ enum class ImageSourceType {
                 "base64" -> BASE64
                 "asset" -> ASSET
                 "photolibrary", "photo_library" -> PHOTO_LIBRARY
+                "bytes" -> BYTES
+                "pixels" -> PIXELS
                 else -> throw VisionUtilsException("INVALID_SOURCE", "Unknown image source type: $value")
             }
         }
@@ -31,18 +35,53 @@ enum class ImageSourceType {
 
 /**
  * Image source with type and value
+ *
+ * width, height and pixelFormat describe raw buffers and are only set for PIXELS.
+ * BYTES and PIXELS sources sent as a `bufferId` carry their bytes in [bytes]
+ * instead of a base64 [value].
  */
 data class ImageSource(
     val type: ImageSourceType,
-    val value: String
+    val value: String,
+    val width: Int? = null,
+    val height: Int? = null,
+    val pixelFormat: String? = null,
+    val bytes: ByteArray? = null
 ) {
     companion object {
         fun fromMap(map: ReadableMap): ImageSource {
             val type = map.getString("type")
                 ?: throw VisionUtilsException("INVALID_SOURCE", "Missing source type")
-            val value = map.getString("value")
+            val sourceType = ImageSourceType.fromString(type)
+            val bytes = if (
+                (sourceType == ImageSourceType.BYTES || sourceType == ImageSourceType.PIXELS) &&
+                map.hasKey("bufferId")
+            ) {
+                TensorTransport.take(map.getDouble("bufferId"))
+                    ?: throw VisionUtilsException("INVALID_SOURCE", "Source buffer is unknown or already used")
+            } else {
+                null
+            }
+            val value = if (bytes != null) "" else map.getString("value")
                 ?: throw VisionUtilsException("INVALID_SOURCE", "Missing source value")
-            return ImageSource(ImageSourceType.fromString(type), value)
+            if (sourceType != ImageSourceType.PIXELS) {
+                return ImageSource(sourceType, value, bytes = bytes)
+            }
+
+            if (!map.hasKey("width") || !map.hasKey("height") || !map.hasKey("format")) {
+                throw VisionUtilsException(
+                    "INVALID_SOURCE",
+                    "Pixels source requires width, height and format"
+                )
+            }
+            return ImageSource(
+                sourceType,
+                value,
+                map.getInt("width"),
+                map.getInt("height"),
+                map.getString("format"),
+                bytes
+            )
         }
     }
 }
@@ -216,7 +255,9 @@ enum class NormalizationPreset {
 data class Normalization(
     val preset: NormalizationPreset = NormalizationPreset.SCALE,
     val mean: FloatArray = floatArrayOf(0f, 0f, 0f),
-    val std: FloatArray = floatArrayOf(1f, 1f, 1f)
+    val std: FloatArray = floatArrayOf(1f, 1f, 1f),
+    /** Applied to 0-255 values before CUSTOM mean/std, as on iOS */
+    val scale: Float = 1f / 255f
 ) {
     companion object {
         fun fromMap(map: ReadableMap?): Normalization {
@@ -240,7 +281,13 @@ data class Normalization(
                 floatArrayOf(1f, 1f, 1f)
             }
 
-            return Normalization(preset, mean, std)
+            val scale = if (map.hasKey("scale")) {
+                map.getDouble("scale").toFloat()
+            } else {
+                1f / 255f
+            }
+
+            return Normalization(preset, mean, std, scale)
         }
     }
 
@@ -250,13 +297,15 @@ data class Normalization(
         other as Normalization
         return preset == other.preset &&
                mean.contentEquals(other.mean) &&
-               std.contentEquals(other.std)
+               std.contentEquals(other.std) &&
+               scale == other.scale
     }
 
     override fun hashCode(): Int {
         var result = preset.hashCode()
         result = 31 * result + mean.contentHashCode()
         result = 31 * result + std.contentHashCode()
+        result = 31 * result + scale.hashCode()
         return result
     }
 }
@@ -303,6 +352,78 @@ enum class OutputFormat {
     }
 }
 
+/**
+ * CLAHE options
+ */
+data class ClaheOptions(
+    val clipLimit: Float = 2f,
+    val tileSize: Int = 8
+) {
+    companion object {
+        fun fromMap(map: ReadableMap): ClaheOptions {
+            return ClaheOptions(
+                clipLimit = if (map.hasKey("clipLimit")) map.getDouble("clipLimit").toFloat() else 2f,
+                tileSize = if (map.hasKey("tileSize")) map.getInt("tileSize") else 8
+            )
+        }
+    }
+}
+
+/**
+ * Preprocessing options (applied before filters and normalization)
+ */
+data class PreprocessingOptions(
+    val histogramEqualization: Boolean = false,
+    val clahe: ClaheOptions? = null
+) {
+    companion object {
+        fun fromMap(map: ReadableMap?): PreprocessingOptions? {
+            if (map == null) return null
+            return PreprocessingOptions(
+                histogramEqualization = map.hasKey("histogramEqualization") && map.getBoolean("histogramEqualization"),
+                clahe = if (map.hasKey("clahe")) map.getMap("clahe")?.let { ClaheOptions.fromMap(it) } else null
+            )
+        }
+    }
+}
+
+/**
+ * Denoise options
+ */
+data class DenoiseOptions(
+    val strength: Float = 0.5f,
+    val type: String = "bilateral"
+) {
+    companion object {
+        fun fromMap(map: ReadableMap): DenoiseOptions {
+            return DenoiseOptions(
+                strength = if (map.hasKey("strength")) map.getDouble("strength").toFloat() else 0.5f,
+                type = if (map.hasKey("type")) map.getString("type") ?: "bilateral" else "bilateral"
+            )
+        }
+    }
+}
+
+/**
+ * Image filter options (applied after preprocessing, before normalization)
+ */
+data class FilterOptions(
+    val sharpen: Float? = null,
+    val denoise: DenoiseOptions? = null,
+    val medianFilter: Int? = null
+) {
+    companion object {
+        fun fromMap(map: ReadableMap?): FilterOptions? {
+            if (map == null) return null
+            return FilterOptions(
+                sharpen = if (map.hasKey("sharpen")) map.getDouble("sharpen").toFloat() else null,
+                denoise = if (map.hasKey("denoise")) map.getMap("denoise")?.let { DenoiseOptions.fromMap(it) } else null,
+                medianFilter = if (map.hasKey("medianFilter")) map.getInt("medianFilter") else null
+            )
+        }
+    }
+}
+
 /**
  * Complete options for getPixelData
  */
@@ -313,7 +434,9 @@ data class GetPixelDataOptions(
     val roi: Roi? = null,
     val normalization: Normalization = Normalization(),
     val dataLayout: DataLayout = DataLayout.HWC,
-    val outputFormat: OutputFormat = OutputFormat.ARRAY
+    val outputFormat: OutputFormat = OutputFormat.ARRAY,
+    val preprocessing: PreprocessingOptions? = null,
+    val filters: FilterOptions? = null
 ) {
     companion object {
         fun fromMap(map: ReadableMap): GetPixelDataOptions {
@@ -359,6 +482,18 @@ data class GetPixelDataOptions(
                 OutputFormat.ARRAY
             }
 
+            val preprocessing = if (map.hasKey("preprocessing")) {
+                PreprocessingOptions.fromMap(map.getMap("preprocessing"))
+            } else {
+                null
+            }
+
+            val filters = if (map.hasKey("filters")) {
+                FilterOptions.fromMap(map.getMap("filters"))
+            } else {
+                null
+            }
+
             return GetPixelDataOptions(
                 source = source,
                 colorFormat = colorFormat,
@@ -366,7 +501,9 @@ data class GetPixelDataOptions(
                 roi = roi,
                 normalization = normalization,
                 dataLayout = dataLayout,
-                outputFormat = outputFormat
+                outputFormat = outputFormat,
+                preprocessing = preprocessing,
+                filters = filters
             )
         }
     }
@@ -421,6 +558,25 @@ data class VisionUtilsResult(
         return map
     }
 
+    /**
+     * Same as toWritableMap, with data sent as a float32 buffer (TensorTransport)
+     */
+    fun toBinaryWritableMap(): WritableMap {
+        val map = Arguments.createMap()
+        TensorTransport.putFloats(map, "data", data)
+        map.putString("dataType", "float32")
+        map.putInt("width", width)
+        map.putInt("height", height)
+        map.putInt("channels", channels)
+        map.putString("colorFormat", colorFormat.name.lowercase())
+        map.putString("dataLayout", dataLayout.name.lowercase())
+        val shapeArray = Arguments.createArray()
+        shape.forEach { shapeArray.pushInt(it) }
+        map.putArray("shape", shapeArray)
+        map.putDouble("processingTimeMs", processingTimeMs)
+        return map
+    }
+
     override fun equals(other: Any?): Boolean {
         if (this === other) return true
         if (javaClass != other?.javaClass) return false
@@ -0,0 +1,118 @@
+#include "VisionUtilsBuffers.h"
+
+#include <atomic>
+#include <mutex>
+#include <unordered_map>
+#include <vector>
+
+namespace visionutils {
+
+using namespace facebook;
+
+namespace {
+
+std::mutex registryMutex;
+std::unordered_map<double, std::shared_ptr<jsi::MutableBuffer>> buffers;
+double nextId = 1;
+std::atomic<bool> installed{false};
+
+/** Bytes copied out of a JS ArrayBuffer, owned by native code */
+class VectorBuffer : public jsi::MutableBuffer {
+ public:
+  VectorBuffer(const uint8_t *data, size_t size) : bytes_(data, data + size) {}
+
+  size_t size() const override {
+    return bytes_.size();
+  }
+
+  uint8_t *data() override {
+    return bytes_.data();
+  }
+
+ private:
+  std::vector<uint8_t> bytes_;
+};
+
+} // namespace
+
+double BufferRegistry::put(std::shared_ptr<jsi::MutableBuffer> buffer) {
+  std::lock_guard<std::mutex> lock(registryMutex);
+  double id = nextId++;
+  buffers.emplace(id, std::move(buffer));
+  return id;
+}
+
+std::shared_ptr<jsi::MutableBuffer> BufferRegistry::take(double id) {
+  std::lock_guard<std::mutex> lock(registryMutex);
+  auto it = buffers.find(id);
+  if (it == buffers.end()) {
+    return nullptr;
+  }
+  auto buffer = std::move(it->second);
+  buffers.erase(it);
+  return buffer;
+}
+
+void BufferRegistry::install(jsi::Runtime &runtime) {
+  auto name = jsi::PropNameID::forAscii(runtime, "__visionUtilsTakeBuffer");
+  auto takeBuffer = jsi::Function::createFromHostFunction(
+      runtime,
+      name,
+      1,
+      [](jsi::Runtime &rt,
+         const jsi::Value &,
+         const jsi::Value *args,
+         size_t count) -> jsi::Value {
+        if (count < 1 || !args[0].isNumber()) {
+          throw jsi::JSError(rt, "__visionUtilsTakeBuffer expects a buffer id");
+        }
+        auto buffer = take(args[0].asNumber());
+        if (!buffer) {
+          throw jsi::JSError(rt, "Native buffer is unknown or already taken");
+        }
+        // The ArrayBuffer keeps the native memory alive; nothing is copied
+        return jsi::ArrayBuffer(rt, std::move(buffer));
+      });
+  runtime.global().setProperty(runtime, name, std::move(takeBuffer));
+
+  auto putName = jsi::PropNameID::forAscii(runtime, "__visionUtilsPutBuffer");
+  auto putBuffer = jsi::Function::createFromHostFunction(
+      runtime,
+      putName,
+      3,
+      [](jsi::Runtime &rt,
+         const jsi::Value &,
+         const jsi::Value *args,
+         size_t count) -> jsi::Value {
+        if (count < 3 || !args[0].isObject() || !args[1].isNumber() ||
+            !args[2].isNumber()) {
+          throw jsi::JSError(
+              rt,
+              "__visionUtilsPutBuffer expects (buffer, byteOffset, byteLength)");
+        }
+        auto object = args[0].asObject(rt);
+        if (!object.isArrayBuffer(rt)) {
+          throw jsi::JSError(rt, "__visionUtilsPutBuffer expects an ArrayBuffer");
+        }
+        auto arrayBuffer = object.getArrayBuffer(rt);
+        double offset = args[1].asNumber();
+        double length = args[2].asNumber();
+        if (offset < 0 || length < 0 ||
+            offset + length > static_cast<double>(arrayBuffer.size(rt))) {
+          throw jsi::JSError(rt, "__visionUtilsPutBuffer range is out of bounds");
+        }
+        // Native code reads the bytes on another thread, after this call
+        // returns, so they are copied out of the JS heap once
+        return put(std::make_shared<VectorBuffer>(
+            arrayBuffer.data(rt) + static_cast<size_t>(offset),
+            static_cast<size_t>(length)));
+      });
+  runtime.global().setProperty(runtime, putName, std::move(putBuffer));
+  installed = true;
+}
+
+bool BufferRegistry::isInstalled() {
+  return installed;
+}
+
+} // namespace visionutils
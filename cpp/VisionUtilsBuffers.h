@@ -0,0 +1,37 @@
+#pragma once
+
+#include <jsi/jsi.h>
+
+#include <memory>
+
+namespace visionutils {
+
+/**
+ * Hands native tensor buffers to JS as ArrayBuffers without copying
+ *
+ * Native code registers a result buffer and returns its id in the result
+ * object (`dataBufferId`, `tensorBufferId`). JS calls the installed
+ * `__visionUtilsTakeBuffer(id)` global, which wraps the same memory in an
+ * ArrayBuffer and drops the registry's reference. The memory is freed when
+ * the ArrayBuffer is garbage collected.
+ *
+ * The other way, `__visionUtilsPutBuffer(buffer, byteOffset, byteLength)`
+ * copies JS bytes (a `bytes` or `pixels` source) once into native memory and
+ * returns an id that native code takes when it parses the source.
+ */
+class BufferRegistry {
+ public:
+  /** Register a buffer and return the id JS takes it with */
+  static double put(std::shared_ptr<facebook::jsi::MutableBuffer> buffer);
+
+  /** Remove a buffer from the registry; null when the id is unknown */
+  static std::shared_ptr<facebook::jsi::MutableBuffer> take(double id);
+
+  /** Install the `__visionUtilsTakeBuffer` and `__visionUtilsPutBuffer` globals */
+  static void install(facebook::jsi::Runtime &runtime);
+
+  /** Whether a runtime can take buffers; otherwise native packs base64 */
+  static bool isInstalled();
+};
+
+} // namespace visionutils
@@ -912,7 +912,9 @@ const App: React.FC = () => {
         }
       );
 
-      const sampleValues = result.tensor.slice(0, 3).map((v) => v.toFixed(3));
+      const sampleValues = Array.from(result.tensor.slice(0, 3), (v) =>
+        v.toFixed(3)
+      );
 
       Alert.alert(
         'Camera Frame Processing',
@@ -197,14 +197,31 @@ public class BoundingBoxUtils: NSObject {
 
     // MARK: - Non-Maximum Suppression
 
+    /// Supported NMS modes
+    static let nmsModes: Set<String> = [
+        "greedy", "soft-linear", "soft-gaussian", "diou", "weighted-boxes-fusion"
+    ]
+
     /// Apply NMS to filter overlapping detections
+    ///
+    /// - `greedy` / `diou` drop boxes whose IoU (or DIoU) with a kept box exceeds the threshold
+    /// - `soft-linear` / `soft-gaussian` decay overlapping scores instead of dropping them
+    /// - `weighted-boxes-fusion` merges each cluster into a score-weighted average box
+    ///
+    /// Unless `agnostic` is set, boxes only suppress boxes of the same class
+    /// (`classIndices`, -1 for unclassified).
     @objc
     public static func nonMaxSuppression(
         boxes: [[Double]],
         scores: [Double],
+        classIndices: [Int],
         iouThreshold: Double,
         scoreThreshold: Double,
         maxDetections: Int,
+        maxDetectionsPerClass: Int,
+        mode: String,
+        agnostic: Bool,
+        sigma: Double,
         format: String
     ) throws -> [String: Any] {
         let startTime = CFAbsoluteTimeGetCurrent()
@@ -212,6 +229,12 @@ public class BoundingBoxUtils: NSObject {
         guard boxes.count == scores.count else {
             throw VisionUtilsError.invalidInput("Boxes and scores must have same length")
         }
+        guard classIndices.isEmpty || classIndices.count == boxes.count else {
+            throw VisionUtilsError.invalidInput("Class indices and boxes must have same length")
+        }
+        guard nmsModes.contains(mode) else {
+            throw VisionUtilsError.invalidInput("Unknown NMS mode: \(mode)")
+        }
 
         let totalBefore = boxes.count
 
@@ -223,48 +246,71 @@ public class BoundingBoxUtils: NSObject {
             xyxyBoxes = boxes
         }
 
-        // Filter by score threshold and sort by score descending
-        var candidates: [(index: Int, box: [Double], score: Double)] = []
-        for i in 0..<boxes.count {
-            if scores[i] >= scoreThreshold {
-                candidates.append((i, xyxyBoxes[i], scores[i]))
+        // Filter by score threshold, then split into per-class groups
+        let candidates = (0..<boxes.count).filter { scores[$0] >= scoreThreshold }
+        var groups: [[Int]] = []
+        if agnostic || classIndices.isEmpty {
+            groups = [candidates]
+        } else {
+            var groupIndex: [Int: Int] = [:]
+            for index in candidates {
+                let classIndex = classIndices[index]
+                if let g = groupIndex[classIndex] {
+                    groups[g].append(index)
+                } else {
+                    groupIndex[classIndex] = groups.count
+                    groups.append([index])
+                }
             }
         }
-        candidates.sort { $0.score > $1.score }
-
-        // Apply NMS
-        var keepIndices: [Int] = []
-        var keepDetections: [[String: Any]] = []
-        var suppressed = Set<Int>()
 
-        for candidate in candidates {
-            if suppressed.contains(candidate.index) {
-                continue
-            }
-            if keepIndices.count >= maxDetections {
-                break
+        let perClassLimit = maxDetectionsPerClass > 0
+            ? min(maxDetectionsPerClass, maxDetections)
+            : maxDetections
+
+        var kept: [NMSCandidate] = []
+        for group in groups {
+            let groupKept: [NMSCandidate]
+            switch mode {
+            case "soft-linear", "soft-gaussian":
+                groupKept = softSuppress(
+                    group, boxes: xyxyBoxes, scores: scores,
+                    iouThreshold: iouThreshold, scoreThreshold: scoreThreshold,
+                    gaussian: mode == "soft-gaussian", sigma: sigma, limit: perClassLimit
+                )
+            case "weighted-boxes-fusion":
+                groupKept = fuseBoxes(
+                    group, boxes: xyxyBoxes, scores: scores,
+                    iouThreshold: iouThreshold, limit: perClassLimit
+                )
+            default:
+                groupKept = hardSuppress(
+                    group, boxes: xyxyBoxes, scores: scores,
+                    iouThreshold: iouThreshold, useDIoU: mode == "diou", limit: perClassLimit
+                )
             }
+            kept.append(contentsOf: groupKept)
+        }
 
+        // Merge classes back into a single score-ordered list
+        kept.sort { $0.score != $1.score ? $0.score > $1.score : $0.index < $1.index }
+        if kept.count > maxDetections {
+            kept = Array(kept.prefix(maxDetections))
+        }
+
+        var keepIndices: [Int] = []
+        var keepDetections: [[String: Any]] = []
+        for candidate in kept {
+            // Fused boxes are new; every other mode returns the input box untouched
+            let box = mode == "weighted-boxes-fusion"
+                ? try convertBoxFormat(boxes: [candidate.box], sourceFormat: "xyxy", targetFormat: format)[0]
+                : boxes[candidate.index]
             keepIndices.append(candidate.index)
             keepDetections.append([
-                "box": boxes[candidate.index],
+                "box": box,
                 "score": candidate.score,
                 "index": candidate.index
             ])
-
-            // Suppress overlapping boxes
-            for other in candidates {
-                if !suppressed.contains(other.index) && other.index != candidate.index {
-                    let iouResult = try calculateIoU(
-                        box1: candidate.box,
-                        box2: other.box,
-                        format: "xyxy"
-                    )
-                    if let iou = iouResult["iou"], iou > iouThreshold {
-                        suppressed.insert(other.index)
-                    }
-                }
-            }
         }
 
         let endTime = CFAbsoluteTimeGetCurrent()
@@ -279,4 +325,150 @@ public class BoundingBoxUtils: NSObject {
             "processingTimeMs": processingTimeMs
         ]
     }
+
+    // MARK: - NMS Helpers
+
+    private struct NMSCandidate {
+        let index: Int
+        let box: [Double]
+        let score: Double
+    }
+
+    /// IoU of two xyxy boxes
+    private static func iou(_ a: [Double], _ b: [Double]) -> Double {
+        let intersectionWidth = max(0, min(a[2], b[2]) - max(a[0], b[0]))
+        let intersectionHeight = max(0, min(a[3], b[3]) - max(a[1], b[1]))
+        let intersection = intersectionWidth * intersectionHeight
+        let union = (a[2] - a[0]) * (a[3] - a[1]) + (b[2] - b[0]) * (b[3] - b[1]) - intersection
+        return union > 0 ? intersection / union : 0.0
+    }
+
+    /// Distance-IoU: IoU minus the squared center distance over the enclosing box diagonal
+    private static func diou(_ a: [Double], _ b: [Double]) -> Double {
+        let dx = (a[0] + a[2] - b[0] - b[2]) / 2
+        let dy = (a[1] + a[3] - b[1] - b[3]) / 2
+        let cw = max(a[2], b[2]) - min(a[0], b[0])
+        let ch = max(a[3], b[3]) - min(a[1], b[1])
+        let diagonal = cw * cw + ch * ch
+        return iou(a, b) - (diagonal > 0 ? (dx * dx + dy * dy) / diagonal : 0)
+    }
+
+    private static func hardSuppress(
+        _ group: [Int],
+        boxes: [[Double]],
+        scores: [Double],
+        iouThreshold: Double,
+        useDIoU: Bool,
+        limit: Int
+    ) -> [NMSCandidate] {
+        let order = group.sorted { scores[$0] > scores[$1] }
+        var kept: [NMSCandidate] = []
+        var suppressed = Set<Int>()
+
+        for index in order {
+            if suppressed.contains(index) { continue }
+            if kept.count >= limit { break }
+
+            kept.append(NMSCandidate(index: index, box: boxes[index], score: scores[index]))
+            for other in order where other != index && !suppressed.contains(other) {
+                let overlap = useDIoU
+                    ? diou(boxes[index], boxes[other])
+                    : iou(boxes[index], boxes[other])
+                if overlap > iouThreshold {
+                    suppressed.insert(other)
+                }
+            }
+        }
+        return kept
+    }
+
+    private static func softSuppress(
+        _ group: [Int],
+        boxes: [[Double]],
+        scores: [Double],
+        iouThreshold: Double,
+        scoreThreshold: Double,
+        gaussian: Bool,
+        sigma: Double,
+        limit: Int
+    ) -> [NMSCandidate] {
+        var pool = group.map { NMSCandidate(index: $0, box: boxes[$0], score: scores[$0]) }
+        var kept: [NMSCandidate] = []
+
+        while !pool.isEmpty && kept.count < limit {
+            var best = 0
+            for i in 1..<pool.count where pool[i].score > pool[best].score {
+                best = i
+            }
+            let top = pool.remove(at: best)
+            kept.append(top)
+
+            // Decay the remaining scores by their overlap with the kept box
+            pool = pool.compactMap { candidate in
+                let overlap = iou(top.box, candidate.box)
+                let decay: Double
+                if gaussian {
+                    decay = exp(-(overlap * overlap) / sigma)
+                } else {
+                    decay = overlap > iouThreshold ? 1 - overlap : 1
+                }
+                let score = candidate.score * decay
+                return score >= scoreThreshold
+                    ? NMSCandidate(index: candidate.index, box: candidate.box, score: score)
+                    : nil
+            }
+        }
+        return kept
+    }
+
+    private static func fuseBoxes(
+        _ group: [Int],
+        boxes: [[Double]],
+        scores: [Double],
+        iouThreshold: Double,
+        limit: Int
+    ) -> [NMSCandidate] {
+        let order = group.sorted { scores[$0] > scores[$1] }
+        var members: [[Int]] = []
+        var fused: [[Double]] = []
+
+        for index in order {
+            // Match against the best-overlapping fused box so far
+            var match = -1
+            var bestIoU = iouThreshold
+            for (c, box) in fused.enumerated() {
+                let overlap = iou(box, boxes[index])
+                if overlap > bestIoU {
+                    bestIoU = overlap
+                    match = c
+                }
+            }
+
+            if match < 0 {
+                members.append([index])
+                fused.append(boxes[index])
+                continue
+            }
+
+            members[match].append(index)
+            var weighted = [0.0, 0.0, 0.0, 0.0]
+            var totalScore = 0.0
+            for member in members[match] {
+                for k in 0..<4 {
+                    weighted[k] += boxes[member][k] * scores[member]
+                }
+                totalScore += scores[member]
+            }
+            fused[match] = totalScore > 0 ? weighted.map { $0 / totalScore } : boxes[members[match][0]]
+        }
+
+        let kept = zip(members, fused).map { cluster, box in
+            NMSCandidate(
+                index: cluster[0],
+                box: box,
+                score: cluster.reduce(0.0) { $0 + scores[$1] } / Double(cluster.count)
+            )
+        }
+        return Array(kept.sorted { $0.score > $1.score }.prefix(limit))
+    }
 }
@@ -140,7 +140,7 @@ class CameraFrameProcessor {
         let processingTime = (CFAbsoluteTimeGetCurrent() - startTime) * 1000.0
 
         return [
-            "tensor": tensorData,
+            "tensorBuffer": TensorTransport.pack(tensorData),
             "shape": [outputHeight, outputWidth, channelCount],
             "width": outputWidth,
             "height": outputHeight,
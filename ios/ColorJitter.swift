@@ -81,25 +81,16 @@ class ColorJitter {
             currentImage = try adjustHue(currentImage, value: appliedHue)
         }
 
-        // Convert to base64
-        guard let pngData = currentImage.pngData() else {
-            throw VisionUtilsError.processingError("Failed to encode color-jittered image")
-        }
-
-        let base64String = pngData.base64EncodedString()
-        let processingTimeMs = (CFAbsoluteTimeGetCurrent() - startTime) * 1000
-
-        return [
-            "base64": base64String,
-            "width": Int(currentImage.size.width * currentImage.scale),
-            "height": Int(currentImage.size.height * currentImage.scale),
-            "appliedBrightness": appliedBrightness,
-            "appliedContrast": appliedContrast,
-            "appliedSaturation": appliedSaturation,
-            "appliedHue": appliedHue,
-            "seed": effectiveSeed,
-            "processingTimeMs": processingTimeMs
-        ]
+        var result = try TensorTransport.image(currentImage, output: options["output"] as? String)
+        result["width"] = Int(currentImage.size.width * currentImage.scale)
+        result["height"] = Int(currentImage.size.height * currentImage.scale)
+        result["appliedBrightness"] = appliedBrightness
+        result["appliedContrast"] = appliedContrast
+        result["appliedSaturation"] = appliedSaturation
+        result["appliedHue"] = appliedHue
+        result["seed"] = effectiveSeed
+        result["processingTimeMs"] = (CFAbsoluteTimeGetCurrent() - startTime) * 1000
+        return result
     }
 
     // MARK: - Range Parsing
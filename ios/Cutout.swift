@@ -53,6 +53,7 @@ class Cutout {
         let fillMode = (options["fillMode"] as? String) ?? "constant"
         let fillValue = parseFillValue(options["fillValue"])
         let probability = (options["probability"] as? Double) ?? 1.0
+        let output = options["output"] as? String
 
         // Setup random number generator
         let requestedSeed = options["seed"] as? Int
@@ -70,21 +71,15 @@ class Cutout {
 
         if !shouldApply || numCutouts == 0 {
             // Return original image without cutouts
-            guard let pngData = image.pngData() else {
-                throw VisionUtilsError.processingError("Failed to encode image")
-            }
-            let processingTimeMs = (CFAbsoluteTimeGetCurrent() - startTime) * 1000
-
-            return [
-                "base64": pngData.base64EncodedString(),
-                "width": width,
-                "height": height,
-                "applied": false,
-                "numCutouts": 0,
-                "regions": regions,
-                "seed": effectiveSeed,
-                "processingTimeMs": processingTimeMs
-            ]
+            var result = try TensorTransport.image(image, output: output)
+            result["width"] = width
+            result["height"] = height
+            result["applied"] = false
+            result["numCutouts"] = 0
+            result["regions"] = regions
+            result["seed"] = effectiveSeed
+            result["processingTimeMs"] = (CFAbsoluteTimeGetCurrent() - startTime) * 1000
+            return result
         }
 
         // Create mutable image context
@@ -164,22 +159,15 @@ class Cutout {
         }
         UIGraphicsEndImageContext()
 
-        guard let pngData = resultImage.pngData() else {
-            throw VisionUtilsError.processingError("Failed to encode cutout image")
-        }
-
-        let processingTimeMs = (CFAbsoluteTimeGetCurrent() - startTime) * 1000
-
-        return [
-            "base64": pngData.base64EncodedString(),
-            "width": width,
-            "height": height,
-            "applied": true,
-            "numCutouts": regions.count,
-            "regions": regions,
-            "seed": effectiveSeed,
-            "processingTimeMs": processingTimeMs
-        ]
+        var result = try TensorTransport.image(resultImage, output: output)
+        result["width"] = width
+        result["height"] = height
+        result["applied"] = true
+        result["numCutouts"] = regions.count
+        result["regions"] = regions
+        result["seed"] = effectiveSeed
+        result["processingTimeMs"] = (CFAbsoluteTimeGetCurrent() - startTime) * 1000
+        return result
     }
 
     // MARK: - Private Helpers
@@ -0,0 +1,276 @@
+import Foundation
+import UIKit
+
+/// Handles edge detection using Sobel, Canny and Laplacian operators
+class EdgeDetector {
+
+    /// Result of edge detection
+    struct EdgeResult {
+        let data: [Float]          // Edge map in [0, 1], HWC with a single channel
+        let width: Int
+        let height: Int
+        let type: String
+        let base64: String?
+        let processingTimeMs: Double
+
+        func toDictionary() -> [String: Any] {
+            var dict: [String: Any] = [
+                "width": width,
+                "height": height,
+                "channels": 1,
+                "type": type,
+                "processingTimeMs": processingTimeMs
+            ]
+            if let base64 = base64 {
+                dict["base64"] = base64
+            } else {
+                dict["data"] = data
+            }
+            return dict
+        }
+    }
+
+    /// Detect edges in an image
+    /// - Parameters:
+    ///   - image: The input UIImage
+    ///   - source: Source dictionary, used to run the image through the pixel pipeline
+    ///   - options: Edge detection options (type, thresholds, resize, roi, outputFormat)
+    /// - Returns: EdgeResult containing the edge map
+    static func detectEdges(
+        image: UIImage,
+        source: [String: Any],
+        options: [String: Any]
+    ) throws -> EdgeResult {
+        let startTime = CFAbsoluteTimeGetCurrent()
+
+        let type = options["type"] as? String ?? "sobel"
+        let lowThreshold = Float(options["lowThreshold"] as? Double ?? 50.0)
+        let highThreshold = Float(options["highThreshold"] as? Double ?? 150.0)
+        let outputFormat = options["outputFormat"] as? String ?? "tensor"
+
+        // Run through the pixel pipeline so resize/roi match getPixelData exactly
+        var pixelOptions: [String: Any] = [
+            "source": source,
+            "colorFormat": "grayscale",
+            "normalization": ["preset": "raw"],
+            "dataLayout": "hwc"
+        ]
+        if let resize = options["resize"] { pixelOptions["resize"] = resize }
+        if let roi = options["roi"] { pixelOptions["roi"] = roi }
+
+        let grayscale = try PixelProcessor.process(
+            image: image,
+            options: try GetPixelDataOptions(from: pixelOptions)
+        )
+        let width = grayscale.width
+        let height = grayscale.height
+
+        let edges: [Float]
+        switch type {
+        case "sobel":
+            edges = sobel(grayscale.data, width: width, height: height)
+        case "laplacian":
+            edges = laplacian(grayscale.data, width: width, height: height)
+        case "canny":
+            edges = canny(
+                grayscale.data,
+                width: width,
+                height: height,
+                lowThreshold: lowThreshold,
+                highThreshold: highThreshold
+            )
+        default:
+            throw VisionUtilsError.invalidInput("Unknown edge detection type: \(type)")
+        }
+
+        var base64: String? = nil
+        if outputFormat == "base64" {
+            let image = try TensorConverter.tensorToImage(
+                data: edges,
+                width: width,
+                height: height,
+                options: ["channels": 1, "dataLayout": "hwc", "denormalize": true]
+            )
+            base64 = image["base64"] as? String
+        }
+
+        let processingTimeMs = (CFAbsoluteTimeGetCurrent() - startTime) * 1000
+
+        return EdgeResult(
+            data: edges,
+            width: width,
+            height: height,
+            type: type,
+            base64: base64,
+            processingTimeMs: processingTimeMs
+        )
+    }
+
+    // MARK: - Operators
+
+    /// Sobel gradient magnitude, clamped to [0, 255] and scaled to [0, 1]
+    private static func sobel(_ gray: [Float], width: Int, height: Int) -> [Float] {
+        let (gx, gy) = gradients(gray, width: width, height: height)
+        var edges = [Float](repeating: 0, count: width * height)
+        for i in 0..<(width * height) {
+            edges[i] = min(255, (gx[i] * gx[i] + gy[i] * gy[i]).squareRoot()) / 255
+        }
+        return edges
+    }
+
+    /// Absolute 4-neighbour Laplacian response, clamped to [0, 255] and scaled to [0, 1]
+    private static func laplacian(_ gray: [Float], width: Int, height: Int) -> [Float] {
+        var edges = [Float](repeating: 0, count: width * height)
+        for y in 0..<height {
+            for x in 0..<width {
+                let center = pixel(gray, x, y, width, height)
+                let response = pixel(gray, x, y - 1, width, height)
+                    + pixel(gray, x, y + 1, width, height)
+                    + pixel(gray, x - 1, y, width, height)
+                    + pixel(gray, x + 1, y, width, height)
+                    - 4 * center
+                edges[y * width + x] = min(255, abs(response)) / 255
+            }
+        }
+        return edges
+    }
+
+    /// Canny edge detection: Gaussian blur, Sobel gradients, non-maximum
+    /// suppression and hysteresis thresholding. Output is binary {0, 1}.
+    private static func canny(
+        _ gray: [Float],
+        width: Int,
+        height: Int,
+        lowThreshold: Float,
+        highThreshold: Float
+    ) -> [Float] {
+        let blurred = gaussianBlur(gray, width: width, height: height)
+        let (gx, gy) = gradients(blurred, width: width, height: height)
+        let count = width * height
+
+        var magnitude = [Float](repeating: 0, count: count)
+        for i in 0..<count {
+            magnitude[i] = (gx[i] * gx[i] + gy[i] * gy[i]).squareRoot()
+        }
+
+        // Non-maximum suppression along the quantized gradient direction
+        var suppressed = [Float](repeating: 0, count: count)
+        for y in 1..<max(1, height - 1) {
+            for x in 1..<max(1, width - 1) {
+                let idx = y * width + x
+                let mag = magnitude[idx]
+                if mag == 0 { continue }
+
+                // Image y axis points down, so 45° runs towards the bottom-right neighbour
+                var angle = atan2(gy[idx], gx[idx]) * 180 / .pi
+                if angle < 0 { angle += 180 }
+
+                let (n1, n2): (Float, Float)
+                if angle < 22.5 || angle >= 157.5 {
+                    n1 = magnitude[idx - 1]
+                    n2 = magnitude[idx + 1]
+                } else if angle < 67.5 {
+                    n1 = magnitude[idx - width - 1]
+                    n2 = magnitude[idx + width + 1]
+                } else if angle < 112.5 {
+                    n1 = magnitude[idx - width]
+                    n2 = magnitude[idx + width]
+                } else {
+                    n1 = magnitude[idx - width + 1]
+                    n2 = magnitude[idx + width - 1]
+                }
+
+                if mag >= n1 && mag >= n2 {
+                    suppressed[idx] = mag
+                }
+            }
+        }
+
+        // Hysteresis: keep weak edges connected to strong edges
+        var edges = [Float](repeating: 0, count: count)
+        var stack: [Int] = []
+        for i in 0..<count where suppressed[i] >= highThreshold {
+            edges[i] = 1
+            stack.append(i)
+        }
+
+        while let idx = stack.popLast() {
+            let x = idx % width
+            let y = idx / width
+            for dy in -1...1 {
+                for dx in -1...1 {
+                    let nx = x + dx
+                    let ny = y + dy
+                    if nx < 0 || ny < 0 || nx >= width || ny >= height { continue }
+                    let nIdx = ny * width + nx
+                    if edges[nIdx] == 0 && suppressed[nIdx] >= lowThreshold {
+                        edges[nIdx] = 1
+                        stack.append(nIdx)
+                    }
+                }
+            }
+        }
+
+        return edges
+    }
+
+    // MARK: - Private Helpers
+
+    /// Sobel gradients with replicated borders
+    private static func gradients(_ gray: [Float], width: Int, height: Int) -> ([Float], [Float]) {
+        var gx = [Float](repeating: 0, count: width * height)
+        var gy = [Float](repeating: 0, count: width * height)
+
+        for y in 0..<height {
+            for x in 0..<width {
+                let tl = pixel(gray, x - 1, y - 1, width, height)
+                let t = pixel(gray, x, y - 1, width, height)
+                let tr = pixel(gray, x + 1, y - 1, width, height)
+                let l = pixel(gray, x - 1, y, width, height)
+                let r = pixel(gray, x + 1, y, width, height)
+                let bl = pixel(gray, x - 1, y + 1, width, height)
+                let b = pixel(gray, x, y + 1, width, height)
+                let br = pixel(gray, x + 1, y + 1, width, height)
+
+                let idx = y * width + x
+                gx[idx] = (tr + 2 * r + br) - (tl + 2 * l + bl)
+                gy[idx] = (bl + 2 * b + br) - (tl + 2 * t + tr)
+            }
+        }
+
+        return (gx, gy)
+    }
+
+    /// 5x5 Gaussian blur (sigma 1.4) with replicated borders
+    private static func gaussianBlur(_ gray: [Float], width: Int, height: Int) -> [Float] {
+        let kernel: [Float] = [2, 4, 5, 4, 2,
+                               4, 9, 12, 9, 4,
+                               5, 12, 15, 12, 5,
+                               4, 9, 12, 9, 4,
+                               2, 4, 5, 4, 2]
+        let kernelSum: Float = 159
+        var output = [Float](repeating: 0, count: width * height)
+
+        for y in 0..<height {
+            for x in 0..<width {
+                var sum: Float = 0
+                for ky in -2...2 {
+                    for kx in -2...2 {
+                        sum += kernel[(ky + 2) * 5 + (kx + 2)] * pixel(gray, x + kx, y + ky, width, height)
+                    }
+                }
+                output[y * width + x] = sum / kernelSum
+            }
+        }
+
+        return output
+    }
+
+    /// Read a pixel, clamping coordinates to the image bounds
+    @inline(__always)
+    private static func pixel(_ data: [Float], _ x: Int, _ y: Int, _ width: Int, _ height: Int) -> Float {
+        let cx = min(max(x, 0), width - 1)
+        let cy = min(max(y, 0), height - 1)
+        return data[cy * width + cx]
+    }
+}
@@ -50,20 +50,11 @@ class ImageAugmenter {
             currentImage = try applyBlur(currentImage, radius: blur)
         }
 
-        // Convert to base64
-        guard let pngData = currentImage.pngData() else {
-            throw VisionUtilsError.processingError("Failed to encode augmented image")
-        }
-
-        let base64String = pngData.base64EncodedString()
-        let processingTimeMs = (CFAbsoluteTimeGetCurrent() - startTime) * 1000
-
-        return [
-            "base64": base64String,
-            "width": Int(currentImage.size.width * currentImage.scale),
-            "height": Int(currentImage.size.height * currentImage.scale),
-            "processingTimeMs": processingTimeMs
-        ]
+        var result = try TensorTransport.image(currentImage, output: augmentations["output"] as? String)
+        result["width"] = Int(currentImage.size.width * currentImage.scale)
+        result["height"] = Int(currentImage.size.height * currentImage.scale)
+        result["processingTimeMs"] = (CFAbsoluteTimeGetCurrent() - startTime) * 1000
+        return result
     }
 
     // MARK: - Rotation
@@ -0,0 +1,336 @@
+import Foundation
+
+/// Handles contrast preprocessing (histogram equalization, CLAHE) and
+/// image filters (denoise, median, sharpen) on RGBA pixel buffers
+class ImageFilters {
+
+    /// Apply preprocessing and filters to an RGBA buffer
+    ///
+    /// Order: histogram equalization → CLAHE → denoise → median → sharpen.
+    /// Contrast operations act on luminance so colors are preserved; alpha is untouched.
+    static func apply(
+        _ rgba: [UInt8],
+        width: Int,
+        height: Int,
+        preprocessing: PreprocessingOptions?,
+        filters: FilterOptions?
+    ) -> [UInt8] {
+        let pixelCount = width * height
+        guard pixelCount > 0 else { return rgba }
+
+        var r = [Float](repeating: 0, count: pixelCount)
+        var g = [Float](repeating: 0, count: pixelCount)
+        var b = [Float](repeating: 0, count: pixelCount)
+        for i in 0..<pixelCount {
+            r[i] = Float(rgba[i * 4])
+            g[i] = Float(rgba[i * 4 + 1])
+            b[i] = Float(rgba[i * 4 + 2])
+        }
+
+        if let preprocessing = preprocessing {
+            if preprocessing.histogramEqualization {
+                let luma = luminance(r, g, b)
+                let hist = histogram(luma, width: width, x0: 0, y0: 0, x1: width, y1: height)
+                let lut = equalizationLut(hist, count: pixelCount)
+                shiftLuminance(&r, &g, &b, from: luma) { lut[bin(luma[$0])] }
+            }
+
+            if let clahe = preprocessing.clahe {
+                let luma = luminance(r, g, b)
+                let equalized = claheLuminance(luma, width: width, height: height, options: clahe)
+                shiftLuminance(&r, &g, &b, from: luma) { equalized[$0] }
+            }
+        }
+
+        if let filters = filters {
+            if let denoise = filters.denoise, denoise.strength > 0 {
+                if denoise.type == "nlm" {
+                    (r, g, b) = nonLocalMeans(r, g, b, width: width, height: height, strength: denoise.strength)
+                } else {
+                    (r, g, b) = bilateral(r, g, b, width: width, height: height, strength: denoise.strength)
+                }
+            }
+
+            if let kernelSize = filters.medianFilter, kernelSize >= 3 {
+                r = median(r, width: width, height: height, kernelSize: kernelSize)
+                g = median(g, width: width, height: height, kernelSize: kernelSize)
+                b = median(b, width: width, height: height, kernelSize: kernelSize)
+            }
+
+            if let sharpen = filters.sharpen, sharpen > 0 {
+                r = unsharpMask(r, width: width, height: height, amount: sharpen * 2)
+                g = unsharpMask(g, width: width, height: height, amount: sharpen * 2)
+                b = unsharpMask(b, width: width, height: height, amount: sharpen * 2)
+            }
+        }
+
+        var output = rgba
+        for i in 0..<pixelCount {
+            output[i * 4] = UInt8(clamping: Int(r[i].rounded()))
+            output[i * 4 + 1] = UInt8(clamping: Int(g[i].rounded()))
+            output[i * 4 + 2] = UInt8(clamping: Int(b[i].rounded()))
+        }
+        return output
+    }
+
+    // MARK: - Contrast
+
+    /// Compute a 256-bin histogram over a rectangular region of a luminance plane
+    private static func histogram(
+        _ luma: [Float],
+        width: Int,
+        x0: Int, y0: Int, x1: Int, y1: Int
+    ) -> [Int] {
+        var hist = [Int](repeating: 0, count: 256)
+        for y in y0..<y1 {
+            for x in x0..<x1 {
+                hist[bin(luma[y * width + x])] += 1
+            }
+        }
+        return hist
+    }
+
+    /// Build a 0-255 lookup table from a histogram's cumulative distribution
+    private static func equalizationLut(_ hist: [Int], count: Int) -> [Float] {
+        var lut = [Float](repeating: 0, count: 256)
+        let cdfMin = hist.first(where: { $0 > 0 }) ?? 0
+        let denominator = Float(max(count - cdfMin, 1))
+        var cumulative = 0
+        for i in 0..<256 {
+            cumulative += hist[i]
+            lut[i] = max(0, Float(cumulative - cdfMin)) / denominator * 255
+        }
+        return lut
+    }
+
+    /// Contrast Limited Adaptive Histogram Equalization on a luminance plane.
+    /// tileSize is the number of tiles per side; clipLimit is relative to the
+    /// average bin height, matching OpenCV.
+    private static func claheLuminance(
+        _ luma: [Float],
+        width: Int,
+        height: Int,
+        options: ClaheOptions
+    ) -> [Float] {
+        let tilesX = max(1, min(options.tileSize, width))
+        let tilesY = max(1, min(options.tileSize, height))
+        let tileWidth = Float(width) / Float(tilesX)
+        let tileHeight = Float(height) / Float(tilesY)
+
+        // Per-tile clipped lookup tables
+        var luts = [[Float]]()
+        luts.reserveCapacity(tilesX * tilesY)
+        for ty in 0..<tilesY {
+            for tx in 0..<tilesX {
+                let x0 = Int(Float(tx) * tileWidth)
+                let x1 = tx == tilesX - 1 ? width : Int(Float(tx + 1) * tileWidth)
+                let y0 = Int(Float(ty) * tileHeight)
+                let y1 = ty == tilesY - 1 ? height : Int(Float(ty + 1) * tileHeight)
+                let area = max(1, (x1 - x0) * (y1 - y0))
+
+                var hist = histogram(luma, width: width, x0: x0, y0: y0, x1: x1, y1: y1)
+
+                // Clip and redistribute the excess uniformly
+                let clip = max(1, Int(options.clipLimit * Float(area) / 256))
+                var excess = 0
+                for i in 0..<256 where hist[i] > clip {
+                    excess += hist[i] - clip
+                    hist[i] = clip
+                }
+                let increment = excess / 256
+                let remainder = excess % 256
+                for i in 0..<256 {
+                    hist[i] += increment + (i < remainder ? 1 : 0)
+                }
+
+                var lut = [Float](repeating: 0, count: 256)
+                var cumulative = 0
+                for i in 0..<256 {
+                    cumulative += hist[i]
+                    lut[i] = Float(cumulative) / Float(area) * 255
+                }
+                luts.append(lut)
+            }
+        }
+
+        // Bilinear interpolation between the four nearest tile centers
+        var output = [Float](repeating: 0, count: width * height)
+        for y in 0..<height {
+            let fy = (Float(y) + 0.5) / tileHeight - 0.5
+            let ty0 = max(0, min(tilesY - 1, Int(fy.rounded(.down))))
+            let ty1 = min(tilesY - 1, ty0 + 1)
+            let wy = max(0, min(1, fy - Float(ty0)))
+
+            for x in 0..<width {
+                let fx = (Float(x) + 0.5) / tileWidth - 0.5
+                let tx0 = max(0, min(tilesX - 1, Int(fx.rounded(.down))))
+                let tx1 = min(tilesX - 1, tx0 + 1)
+                let wx = max(0, min(1, fx - Float(tx0)))
+
+                let value = bin(luma[y * width + x])
+                let top = luts[ty0 * tilesX + tx0][value] * (1 - wx) + luts[ty0 * tilesX + tx1][value] * wx
+                let bottom = luts[ty1 * tilesX + tx0][value] * (1 - wx) + luts[ty1 * tilesX + tx1][value] * wx
+                output[y * width + x] = top * (1 - wy) + bottom * wy
+            }
+        }
+
+        return output
+    }
+
+    // MARK: - Filters
+
+    /// Edge-preserving bilateral filter; strength scales window radius and range sigma
+    private static func bilateral(
+        _ r: [Float], _ g: [Float], _ b: [Float],
+        width: Int, height: Int, strength: Float
+    ) -> ([Float], [Float], [Float]) {
+        let radius = 1 + Int((strength * 3).rounded())
+        let sigmaSpace = Float(radius)
+        let sigmaColor = 10 + strength * 65
+        let spaceCoeff = -1 / (2 * sigmaSpace * sigmaSpace)
+        let colorCoeff = -1 / (2 * sigmaColor * sigmaColor)
+
+        var outR = r, outG = g, outB = b
+        for y in 0..<height {
+            for x in 0..<width {
+                let idx = y * width + x
+                var sumR: Float = 0, sumG: Float = 0, sumB: Float = 0, sumW: Float = 0
+                for dy in -radius...radius {
+                    for dx in -radius...radius {
+                        let n = clampedIndex(x + dx, y + dy, width, height)
+                        let dr = r[n] - r[idx], dg = g[n] - g[idx], db = b[n] - b[idx]
+                        let w = exp(Float(dx * dx + dy * dy) * spaceCoeff
+                            + (dr * dr + dg * dg + db * db) * colorCoeff)
+                        sumR += r[n] * w
+                        sumG += g[n] * w
+                        sumB += b[n] * w
+                        sumW += w
+                    }
+                }
+                outR[idx] = sumR / sumW
+                outG[idx] = sumG / sumW
+                outB[idx] = sumB / sumW
+            }
+        }
+        return (outR, outG, outB)
+    }
+
+    /// Non-local means with 3x3 patches and a 7x7 search window; strength scales the filter parameter h
+    private static func nonLocalMeans(
+        _ r: [Float], _ g: [Float], _ b: [Float],
+        width: Int, height: Int, strength: Float
+    ) -> ([Float], [Float], [Float]) {
+        let searchRadius = 3
+        let patchRadius = 1
+        let h = 5 + strength * 25
+        let coeff = -1 / (h * h)
+        let luma = luminance(r, g, b)
+
+        var outR = r, outG = g, outB = b
+        for y in 0..<height {
+            for x in 0..<width {
+                var sumR: Float = 0, sumG: Float = 0, sumB: Float = 0, sumW: Float = 0
+                for sy in -searchRadius...searchRadius {
+                    for sx in -searchRadius...searchRadius {
+                        var distance: Float = 0
+                        for py in -patchRadius...patchRadius {
+                            for px in -patchRadius...patchRadius {
+                                let a = luma[clampedIndex(x + px, y + py, width, height)]
+                                let c = luma[clampedIndex(x + sx + px, y + sy + py, width, height)]
+                                distance += (a - c) * (a - c)
+                            }
+                        }
+                        distance /= Float((2 * patchRadius + 1) * (2 * patchRadius + 1))
+
+                        let n = clampedIndex(x + sx, y + sy, width, height)
+                        let w = exp(distance * coeff)
+                        sumR += r[n] * w
+                        sumG += g[n] * w
+                        sumB += b[n] * w
+                        sumW += w
+                    }
+                }
+                let idx = y * width + x
+                outR[idx] = sumR / sumW
+                outG[idx] = sumG / sumW
+                outB[idx] = sumB / sumW
+            }
+        }
+        return (outR, outG, outB)
+    }
+
+    /// Median filter with an odd square kernel
+    private static func median(_ channel: [Float], width: Int, height: Int, kernelSize: Int) -> [Float] {
+        let radius = kernelSize / 2
+        var output = channel
+        var window = [Float](repeating: 0, count: kernelSize * kernelSize)
+        for y in 0..<height {
+            for x in 0..<width {
+                var k = 0
+                for dy in -radius...radius {
+                    for dx in -radius...radius {
+                        window[k] = channel[clampedIndex(x + dx, y + dy, width, height)]
+                        k += 1
+                    }
+                }
+                window.sort()
+                output[y * width + x] = window[window.count / 2]
+            }
+        }
+        return output
+    }
+
+    /// Unsharp mask: out = in + amount * (in - blur3x3(in))
+    private static func unsharpMask(_ channel: [Float], width: Int, height: Int, amount: Float) -> [Float] {
+        var output = channel
+        for y in 0..<height {
+            for x in 0..<width {
+                var blur: Float = 0
+                for dy in -1...1 {
+                    for dx in -1...1 {
+                        let weight: Float = (dx == 0 ? 2 : 1) * (dy == 0 ? 2 : 1)
+                        blur += weight * channel[clampedIndex(x + dx, y + dy, width, height)]
+                    }
+                }
+                blur /= 16
+                let idx = y * width + x
+                output[idx] = channel[idx] + amount * (channel[idx] - blur)
+            }
+        }
+        return output
+    }
+
+    // MARK: - Private Helpers
+
+    private static func luminance(_ r: [Float], _ g: [Float], _ b: [Float]) -> [Float] {
+        var luma = [Float](repeating: 0, count: r.count)
+        for i in 0..<r.count {
+            luma[i] = 0.299 * r[i] + 0.587 * g[i] + 0.114 * b[i]
+        }
+        return luma
+    }
+
+    /// Replace luminance while keeping chroma (YCbCr): each channel shifts by the luminance delta
+    private static func shiftLuminance(
+        _ r: inout [Float], _ g: inout [Float], _ b: inout [Float],
+        from luma: [Float],
+        newLuma: (Int) -> Float
+    ) {
+        for i in 0..<luma.count {
+            let delta = newLuma(i) - luma[i]
+            r[i] = min(255, max(0, r[i] + delta))
+            g[i] = min(255, max(0, g[i] + delta))
+            b[i] = min(255, max(0, b[i] + delta))
+        }
+    }
+
+    @inline(__always)
+    private static func bin(_ value: Float) -> Int {
+        return min(255, max(0, Int(value.rounded())))
+    }
+
+    @inline(__always)
+    private static func clampedIndex(_ x: Int, _ y: Int, _ width: Int, _ height: Int) -> Int {
+        return min(max(y, 0), height - 1) * width + min(max(x, 0), width - 1)
+    }
+}
@@ -36,6 +36,14 @@ class ImageLoader {
             return ImageLoadResult(image: image, fileSize: nil, format: nil)
         case .photoLibrary:
             return try await loadFromPhotoLibraryWithMetadata(source.value)
+        case .bytes:
+            if let data = source.data {
+                return try loadFromDataWithMetadata(data)
+            }
+            return try loadFromBase64WithMetadata(source.value)
+        case .pixels:
+            let image = try loadFromPixels(source)
+            return ImageLoadResult(image: image, fileSize: nil, format: nil)
         case .cgImage:
             // cgImage type is for internal use only - should not be used with ImageLoader
             throw VisionUtilsError.invalidSource("cgImage source type cannot be loaded via ImageLoader")
@@ -126,6 +134,75 @@ class ImageLoader {
         return ImageLoadResult(image: image, fileSize: imageData.count, format: format)
     }
 
+    /// Decode encoded image bytes handed over from a JS buffer
+    private static func loadFromDataWithMetadata(_ data: Data) throws -> ImageLoadResult {
+        guard let image = UIImage(data: data) else {
+            throw VisionUtilsError.loadError("Failed to decode image bytes")
+        }
+        return ImageLoadResult(image: image, fileSize: data.count, format: detectImageFormat(from: data))
+    }
+
+    // MARK: - Pixel Buffer Loading
+
+    /// Wrap a raw 8-bit pixel buffer in an image without going through a codec
+    private static func loadFromPixels(_ source: ImageSource) throws -> UIImage {
+        guard let width = source.width, let height = source.height,
+              width > 0, height > 0 else {
+            throw VisionUtilsError.invalidSource("Pixels source width and height must be positive")
+        }
+
+        let channelOrder: [Int]
+        switch source.pixelFormat {
+        case "rgba": channelOrder = [0, 1, 2, 3]
+        case "rgb": channelOrder = [0, 1, 2]
+        case "bgra": channelOrder = [2, 1, 0, 3]
+        case "bgr": channelOrder = [2, 1, 0]
+        case "grayscale": channelOrder = [0, 0, 0]
+        default:
+            throw VisionUtilsError.invalidSource("Invalid pixels source format: \(source.pixelFormat ?? "nil")")
+        }
+        let channels = source.pixelFormat == "grayscale" ? 1 : channelOrder.count
+
+        guard let data = source.data ?? Data(base64Encoded: source.value) else {
+            throw VisionUtilsError.loadError("Invalid base64 encoding")
+        }
+        guard data.count == width * height * channels else {
+            throw VisionUtilsError.invalidSource(
+                "Pixels source has \(data.count) bytes, expected \(width * height * channels)"
+            )
+        }
+
+        // Expand to straight-alpha RGBA, the layout CGImage takes directly
+        let bytes = [UInt8](data)
+        var rgba = [UInt8](repeating: 255, count: width * height * 4)
+        for i in 0..<(width * height) {
+            let src = i * channels
+            let dst = i * 4
+            for (c, offset) in channelOrder.enumerated() {
+                rgba[dst + c] = bytes[src + offset]
+            }
+        }
+
+        guard let provider = CGDataProvider(data: Data(rgba) as CFData),
+              let cgImage = CGImage(
+                width: width,
+                height: height,
+                bitsPerComponent: 8,
+                bitsPerPixel: 32,
+                bytesPerRow: width * 4,
+                space: CGColorSpaceCreateDeviceRGB(),
+                bitmapInfo: CGBitmapInfo(rawValue: CGImageAlphaInfo.last.rawValue),
+                provider: provider,
+                decode: nil,
+                shouldInterpolate: false,
+                intent: .defaultIntent
+              ) else {
+            throw VisionUtilsError.loadError("Failed to create image from pixels")
+        }
+
+        return UIImage(cgImage: cgImage)
+    }
+
     // MARK: - Asset Loading
 
     private static func loadFromAsset(_ name: String) throws -> UIImage {
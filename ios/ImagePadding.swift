@@ -0,0 +1,141 @@
+import Foundation
+import UIKit
+import CoreGraphics
+
+/// Pads images with constant, reflect, replicate or circular borders without resizing
+class ImagePadding {
+
+    /// Pad an image
+    /// - Parameters:
+    ///   - image: The input UIImage
+    ///   - options: Padding options (mode, value, padding [top, right, bottom, left], multipleOf)
+    /// - Returns: Dictionary containing the padded image and the padding applied
+    static func pad(image: UIImage, options: [String: Any]) throws -> [String: Any] {
+        let startTime = CFAbsoluteTimeGetCurrent()
+
+        guard let cgImage = image.cgImage else {
+            throw VisionUtilsError.invalidSource("Failed to get CGImage")
+        }
+
+        let mode = options["mode"] as? String ?? "constant"
+        guard ["constant", "reflect", "replicate", "circular"].contains(mode) else {
+            throw VisionUtilsError.invalidInput("Unknown padding mode: \(mode)")
+        }
+        let value = (options["value"] as? [NSNumber])?.map { $0.intValue } ?? [0, 0, 0, 255]
+        var padding = (options["padding"] as? [NSNumber])?.map { $0.intValue } ?? [0, 0, 0, 0]
+        guard padding.count == 4, padding.allSatisfy({ $0 >= 0 }) else {
+            throw VisionUtilsError.invalidInput("Padding must be [top, right, bottom, left]")
+        }
+        let multipleOf = max(1, options["multipleOf"] as? Int ?? 1)
+
+        let width = cgImage.width
+        let height = cgImage.height
+
+        // Extend bottom/right so the output is a multiple of `multipleOf`
+        padding[2] += (multipleOf - (padding[0] + height + padding[2]) % multipleOf) % multipleOf
+        padding[1] += (multipleOf - (padding[3] + width + padding[1]) % multipleOf) % multipleOf
+
+        let top = padding[0], right = padding[1], bottom = padding[2], left = padding[3]
+        let outWidth = left + width + right
+        let outHeight = top + height + bottom
+
+        let source = try rgbaPixels(cgImage, width: width, height: height)
+
+        let fill: [UInt8] = (0..<4).map { c in
+            let v = c < value.count ? value[c] : (c == 3 ? 255 : 0)
+            return UInt8(min(max(v, 0), 255))
+        }
+
+        var output = [UInt8](repeating: 0, count: outWidth * outHeight * 4)
+        for y in 0..<outHeight {
+            let sy = sourceIndex(y - top, length: height, mode: mode)
+            for x in 0..<outWidth {
+                let sx = sourceIndex(x - left, length: width, mode: mode)
+                let dst = (y * outWidth + x) * 4
+                if sy < 0 || sx < 0 {
+                    output[dst] = fill[0]
+                    output[dst + 1] = fill[1]
+                    output[dst + 2] = fill[2]
+                    output[dst + 3] = fill[3]
+                } else {
+                    let src = (sy * width + sx) * 4
+                    output[dst] = source[src]
+                    output[dst + 1] = source[src + 1]
+                    output[dst + 2] = source[src + 2]
+                    output[dst + 3] = source[src + 3]
+                }
+            }
+        }
+
+        let outputImage = try makeImage(from: &output, width: outWidth, height: outHeight)
+        guard let pngData = outputImage.pngData() else {
+            throw VisionUtilsError.processingError("Failed to encode image")
+        }
+
+        let processingTimeMs = (CFAbsoluteTimeGetCurrent() - startTime) * 1000
+
+        return [
+            "imageBase64": pngData.base64EncodedString(),
+            "width": outWidth,
+            "height": outHeight,
+            "padding": [top, right, bottom, left],
+            "originalSize": [width, height],
+            "processingTimeMs": processingTimeMs
+        ]
+    }
+
+    // MARK: - Private Helpers
+
+    /// Map an out-of-range index back into [0, length) for the padding mode; -1 for constant
+    private static func sourceIndex(_ index: Int, length: Int, mode: String) -> Int {
+        if index >= 0 && index < length { return index }
+
+        switch mode {
+        case "replicate":
+            return index < 0 ? 0 : length - 1
+        case "circular":
+            return ((index % length) + length) % length
+        case "reflect":
+            if length == 1 { return 0 }
+            let period = 2 * (length - 1)
+            let m = ((index % period) + period) % period
+            return m < length ? m : period - m
+        default:
+            return -1
+        }
+    }
+
+    /// Draw a CGImage into an RGBA8 buffer
+    private static func rgbaPixels(_ cgImage: CGImage, width: Int, height: Int) throws -> [UInt8] {
+        var pixels = [UInt8](repeating: 0, count: width * height * 4)
+        guard let context = CGContext(
+            data: &pixels,
+            width: width,
+            height: height,
+            bitsPerComponent: 8,
+            bytesPerRow: width * 4,
+            space: CGColorSpaceCreateDeviceRGB(),
+            bitmapInfo: CGImageAlphaInfo.premultipliedLast.rawValue
+        ) else {
+            throw VisionUtilsError.processingError("Failed to create graphics context")
+        }
+        context.draw(cgImage, in: CGRect(x: 0, y: 0, width: width, height: height))
+        return pixels
+    }
+
+    /// Create a UIImage from an RGBA8 buffer
+    private static func makeImage(from pixels: inout [UInt8], width: Int, height: Int) throws -> UIImage {
+        guard let context = CGContext(
+            data: &pixels,
+            width: width,
+            height: height,
+            bitsPerComponent: 8,
+            bytesPerRow: width * 4,
+            space: CGColorSpaceCreateDeviceRGB(),
+            bitmapInfo: CGImageAlphaInfo.premultipliedLast.rawValue
+        ), let cgImage = context.makeImage() else {
+            throw VisionUtilsError.processingError("Failed to create output image")
+        }
+        return UIImage(cgImage: cgImage)
+    }
+}
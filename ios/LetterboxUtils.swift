@@ -40,18 +40,20 @@ public class LetterboxUtils: NSObject {
         }
 
         // Calculate new dimensions
-        var newWidth = Int(round(Double(originalWidth) * scale))
-        var newHeight = Int(round(Double(originalHeight) * scale))
-
-        // Apply stride alignment if requested
-        if autoStride {
-            newWidth = ((newWidth + stride - 1) / stride) * stride
-            newHeight = ((newHeight + stride - 1) / stride) * stride
-        }
+        let newWidth = Int(round(Double(originalWidth) * scale))
+        let newHeight = Int(round(Double(originalHeight) * scale))
 
         // Calculate padding
-        let padW = targetWidth - newWidth
-        let padH = targetHeight - newHeight
+        var padW = targetWidth - newWidth
+        var padH = targetHeight - newHeight
+
+        // With autoStride, only pad up to the next stride multiple (minimum rectangle)
+        if autoStride && stride > 0 {
+            padW = padW % stride
+            padH = padH % stride
+        }
+        let outputWidth = newWidth + padW
+        let outputHeight = newHeight + padH
 
         var padLeft: Int, padTop: Int, padRight: Int, padBottom: Int
         if center {
@@ -70,10 +72,10 @@ public class LetterboxUtils: NSObject {
         let colorSpace = CGColorSpaceCreateDeviceRGB()
         guard let context = CGContext(
             data: nil,
-            width: targetWidth,
-            height: targetHeight,
+            width: outputWidth,
+            height: outputHeight,
             bitsPerComponent: 8,
-            bytesPerRow: targetWidth * 4,
+            bytesPerRow: outputWidth * 4,
             space: colorSpace,
             bitmapInfo: CGImageAlphaInfo.premultipliedLast.rawValue
         ) else {
@@ -85,7 +87,7 @@ public class LetterboxUtils: NSObject {
         let g = CGFloat(padColor.count > 1 ? padColor[1] : 114) / 255.0
         let b = CGFloat(padColor.count > 2 ? padColor[2] : 114) / 255.0
         context.setFillColor(red: r, green: g, blue: b, alpha: 1.0)
-        context.fill(CGRect(x: 0, y: 0, width: targetWidth, height: targetHeight))
+        context.fill(CGRect(x: 0, y: 0, width: outputWidth, height: outputHeight))
 
         // Draw the scaled image
         let drawRect = CGRect(
@@ -115,7 +117,7 @@ public class LetterboxUtils: NSObject {
             "padding": [padLeft, padTop, padRight, padBottom],
             "offset": [padLeft, padTop],
             "originalSize": [originalWidth, originalHeight],
-            "letterboxedSize": [targetWidth, targetHeight]
+            "letterboxedSize": [outputWidth, outputHeight]
         ]
 
         let endTime = CFAbsoluteTimeGetCurrent()
@@ -123,8 +125,8 @@ public class LetterboxUtils: NSObject {
 
         return [
             "imageBase64": base64String,
-            "width": targetWidth,
-            "height": targetHeight,
+            "width": outputWidth,
+            "height": outputHeight,
             "scale": scale,
             "padding": [padLeft, padTop, padRight, padBottom],
             "offset": [padLeft, padTop],
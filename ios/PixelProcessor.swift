@@ -30,7 +30,18 @@ class PixelProcessor {
         )
 
         // Extract pixel data in RGBA format
-        let rgbaData = try extractRGBAPixels(from: processedImage, width: finalWidth, height: finalHeight)
+        var rgbaData = try extractRGBAPixels(from: processedImage, width: finalWidth, height: finalHeight)
+
+        // Apply preprocessing (histogram equalization, CLAHE) and filters
+        if options.preprocessing != nil || options.filters != nil {
+            rgbaData = ImageFilters.apply(
+                rgbaData,
+                width: finalWidth,
+                height: finalHeight,
+                preprocessing: options.preprocessing,
+                filters: options.filters
+            )
+        }
 
         // Convert to requested color format
         let colorData = convertColorFormat(rgbaData, to: options.colorFormat)
@@ -66,7 +66,8 @@ class Quantization {
         let processingTimeMs = (CFAbsoluteTimeGetCurrent() - startTime) * 1000
 
         return [
-            "data": resultData,
+            "dataBuffer": TensorTransport.pack(resultData, dtype: dtype),
+            "dataType": dtype,
             "dtype": dtype,
             "mode": mode,
             "scale": options["scale"] as Any,
@@ -203,7 +204,8 @@ class Quantization {
         let processingTimeMs = (CFAbsoluteTimeGetCurrent() - startTime) * 1000
 
         return [
-            "data": resultData,
+            "dataBuffer": TensorTransport.pack(resultData),
+            "dataType": "float32",
             "processingTimeMs": processingTimeMs
         ]
     }
@@ -0,0 +1,81 @@
+import UIKit
+
+/// Sends large tensors to JS without boxing every value
+///
+/// Results carry the little-endian bytes as `NSMutableData` under
+/// `<key>Buffer`. Before resolving, VisionUtils.mm registers that data with
+/// the native buffer registry and replaces it with its id (`<key>BufferId`),
+/// which JS wraps in an ArrayBuffer over the same memory. Without the JSI
+/// bindings the bytes are packed as base64 (`<key>Base64`) instead.
+///
+/// `bytes` and `pixels` sources come the other way: JS copies them once into
+/// native memory and sends a `bufferId`, which `VisionUtilsBridge.takeBuffer`
+/// reads.
+enum TensorTransport {
+
+    /// Result keys for an output image: a PNG as `base64`, or straight-alpha
+    /// RGBA bytes under `pixels` when `output` is `"pixels"`
+    static func image(_ image: UIImage, output: String?) throws -> [String: Any] {
+        guard output == "pixels" else {
+            guard let pngData = image.pngData() else {
+                throw VisionUtilsError.processingError("Failed to encode image")
+            }
+            return ["base64": pngData.base64EncodedString()]
+        }
+
+        guard let cgImage = image.cgImage else {
+            throw VisionUtilsError.processingError("Failed to get CGImage")
+        }
+        let width = cgImage.width
+        let height = cgImage.height
+        let pixels = NSMutableData(length: width * height * 4)!
+        guard let context = CGContext(
+            data: pixels.mutableBytes,
+            width: width,
+            height: height,
+            bitsPerComponent: 8,
+            bytesPerRow: width * 4,
+            space: CGColorSpaceCreateDeviceRGB(),
+            bitmapInfo: CGImageAlphaInfo.premultipliedLast.rawValue | CGBitmapInfo.byteOrder32Big.rawValue
+        ) else {
+            throw VisionUtilsError.processingError("Failed to create pixel context")
+        }
+        context.draw(cgImage, in: CGRect(x: 0, y: 0, width: width, height: height))
+
+        // Core Graphics only draws premultiplied alpha; sources are straight
+        let bytes = pixels.mutableBytes.assumingMemoryBound(to: UInt8.self)
+        for offset in stride(from: 0, to: width * height * 4, by: 4) {
+            let alpha = Int(bytes[offset + 3])
+            if alpha == 0 || alpha == 255 { continue }
+            for c in 0..<3 {
+                bytes[offset + c] = UInt8(min(255, (Int(bytes[offset + c]) * 255 + alpha / 2) / alpha))
+            }
+        }
+        return ["base64": "", "pixelsBuffer": pixels]
+    }
+
+    /// Pack 32-bit floats
+    static func pack(_ values: [Float]) -> NSMutableData {
+        return values.withUnsafeBytes { NSMutableData(bytes: $0.baseAddress, length: $0.count) }
+    }
+
+    /// Pack doubles as 32-bit floats
+    static func pack(_ values: [Double]) -> NSMutableData {
+        return pack(values.map { Float($0) })
+    }
+
+    /// Pack quantized integers using the storage type of `dtype` (int8, uint8, int16)
+    static func pack(_ values: [Int], dtype: String) -> NSMutableData {
+        switch dtype {
+        case "uint8":
+            return values.map { UInt8(clamping: $0) }
+                .withUnsafeBytes { NSMutableData(bytes: $0.baseAddress, length: $0.count) }
+        case "int16":
+            return values.map { Int16(clamping: $0) }
+                .withUnsafeBytes { NSMutableData(bytes: $0.baseAddress, length: $0.count) }
+        default:
+            return values.map { Int8(clamping: $0) }
+                .withUnsafeBytes { NSMutableData(bytes: $0.baseAddress, length: $0.count) }
+        }
+    }
+}
@@ -2,6 +2,9 @@
 
 @interface VisionUtils : NSObject <NativeVisionUtilsSpec>
 
+// JSI buffer transport
+- (NSNumber *)install;
+
 // Existing methods
 - (void)getPixelData:(NSDictionary *)options
              resolve:(RCTPromiseResolveBlock)resolve
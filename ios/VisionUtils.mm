@@ -1,5 +1,8 @@
 #import "VisionUtils.h"
 #import <React/RCTBridge.h>
+#import <ReactCommon/RCTTurboModuleWithJSIBindings.h>
+
+#import "VisionUtilsBuffers.h"
 
 #if __has_include(<VisionUtils/VisionUtils-Swift.h>)
 #import <VisionUtils/VisionUtils-Swift.h>
@@ -7,15 +10,97 @@
 #import "VisionUtils-Swift.h"
 #endif
 
+/// NSMutableData packed by TensorTransport, viewed by JS in place
+class DataBuffer : public facebook::jsi::MutableBuffer {
+ public:
+  explicit DataBuffer(NSMutableData *data) : data_(data) {}
+
+  size_t size() const override {
+    return data_.length;
+  }
+
+  uint8_t *data() override {
+    return static_cast<uint8_t *>(data_.mutableBytes);
+  }
+
+ private:
+  NSMutableData *data_;
+};
+
+/// Replace each `<key>Buffer` with a registry id (`<key>BufferId`), or
+/// with base64 (`<key>Base64`) when the JSI bindings are not installed
+static id VUTransportBuffers(id value)
+{
+    if ([value isKindOfClass:[NSArray class]]) {
+        NSMutableArray *items = [NSMutableArray arrayWithCapacity:[value count]];
+        for (id item in value) {
+            [items addObject:VUTransportBuffers(item)];
+        }
+        return items;
+    }
+    if (![value isKindOfClass:[NSDictionary class]]) {
+        return value;
+    }
+
+    NSMutableDictionary *result = [NSMutableDictionary dictionaryWithCapacity:[value count]];
+    [(NSDictionary *)value enumerateKeysAndObjectsUsingBlock:^(NSString *key, id item, BOOL *stop) {
+        if ([key hasSuffix:@"Buffer"] && [item isKindOfClass:[NSMutableData class]]) {
+            NSString *name = [key substringToIndex:key.length - 6];
+            if (visionutils::BufferRegistry::isInstalled()) {
+                double bufferId = visionutils::BufferRegistry::put(
+                    std::make_shared<DataBuffer>((NSMutableData *)item));
+                result[[name stringByAppendingString:@"BufferId"]] = @(bufferId);
+            } else {
+                result[[name stringByAppendingString:@"Base64"]] =
+                    [(NSData *)item base64EncodedStringWithOptions:0];
+            }
+        } else if ([item isKindOfClass:[NSDictionary class]] || [item isKindOfClass:[NSArray class]]) {
+            result[key] = VUTransportBuffers(item);
+        } else {
+            result[key] = item;
+        }
+    }];
+    return result;
+}
+
+@interface VisionUtils () <RCTTurboModuleWithJSIBindings>
+@end
+
 @implementation VisionUtils
 
+// MARK: - JSI Buffer Transport
+
+- (void)installJSIBindingsWithRuntime:(facebook::jsi::Runtime &)runtime
+                          callInvoker:(const std::shared_ptr<facebook::react::CallInvoker> &)callInvoker
+{
+    visionutils::BufferRegistry::install(runtime);
+    VisionUtilsBridge.takeBuffer = ^NSData *(double bufferId) {
+        auto buffer = visionutils::BufferRegistry::take(bufferId);
+        if (!buffer) {
+            return nil;
+        }
+        // The deallocator keeps the registry's bytes alive for the NSData
+        return [[NSData alloc] initWithBytesNoCopy:buffer->data()
+                                            length:buffer->size()
+                                       deallocator:^(void *bytes, NSUInteger length) {
+            (void)buffer;
+        }];
+    };
+}
+
+- (NSNumber *)install
+{
+    // Bindings are installed when the module is created, before any call
+    return @(visionutils::BufferRegistry::isInstalled());
+}
+
 // MARK: - Existing Methods
 
 - (void)getPixelData:(NSDictionary *)options
              resolve:(RCTPromiseResolveBlock)resolve
               reject:(RCTPromiseRejectBlock)reject {
     [VisionUtilsBridge getPixelData:options resolve:^(NSDictionary *result) {
-        resolve(result);
+        resolve(VUTransportBuffers(result));
     } reject:^(NSString *code, NSString *message) {
         reject(code, message, nil);
     }];
@@ -28,7 +113,7 @@
     [VisionUtilsBridge batchGetPixelData:optionsArray
                             batchOptions:batchOptions
                                  resolve:^(NSDictionary *result) {
-        resolve(result);
+        resolve(VUTransportBuffers(result));
     } reject:^(NSString *code, NSString *message) {
         reject(code, message, nil);
     }];
@@ -195,7 +280,7 @@
     [VisionUtilsBridge applyAugmentations:source
                             augmentations:augmentations
                                   resolve:^(NSDictionary *result) {
-        resolve(result);
+        resolve(VUTransportBuffers(result));
     } reject:^(NSString *code, NSString *message) {
         reject(code, message, nil);
     }];
@@ -208,7 +293,7 @@
     [VisionUtilsBridge colorJitter:source
                            options:options
                            resolve:^(NSDictionary *result) {
-        resolve(result);
+        resolve(VUTransportBuffers(result));
     } reject:^(NSString *code, NSString *message) {
         reject(code, message, nil);
     }];
@@ -221,7 +306,7 @@
     [VisionUtilsBridge cutout:source
                       options:options
                       resolve:^(NSDictionary *result) {
-        resolve(result);
+        resolve(VUTransportBuffers(result));
     } reject:^(NSString *code, NSString *message) {
         reject(code, message, nil);
     }];
@@ -236,7 +321,7 @@
     [VisionUtilsBridge quantize:data
                         options:options
                         resolve:^(NSDictionary *result) {
-        resolve(result);
+        resolve(VUTransportBuffers(result));
     } reject:^(NSString *code, NSString *message) {
         reject(code, message, nil);
     }];
@@ -249,7 +334,7 @@
     [VisionUtilsBridge dequantize:data
                           options:options
                           resolve:^(NSDictionary *result) {
-        resolve(result);
+        resolve(VUTransportBuffers(result));
     } reject:^(NSString *code, NSString *message) {
         reject(code, message, nil);
     }];
@@ -358,7 +443,7 @@
     [VisionUtilsBridge processCameraFrame:source
                                   options:options
                                   resolve:^(NSDictionary *result) {
-        resolve(result);
+        resolve(VUTransportBuffers(result));
     } reject:^(NSString *code, NSString *message) {
         reject(code, message, nil);
     }];
@@ -451,9 +536,10 @@
                   options:(NSDictionary *)options
                   resolve:(RCTPromiseResolveBlock)resolve
                    reject:(RCTPromiseRejectBlock)reject {
-    // Extract boxes and scores from detections array
+    // Extract boxes, scores and classes from detections array
     NSMutableArray *boxes = [NSMutableArray array];
     NSMutableArray *scores = [NSMutableArray array];
+    NSMutableArray *classIndices = [NSMutableArray array];
 
     for (NSDictionary *detection in detections) {
         NSArray *box = detection[@"box"];
@@ -461,11 +547,13 @@
         if (box && score) {
             [boxes addObject:box];
             [scores addObject:score];
+            [classIndices addObject:detection[@"classIndex"] ?: @(-1)];
         }
     }
 
     [VisionUtilsBridge nonMaxSuppression:boxes
                                   scores:scores
+                            classIndices:classIndices
                                  options:options
                                  resolve:^(NSDictionary *result) {
         resolve(result);
@@ -636,6 +724,36 @@
     }];
 }
 
+// MARK: - Edge Detection
+
+- (void)detectEdges:(NSDictionary *)source
+            options:(NSDictionary *)options
+            resolve:(RCTPromiseResolveBlock)resolve
+             reject:(RCTPromiseRejectBlock)reject {
+    [VisionUtilsBridge detectEdges:source
+                           options:options
+                           resolve:^(NSDictionary *result) {
+        resolve(result);
+    } reject:^(NSString *code, NSString *message) {
+        reject(code, message, nil);
+    }];
+}
+
+// MARK: - Image Padding
+
+- (void)padImage:(NSDictionary *)source
+         options:(NSDictionary *)options
+         resolve:(RCTPromiseResolveBlock)resolve
+          reject:(RCTPromiseRejectBlock)reject {
+    [VisionUtilsBridge padImage:source
+                        options:options
+                        resolve:^(NSDictionary *result) {
+        resolve(result);
+    } reject:^(NSString *code, NSString *message) {
+        reject(code, message, nil);
+    }];
+}
+
 // MARK: - TurboModule
 
 - (std::shared_ptr<facebook::react::TurboModule>)getTurboModule:
@@ -12,6 +12,12 @@ public class VisionUtilsBridge: NSObject {
     private static var cacheMissCount: Int = 0
     private static let maxCacheSize: Int = 50
 
+    // MARK: - Source Buffers
+
+    /// Takes the bytes JS put for a source; set by VisionUtils.mm when the
+    /// JSI bindings are installed
+    @objc public static var takeBuffer: ((Double) -> Data?)?
+
     // MARK: - Existing Methods
 
     @objc
@@ -35,7 +41,7 @@ public class VisionUtilsBridge: NSObject {
                 let image = try await ImageLoader.loadImage(from: source)
                 let result = try PixelProcessor.process(image: image, options: parsedOptions)
 
-                resolve(result.toDictionary() as NSDictionary)
+                resolve(result.toBinaryDictionary() as NSDictionary)
             } catch let error as VisionUtilsError {
                 reject(error.code, error.message)
             } catch {
@@ -89,7 +95,7 @@ public class VisionUtilsBridge: NSObject {
                             }
                             let image = try await ImageLoader.loadImage(from: source)
                             let result = try PixelProcessor.process(image: image, options: parsedOptions)
-                            return (currentIndex, result.toDictionary())
+                            return (currentIndex, result.toBinaryDictionary())
                         } catch let error as VisionUtilsError {
                             return (currentIndex, [
                                 "error": true,
@@ -984,6 +990,7 @@ public class VisionUtilsBridge: NSObject {
     public static func nonMaxSuppression(
         _ boxes: NSArray,
         scores: NSArray,
+        classIndices: NSArray,
         options: NSDictionary,
         resolve: @escaping (NSDictionary) -> Void,
         reject: @escaping (String, String) -> Void
@@ -1000,17 +1007,27 @@ public class VisionUtilsBridge: NSObject {
             let iouThreshold = optionsDict["iouThreshold"] as? Double ?? 0.5
             let scoreThreshold = optionsDict["scoreThreshold"] as? Double ?? 0.25
             let maxDetections = optionsDict["maxDetections"] as? Int ?? 100
+            let maxDetectionsPerClass = optionsDict["maxDetectionsPerClass"] as? Int ?? 0
+            let mode = optionsDict["mode"] as? String ?? "greedy"
+            let agnostic = optionsDict["agnostic"] as? Bool ?? true
+            let sigma = optionsDict["sigma"] as? Double ?? 0.5
             let format = optionsDict["format"] as? String ?? "xyxy"
 
             let doubleBoxes = boxesArray.map { $0.map { $0.doubleValue } }
             let doubleScores = scoresArray.map { $0.doubleValue }
+            let intClassIndices = (classIndices as? [NSNumber] ?? []).map { $0.intValue }
 
             var result = try BoundingBoxUtils.nonMaxSuppression(
                 boxes: doubleBoxes,
                 scores: doubleScores,
+                classIndices: intClassIndices,
                 iouThreshold: iouThreshold,
                 scoreThreshold: scoreThreshold,
                 maxDetections: maxDetections,
+                maxDetectionsPerClass: maxDetectionsPerClass,
+                mode: mode,
+                agnostic: agnostic,
+                sigma: sigma,
                 format: format
             )
 
@@ -1044,7 +1061,8 @@ public class VisionUtilsBridge: NSObject {
                 let optionsDict = options as? [String: Any] ?? [:]
                 let targetWidth = optionsDict["targetWidth"] as? Int ?? 640
                 let targetHeight = optionsDict["targetHeight"] as? Int ?? 640
-                let padColor = (optionsDict["padColor"] as? [NSNumber])?.map { $0.intValue } ?? [114, 114, 114]
+                let padColor = ((optionsDict["fillColor"] ?? optionsDict["padColor"]) as? [NSNumber])?
+                    .map { $0.intValue } ?? [114, 114, 114]
                 let scaleUp = optionsDict["scaleUp"] as? Bool ?? true
                 let autoStride = optionsDict["autoStride"] as? Bool ?? false
                 let stride = optionsDict["stride"] as? Int ?? 32
@@ -1462,4 +1480,72 @@ public class VisionUtilsBridge: NSObject {
             }
         }
     }
+
+    // MARK: - Edge Detection
+
+    @objc
+    public static func detectEdges(
+        _ source: NSDictionary,
+        options: NSDictionary,
+        resolve: @escaping (NSDictionary) -> Void,
+        reject: @escaping (String, String) -> Void
+    ) {
+        Task {
+            do {
+                guard let sourceDict = source as? [String: Any] else {
+                    reject("INVALID_SOURCE", "Invalid source format")
+                    return
+                }
+
+                let optionsDict = options as? [String: Any] ?? [:]
+
+                let imageSource = try ImageSource(from: sourceDict)
+                let image = try await ImageLoader.loadImage(from: imageSource)
+
+                let result = try EdgeDetector.detectEdges(
+                    image: image,
+                    source: sourceDict,
+                    options: optionsDict
+                )
+
+                resolve(result.toDictionary() as NSDictionary)
+            } catch let error as VisionUtilsError {
+                reject(error.code, error.message)
+            } catch {
+                reject("EDGE_DETECTION_ERROR", error.localizedDescription)
+            }
+        }
+    }
+
+    // MARK: - Image Padding
+
+    @objc
+    public static func padImage(
+        _ source: NSDictionary,
+        options: NSDictionary,
+        resolve: @escaping (NSDictionary) -> Void,
+        reject: @escaping (String, String) -> Void
+    ) {
+        Task {
+            do {
+                guard let sourceDict = source as? [String: Any] else {
+                    reject("INVALID_SOURCE", "Invalid source format")
+                    return
+                }
+
+                let optionsDict = options as? [String: Any] ?? [:]
+
+                let imageSource = try ImageSource(from: sourceDict)
+                let image = try await ImageLoader.loadImage(from: imageSource)
+
+                let result = try ImagePadding.pad(image: image, options: optionsDict)
+
+                resolve(result as NSDictionary)
+            } catch let error as VisionUtilsError {
+                reject(error.code, error.message)
+            } catch {
+                reject("PADDING_ERROR", error.localizedDescription)
+            }
+        }
+    }
 }
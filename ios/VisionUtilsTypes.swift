@@ -12,6 +12,8 @@ enum ImageSourceType: String {
     case base64
     case asset
     case photoLibrary
+    case bytes   // Encoded image bytes, base64 packed by JS
+    case pixels  // Raw 8-bit pixel buffer, base64 packed by JS
     case cgImage  // Internal use only for cropped images
 }
 
@@ -74,6 +76,12 @@ enum NormalizationPreset: String {
 struct ImageSource {
     let type: ImageSourceType
     let value: String
+    /// Buffer dimensions and channel order, only set for `.pixels`
+    let width: Int?
+    let height: Int?
+    let pixelFormat: String?
+    /// Bytes of a `.bytes` or `.pixels` source sent as a `bufferId`
+    let data: Data?
 
     init(from dict: [String: Any]) throws {
         guard let typeStr = dict["type"] as? String,
@@ -81,12 +89,28 @@ struct ImageSource {
             throw VisionUtilsError.invalidSource("Invalid or missing source type")
         }
 
-        guard let value = dict["value"] as? String else {
-            throw VisionUtilsError.invalidSource("Missing source value")
+        if (type == .bytes || type == .pixels), let bufferId = dict["bufferId"] as? Double {
+            guard let data = VisionUtilsBridge.takeBuffer?(bufferId) else {
+                throw VisionUtilsError.invalidSource("Source buffer is unknown or already used")
+            }
+            self.data = data
+            self.value = ""
+        } else {
+            guard let value = dict["value"] as? String else {
+                throw VisionUtilsError.invalidSource("Missing source value")
+            }
+            self.data = nil
+            self.value = value
         }
 
         self.type = type
-        self.value = value
+        self.width = dict["width"] as? Int
+        self.height = dict["height"] as? Int
+        self.pixelFormat = dict["format"] as? String
+
+        if type == .pixels && (width == nil || height == nil || pixelFormat == nil) {
+            throw VisionUtilsError.invalidSource("Pixels source requires width, height and format")
+        }
     }
 }
 
@@ -187,6 +211,60 @@ struct Normalization {
     }
 }
 
+/// CLAHE options
+struct ClaheOptions {
+    let clipLimit: Float
+    let tileSize: Int
+
+    init(from dict: [String: Any]) {
+        self.clipLimit = Float(dict["clipLimit"] as? Double ?? 2.0)
+        self.tileSize = dict["tileSize"] as? Int ?? 8
+    }
+}
+
+/// Preprocessing options (applied before filters and normalization)
+struct PreprocessingOptions {
+    let histogramEqualization: Bool
+    let clahe: ClaheOptions?
+
+    init(from dict: [String: Any]) {
+        self.histogramEqualization = dict["histogramEqualization"] as? Bool ?? false
+        if let claheDict = dict["clahe"] as? [String: Any] {
+            self.clahe = ClaheOptions(from: claheDict)
+        } else {
+            self.clahe = nil
+        }
+    }
+}
+
+/// Denoise options
+struct DenoiseOptions {
+    let strength: Float
+    let type: String
+
+    init(from dict: [String: Any]) {
+        self.strength = Float(dict["strength"] as? Double ?? 0.5)
+        self.type = dict["type"] as? String ?? "bilateral"
+    }
+}
+
+/// Image filter options (applied after preprocessing, before normalization)
+struct FilterOptions {
+    let sharpen: Float?
+    let denoise: DenoiseOptions?
+    let medianFilter: Int?
+
+    init(from dict: [String: Any]) {
+        self.sharpen = (dict["sharpen"] as? Double).map { Float($0) }
+        if let denoiseDict = dict["denoise"] as? [String: Any] {
+            self.denoise = DenoiseOptions(from: denoiseDict)
+        } else {
+            self.denoise = nil
+        }
+        self.medianFilter = dict["medianFilter"] as? Int
+    }
+}
+
 /// Complete options for getPixelData
 struct GetPixelDataOptions {
     let source: ImageSource?
@@ -195,6 +273,8 @@ struct GetPixelDataOptions {
     let resize: ResizeOptions?
     let roi: Roi?
     let layout: DataLayout
+    let preprocessing: PreprocessingOptions?
+    let filters: FilterOptions?
 
     init(from dict: [String: Any]) throws {
         guard let sourceDict = dict["source"] as? [String: Any] else {
@@ -234,6 +314,18 @@ struct GetPixelDataOptions {
         } else {
             self.layout = .hwc
         }
+
+        if let preprocessingDict = dict["preprocessing"] as? [String: Any] {
+            self.preprocessing = PreprocessingOptions(from: preprocessingDict)
+        } else {
+            self.preprocessing = nil
+        }
+
+        if let filtersDict = dict["filters"] as? [String: Any] {
+            self.filters = FilterOptions(from: filtersDict)
+        } else {
+            self.filters = nil
+        }
     }
 
     /// Initialize from options dictionary without requiring source (used when image is already loaded)
@@ -271,6 +363,18 @@ struct GetPixelDataOptions {
         } else {
             self.layout = .hwc
         }
+
+        if let preprocessingDict = dict["preprocessing"] as? [String: Any] {
+            self.preprocessing = PreprocessingOptions(from: preprocessingDict)
+        } else {
+            self.preprocessing = nil
+        }
+
+        if let filtersDict = dict["filters"] as? [String: Any] {
+            self.filters = FilterOptions(from: filtersDict)
+        } else {
+            self.filters = nil
+        }
     }
 }
 
@@ -347,4 +451,13 @@ struct VisionUtilsResult {
             "processingTimeMs": processingTimeMs
         ]
     }
+
+    /// Same as toDictionary, with data sent as a float32 buffer (TensorTransport)
+    func toBinaryDictionary() -> [String: Any] {
+        var dict = toDictionary()
+        dict.removeValue(forKey: "data")
+        dict["dataBuffer"] = TensorTransport.pack(data)
+        dict["dataType"] = "float32"
+        return dict
+    }
 }
@@ -5,12 +5,31 @@ import { TurboModuleRegistry, type TurboModule } from 'react-native';
  *
  * Note: TurboModules require simple types - complex types are passed as Object
  * and validated/parsed on both TypeScript and native sides.
+ *
+ * Large tensors in results are native buffers rather than number arrays:
+ * once `install` has set up the JSI bindings, native returns a buffer id
+ * (`dataBufferId` + `dataType`, or `tensorBufferId` for camera frames) and
+ * TypeScript takes the buffer as an ArrayBuffer over the native memory,
+ * without copying. Without JSI the same bytes arrive as base64 (`dataBase64`,
+ * `tensorBase64`).
+ *
+ * `bytes` and `pixels` sources go the other way: TypeScript copies them into
+ * native memory and sends a `bufferId`, or a base64 `value` without JSI.
+ * Augmentations called with `output: 'pixels'` return RGBA as
+ * `pixelsBufferId` (or `pixelsBase64`) and an empty `base64`.
  */
 export interface Spec extends TurboModule {
+  /**
+   * Install the JSI buffer bindings (`__visionUtilsTakeBuffer`,
+   * `__visionUtilsPutBuffer`)
+   * @returns Whether buffers can be taken as ArrayBuffers
+   */
+  install(): boolean;
+
   /**
    * Get pixel data from a single image
    * @param options - GetPixelDataOptions serialized as Object
-   * @returns Promise resolving to PixelDataResult as Object
+   * @returns Promise resolving to PixelDataResult as Object (float32 data buffer)
    */
   getPixelData(options: Object): Promise<Object>;
 
@@ -170,7 +189,7 @@ export interface Spec extends TurboModule {
    * Quantize float data to int8/uint8/int16
    * @param data - Float pixel data as number array
    * @param options - QuantizeOptions serialized as Object
-   * @returns Promise resolving to QuantizeResult as Object
+   * @returns Promise resolving to QuantizeResult as Object (data buffer in dtype)
    */
   quantize(data: number[], options: Object): Promise<Object>;
 
@@ -178,7 +197,7 @@ export interface Spec extends TurboModule {
    * Dequantize int8/uint8/int16 data back to float
    * @param data - Quantized data as number array
    * @param options - DequantizeOptions serialized as Object
-   * @returns Promise resolving to DequantizeResult as Object
+   * @returns Promise resolving to DequantizeResult as Object (float32 data buffer)
    */
   dequantize(data: number[], options: Object): Promise<Object>;
 
@@ -243,7 +262,7 @@ export interface Spec extends TurboModule {
    * Process a camera frame directly to tensor data
    * @param frameSource - CameraFrameSource serialized as Object
    * @param options - CameraFrameOptions serialized as Object
-   * @returns Promise resolving to CameraFrameResult
+   * @returns Promise resolving to CameraFrameResult (float32 tensor buffer)
    */
   processCameraFrame(frameSource: Object, options: Object): Promise<Object>;
 
@@ -330,11 +349,19 @@ export interface Spec extends TurboModule {
   /**
    * Apply letterbox padding to an image (for YOLO-style models)
    * @param source - Image source
-   * @param options - Letterbox options (targetWidth, targetHeight, padColor, etc.)
+   * @param options - Letterbox options (targetWidth, targetHeight, fillColor, etc.)
    * @returns Promise resolving to letterboxed image with transform info
    */
   letterbox(source: Object, options: Object): Promise<Object>;
 
+  /**
+   * Pad an image without resizing
+   * @param source - Image source
+   * @param options - Padding options (mode, value, padding [top, right, bottom, left], multipleOf)
+   * @returns Promise resolving to padded image with applied padding
+   */
+  padImage(source: Object, options: Object): Promise<Object>;
+
   /**
    * Reverse letterbox transformation on bounding boxes
    * @param boxes - Array of boxes in letterboxed coordinates
@@ -433,6 +460,14 @@ export interface Spec extends TurboModule {
     pixelOptions: Object
   ): Promise<Object>;
 
+  /**
+   * Detect edges in an image using Sobel, Canny, or Laplacian operators
+   * @param source - Image source
+   * @param options - Detection options (type, thresholds, resize, roi, outputFormat)
+   * @returns Promise resolving to edge map tensor or base64 image
+   */
+  detectEdges(source: Object, options: Object): Promise<Object>;
+
   /**
    * Clear the pixel data cache
    */
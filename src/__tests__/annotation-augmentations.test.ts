@@ -0,0 +1,209 @@
+/**
+ * Tests for transforming boxes, keypoints and masks with geometric augmentations
+ */
+
+import { applyAugmentations, randomCrop } from '../index';
+import NativeVisionUtils from '../NativeVisionUtils';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    applyAugmentations: jest.fn(),
+    getImageMetadata: jest.fn(),
+    randomCrop: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+const source = { type: 'file' as const, value: '/path/to/image.jpg' };
+
+const augmented = (width: number, height: number) => ({
+  base64: 'augmented',
+  width,
+  height,
+  processingTimeMs: 1,
+});
+
+describe('geometric augmentations with annotations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedNative.getImageMetadata.mockResolvedValue({
+      width: 200,
+      height: 100,
+    });
+  });
+
+  it('flips boxes, keypoints and masks with the pixels', async () => {
+    mockedNative.applyAugmentations.mockResolvedValue(augmented(200, 100));
+
+    const result = await applyAugmentations(source, {
+      horizontalFlip: true,
+      boxes: [[10, 20, 50, 60]],
+      keypoints: [{ x: 30, y: 40, confidence: 0.9, name: 'nose' }],
+      // Quarter-resolution mask: 50x25, left half foreground
+      masks: [
+        {
+          data: Array.from({ length: 50 * 25 }, (_, i) =>
+            i % 50 < 25 ? 1 : 0
+          ),
+          width: 50,
+          height: 25,
+        },
+      ],
+    });
+
+    expect(mockedNative.applyAugmentations).toHaveBeenCalledWith(
+      { type: 'file', value: '/path/to/image.jpg' },
+      { flipHorizontal: true }
+    );
+    expect(result.boxes).toEqual([[150, 20, 190, 60]]);
+    expect(result.boxIndices).toEqual([0]);
+    expect(result.keypoints).toEqual([
+      { x: 170, y: 40, confidence: 0.9, name: 'nose' },
+    ]);
+    const [mask] = result.masks!;
+    expect(mask).toMatchObject({ width: 50, height: 25 });
+    expect(mask!.data.slice(0, 50)).toEqual(
+      Array.from({ length: 50 }, (_, x) => (x < 25 ? 0 : 1))
+    );
+  });
+
+  it('rotates clockwise onto the expanded canvas', async () => {
+    mockedNative.applyAugmentations.mockResolvedValue(augmented(100, 200));
+
+    const result = await applyAugmentations(source, {
+      rotation: 90,
+      verticalFlip: true,
+      boxes: [[0, 0, 20, 10]],
+      keypoints: [{ x: 10, y: 5 }],
+    });
+
+    // 90° clockwise: the top-left corner moves to the top-right, then the
+    // vertical flip moves it to the bottom-right
+    expect(result.boxes![0]!.map((v) => Math.round(v * 1e6) / 1e6)).toEqual([
+      90, 180, 100, 200,
+    ]);
+    expect(result.keypoints![0]!.x).toBeCloseTo(95);
+    expect(result.keypoints![0]!.y).toBeCloseTo(190);
+  });
+
+  it('encloses rotated boxes and drops boxes outside the image', async () => {
+    // 45° on 200x100 grows the canvas to 212x212
+    mockedNative.applyAugmentations.mockResolvedValue(augmented(212, 212));
+
+    const result = await applyAugmentations(source, {
+      rotation: 45,
+      boxes: [
+        [300, 300, 320, 320],
+        [90, 40, 110, 60],
+        [0, 0, 200, 100],
+      ],
+      boxFormat: 'xyxy',
+      keypoints: [{ x: 500, y: 500, confidence: 0.8 }],
+    });
+
+    expect(result.boxIndices).toEqual([1, 2]);
+    const [center, full] = result.boxes!;
+    // A 20x20 box around the center becomes a 28.3 px diamond
+    expect(center![2] - center![0]).toBeCloseTo(20 * Math.SQRT2);
+    expect(center![0] + center![2]).toBeCloseTo(212);
+    // The whole image fills the canvas, clipped to it
+    expect(full).toEqual([0, 0, 212, 212]);
+    expect(result.keypoints![0]!.confidence).toBe(0);
+  });
+
+  it('keeps the previous behavior without annotations', async () => {
+    mockedNative.applyAugmentations.mockResolvedValue(augmented(200, 100));
+
+    const result = await applyAugmentations(source, { brightness: 0.2 });
+
+    expect(result).toEqual(augmented(200, 100));
+    expect(mockedNative.applyAugmentations).toHaveBeenCalledWith(
+      { type: 'file', value: '/path/to/image.jpg' },
+      { brightness: 0.2 }
+    );
+    expect(mockedNative.getImageMetadata).not.toHaveBeenCalled();
+  });
+
+  it('moves annotations into each random crop', async () => {
+    mockedNative.randomCrop.mockResolvedValue({
+      crops: [
+        { data: [0], x: 0, y: 0, width: 100, height: 50, seed: 7, index: 0 },
+        { data: [0], x: 100, y: 50, width: 100, height: 50, seed: 7, index: 1 },
+      ],
+      cropCount: 2,
+      cropWidth: 100,
+      cropHeight: 50,
+      seed: 7,
+      originalWidth: 200,
+      originalHeight: 100,
+      processingTimeMs: 1,
+    });
+
+    const result = await randomCrop(source, {
+      width: 100,
+      height: 50,
+      count: 2,
+      seed: 7,
+      boxes: [
+        [80, 30, 40, 40],
+        [10, 5, 20, 10],
+      ],
+      boxFormat: 'xywh',
+      keypoints: [{ x: 150, y: 75, name: 'tail' }],
+      masks: [
+        {
+          data: Array.from({ length: 8 }, (_, i) => i),
+          width: 4,
+          height: 2,
+        },
+      ],
+    });
+
+    expect(mockedNative.randomCrop).toHaveBeenCalledWith(
+      { type: 'file', value: '/path/to/image.jpg' },
+      { width: 100, height: 50, count: 2, seed: 7 },
+      expect.anything()
+    );
+
+    const [first, second] = result.crops;
+    expect(first!.boxes).toEqual([
+      [80, 30, 20, 20],
+      [10, 5, 20, 10],
+    ]);
+    expect(first!.boxIndices).toEqual([0, 1]);
+    expect(first!.keypoints![0]!.confidence).toBe(0);
+    expect(first!.masks).toEqual([{ data: [0, 1], width: 2, height: 1 }]);
+
+    expect(second!.boxes).toEqual([[0, 0, 20, 20]]);
+    expect(second!.boxIndices).toEqual([0]);
+    expect(second!.keypoints).toEqual([{ x: 50, y: 25, name: 'tail' }]);
+    expect(second!.masks).toEqual([{ data: [6, 7], width: 2, height: 1 }]);
+  });
+
+  it('validates annotations before calling native', async () => {
+    await expect(
+      applyAugmentations(source, {
+        horizontalFlip: true,
+        masks: [{ data: [1, 0], width: 3, height: 1 }],
+      })
+    ).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    await expect(
+      applyAugmentations(source, {
+        boxes: [[0, 0, 1]] as never,
+      })
+    ).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    await expect(
+      randomCrop(source, {
+        width: 10,
+        height: 10,
+        boxes: [],
+        boxFormat: 'yolo' as never,
+      })
+    ).rejects.toMatchObject({ code: 'INVALID_FORMAT' });
+
+    expect(mockedNative.applyAugmentations).not.toHaveBeenCalled();
+    expect(mockedNative.randomCrop).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Tests for composable augmentation pipelines
+ */
+
+import { augmentationPipelineFromJSON, compose, transforms } from '../index';
+import NativeVisionUtils from '../NativeVisionUtils';
+import { lastEncodedPixels, packedPixelResult } from './testSetup';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    getPixelData: jest.fn(),
+    tensorToImage: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+const source = { type: 'file' as const, value: '/path/to/image.jpg' };
+
+/** 2x2 RGB image: red, green / blue, white */
+const PIXELS = [1, 0, 0, 0, 1, 0, 0, 0, 1, 1, 1, 1];
+
+const encodedPixels = () => lastEncodedPixels(mockedNative.tensorToImage);
+
+describe('compose', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedNative.getPixelData.mockResolvedValue({
+      ...packedPixelResult(PIXELS, 2, 2),
+      colorFormat: 'rgb',
+      dataLayout: 'hwc',
+    });
+    mockedNative.tensorToImage.mockResolvedValue({
+      base64: 'encoded',
+      width: 2,
+      height: 2,
+      format: 'png',
+    });
+  });
+
+  it('decodes and encodes once for the whole pipeline', async () => {
+    const pipeline = compose([
+      transforms.horizontalFlip({ p: 1 }),
+      transforms.verticalFlip({ p: 0 }),
+    ]);
+
+    const result = await pipeline.run(source, {
+      boxes: [[0, 0, 1, 2]],
+      keypoints: [{ x: 0.5, y: 1 }],
+    });
+
+    expect(mockedNative.getPixelData).toHaveBeenCalledTimes(1);
+    expect(mockedNative.tensorToImage).toHaveBeenCalledTimes(1);
+    expect(mockedNative.tensorToImage).toHaveBeenCalledWith(
+      expect.any(Array),
+      2,
+      2,
+      expect.objectContaining({ format: 'png', dataLayout: 'hwc', channels: 3 })
+    );
+    expect(encodedPixels()).toEqual([0, 1, 0, 1, 0, 0, 1, 1, 1, 0, 0, 1]);
+    expect(result).toMatchObject({
+      base64: 'encoded',
+      width: 2,
+      height: 2,
+      applied: [
+        { type: 'horizontalFlip', applied: true },
+        { type: 'verticalFlip', applied: false },
+      ],
+      boxes: [[1, 0, 2, 2]],
+      boxIndices: [0],
+      keypoints: [{ x: 1.5, y: 1 }],
+    });
+  });
+
+  it('rotates clockwise and reports the sampled angle', async () => {
+    const result = await compose([transforms.rotate({ limit: [90, 90] })]).run(
+      source,
+      { keypoints: [{ x: 0.5, y: 0.5 }] }
+    );
+
+    // Red moves from the top-left to the top-right
+    expect(encodedPixels()).toEqual([0, 0, 1, 1, 0, 0, 1, 1, 1, 0, 1, 0]);
+    expect(result.applied[0]!.params).toEqual({ angle: 90 });
+    expect(result.keypoints![0]!.x).toBeCloseTo(1.5);
+    expect(result.keypoints![0]!.y).toBeCloseTo(0.5);
+  });
+
+  it('jitters colors and erases regions like the native steps', async () => {
+    const result = await compose([
+      transforms.colorJitter({ brightness: [0.1, 0.1] }),
+      transforms.cutout({
+        numCutouts: 1,
+        minSize: 0.25,
+        maxSize: 0.25,
+        minAspect: 1,
+        maxAspect: 1,
+        fillValue: [51, 51, 51],
+      }),
+    ]).run(source);
+
+    expect(result.applied[0]!.params).toEqual({
+      brightness: 0.1,
+      contrast: 1,
+      saturation: 1,
+      hue: 0,
+    });
+    const [region] = result.applied[1]!.params!.regions as Array<{
+      x: number;
+      y: number;
+    }>;
+    expect(region).toMatchObject({ width: 1, height: 1, fill: [51, 51, 51] });
+
+    const pixels = encodedPixels();
+    const erased = (region!.y * 2 + region!.x) * 3;
+    expect(pixels.slice(erased, erased + 3)).toEqual([0.2, 0.2, 0.2]);
+    // Brightened and clamped elsewhere
+    expect(pixels.filter((v) => v === 0.1).length).toBeGreaterThan(0);
+    expect(Math.max(...pixels)).toBe(1);
+  });
+
+  it('picks one step of oneOf by weight', async () => {
+    const result = await compose([
+      transforms.oneOf([
+        transforms.horizontalFlip({ p: 0 }),
+        transforms.verticalFlip({ p: 0.3 }),
+      ]),
+    ]).run(source);
+
+    expect(result.applied).toEqual([
+      {
+        type: 'oneOf',
+        applied: true,
+        params: { index: 1 },
+        transforms: [{ type: 'verticalFlip', applied: true }],
+      },
+    ]);
+  });
+
+  it('is reproducible from the pipeline seed and from a run seed', async () => {
+    const steps = [
+      transforms.rotate({ limit: 45 }),
+      transforms.colorJitter({ contrast: 0.5, hue: 0.1 }),
+    ];
+    const runTwice = async () => {
+      const pipeline = compose(steps, { seed: 7 });
+      return [await pipeline.run(source), await pipeline.run(source)];
+    };
+
+    const [first, second] = await runTwice();
+    const [again] = await runTwice();
+    expect(again!.applied).toEqual(first!.applied);
+    expect(second!.applied).not.toEqual(first!.applied);
+
+    const replay = await compose(steps).run(source, { seed: second!.seed });
+    expect(replay.applied).toEqual(second!.applied);
+  });
+
+  it('round-trips through JSON', async () => {
+    const pipeline = compose(
+      [
+        transforms.horizontalFlip({ p: 0.5 }),
+        transforms.oneOf(
+          [transforms.cutout({ fillMode: 'random' }), transforms.rotate()],
+          { p: 0.8 }
+        ),
+      ],
+      { seed: 3, format: 'jpeg', quality: 90 }
+    );
+
+    const json = JSON.stringify(pipeline);
+    expect(JSON.parse(json)).toEqual({
+      __version__: '2.0.0',
+      transform: {
+        __class_fullname__: 'Compose',
+        p: 1,
+        transforms: [
+          { __class_fullname__: 'HorizontalFlip', p: 0.5 },
+          {
+            __class_fullname__: 'OneOf',
+            p: 0.8,
+            transforms: [
+              {
+                __class_fullname__: 'Erasing',
+                scale: [0.02, 0.33],
+                ratio: [1 / 3.3, 1 / 0.3],
+                fill: 'random_uniform',
+                p: 1,
+              },
+              {
+                __class_fullname__: 'Rotate',
+                limit: [-30, 30],
+                interpolation: 1,
+                border_mode: 0,
+                fill: [0, 0, 0],
+                p: 1,
+              },
+            ],
+          },
+        ],
+      },
+      seed: 3,
+      format: 'jpeg',
+      quality: 90,
+    });
+
+    const restored = augmentationPipelineFromJSON(json);
+    const original = await pipeline.run(source, { seed: 11 });
+    const copy = await restored.run(source, { seed: 11 });
+    expect(copy.applied).toEqual(original.applied);
+    expect(mockedNative.tensorToImage).toHaveBeenLastCalledWith(
+      expect.any(Array),
+      2,
+      2,
+      expect.objectContaining({ format: 'jpeg', quality: 90 })
+    );
+  });
+
+  it('writes and reads albumentations arguments', () => {
+    const config = compose([
+      transforms.rotate({ limit: [5, 20], fillValue: [255, 0, 0] }),
+      transforms.colorJitter({ brightness: 0.25, hue: 0.1 }),
+      transforms.cutout({ numCutouts: 2, fillMode: 'noise', p: 0.5 }),
+    ]).toJSON();
+    const [rotate, colorJitter, cutout] = config.transform.transforms!;
+    // albumentations rotates counter-clockwise
+    expect(rotate).toMatchObject({ limit: [-20, -5], fill: [255, 0, 0] });
+    expect(colorJitter).toEqual({
+      __class_fullname__: 'ColorJitter',
+      brightness: [0.75, 1.25],
+      contrast: [1, 1],
+      saturation: [1, 1],
+      hue: [-0.1, 0.1],
+      p: 1,
+    });
+    expect(cutout).toMatchObject({
+      __class_fullname__: 'Sequential',
+      p: 0.5,
+      transforms: [
+        { __class_fullname__: 'Erasing', fill: 'random', p: 1 },
+        { __class_fullname__: 'Erasing', fill: 'random', p: 1 },
+      ],
+    });
+
+    // As written by A.to_dict(A.Compose([...])) in albumentations 2.x
+    const restored = augmentationPipelineFromJSON({
+      __version__: '2.0.8',
+      transform: {
+        __class_fullname__: 'Compose',
+        p: 1.0,
+        transforms: [
+          { __class_fullname__: 'HorizontalFlip', p: 0.5 },
+          {
+            __class_fullname__: 'OneOf',
+            p: 0.9,
+            transforms: [
+              {
+                __class_fullname__: 'Rotate',
+                p: 1.0,
+                limit: [-15.0, 15.0],
+                interpolation: 1,
+                border_mode: 0,
+                fill: 0.0,
+                fill_mask: 0.0,
+                rotate_method: 'largest_box',
+                crop_border: false,
+                mask_interpolation: 0,
+              },
+              {
+                __class_fullname__: 'ColorJitter',
+                p: 1.0,
+                brightness: [0.75, 1.25],
+                contrast: [0.75, 1.25],
+                saturation: [1.0, 1.0],
+                hue: [0.0, 0.0],
+              },
+            ],
+          },
+          {
+            __class_fullname__: 'Erasing',
+            p: 0.3,
+            scale: [0.02, 0.33],
+            ratio: [0.3, 3.3],
+            fill: 0,
+            fill_mask: null,
+          },
+        ],
+        bbox_params: null,
+        keypoint_params: null,
+        additional_targets: {},
+        is_check_shapes: true,
+      },
+    });
+    expect(restored.transforms).toEqual([
+      { type: 'horizontalFlip', p: 0.5 },
+      {
+        type: 'oneOf',
+        p: 0.9,
+        transforms: [
+          { type: 'rotate', limit: [-15, 15], fillValue: [0, 0, 0], p: 1 },
+          {
+            type: 'colorJitter',
+            brightness: [-0.25, 0.25],
+            contrast: [0.75, 1.25],
+            p: 1,
+          },
+        ],
+      },
+      {
+        type: 'cutout',
+        minSize: 0.02,
+        maxSize: 0.33,
+        minAspect: 1 / 3.3,
+        maxAspect: 1 / 0.3,
+        fillValue: [0, 0, 0],
+        p: 0.3,
+      },
+    ]);
+  });
+
+  it('validates steps and serialized pipelines', () => {
+    const invalid = [
+      [{ type: 'blur' }],
+      [{ type: 'horizontalFlip', p: 2 }],
+      [{ type: 'rotate', limit: [10, -10] }],
+      [{ type: 'colorJitter', contrast: -1 }],
+      [{ type: 'cutout', minSize: 0.5, maxSize: 0.1 }],
+      [{ type: 'cutout', fillMode: 'blur' }],
+      [{ type: 'oneOf', transforms: [] }],
+      [{ type: 'oneOf', transforms: [{ type: 'oneOf' }] }],
+    ];
+    for (const steps of invalid) {
+      expect(() => compose(steps as never)).toThrow(
+        expect.objectContaining({ code: 'INVALID_OPTIONS' })
+      );
+    }
+    expect(() => compose([], { format: 'gif' as never })).toThrow(
+      /Invalid format/
+    );
+
+    expect(() => augmentationPipelineFromJSON('{"transform": {')).toThrow(
+      expect.objectContaining({ code: 'INVALID_INPUT' })
+    );
+    const invalidConfigs = [
+      { version: 1, transforms: [] },
+      { transform: { __class_fullname__: 'OneOf', transforms: [] } },
+      { transform: { __class_fullname__: 'Compose', transforms: [], p: 0.5 } },
+      {
+        transform: {
+          __class_fullname__: 'Compose',
+          transforms: [{ __class_fullname__: 'GaussianBlur', p: 1 }],
+        },
+      },
+      {
+        transform: {
+          __class_fullname__: 'Compose',
+          transforms: [{ __class_fullname__: 'Rotate', border_mode: 4 }],
+        },
+      },
+    ];
+    for (const config of invalidConfigs) {
+      expect(() => augmentationPipelineFromJSON(config as never)).toThrow(
+        expect.objectContaining({ code: 'INVALID_OPTIONS' })
+      );
+    }
+    expect(() =>
+      augmentationPipelineFromJSON({
+        __version__: '2.0.8',
+        transform: {
+          __class_fullname__: 'Compose',
+          transforms: [{ __class_fullname__: 'CoarseDropout', p: 0.5 }],
+        },
+      })
+    ).toThrow(/transforms\[0\]: Unsupported transform: CoarseDropout/);
+  });
+});
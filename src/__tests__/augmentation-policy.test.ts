@@ -0,0 +1,226 @@
+/**
+ * Tests for AutoAugment, RandAugment and TrivialAugment policies
+ */
+
+import {
+  autoAugment,
+  compose,
+  randAugment,
+  transforms,
+  trivialAugment,
+} from '../index';
+import NativeVisionUtils from '../NativeVisionUtils';
+import { lastEncodedPixels, packedPixelResult } from './testSetup';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    getPixelData: jest.fn(),
+    tensorToImage: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+const source = { type: 'file' as const, value: '/path/to/image.jpg' };
+
+const seeds = Array.from({ length: 100 }, (_, i) => i + 1);
+
+describe('augmentation policies', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // 4x2 image, wider than tall, so a canvas-growing rotation would show
+    mockedNative.getPixelData.mockResolvedValue({
+      ...packedPixelResult(
+        Array.from({ length: 4 * 2 * 3 }, (_, i) => (i % 10) / 10),
+        4,
+        2
+      ),
+      colorFormat: 'rgb',
+      dataLayout: 'hwc',
+    });
+    mockedNative.tensorToImage.mockImplementation(
+      async (_data, width, height) => ({
+        base64: 'augmented',
+        width,
+        height,
+        format: 'png',
+      })
+    );
+  });
+
+  it('randAugment draws n ops at magnitude m within the validated ranges', () => {
+    const policy = randAugment({ n: 3, m: 30 });
+    expect(policy.name).toBe('randAugment');
+
+    for (const seed of seeds) {
+      const { ops, options } = policy.sample(seed);
+      expect(ops).toHaveLength(3);
+      for (const { op, magnitude, value, applied } of ops) {
+        expect(magnitude).toBe(30);
+        expect(applied).toBe(true);
+        // Full magnitude rotates by 30° and reaches the color limits
+        const expected = {
+          identity: [0],
+          rotate: [-30, 30],
+          brightness: [-1, 1],
+          contrast: [0, 2],
+          saturation: [0, 2],
+        }[op];
+        expect(expected).toContain(value);
+      }
+      const { rotation, brightness, contrast, saturation } = options;
+      expect(rotation ?? 0).toBeGreaterThanOrEqual(0);
+      expect(rotation ?? 0).toBeLessThan(360);
+      expect(Math.abs(brightness ?? 0)).toBeLessThanOrEqual(1);
+      expect(contrast ?? 1).toBeLessThanOrEqual(2);
+      expect(saturation ?? 1).toBeLessThanOrEqual(2);
+    }
+  });
+
+  it('scales magnitude by bin and combines repeated ops', () => {
+    const policy = randAugment({ n: 2, m: 5, numMagnitudeBins: 11 });
+    const samples = seeds.map((seed) => policy.sample(seed));
+
+    const rotations = samples.flatMap(({ ops }) =>
+      ops.filter(({ op }) => op === 'rotate').map(({ value }) => value)
+    );
+    expect(new Set(rotations.map(Math.abs))).toEqual(new Set([15]));
+
+    const twice = samples.find(
+      ({ ops }) => ops[0]!.op === 'contrast' && ops[1]!.op === 'contrast'
+    );
+    expect(twice!.options.contrast).toBeCloseTo(
+      twice!.ops[0]!.value * twice!.ops[1]!.value
+    );
+  });
+
+  it('runs the sampled ops through compose and records them', async () => {
+    const policy = randAugment({ n: 2, m: 9, seed: 42 });
+    const expected = randAugment({ n: 2, m: 9 }).sample(policy.sample().seed);
+
+    const result = await randAugment({ n: 2, m: 9, seed: 42 }).apply(source, {
+      boxes: [[1, 0, 2, 1]],
+    });
+    const encoded = lastEncodedPixels(mockedNative.tensorToImage);
+
+    // The same ops as compose steps, at their sampled values
+    const steps = expected.ops
+      .filter(({ op }) => op !== 'identity')
+      .map(({ op, value }) =>
+        op === 'rotate'
+          ? transforms.rotate({ limit: [value, value], p: 1 })
+          : transforms.colorJitter({ [op]: [value, value], p: 1 })
+      );
+    await compose(steps).run(source);
+
+    expect(result.seed).toBe(expected.seed);
+    expect(result.ops).toEqual(expected.ops);
+    expect(result).not.toHaveProperty('applied');
+    expect(encoded).toEqual(lastEncodedPixels(mockedNative.tensorToImage));
+    expect(mockedNative.getPixelData).toHaveBeenCalledWith(
+      expect.objectContaining({ source })
+    );
+    expect(result.boxes).toHaveLength(1);
+  });
+
+  it('keeps the input size for every op', async () => {
+    for (const seed of seeds.slice(0, 20)) {
+      const result = await trivialAugment().apply(source, { seed });
+      expect(result).toMatchObject({ width: 4, height: 2 });
+    }
+    const rotated = await randAugment({ n: 1, m: 30 }).apply(source, {
+      seed: seeds.find(
+        (seed) =>
+          randAugment({ n: 1, m: 30 }).sample(seed).ops[0]!.op === 'rotate'
+      ),
+    });
+    expect(rotated.ops[0]!.op).toBe('rotate');
+    expect(rotated).toMatchObject({ width: 4, height: 2 });
+  });
+
+  it('applies brightness as an offset', async () => {
+    const seed = seeds.find(
+      (s) => randAugment({ n: 1, m: 15 }).sample(s).ops[0]!.op === 'brightness'
+    )!;
+    const { ops } = await randAugment({ n: 1, m: 15 }).apply(source, { seed });
+
+    const offset = ops[0]!.value;
+    expect(Math.abs(offset)).toBeCloseTo(0.5);
+    // Every channel moves by the same amount, clamped to [0, 1]
+    const input = Array.from({ length: 4 * 2 * 3 }, (_, i) => (i % 10) / 10);
+    expect(lastEncodedPixels(mockedNative.tensorToImage)).toEqual(
+      input.map(
+        (v) => Math.round(Math.min(Math.max(v + offset, 0), 1) * 1000) / 1000
+      )
+    );
+  });
+
+  it('trivialAugment draws one op at a uniform magnitude, reproducibly', () => {
+    const first = trivialAugment({ seed: 3 });
+    const again = trivialAugment({ seed: 3 });
+    const a = [first.sample(), first.sample()];
+    const b = [again.sample(), again.sample()];
+    expect(b).toEqual(a);
+    expect(a[1]).not.toEqual(a[0]);
+
+    const magnitudes = new Set(
+      seeds.map((seed) => {
+        const { ops } = first.sample(seed);
+        expect(ops).toHaveLength(1);
+        return ops[0]!.magnitude;
+      })
+    );
+    expect(Math.min(...magnitudes)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...magnitudes)).toBeLessThanOrEqual(30);
+    expect(magnitudes.size).toBeGreaterThan(10);
+  });
+
+  it('autoAugment picks a sub-policy and applies each op with its probability', () => {
+    const policy = autoAugment('imagenet');
+    const samples = seeds.map((seed) => policy.sample(seed));
+
+    for (const { subPolicy, ops, options } of samples) {
+      expect(subPolicy).toBeGreaterThanOrEqual(0);
+      expect(subPolicy).toBeLessThan(25);
+      for (const { op, applied } of ops) {
+        if (
+          !applied &&
+          !ops.some((other) => other.op === op && other.applied)
+        ) {
+          expect(options).not.toHaveProperty(op === 'rotate' ? 'rotation' : op);
+        }
+      }
+    }
+
+    // Sub-policy 14: Color (0.6, 4) then Contrast (1.0, 8)
+    const colorContrast = samples.find(({ subPolicy }) => subPolicy === 14)!;
+    const [color, contrast] = colorContrast.ops;
+    expect(color).toMatchObject({ op: 'saturation', magnitude: 4 });
+    expect(contrast).toMatchObject({ op: 'contrast', applied: true });
+    expect(Math.abs(contrast!.value - 1)).toBeCloseTo(8 / 9);
+    expect(colorContrast.options.contrast).toBe(contrast!.value);
+  });
+
+  it('validates policies, options and seeds', async () => {
+    const invalid = [
+      () => autoAugment('cifar10' as never),
+      () => randAugment({ n: -1 }),
+      () => randAugment({ m: 31 }),
+      () => randAugment({ m: 4.5 }),
+      () => trivialAugment({ numMagnitudeBins: 1 }),
+      () => trivialAugment({ seed: NaN }),
+      () => randAugment().sample(Infinity),
+    ];
+    for (const create of invalid) {
+      expect(create).toThrow(
+        expect.objectContaining({ code: 'INVALID_OPTIONS' })
+      );
+    }
+
+    await expect(
+      randAugment().apply(source, { boxes: [[0, 0, 1]] as never })
+    ).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    expect(mockedNative.getPixelData).not.toHaveBeenCalled();
+  });
+});
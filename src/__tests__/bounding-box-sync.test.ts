@@ -0,0 +1,293 @@
+/**
+ * Tests for the synchronous, pure-JS bounding box utilities
+ */
+
+import {
+  calculateIoUSync,
+  clipBoxesSync,
+  convertBoxFormatSync,
+  nonMaxSuppressionSync,
+  reverseLetterboxSync,
+  scaleBoxesSync,
+  VisionUtilsException,
+} from '../index';
+import type { BoundingBox, Detection } from '../types';
+
+describe('convertBoxFormatSync', () => {
+  it('converts between all formats', () => {
+    const cxcywh: BoundingBox = [320, 240, 100, 80];
+
+    const xyxy = convertBoxFormatSync([cxcywh], {
+      fromFormat: 'cxcywh',
+      toFormat: 'xyxy',
+    });
+    expect(xyxy.boxes).toEqual([[270, 200, 370, 280]]);
+    expect(xyxy.format).toBe('xyxy');
+
+    const xywh = convertBoxFormatSync(xyxy.boxes, {
+      fromFormat: 'xyxy',
+      toFormat: 'xywh',
+    });
+    expect(xywh.boxes).toEqual([[270, 200, 100, 80]]);
+
+    const back = convertBoxFormatSync(xywh.boxes, {
+      fromFormat: 'xywh',
+      toFormat: 'cxcywh',
+    });
+    expect(back.boxes).toEqual([cxcywh]);
+  });
+
+  it('validates formats like the native wrapper', () => {
+    expect(() =>
+      convertBoxFormatSync([[0, 0, 1, 1]], {
+        fromFormat: 'yolo' as never,
+        toFormat: 'xyxy',
+      })
+    ).toThrow(expect.objectContaining({ code: 'INVALID_FORMAT' }));
+    expect(() =>
+      convertBoxFormatSync(null as never, {
+        fromFormat: 'xyxy',
+        toFormat: 'xywh',
+      })
+    ).toThrow(VisionUtilsException);
+  });
+});
+
+describe('scaleBoxesSync', () => {
+  it('scales and clips boxes', () => {
+    const result = scaleBoxesSync(
+      [
+        [100, 100, 200, 200],
+        [600, 600, 700, 700],
+      ],
+      { fromWidth: 640, fromHeight: 640, toWidth: 1280, toHeight: 320 }
+    );
+
+    expect(result.boxes).toEqual([
+      [200, 50, 400, 100],
+      [1200, 300, 1280, 320],
+    ]);
+  });
+
+  it('keeps the box format and can skip clipping', () => {
+    const result = scaleBoxesSync([[600, 600, 100, 100]], {
+      fromWidth: 640,
+      fromHeight: 640,
+      toWidth: 1280,
+      toHeight: 1280,
+      format: 'xywh',
+      clip: false,
+    });
+
+    expect(result.boxes).toEqual([[1200, 1200, 200, 200]]);
+    expect(result.format).toBe('xywh');
+  });
+
+  it('rejects non-positive dimensions', () => {
+    expect(() =>
+      scaleBoxesSync([[0, 0, 1, 1]], {
+        fromWidth: 0,
+        fromHeight: 1,
+        toWidth: 1,
+        toHeight: 1,
+      })
+    ).toThrow(expect.objectContaining({ code: 'INVALID_DIMENSIONS' }));
+  });
+});
+
+describe('clipBoxesSync', () => {
+  it('clips to the image and optionally removes empty boxes', () => {
+    const boxes: BoundingBox[] = [
+      [-10, 50, 700, 500],
+      [650, 10, 700, 20],
+    ];
+
+    const kept = clipBoxesSync(boxes, { width: 640, height: 480 });
+    expect(kept.boxes).toEqual([
+      [0, 50, 640, 480],
+      [640, 10, 640, 20],
+    ]);
+    expect(kept.removedCount).toBe(0);
+
+    const removed = clipBoxesSync(boxes, {
+      width: 640,
+      height: 480,
+      removeInvalid: true,
+    });
+    expect(removed.boxes).toEqual([[0, 50, 640, 480]]);
+    expect(removed.removedCount).toBe(1);
+  });
+
+  it('clips cxcywh boxes in xyxy space', () => {
+    const result = clipBoxesSync([[0, 0, 20, 20]], {
+      width: 100,
+      height: 100,
+      format: 'cxcywh',
+    });
+
+    expect(result.boxes).toEqual([[5, 5, 10, 10]]);
+  });
+});
+
+describe('calculateIoUSync', () => {
+  it('computes IoU, intersection and union', () => {
+    const result = calculateIoUSync([100, 100, 200, 200], [150, 150, 250, 250]);
+
+    expect(result.intersection).toBe(2500);
+    expect(result.union).toBe(17500);
+    expect(result.iou).toBeCloseTo(1 / 7);
+  });
+
+  it('handles other formats and disjoint boxes', () => {
+    expect(calculateIoUSync([0, 0, 10, 10], [0, 0, 10, 10], 'xywh').iou).toBe(
+      1
+    );
+    expect(calculateIoUSync([0, 0, 1, 1], [5, 5, 6, 6]).iou).toBe(0);
+    expect(() => calculateIoUSync([0, 0, 1] as never, [0, 0, 1, 1])).toThrow(
+      expect.objectContaining({ code: 'INVALID_INPUT' })
+    );
+  });
+});
+
+describe('reverseLetterboxSync', () => {
+  it('removes padding, undoes the scale and clips', () => {
+    const result = reverseLetterboxSync(
+      [
+        [0, 140, 320, 500],
+        [600, 0, 640, 640],
+      ],
+      { scale: 0.5, offset: [0, 140], originalSize: [1280, 720] }
+    );
+
+    expect(result.boxes).toEqual([
+      [0, 0, 640, 720],
+      [1200, 0, 1280, 720],
+    ]);
+  });
+
+  it('rejects a non-positive scale', () => {
+    expect(() =>
+      reverseLetterboxSync([[0, 0, 1, 1]], {
+        scale: 0,
+        offset: [0, 0],
+        originalSize: [1, 1],
+      })
+    ).toThrow(expect.objectContaining({ code: 'INVALID_SCALE' }));
+  });
+});
+
+describe('nonMaxSuppressionSync', () => {
+  const detections: Detection[] = [
+    { box: [0, 0, 10, 10], score: 0.9, classIndex: 0, label: 'person' },
+    { box: [1, 1, 11, 11], score: 0.8, classIndex: 0, label: 'person' },
+    { box: [0, 0, 10, 10], score: 0.7, classIndex: 1, label: 'bicycle' },
+    { box: [50, 50, 60, 60], score: 0.6, classIndex: 0, label: 'person' },
+  ];
+
+  it('suppresses greedily across classes by default', () => {
+    const result = nonMaxSuppressionSync(detections);
+
+    expect(result.indices).toEqual([0, 3]);
+    expect(result.detections).toEqual([detections[0], detections[3]]);
+    expect(result.suppressedCount).toBe(2);
+  });
+
+  it('suppresses only within a class when not agnostic', () => {
+    const result = nonMaxSuppressionSync(detections, { agnostic: false });
+
+    expect(result.indices).toEqual([0, 2, 3]);
+  });
+
+  it('limits detections overall and per class', () => {
+    expect(
+      nonMaxSuppressionSync(detections, {
+        agnostic: false,
+        maxDetectionsPerClass: 1,
+      }).indices
+    ).toEqual([0, 2]);
+    expect(
+      nonMaxSuppressionSync(detections, { agnostic: false, maxDetections: 2 })
+        .indices
+    ).toEqual([0, 2]);
+  });
+
+  it('keeps adjacent boxes with distant centers under DIoU', () => {
+    // IoU 0.5: greedy at 0.45 suppresses, DIoU subtracts the center penalty
+    const pair: Detection[] = [
+      { box: [0, 0, 30, 10], score: 0.9 },
+      { box: [10, 0, 40, 10], score: 0.8 },
+    ];
+
+    expect(nonMaxSuppressionSync(pair, { iouThreshold: 0.45 }).indices).toEqual(
+      [0]
+    );
+    expect(
+      nonMaxSuppressionSync(pair, { iouThreshold: 0.45, mode: 'diou' }).indices
+    ).toEqual([0, 1]);
+  });
+
+  it('decays overlapping scores with soft-NMS', () => {
+    const iou = 81 / 119;
+
+    const linear = nonMaxSuppressionSync(detections.slice(0, 2), {
+      mode: 'soft-linear',
+    });
+    expect(linear.indices).toEqual([0, 1]);
+    expect(linear.detections[1]!.score).toBeCloseTo(0.8 * (1 - iou));
+    expect(linear.detections[1]!.label).toBe('person');
+
+    const gaussian = nonMaxSuppressionSync(detections.slice(0, 2), {
+      mode: 'soft-gaussian',
+      sigma: 0.5,
+    });
+    expect(gaussian.detections[1]!.score).toBeCloseTo(
+      0.8 * Math.exp(-(iou * iou) / 0.5)
+    );
+
+    const thresholded = nonMaxSuppressionSync(detections.slice(0, 2), {
+      mode: 'soft-linear',
+      scoreThreshold: 0.3,
+    });
+    expect(thresholded.indices).toEqual([0]);
+  });
+
+  it('fuses clusters into score-weighted boxes', () => {
+    const result = nonMaxSuppressionSync(
+      [
+        { box: [0, 0, 10, 10], score: 0.75, classIndex: 2 },
+        { box: [4, 4, 14, 14], score: 0.25, classIndex: 2 },
+        { box: [100, 100, 110, 110], score: 0.5, classIndex: 2 },
+      ],
+      { mode: 'weighted-boxes-fusion', iouThreshold: 0.2 }
+    );
+
+    expect(result.indices).toEqual([0, 2]);
+    expect(result.detections[0]).toEqual({
+      box: [1, 1, 11, 11],
+      score: 0.5,
+      classIndex: 2,
+    });
+    expect(result.suppressedCount).toBe(1);
+  });
+
+  it('returns fused boxes in the input format', () => {
+    const result = nonMaxSuppressionSync(
+      [
+        { box: [5, 5, 10, 10], score: 0.5 },
+        { box: [7, 5, 10, 10], score: 0.5 },
+      ],
+      { mode: 'weighted-boxes-fusion', format: 'cxcywh' }
+    );
+
+    expect(result.detections[0]!.box).toEqual([6, 5, 10, 10]);
+  });
+
+  it('validates options like the native wrapper', () => {
+    expect(() =>
+      nonMaxSuppressionSync(detections, { mode: 'matrix' as never })
+    ).toThrow(expect.objectContaining({ code: 'INVALID_OPTIONS' }));
+    expect(() => nonMaxSuppressionSync(null as never)).toThrow(
+      expect.objectContaining({ code: 'INVALID_INPUT' })
+    );
+  });
+});
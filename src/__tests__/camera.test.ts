@@ -47,6 +47,46 @@ describe('Camera Frame Processing', () => {
       expect(result.processingTimeMs).toBeGreaterThan(0);
     });
 
+    it('should decode a packed tensor into a Float32Array', async () => {
+      const values = new Float32Array([0.25, 0.5, 0.75]);
+      mockProcessCameraFrame.mockResolvedValue({
+        tensorBase64: Buffer.from(values.buffer).toString('base64'),
+        shape: [1, 1, 3],
+        width: 1,
+        height: 1,
+        processingTimeMs: 1,
+      });
+
+      const result = await VisionUtils.processCameraFrame(createMockSource());
+
+      expect(result.tensor).toBeInstanceOf(Float32Array);
+      expect(Array.from(result.tensor)).toEqual([0.25, 0.5, 0.75]);
+    });
+
+    it('should view a JSI tensor buffer in place', async () => {
+      const values = new Float32Array([0.25, 0.5, 0.75]);
+      const global = globalThis as {
+        __visionUtilsTakeBuffer?: (id: number) => ArrayBuffer;
+      };
+      global.__visionUtilsTakeBuffer = () => values.buffer;
+      mockProcessCameraFrame.mockResolvedValue({
+        tensorBufferId: 1,
+        shape: [1, 1, 3],
+        width: 1,
+        height: 1,
+        processingTimeMs: 1,
+      });
+
+      try {
+        const result = await VisionUtils.processCameraFrame(createMockSource());
+
+        expect(result.tensor).toBeInstanceOf(Float32Array);
+        expect((result.tensor as Float32Array).buffer).toBe(values.buffer);
+      } finally {
+        delete global.__visionUtilsTakeBuffer;
+      }
+    });
+
     it('should resize to specified output dimensions', async () => {
       mockProcessCameraFrame.mockResolvedValue({
         tensor: Array(224 * 224 * 3).fill(0.5),
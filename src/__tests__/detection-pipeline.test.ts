@@ -0,0 +1,208 @@
+/**
+ * Tests for the end-to-end detection pipeline
+ */
+
+import { createDetectionPipeline, VisionUtilsException } from '../index';
+import type { Detection, DetectionModelOutput, LetterboxInfo } from '../types';
+import NativeVisionUtils from '../NativeVisionUtils';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    letterbox: jest.fn(),
+    getPixelData: jest.fn(),
+    nonMaxSuppression: jest.fn(),
+    reverseLetterbox: jest.fn(),
+    getLabel: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+const letterboxInfo: LetterboxInfo = {
+  scale: 0.5,
+  padding: [0, 80, 0, 80],
+  offset: [0, 80],
+  originalSize: [1280, 960],
+  letterboxedSize: [640, 640],
+};
+
+// YOLOv8 attributes-first output [1, 6, 8] with two classes:
+// candidate 0: cx=100, cy=180, w=40, h=40, class 1 (0.9)
+// candidate 1: cx=300, cy=300, w=20, h=20, class 0 (0.1)
+// candidates 2-7: empty
+const candidates = [
+  [100, 180, 40, 40, 0.05, 0.9],
+  [300, 300, 20, 20, 0.1, 0.05],
+  ...Array.from({ length: 6 }, () => [0, 0, 0, 0, 0, 0]),
+];
+const modelOutput: DetectionModelOutput = {
+  data: [0, 1, 2, 3, 4, 5].flatMap((a) => candidates.map((c) => c[a]!)),
+  shape: [1, 6, 8],
+};
+
+describe('createDetectionPipeline', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockedNative.letterbox.mockResolvedValue({
+      imageBase64: 'letterboxed',
+      width: 640,
+      height: 640,
+      scale: letterboxInfo.scale,
+      padding: letterboxInfo.padding,
+      offset: letterboxInfo.offset,
+      originalSize: letterboxInfo.originalSize,
+      letterboxInfo,
+      processingTimeMs: 1,
+    });
+    mockedNative.getPixelData.mockResolvedValue({
+      data: [0, 0, 0],
+      width: 640,
+      height: 640,
+      channels: 3,
+      colorFormat: 'rgb',
+      dataLayout: 'nchw',
+      shape: [1, 3, 640, 640],
+      processingTimeMs: 1,
+    });
+    mockedNative.nonMaxSuppression.mockImplementation(async (detections) => ({
+      indices: detections.map((_, i) => i),
+      detections: detections as Detection[],
+      suppressedCount: 0,
+      processingTimeMs: 1,
+    }));
+    mockedNative.reverseLetterbox.mockImplementation(async (boxes, opts) => {
+      const { scale, offset } = opts as Pick<LetterboxInfo, 'scale' | 'offset'>;
+      return {
+        boxes: boxes.map((b) => [
+          (b[0]! - offset[0]) / scale,
+          (b[1]! - offset[1]) / scale,
+          (b[2]! - offset[0]) / scale,
+          (b[3]! - offset[1]) / scale,
+        ]),
+        format: 'xyxy',
+        processingTimeMs: 1,
+      };
+    });
+    mockedNative.getLabel.mockImplementation(async (index: number) =>
+      index === 1 ? 'bicycle' : 'person'
+    );
+  });
+
+  it('runs the full flow and returns labeled detections in original coordinates', async () => {
+    const runModel = jest.fn().mockResolvedValue(modelOutput);
+    const pipeline = createDetectionPipeline({ runModel });
+
+    const result = await pipeline.detect({ type: 'file', value: '/img.jpg' });
+
+    expect(mockedNative.letterbox).toHaveBeenCalledWith(
+      { type: 'file', value: '/img.jpg' },
+      expect.objectContaining({ targetWidth: 640, targetHeight: 640 })
+    );
+    expect(mockedNative.getPixelData).toHaveBeenCalledWith(
+      expect.objectContaining({
+        source: { type: 'base64', value: 'letterboxed' },
+        dataLayout: 'nchw',
+      })
+    );
+    expect(runModel).toHaveBeenCalledWith(
+      expect.objectContaining({ shape: [1, 3, 640, 640] }),
+      letterboxInfo
+    );
+    expect(mockedNative.reverseLetterbox).toHaveBeenCalledWith(
+      [[80, 160, 120, 200]],
+      expect.objectContaining({
+        scale: 0.5,
+        offset: [0, 80],
+        originalSize: [1280, 960],
+        format: 'xyxy',
+        clip: true,
+      })
+    );
+
+    expect(result.detections).toEqual([
+      {
+        box: [160, 160, 240, 240],
+        score: 0.9,
+        classIndex: 1,
+        label: 'bicycle',
+      },
+    ]);
+    expect(result.format).toBe('xyxy');
+    expect(result.letterboxInfo).toBe(letterboxInfo);
+    expect(result.timing.inferenceMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('looks up labels from the configured dataset', async () => {
+    const pipeline = createDetectionPipeline({
+      dataset: 'voc',
+      runModel: async () => modelOutput,
+    });
+
+    await pipeline.detect({ type: 'file', value: '/img.jpg' });
+
+    expect(mockedNative.getLabel).toHaveBeenCalledWith(1, 'voc', false);
+  });
+
+  it('skips label lookup when includeLabels is false', async () => {
+    const pipeline = createDetectionPipeline({
+      includeLabels: false,
+      runModel: async () => modelOutput,
+    });
+
+    const result = await pipeline.detect({ type: 'file', value: '/img.jpg' });
+
+    expect(mockedNative.getLabel).not.toHaveBeenCalled();
+    expect(result.detections[0]!.label).toBeUndefined();
+  });
+
+  it('passes NMS options with the decoder box format', async () => {
+    const pipeline = createDetectionPipeline({
+      runModel: async () => modelOutput,
+      decode: { outputFormat: 'cxcywh', scoreThreshold: 0.05 },
+      nms: { iouThreshold: 0.3 },
+    });
+
+    await pipeline.postprocess(modelOutput, letterboxInfo);
+
+    expect(mockedNative.nonMaxSuppression).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.objectContaining({ iouThreshold: 0.3, format: 'cxcywh' })
+    );
+    expect(mockedNative.reverseLetterbox).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.objectContaining({ format: 'cxcywh' })
+    );
+  });
+
+  it('skips NMS and restoration when nothing passes the threshold', async () => {
+    const pipeline = createDetectionPipeline({
+      runModel: async () => modelOutput,
+      decode: { scoreThreshold: 0.99 },
+    });
+
+    const detections = await pipeline.postprocess(modelOutput, letterboxInfo);
+
+    expect(detections).toEqual([]);
+    expect(mockedNative.nonMaxSuppression).not.toHaveBeenCalled();
+    expect(mockedNative.reverseLetterbox).not.toHaveBeenCalled();
+  });
+
+  it('throws when runModel is missing', () => {
+    expect(() =>
+      createDetectionPipeline(
+        {} as Parameters<typeof createDetectionPipeline>[0]
+      )
+    ).toThrow(VisionUtilsException);
+  });
+
+  it('throws on unsupported presets', () => {
+    expect(() =>
+      createDetectionPipeline({
+        preset: 'mobilenet' as 'yolo',
+        runModel: async () => modelOutput,
+      })
+    ).toThrow(/Unsupported detection preset/);
+  });
+});
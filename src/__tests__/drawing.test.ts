@@ -26,7 +26,13 @@ async function drawBoxes(
   detections: Detection[],
   options?: TestDrawBoxesOptions
 ) {
-  if (!source || typeof source !== 'object' || !source.type || !source.value) {
+  if (
+    !source ||
+    typeof source !== 'object' ||
+    !source.type ||
+    !('value' in source) ||
+    !source.value
+  ) {
     throw new VisionUtilsException(
       'INVALID_SOURCE',
       'Source must be a valid ImageSource object'
@@ -61,7 +67,13 @@ async function drawKeypoints(
     saveFormat?: 'jpg' | 'png';
   }
 ) {
-  if (!source || typeof source !== 'object' || !source.type || !source.value) {
+  if (
+    !source ||
+    typeof source !== 'object' ||
+    !source.type ||
+    !('value' in source) ||
+    !source.value
+  ) {
     throw new VisionUtilsException(
       'INVALID_SOURCE',
       'Source must be a valid ImageSource object'
@@ -94,7 +106,13 @@ async function overlayMask(
     saveFormat?: 'jpg' | 'png';
   }
 ) {
-  if (!source || typeof source !== 'object' || !source.type || !source.value) {
+  if (
+    !source ||
+    typeof source !== 'object' ||
+    !source.type ||
+    !('value' in source) ||
+    !source.value
+  ) {
     throw new VisionUtilsException(
       'INVALID_SOURCE',
       'Source must be a valid ImageSource object'
@@ -140,7 +158,13 @@ async function overlayHeatmap(
     saveFormat?: 'jpg' | 'png';
   }
 ) {
-  if (!source || typeof source !== 'object' || !source.type || !source.value) {
+  if (
+    !source ||
+    typeof source !== 'object' ||
+    !source.type ||
+    !('value' in source) ||
+    !source.value
+  ) {
     throw new VisionUtilsException(
       'INVALID_SOURCE',
       'Source must be a valid ImageSource object'
@@ -0,0 +1,201 @@
+/**
+ * Tests for edge detection
+ */
+
+import { detectEdges, VisionUtilsException } from '../index';
+import type { ImageSource } from '../types';
+import NativeVisionUtils from '../NativeVisionUtils';
+import { packFloats } from './testSetup';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    detectEdges: jest.fn(),
+    getPixelData: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+const source: ImageSource = { type: 'file', value: '/path/to/image.jpg' };
+
+// 2x2 edge map
+const edgeMap = {
+  data: [0, 0.5, 1, 0.25],
+  width: 2,
+  height: 2,
+  channels: 1,
+  type: 'sobel',
+  processingTimeMs: 1,
+};
+
+// 2x2 RGB pixel data, packed as native returns it
+const hwcPixels = {
+  dataBase64: packFloats([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]),
+  dataType: 'float32',
+  width: 2,
+  height: 2,
+  channels: 3,
+  colorFormat: 'rgb',
+  dataLayout: 'hwc',
+  shape: [2, 2, 3],
+  processingTimeMs: 1,
+};
+
+describe('detectEdges', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should call native detectEdges with defaults', async () => {
+    mockedNative.detectEdges.mockResolvedValue(edgeMap);
+
+    const result = await detectEdges(source, { type: 'sobel' });
+
+    expect(mockedNative.detectEdges).toHaveBeenCalledWith(source, {
+      type: 'sobel',
+      lowThreshold: 50,
+      highThreshold: 150,
+      outputFormat: 'tensor',
+      resize: undefined,
+      roi: undefined,
+    });
+    expect(result.data).toEqual(edgeMap.data);
+    expect(mockedNative.getPixelData).not.toHaveBeenCalled();
+  });
+
+  it('should pass canny thresholds, resize and base64 output', async () => {
+    mockedNative.detectEdges.mockResolvedValue({
+      base64: 'data:image/png;base64,abc',
+      width: 100,
+      height: 100,
+      type: 'canny',
+      processingTimeMs: 1,
+    });
+
+    const result = await detectEdges(source, {
+      type: 'canny',
+      lowThreshold: 20,
+      highThreshold: 80,
+      outputFormat: 'base64',
+      resize: { width: 100, height: 100 },
+    });
+
+    expect(mockedNative.detectEdges).toHaveBeenCalledWith(
+      source,
+      expect.objectContaining({
+        type: 'canny',
+        lowThreshold: 20,
+        highThreshold: 80,
+        outputFormat: 'base64',
+        resize: { width: 100, height: 100 },
+      })
+    );
+    expect(result.base64).toBe('data:image/png;base64,abc');
+  });
+
+  describe('outputAsChannel', () => {
+    it('should append the edge map as the last channel for HWC data', async () => {
+      mockedNative.detectEdges.mockResolvedValue(edgeMap);
+      mockedNative.getPixelData.mockResolvedValue(hwcPixels);
+
+      const result = await detectEdges(source, {
+        type: 'sobel',
+        outputAsChannel: true,
+      });
+
+      expect(result.pixelData!.channels).toBe(4);
+      expect(result.pixelData!.shape).toEqual([2, 2, 4]);
+      expect(Array.from(result.pixelData!.data)).toEqual([
+        1, 2, 3, 0, 4, 5, 6, 0.5, 7, 8, 9, 1, 10, 11, 12, 0.25,
+      ]);
+    });
+
+    it('should append the edge plane for NCHW data', async () => {
+      mockedNative.detectEdges.mockResolvedValue(edgeMap);
+      mockedNative.getPixelData.mockResolvedValue({
+        ...hwcPixels,
+        dataLayout: 'nchw',
+        shape: [1, 3, 2, 2],
+      });
+
+      const result = await detectEdges(
+        source,
+        { type: 'sobel', outputAsChannel: true },
+        { dataLayout: 'nchw', outputFormat: 'float32Array' }
+      );
+
+      expect(result.pixelData!.data).toBeInstanceOf(Float32Array);
+      expect(result.pixelData!.shape).toEqual([1, 4, 2, 2]);
+      expect(Array.from(result.pixelData!.data).slice(12)).toEqual([
+        0, 0.5, 1, 0.25,
+      ]);
+    });
+
+    it('should run edge detection with the resolved pixel resize', async () => {
+      mockedNative.detectEdges.mockResolvedValue(edgeMap);
+      mockedNative.getPixelData.mockResolvedValue(hwcPixels);
+
+      await detectEdges(
+        source,
+        { type: 'laplacian', outputAsChannel: true },
+        { modelPreset: 'mobilenet' }
+      );
+
+      expect(mockedNative.detectEdges).toHaveBeenCalledWith(
+        source,
+        expect.objectContaining({
+          resize: expect.objectContaining({
+            width: 224,
+            height: 224,
+            strategy: 'cover',
+          }),
+        })
+      );
+    });
+
+    it('should throw when edge and pixel sizes differ', async () => {
+      mockedNative.detectEdges.mockResolvedValue({ ...edgeMap, width: 3 });
+      mockedNative.getPixelData.mockResolvedValue(hwcPixels);
+
+      await expect(
+        detectEdges(source, { type: 'sobel', outputAsChannel: true })
+      ).rejects.toThrow(/does not match pixel data size/);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject unknown types', async () => {
+      await expect(
+        detectEdges(source, { type: 'prewitt' as 'sobel' })
+      ).rejects.toThrow(VisionUtilsException);
+    });
+
+    it('should reject inverted thresholds', async () => {
+      await expect(
+        detectEdges(source, {
+          type: 'canny',
+          lowThreshold: 200,
+          highThreshold: 100,
+        })
+      ).rejects.toThrow(/lowThreshold/);
+    });
+
+    it('should reject base64 output with outputAsChannel', async () => {
+      await expect(
+        detectEdges(source, {
+          type: 'sobel',
+          outputAsChannel: true,
+          outputFormat: 'base64',
+        })
+      ).rejects.toThrow(/outputAsChannel/);
+    });
+
+    it('should reject invalid sources', async () => {
+      await expect(
+        detectEdges({ type: 'url', value: 'not-a-url' }, { type: 'sobel' })
+      ).rejects.toThrow(VisionUtilsException);
+      expect(mockedNative.detectEdges).not.toHaveBeenCalled();
+    });
+  });
+});
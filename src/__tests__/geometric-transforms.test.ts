@@ -0,0 +1,260 @@
+/**
+ * Tests for affine, perspective and random-resized-crop transforms
+ */
+
+import {
+  affineTransform,
+  perspectiveTransform,
+  randomResizedCrop,
+} from '../index';
+import type { Quad, TransformMatrix } from '../types';
+import NativeVisionUtils from '../NativeVisionUtils';
+import { lastEncodedPixels, packedPixelResult } from './testSetup';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    getImageMetadata: jest.fn(),
+    getPixelData: jest.fn(),
+    tensorToImage: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+const source = { type: 'file' as const, value: '/path/to/image.jpg' };
+
+/** 2x2 RGB image: red, green / blue, white */
+const PIXELS = [1, 0, 0, 0, 1, 0, 0, 0, 1, 1, 1, 1];
+
+const encodedPixels = () => lastEncodedPixels(mockedNative.tensorToImage);
+
+const rounded = (matrix: TransformMatrix) =>
+  matrix.map((v) => Math.round(v * 1e6) / 1e6 + 0);
+
+const apply = (m: TransformMatrix, [x, y]: [number, number]) => {
+  const w = m[6] * x + m[7] * y + m[8];
+  return [(m[0] * x + m[1] * y + m[2]) / w, (m[3] * x + m[4] * y + m[5]) / w];
+};
+
+describe('geometric transforms', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedNative.getImageMetadata.mockResolvedValue({ width: 100, height: 50 });
+    mockedNative.getPixelData.mockImplementation(async (options) => {
+      const { resize } = options as {
+        resize?: { width: number; height: number };
+      };
+      const width = resize?.width ?? 2;
+      const height = resize?.height ?? 2;
+      return packedPixelResult(
+        resize ? new Array(width * height * 3).fill(0.5) : PIXELS,
+        width,
+        height
+      );
+    });
+    mockedNative.tensorToImage.mockImplementation(
+      async (_data, width, height) => ({
+        base64: 'encoded',
+        width,
+        height,
+        format: 'png',
+      })
+    );
+  });
+
+  describe('affineTransform', () => {
+    it('translates pixels and annotations and fills uncovered areas', async () => {
+      const result = await affineTransform(source, {
+        translate: [1, 0],
+        fillValue: [51, 51, 51],
+        keypoints: [{ x: 0.5, y: 0.5 }],
+      });
+
+      expect(rounded(result.matrix)).toEqual([1, 0, 1, 0, 1, 0, 0, 0, 1]);
+      expect(encodedPixels()).toEqual([
+        0.2, 0.2, 0.2, 1, 0, 0, 0.2, 0.2, 0.2, 0, 0, 1,
+      ]);
+      expect(result.keypoints).toEqual([{ x: 1.5, y: 0.5 }]);
+    });
+
+    it('rotates clockwise about the center, like an explicit matrix', async () => {
+      const rotated = await affineTransform(source, { rotate: 90 });
+      expect(rounded(rotated.matrix)).toEqual([0, -1, 2, 1, 0, 0, 0, 0, 1]);
+      // Red moves from the top-left to the top-right
+      const pixels = encodedPixels();
+      expect(pixels).toEqual([0, 0, 1, 1, 0, 0, 1, 1, 1, 0, 1, 0]);
+
+      const explicit = await affineTransform(source, {
+        matrix: [0, -1, 2, 1, 0, 0],
+      });
+      expect(explicit.matrix).toEqual([0, -1, 2, 1, 0, 0, 0, 0, 1]);
+      expect(encodedPixels()).toEqual(pixels);
+    });
+
+    it('scales, then shears, about the center', async () => {
+      const result = await affineTransform(source, {
+        scale: 2,
+        shear: [45, 0],
+        size: [4, 4],
+        boxes: [[0, 0, 1, 1]],
+      });
+
+      // x' = 2x + 2y - 3, y' = 2y - 1
+      expect(rounded(result.matrix)).toEqual([2, 2, -3, 0, 2, -1, 0, 0, 1]);
+      expect(result).toMatchObject({ width: 4, height: 4 });
+      expect(result.boxes).toEqual([[0, 0, 1, 1]]);
+      expect(mockedNative.tensorToImage).toHaveBeenCalledWith(
+        expect.any(Array),
+        4,
+        4,
+        expect.anything()
+      );
+    });
+  });
+
+  describe('perspectiveTransform', () => {
+    it('maps each source corner onto its destination corner', async () => {
+      const src: Quad = [
+        [0, 0],
+        [2, 0],
+        [2, 2],
+        [0, 2],
+      ];
+      const dst: Quad = [
+        [0.5, 0],
+        [1.5, 0],
+        [2, 2],
+        [0, 2],
+      ];
+
+      const result = await perspectiveTransform(source, src, dst, {
+        keypoints: [{ x: 2, y: 0 }],
+      });
+
+      src.forEach((corner, i) => {
+        const [x, y] = apply(result.matrix, corner);
+        expect(x).toBeCloseTo(dst[i]![0]);
+        expect(y).toBeCloseTo(dst[i]![1]);
+      });
+      expect(result.keypoints![0]!.x).toBeCloseTo(1.5);
+      expect(result.matrix[6]).toBe(0);
+      expect(result.matrix[7]).not.toBe(0);
+    });
+
+    it('rectifies into the requested output size', async () => {
+      const result = await perspectiveTransform(
+        source,
+        [
+          [0, 0],
+          [2, 0],
+          [2, 2],
+          [0, 2],
+        ],
+        [
+          [0, 0],
+          [4, 0],
+          [4, 4],
+          [0, 4],
+        ],
+        { size: [4, 4] }
+      );
+
+      expect(rounded(result.matrix)).toEqual([2, 0, 0, 0, 2, 0, 0, 0, 1]);
+      // Output pixel (1, 1) samples source (0.25, 0.25): mostly red
+      const pixels = encodedPixels();
+      expect(pixels).toHaveLength(4 * 4 * 3);
+      expect(pixels.slice(15, 18)).toEqual([0.625, 0.25, 0.25]);
+    });
+  });
+
+  describe('randomResizedCrop', () => {
+    it('crops within the scale and ratio ranges and resizes natively', async () => {
+      for (let seed = 1; seed <= 20; seed++) {
+        const result = await randomResizedCrop(source, {
+          size: 32,
+          scale: [0.2, 0.5],
+          seed,
+          boxes: [[0, 0, 100, 50]],
+        });
+        const { crop, matrix } = result;
+
+        expect(crop.x + crop.width).toBeLessThanOrEqual(100);
+        expect(crop.y + crop.height).toBeLessThanOrEqual(50);
+        const area = (crop.width * crop.height) / 5000;
+        expect(area).toBeGreaterThan(0.18);
+        expect(area).toBeLessThan(0.52);
+        expect(crop.width / crop.height).toBeGreaterThan(0.7);
+        expect(crop.width / crop.height).toBeLessThan(1.4);
+
+        const { roi, resize } = mockedNative.getPixelData.mock.lastCall![0] as {
+          roi: unknown;
+          resize: unknown;
+        };
+        expect(roi).toEqual(crop);
+        expect(resize).toMatchObject({ width: 32, height: 32 });
+
+        expect(apply(matrix, [crop.x, crop.y])).toEqual([0, 0]);
+        const [right, bottom] = apply(matrix, [
+          crop.x + crop.width,
+          crop.y + crop.height,
+        ]);
+        expect(right).toBeCloseTo(32);
+        expect(bottom).toBeCloseTo(32);
+        // The whole image clipped to the output
+        expect(result.boxes).toEqual([[0, 0, 32, 32]]);
+      }
+    });
+
+    it('is reproducible and falls back to a centered crop', async () => {
+      const first = await randomResizedCrop(source, { size: [64, 48] });
+      const again = await randomResizedCrop(source, {
+        size: [64, 48],
+        seed: first.seed,
+      });
+      expect(again.crop).toEqual(first.crop);
+      expect(again).toMatchObject({ width: 64, height: 48 });
+
+      // No crop can cover twice the image: take the widest one within ratio
+      const fallback = await randomResizedCrop(source, {
+        size: 16,
+        scale: [2, 3],
+      });
+      expect(fallback.crop).toEqual({ x: 16, y: 0, width: 67, height: 50 });
+    });
+  });
+
+  it('validates options before decoding', async () => {
+    const collinear: Quad = [
+      [0, 0],
+      [1, 1],
+      [2, 2],
+      [0, 2],
+    ];
+    const square: Quad = [
+      [0, 0],
+      [2, 0],
+      [2, 2],
+      [0, 2],
+    ];
+    const invalid = [
+      affineTransform(source, { matrix: [1, 0, 0, 0, 1, 0], rotate: 5 }),
+      affineTransform(source, { matrix: [1, 0, 0, 0, 1, 0, 0.1, 0, 1] }),
+      affineTransform(source, { scale: 0 }),
+      affineTransform(source, { shear: 90 }),
+      affineTransform(source, { translate: [1] as never }),
+      affineTransform(source, { size: [0, 2] }),
+      affineTransform(source, { fillValue: [300, 0, 0] }),
+      perspectiveTransform(source, square, [[0, 0]] as never),
+      perspectiveTransform(source, collinear, square),
+      randomResizedCrop(source, {} as never),
+      randomResizedCrop(source, { size: 32, scale: [0.5, 0.2] }),
+      randomResizedCrop(source, { size: 32, ratio: [0, 1] }),
+    ];
+    for (const promise of invalid) {
+      await expect(promise).rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+    }
+    expect(mockedNative.getPixelData).not.toHaveBeenCalled();
+    expect(mockedNative.getImageMetadata).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Tests for importing Hugging Face preprocessor configs
+ */
+
+import {
+  optionsFromHFPreprocessorConfig,
+  VisionUtilsException,
+} from '../index';
+
+const CLIP_MEAN = [0.48145466, 0.4578275, 0.40821073];
+const CLIP_STD = [0.26862954, 0.26130258, 0.27577711];
+
+describe('optionsFromHFPreprocessorConfig', () => {
+  it('maps a CLIP config exactly', () => {
+    const { options, warnings } = optionsFromHFPreprocessorConfig({
+      crop_size: { height: 224, width: 224 },
+      do_center_crop: true,
+      do_convert_rgb: true,
+      do_normalize: true,
+      do_rescale: true,
+      do_resize: true,
+      image_mean: CLIP_MEAN,
+      image_processor_type: 'CLIPImageProcessor',
+      image_std: CLIP_STD,
+      resample: 2,
+      rescale_factor: 0.00392156862745098,
+      size: { shortest_edge: 224 },
+    });
+
+    expect(options).toEqual({
+      colorFormat: 'rgb',
+      dataLayout: 'nchw',
+      normalization: {
+        preset: 'custom',
+        mean: CLIP_MEAN,
+        std: CLIP_STD,
+        scale: 1 / 255,
+      },
+      resize: { width: 224, height: 224, strategy: 'cover' },
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it('yields the CLIP tensor values from 0-255 pixels', () => {
+    const { normalization } = optionsFromHFPreprocessorConfig({
+      do_normalize: true,
+      image_mean: CLIP_MEAN,
+      image_std: CLIP_STD,
+    }).options;
+    const { mean, std, scale } = normalization as Required<
+      NonNullable<typeof normalization>
+    >;
+
+    // Both platforms compute (pixel * scale - mean) / std; Android folds the
+    // scale into a 0-255 mean and std
+    const normalize = (pixel: number, c: number) =>
+      (pixel * scale - mean[c]!) / std[c]!;
+    const folded = (pixel: number, c: number) =>
+      (pixel - mean[c]! / scale) / (std[c]! / scale);
+
+    const expected = [
+      [-1.7923, -1.7521, -1.4802],
+      [0.0763, 0.1689, 0.3399],
+      [1.9303, 2.0749, 2.1459],
+    ];
+    [0, 128, 255].forEach((pixel, row) => {
+      for (let c = 0; c < 3; c++) {
+        expect(normalize(pixel, c)).toBeCloseTo(expected[row]![c]!, 4);
+        expect(folded(pixel, c)).toBeCloseTo(expected[row]![c]!, 4);
+      }
+    });
+  });
+
+  it('stretches to a fixed height and width', () => {
+    const { options } = optionsFromHFPreprocessorConfig(
+      JSON.stringify({
+        do_normalize: true,
+        do_resize: true,
+        image_mean: [0.5, 0.5, 0.5],
+        image_std: [0.5, 0.5, 0.5],
+        size: { height: 384, width: 384 },
+      })
+    );
+
+    expect(options.resize).toEqual({
+      width: 384,
+      height: 384,
+      strategy: 'stretch',
+    });
+    expect(options.normalization).toMatchObject({
+      mean: [0.5, 0.5, 0.5],
+      std: [0.5, 0.5, 0.5],
+    });
+  });
+
+  it('reads legacy numeric sizes', () => {
+    // Legacy CLIP: size is the shortest edge because it center crops
+    const clip = optionsFromHFPreprocessorConfig({
+      crop_size: 224,
+      do_center_crop: true,
+      size: 224,
+    });
+    expect(clip.options.resize).toEqual({
+      width: 224,
+      height: 224,
+      strategy: 'cover',
+    });
+    expect(clip.warnings).toEqual([]);
+
+    // Legacy ViT: no crop, so size is square
+    const vit = optionsFromHFPreprocessorConfig({ size: 224 });
+    expect(vit.options.resize).toMatchObject({ strategy: 'stretch' });
+  });
+
+  it('picks presets when only rescaling', () => {
+    expect(
+      optionsFromHFPreprocessorConfig({ do_normalize: false }).options
+        .normalization
+    ).toEqual({ preset: 'scale' });
+    expect(
+      optionsFromHFPreprocessorConfig({ do_rescale: false }).options
+        .normalization
+    ).toEqual({ preset: 'raw' });
+    expect(
+      optionsFromHFPreprocessorConfig({ rescale_factor: 2 / 255 }).options
+        .normalization
+    ).toEqual({
+      preset: 'custom',
+      mean: [0, 0, 0],
+      std: [1, 1, 1],
+      scale: 2 / 255,
+    });
+  });
+
+  it('skips rescaling before mean and std when do_rescale is off', () => {
+    const { options } = optionsFromHFPreprocessorConfig({
+      do_rescale: false,
+      image_mean: 127.5,
+      image_std: 127.5,
+    });
+
+    expect(options.normalization).toEqual({
+      preset: 'custom',
+      mean: [127.5, 127.5, 127.5],
+      std: [127.5, 127.5, 127.5],
+      scale: 1,
+    });
+  });
+
+  it('warns about approximations and unsupported fields', () => {
+    // SAM-style config
+    const { options, warnings } = optionsFromHFPreprocessorConfig({
+      do_pad: true,
+      do_resize: true,
+      do_reduce_labels: false,
+      image_processor_type: 'SamImageProcessor',
+      pad_size: { height: 1024, width: 1024 },
+      resample: 3,
+      size: { longest_edge: 1024 },
+      do_convert_rgb: false,
+    });
+
+    expect(options.resize).toEqual({
+      width: 1024,
+      height: 1024,
+      strategy: 'contain',
+    });
+    expect(warnings).toHaveLength(5);
+    expect(warnings).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('longest_edge 1024'),
+        expect.stringContaining('resample 3 (bicubic)'),
+        expect.stringContaining('do_convert_rgb'),
+        'Unsupported field do_pad is ignored',
+        'Unsupported field pad_size is ignored',
+      ])
+    );
+  });
+
+  it('warns when a center crop is only approximated', () => {
+    // ConvNeXt-style: resize to 256 then crop 224
+    const { options, warnings } = optionsFromHFPreprocessorConfig({
+      crop_size: 224,
+      do_center_crop: true,
+      size: { shortest_edge: 256 },
+    });
+
+    expect(options.resize).toEqual({
+      width: 224,
+      height: 224,
+      strategy: 'cover',
+    });
+    expect(warnings).toEqual([
+      "Resize to shortest_edge 256 followed by a 224x224 center crop is approximated by a 'cover' resize to 224x224",
+    ]);
+  });
+
+  it('rejects malformed configs', () => {
+    expect(() => optionsFromHFPreprocessorConfig('{ not json')).toThrow(
+      expect.objectContaining({ code: 'INVALID_INPUT' })
+    );
+    expect(() => optionsFromHFPreprocessorConfig([] as never)).toThrow(
+      VisionUtilsException
+    );
+    const invalid = [
+      { size: { height: 224 } },
+      { size: -1 },
+      { image_mean: [0.5, 0.5], image_std: [0.5, 0.5] },
+      { image_mean: 0.5, image_std: 0 },
+    ];
+    for (const config of invalid) {
+      expect(() => optionsFromHFPreprocessorConfig(config)).toThrow(
+        expect.objectContaining({ code: 'INVALID_OPTIONS' })
+      );
+    }
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Tests for in-memory bytes and pixels image sources
+ */
+
+import {
+  colorJitter,
+  cutout,
+  detectEdges,
+  getPixelData,
+  letterbox,
+  VisionUtilsException,
+} from '../index';
+import type { ImageSource } from '../types';
+import NativeVisionUtils from '../NativeVisionUtils';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    getPixelData: jest.fn(),
+    colorJitter: jest.fn(),
+    cutout: jest.fn(),
+    letterbox: jest.fn(),
+    detectEdges: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+const pixelResult = {
+  data: [0.5],
+  width: 1,
+  height: 1,
+  channels: 1,
+  colorFormat: 'grayscale',
+  dataLayout: 'hwc',
+  shape: [1, 1, 1],
+  processingTimeMs: 1,
+};
+
+const toBase64 = (bytes: number[]) => Buffer.from(bytes).toString('base64');
+
+describe('bytes sources', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedNative.getPixelData.mockResolvedValue(pixelResult);
+  });
+
+  it('packs an ArrayBuffer as base64 for native', async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d]);
+
+    await getPixelData({ source: { type: 'bytes', value: png.buffer } });
+
+    const [options] = mockedNative.getPixelData.mock.calls[0]!;
+    expect((options as { source: unknown }).source).toEqual({
+      type: 'bytes',
+      value: toBase64([0x89, 0x50, 0x4e, 0x47, 0x0d]),
+    });
+  });
+
+  it('encodes only the viewed range of a Uint8Array', async () => {
+    const backing = new Uint8Array([9, 1, 2, 3, 9]);
+
+    await getPixelData({
+      source: { type: 'bytes', value: backing.subarray(1, 5) },
+    });
+
+    const [options] = mockedNative.getPixelData.mock.calls[0]!;
+    expect((options as { source: { value: string } }).source.value).toBe(
+      toBase64([1, 2, 3, 9])
+    );
+  });
+
+  it('encodes buffers spanning several chunks', async () => {
+    // Not a multiple of the chunk size, and not of 3, so the end pads
+    const bytes = Array.from({ length: 3 * 4096 * 2 + 5 }, (_, i) => i % 256);
+
+    await getPixelData({
+      source: { type: 'bytes', value: new Uint8Array(bytes) },
+    });
+
+    const [options] = mockedNative.getPixelData.mock.calls[0]!;
+    expect((options as { source: { value: string } }).source.value).toBe(
+      toBase64(bytes)
+    );
+  });
+
+  it('rejects empty or non-binary values', async () => {
+    const invalid = [new ArrayBuffer(0), 'AAAA', [1, 2, 3]];
+    for (const value of invalid) {
+      await expect(
+        getPixelData({ source: { type: 'bytes', value } as ImageSource })
+      ).rejects.toMatchObject({ code: 'INVALID_SOURCE' });
+    }
+    expect(mockedNative.getPixelData).not.toHaveBeenCalled();
+  });
+});
+
+describe('pixels sources', () => {
+  const rgba: ImageSource = {
+    type: 'pixels',
+    data: new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 128]),
+    width: 2,
+    height: 1,
+    format: 'rgba',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedNative.getPixelData.mockResolvedValue(pixelResult);
+  });
+
+  it('sends the buffer with its dimensions and format', async () => {
+    await getPixelData({ source: rgba, colorFormat: 'grayscale' });
+
+    expect(mockedNative.getPixelData).toHaveBeenCalledWith(
+      expect.objectContaining({
+        source: {
+          type: 'pixels',
+          value: toBase64([255, 0, 0, 255, 0, 255, 0, 128]),
+          width: 2,
+          height: 1,
+          format: 'rgba',
+        },
+        colorFormat: 'grayscale',
+      })
+    );
+  });
+
+  it('is accepted by every API that takes an ImageSource', async () => {
+    mockedNative.colorJitter.mockResolvedValue({ base64: 'x' });
+    mockedNative.letterbox.mockResolvedValue({ imageBase64: 'x' });
+    mockedNative.detectEdges.mockResolvedValue({ width: 1, height: 1 });
+
+    await colorJitter(rgba, { brightness: 0.2 });
+    await letterbox(rgba, { targetWidth: 4, targetHeight: 4 });
+    await detectEdges(rgba, { type: 'sobel' });
+
+    for (const call of [
+      mockedNative.colorJitter.mock.calls[0]!,
+      mockedNative.letterbox.mock.calls[0]!,
+      mockedNative.detectEdges.mock.calls[0]!,
+    ]) {
+      expect(call[0]).toMatchObject({ type: 'pixels', width: 2, height: 1 });
+    }
+  });
+
+  it('passes other source types through unchanged', async () => {
+    const source: ImageSource = { type: 'file', value: '/tmp/a.png' };
+
+    await getPixelData({ source });
+
+    expect(mockedNative.getPixelData).toHaveBeenCalledWith(
+      expect.objectContaining({ source })
+    );
+  });
+
+  it('rejects a buffer that does not match its size and format', async () => {
+    await expect(
+      getPixelData({ source: { ...rgba, format: 'rgb' } as ImageSource })
+    ).rejects.toMatchObject({ code: 'DIMENSION_MISMATCH' });
+  });
+
+  it('validates dimensions, format and data', async () => {
+    const invalid = [
+      { ...rgba, width: 0 },
+      { ...rgba, height: 1.5 },
+      { ...rgba, format: 'argb' },
+      { ...rgba, data: [255, 0, 0, 255, 0, 255, 0, 128] },
+    ];
+    for (const source of invalid) {
+      await expect(
+        getPixelData({ source: source as ImageSource })
+      ).rejects.toMatchObject({ code: 'INVALID_SOURCE' });
+    }
+    await expect(
+      getPixelData({ source: { ...rgba, format: 'argb' as never } })
+    ).rejects.toThrow(VisionUtilsException);
+    expect(mockedNative.getPixelData).not.toHaveBeenCalled();
+  });
+});
+
+describe('native source buffers', () => {
+  // Stands in for the registry behind the JSI globals
+  const registry = new Map<number, ArrayBuffer>();
+  let nextId = 1;
+  const global = globalThis as {
+    __visionUtilsPutBuffer?: (
+      buffer: ArrayBuffer,
+      byteOffset: number,
+      byteLength: number
+    ) => number;
+    __visionUtilsTakeBuffer?: (id: number) => ArrayBuffer;
+  };
+  const put = (buffer: ArrayBuffer, byteOffset: number, byteLength: number) => {
+    registry.set(nextId, buffer.slice(byteOffset, byteOffset + byteLength));
+    return nextId++;
+  };
+  const take = (id: number) => {
+    const buffer = registry.get(id)!;
+    registry.delete(id);
+    return buffer;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    registry.clear();
+    global.__visionUtilsPutBuffer = put;
+    global.__visionUtilsTakeBuffer = take;
+    mockedNative.getPixelData.mockResolvedValue(pixelResult);
+  });
+
+  afterEach(() => {
+    delete global.__visionUtilsPutBuffer;
+    delete global.__visionUtilsTakeBuffer;
+  });
+
+  it('sends a buffer id instead of base64', async () => {
+    const backing = new Uint8Array([9, 1, 2, 3, 9]);
+
+    await getPixelData({
+      source: { type: 'bytes', value: backing.subarray(1, 4) },
+    });
+
+    const [options] = mockedNative.getPixelData.mock.calls[0]!;
+    const source = (options as { source: { bufferId: number } }).source;
+    expect(source).toEqual({ type: 'bytes', bufferId: expect.any(Number) });
+    expect(Array.from(new Uint8Array(take(source.bufferId)))).toEqual([
+      1, 2, 3,
+    ]);
+  });
+
+  it('chains pixel outputs back in as sources', async () => {
+    const rgba = new Uint8Array([255, 0, 0, 255, 0, 255, 0, 128]);
+    // Native takes the source bytes and returns them as its pixel output
+    const passThrough = async (source: Object) => {
+      const { bufferId } = source as { bufferId: number };
+      const bytes = take(bufferId);
+      return {
+        base64: '',
+        pixelsBufferId: put(bytes, 0, bytes.byteLength),
+        width: 2,
+        height: 1,
+      };
+    };
+    mockedNative.colorJitter.mockImplementation(passThrough);
+    mockedNative.cutout.mockImplementation(passThrough);
+
+    const jittered = await colorJitter(
+      { type: 'pixels', data: rgba, width: 2, height: 1, format: 'rgba' },
+      { brightness: 0.2, output: 'pixels' }
+    );
+    const erased = await cutout(jittered.pixels!, { output: 'pixels' });
+    await getPixelData({ source: erased.pixels! });
+
+    expect(erased.pixels).toMatchObject({
+      type: 'pixels',
+      width: 2,
+      height: 1,
+      format: 'rgba',
+    });
+    expect(erased).not.toHaveProperty('pixelsBufferId');
+    const [options] = mockedNative.getPixelData.mock.calls[0]!;
+    const source = (options as { source: { bufferId: number } }).source;
+    expect(source).toMatchObject({ type: 'pixels', width: 2, height: 1 });
+    expect(Array.from(new Uint8Array(take(source.bufferId)))).toEqual(
+      Array.from(rgba)
+    );
+  });
+
+  it('decodes base64 pixel outputs without the bindings', async () => {
+    delete global.__visionUtilsTakeBuffer;
+    mockedNative.colorJitter.mockResolvedValue({
+      base64: '',
+      pixelsBase64: toBase64([1, 2, 3, 4]),
+      width: 1,
+      height: 1,
+    });
+
+    const result = await colorJitter(
+      { type: 'file', value: '/tmp/a.png' },
+      { output: 'pixels' }
+    );
+
+    expect(Array.from(result.pixels!.data as Uint8Array)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('rejects an unknown output', async () => {
+    await expect(
+      cutout({ type: 'file', value: '/tmp/a.png' }, {
+        output: 'png',
+      } as never)
+    ).rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+    expect(mockedNative.cutout).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Tests for YOLOv8-seg instance mask decoding
+ */
+
+import {
+  decodeInstanceMasks,
+  decodeYoloOutput,
+  nonMaxSuppression,
+  overlayInstanceMasks,
+  VisionUtilsException,
+} from '../index';
+import type { Detection, ImageSource, LetterboxInfo } from '../types';
+import NativeVisionUtils from '../NativeVisionUtils';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    nonMaxSuppression: jest.fn(),
+    overlayMask: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+const source: ImageSource = { type: 'file', value: '/path/to/image.jpg' };
+
+// [1, 2, 4, 4] prototypes: proto 0 is +1 on the left half and -1 on the right,
+// proto 1 is +1 everywhere. Model input is 8x8, so prototypes are 1/2 scale.
+const prototypes = [
+  ...[1, 1, -1, -1, 1, 1, -1, -1, 1, 1, -1, -1, 1, 1, -1, -1],
+  ...new Array(16).fill(1),
+];
+const protoShape = [1, 2, 4, 4];
+
+const leftHalf: Detection = {
+  box: [0, 0, 8, 8],
+  score: 0.9,
+  classIndex: 3,
+  maskCoefficients: [10, 0],
+};
+
+describe('decodeInstanceMasks', () => {
+  it('combines coefficients with prototypes into a binary mask', () => {
+    const result = decodeInstanceMasks([leftHalf], prototypes, protoShape, {
+      inputSize: [8, 8],
+    });
+
+    expect(result.width).toBe(8);
+    expect(result.height).toBe(8);
+
+    const [instance] = result.instances;
+    expect(instance!.maskWidth).toBe(8);
+    expect(instance!.maskHeight).toBe(8);
+    expect(instance!.area).toBe(32);
+    expect(instance!.mask.slice(0, 8)).toEqual([1, 1, 1, 1, 0, 0, 0, 0]);
+    expect(instance!.classIndex).toBe(3);
+    expect(instance!.score).toBe(0.9);
+  });
+
+  it('crops the mask to the instance box', () => {
+    const result = decodeInstanceMasks(
+      [{ box: [2, 2, 6, 6], score: 0.8, maskCoefficients: [0, 10] }],
+      prototypes,
+      protoShape,
+      { inputSize: [8, 8] }
+    );
+
+    const [instance] = result.instances;
+    expect(instance!.maskOrigin).toEqual([2, 2]);
+    expect(instance!.maskWidth).toBe(4);
+    expect(instance!.maskHeight).toBe(4);
+    expect(instance!.area).toBe(16);
+    expect(instance!.box).toEqual([2, 2, 6, 6]);
+  });
+
+  it('accepts boxes in other formats', () => {
+    const result = decodeInstanceMasks(
+      [{ box: [4, 4, 4, 4], score: 0.8, maskCoefficients: [0, 10] }],
+      prototypes,
+      protoShape,
+      { inputSize: [8, 8], boxFormat: 'cxcywh' }
+    );
+
+    expect(result.instances[0]!.box).toEqual([2, 2, 6, 6]);
+  });
+
+  it('maps boxes and masks back through letterbox parameters', () => {
+    // 16x8 original letterboxed to 8x8: scale 0.5, 2px padding top and bottom
+    const letterboxInfo: LetterboxInfo = {
+      scale: 0.5,
+      padding: [0, 2, 0, 2],
+      offset: [0, 2],
+      originalSize: [16, 8],
+      letterboxedSize: [8, 8],
+    };
+    const result = decodeInstanceMasks(
+      [{ ...leftHalf, box: [0, 2, 8, 6] }],
+      prototypes,
+      protoShape,
+      { letterboxInfo }
+    );
+
+    expect(result.width).toBe(16);
+    expect(result.height).toBe(8);
+
+    const [instance] = result.instances;
+    expect(instance!.box).toEqual([0, 0, 16, 8]);
+    expect(instance!.maskWidth).toBe(16);
+    expect(instance!.maskHeight).toBe(8);
+    expect(instance!.area).toBe(64);
+    expect(instance!.mask.slice(6, 10)).toEqual([1, 1, 0, 0]);
+  });
+
+  it('supports NHWC prototypes', () => {
+    const nhwc: number[] = [];
+    for (let i = 0; i < 16; i++) {
+      nhwc.push(prototypes[i]!, prototypes[16 + i]!);
+    }
+    const result = decodeInstanceMasks([leftHalf], nhwc, [1, 4, 4, 2], {
+      inputSize: [8, 8],
+      layout: 'nhwc',
+    });
+
+    expect(result.instances[0]!.area).toBe(32);
+  });
+
+  it('applies the mask threshold', () => {
+    const weak: Detection = {
+      box: [0, 0, 8, 8],
+      score: 0.5,
+      maskCoefficients: [0, 0.5],
+    };
+    const loose = decodeInstanceMasks([weak], prototypes, protoShape, {
+      inputSize: [8, 8],
+    });
+    const strict = decodeInstanceMasks([weak], prototypes, protoShape, {
+      inputSize: [8, 8],
+      threshold: 0.7,
+    });
+
+    expect(loose.instances[0]!.area).toBe(64);
+    expect(strict.instances[0]!.area).toBe(0);
+  });
+
+  it('rejects mismatched coefficients and shapes', () => {
+    expect(() =>
+      decodeInstanceMasks(
+        [{ box: [0, 0, 8, 8], score: 1, maskCoefficients: [1] }],
+        prototypes,
+        protoShape
+      )
+    ).toThrow(expect.objectContaining({ code: 'DIMENSION_MISMATCH' }));
+    expect(() =>
+      decodeInstanceMasks([leftHalf], prototypes, [1, 2, 4, 3])
+    ).toThrow(VisionUtilsException);
+  });
+});
+
+describe('YOLOv8-seg decoding', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('decodes mask coefficients after the class scores', () => {
+    // [1, 4 + 2 classes + 2 masks, 2 candidates], attributes-first
+    const tensor = [
+      ...[10, 20],
+      ...[10, 20],
+      ...[4, 4],
+      ...[4, 4],
+      ...[0.9, 0.1],
+      ...[0.1, 0.2],
+      ...[0.5, 3],
+      ...[-0.5, 4],
+    ];
+    const result = decodeYoloOutput(tensor, [1, 8, 2], {
+      layout: 'attributes-first',
+      numMasks: 2,
+    });
+
+    expect(result.numClasses).toBe(2);
+    expect(result.detections).toHaveLength(1);
+    expect(result.detections[0]!.maskCoefficients).toEqual([0.5, -0.5]);
+  });
+
+  it('keeps mask coefficients and classes through nonMaxSuppression', async () => {
+    const detections: Detection[] = [
+      { box: [0, 0, 1, 1], score: 0.5, classIndex: 1, maskCoefficients: [1] },
+      { box: [0, 0, 2, 2], score: 0.9, classIndex: 2, maskCoefficients: [2] },
+    ];
+    mockedNative.nonMaxSuppression.mockResolvedValue({
+      indices: [1],
+      detections: [{ box: [0, 0, 2, 2], score: 0.9, index: 1 }],
+      suppressedCount: 1,
+      processingTimeMs: 1,
+    });
+
+    const result = await nonMaxSuppression(detections);
+
+    expect(result.detections).toEqual([detections[1]]);
+    expect(result.suppressedCount).toBe(1);
+  });
+
+  it('renders all instances through overlayMask', async () => {
+    mockedNative.overlayMask.mockResolvedValue({ imageBase64: 'overlay' });
+    const masks = decodeInstanceMasks(
+      [
+        leftHalf,
+        {
+          box: [6, 6, 8, 8],
+          score: 0.5,
+          classIndex: 0,
+          maskCoefficients: [0, 10],
+        },
+      ],
+      prototypes,
+      protoShape,
+      { inputSize: [8, 8] }
+    );
+
+    await overlayInstanceMasks(source, masks, { alpha: 0.4 });
+
+    const [, mask, opts] = mockedNative.overlayMask.mock.calls[0]!;
+    expect(opts).toMatchObject({
+      maskWidth: 8,
+      maskHeight: 8,
+      alpha: 0.4,
+      isClassMask: true,
+    });
+    expect(mask.slice(0, 8)).toEqual([1, 1, 1, 1, 0, 0, 0, 0]);
+    expect(mask[7 * 8 + 7]).toBe(2);
+
+    await overlayInstanceMasks(source, masks, { colorBy: 'class' });
+    const [, classMask] = mockedNative.overlayMask.mock.calls[1]!;
+    expect(classMask[0]).toBe(4);
+    expect(classMask[7 * 8 + 7]).toBe(1);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for One Euro keypoint smoothing
+ */
+
+import { createKeypointSmoother } from '../index';
+import type { Keypoint } from '../types';
+
+const FRAME_MS = 1000 / 30;
+
+const point = (x: number, y: number, confidence = 0.9): Keypoint => ({
+  x,
+  y,
+  confidence,
+  name: 'nose',
+});
+
+describe('createKeypointSmoother', () => {
+  it('passes the first frame through and damps jitter at rest', () => {
+    const smoother = createKeypointSmoother();
+
+    expect(smoother.smooth([point(100, 50)], 0)).toEqual([point(100, 50)]);
+
+    let maxDeviation = 0;
+    for (let frame = 1; frame <= 60; frame++) {
+      const jitter = frame % 2 === 0 ? 4 : -4;
+      const [smoothed] = smoother.smooth(
+        [point(100 + jitter, 50)],
+        frame * FRAME_MS
+      );
+      maxDeviation = Math.max(maxDeviation, Math.abs(smoothed!.x - 100));
+      expect(smoothed).toMatchObject({ y: 50, confidence: 0.9, name: 'nose' });
+    }
+    expect(maxDeviation).toBeLessThan(2);
+  });
+
+  it('lags less during fast motion as beta grows', () => {
+    const lagAfterRamp = (beta: number) => {
+      const smoother = createKeypointSmoother({ beta });
+      let x = 0;
+      for (let frame = 0; frame <= 30; frame++) {
+        x = smoother.smooth([point(frame * 20, 0)], frame * FRAME_MS)[0]!.x;
+      }
+      return 600 - x;
+    };
+
+    expect(lagAfterRamp(0.05)).toBeLessThan(lagAfterRamp(0) / 3);
+  });
+
+  it('holds low-confidence and missing keypoints at their smoothed position', () => {
+    const smoother = createKeypointSmoother({ minConfidence: 0.5 });
+    smoother.smooth([point(10, 10), point(20, 20)], 0);
+
+    const result = smoother.smooth(
+      [point(90, 90, 0.1), undefined as unknown as Keypoint],
+      FRAME_MS
+    );
+    expect(result[0]).toEqual({ x: 10, y: 10, confidence: 0.1, name: 'nose' });
+    expect(result[1]).toEqual({ x: 20, y: 20 });
+  });
+
+  it('restarts a keypoint that reappears after maxGapMs', () => {
+    const smoother = createKeypointSmoother({
+      minConfidence: 0.5,
+      maxGapMs: 100,
+    });
+    smoother.smooth([point(10, 10), point(0, 0)], 0);
+
+    for (let frame = 1; frame <= 6; frame++) {
+      smoother.smooth([point(10, 10), point(0, 0, 0)], frame * FRAME_MS);
+    }
+
+    // Held no longer: the gap passed, so the raw keypoint is returned
+    const [, gone] = smoother.smooth(
+      [point(10, 10), point(0, 0, 0)],
+      7 * FRAME_MS
+    );
+    expect(gone).toEqual(point(0, 0, 0));
+
+    const [, back] = smoother.smooth(
+      [point(10, 10), point(300, 300)],
+      8 * FRAME_MS
+    );
+    expect(back).toEqual(point(300, 300));
+  });
+
+  it('keeps independent state per person id', () => {
+    const smoother = createKeypointSmoother();
+    smoother.smooth([point(0, 0)], 0, 'a');
+    smoother.smooth([point(500, 500)], 0, 'b');
+
+    const a = smoother.smooth([point(10, 0)], FRAME_MS, 'a')[0]!;
+    const b = smoother.smooth([point(500, 500)], FRAME_MS, 'b')[0]!;
+    expect(a.x).toBeGreaterThan(0);
+    expect(a.x).toBeLessThan(10);
+    expect(b.x).toBe(500);
+
+    smoother.reset('a');
+    expect(smoother.smooth([point(10, 0)], 2 * FRAME_MS, 'a')[0]!.x).toBe(10);
+  });
+
+  it('forgets people not seen for maxGapMs', () => {
+    const smoother = createKeypointSmoother({ maxGapMs: 100 });
+    smoother.smooth([point(0, 0)], 0, 1);
+    smoother.smooth([point(0, 0)], 200, 2);
+
+    expect(smoother.smooth([point(50, 0)], 210, 1)[0]!.x).toBe(50);
+  });
+
+  it('accepts timestamps in other units', () => {
+    const ms = createKeypointSmoother();
+    const ns = createKeypointSmoother({ timestampUnit: 'ns' });
+    ms.smooth([point(0, 0)], 0);
+    ns.smooth([point(0, 0)], 0);
+
+    expect(ns.smooth([point(10, 0)], FRAME_MS * 1e6)[0]!.x).toBeCloseTo(
+      ms.smooth([point(10, 0)], FRAME_MS)[0]!.x
+    );
+  });
+
+  it('validates options and timestamps', () => {
+    const invalid = [
+      { minCutoff: 0 },
+      { beta: -1 },
+      { dCutoff: Infinity },
+      { minConfidence: 2 },
+      { timestampUnit: 'us' },
+    ];
+    for (const options of invalid) {
+      expect(() => createKeypointSmoother(options as never)).toThrow(
+        expect.objectContaining({ code: 'INVALID_OPTIONS' })
+      );
+    }
+
+    const smoother = createKeypointSmoother();
+    smoother.smooth([point(0, 0)], 100);
+    expect(() => smoother.smooth([point(0, 0)], 50)).toThrow(
+      expect.objectContaining({ code: 'INVALID_INPUT' })
+    );
+    expect(() => smoother.smooth([point(0, 0)], NaN)).toThrow(
+      expect.objectContaining({ code: 'INVALID_INPUT' })
+    );
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Tests for registering custom label datasets
+ */
+
+import {
+  getAllLabels,
+  getAvailableDatasets,
+  getDatasetInfo,
+  getLabel,
+  getTopLabels,
+  registerLabelDataset,
+} from '../index';
+import NativeVisionUtils from '../NativeVisionUtils';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    getLabel: jest.fn(),
+    getTopLabels: jest.fn(),
+    getAllLabels: jest.fn(),
+    getDatasetInfo: jest.fn(),
+    getAvailableDatasets: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+describe('registerLabelDataset', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('answers every label API for an array without calling native', async () => {
+    registerLabelDataset('fruits', [
+      'green_apple',
+      { name: 'banana', supercategory: 'tropical' },
+      'cherry',
+    ]);
+
+    expect(await getLabel(1, 'fruits')).toBe('banana');
+    expect(await getLabel(0, 'fruits', true)).toEqual({
+      index: 0,
+      name: 'green_apple',
+      displayName: 'Green Apple',
+    });
+    expect(await getAllLabels('fruits')).toEqual([
+      'green_apple',
+      'banana',
+      'cherry',
+    ]);
+    expect(await getDatasetInfo('fruits')).toEqual({
+      name: 'fruits',
+      numClasses: 3,
+      description: 'Custom label dataset (3 classes)',
+      isAvailable: true,
+    });
+    expect(
+      await getTopLabels([0.1, 0.7, 0.2], {
+        dataset: 'fruits',
+        k: 2,
+        includeMetadata: true,
+      })
+    ).toEqual([
+      { index: 1, label: 'banana', confidence: 0.7, supercategory: 'tropical' },
+      { index: 2, label: 'cherry', confidence: 0.2 },
+    ]);
+
+    expect(mockedNative.getLabel).not.toHaveBeenCalled();
+    expect(mockedNative.getTopLabels).not.toHaveBeenCalled();
+    expect(mockedNative.getAllLabels).not.toHaveBeenCalled();
+    expect(mockedNative.getDatasetInfo).not.toHaveBeenCalled();
+  });
+
+  it('parses a newline-separated labels file', async () => {
+    registerLabelDataset('lines', 'cat\r\ndog\n\n  bird  \n', {
+      description: 'Pets',
+    });
+
+    expect(await getAllLabels('lines')).toEqual(['cat', 'dog', 'bird']);
+    expect((await getDatasetInfo('lines')).description).toBe('Pets');
+  });
+
+  it('parses COCO categories by position or by id', async () => {
+    const coco = {
+      categories: [
+        { id: 3, name: 'car', supercategory: 'vehicle' },
+        { id: 1, name: 'person', supercategory: 'person' },
+      ],
+    };
+
+    registerLabelDataset('coco-position', JSON.stringify(coco));
+    expect(await getAllLabels('coco-position')).toEqual(['person', 'car']);
+    expect(await getLabel(1, 'coco-position', true)).toMatchObject({
+      name: 'car',
+      supercategory: 'vehicle',
+    });
+
+    registerLabelDataset('coco-id', coco, { cocoIndex: 'id' });
+    expect(await getAllLabels('coco-id')).toEqual([
+      'N/A',
+      'person',
+      'N/A',
+      'car',
+    ]);
+  });
+
+  it('parses Ultralytics names blocks with supercategories', async () => {
+    registerLabelDataset(
+      'ppe',
+      [
+        'path: ../datasets/ppe  # dataset root',
+        'names:',
+        '  0: helmet',
+        "  1: 'safety vest'  # hi-vis",
+        '  2: "gloves #2"',
+        'supercategories:',
+        '  0: head',
+        '  1: body',
+        'download: https://example.com/ppe.zip',
+      ].join('\n')
+    );
+
+    expect(await getAllLabels('ppe')).toEqual([
+      'helmet',
+      'safety vest',
+      'gloves #2',
+    ]);
+    expect(await getLabel(1, 'ppe', true)).toMatchObject({
+      supercategory: 'body',
+    });
+
+    registerLabelDataset('ppe-list', 'nc: 2\nnames: [helmet, "vest, orange"]');
+    expect(await getAllLabels('ppe-list')).toEqual(['helmet', 'vest, orange']);
+
+    registerLabelDataset('ppe-block', 'names:\n  - helmet\n  - vest\n');
+    expect(await getAllLabels('ppe-block')).toEqual(['helmet', 'vest']);
+  });
+
+  it('lists registered datasets after the built-in ones', async () => {
+    mockedNative.getAvailableDatasets.mockResolvedValue(['coco', 'voc']);
+    registerLabelDataset('listed', ['a']);
+
+    const datasets = await getAvailableDatasets();
+    expect(datasets.slice(0, 2)).toEqual(['coco', 'voc']);
+    expect(datasets).toContain('listed');
+  });
+
+  it('still routes built-in datasets to native', async () => {
+    mockedNative.getLabel.mockResolvedValue('person');
+
+    expect(await getLabel(0, 'coco')).toBe('person');
+    expect(mockedNative.getLabel).toHaveBeenCalledWith(0, 'coco', false);
+  });
+
+  it('rejects out-of-range indices and mismatched scores', async () => {
+    registerLabelDataset('pair', ['a', 'b']);
+
+    await expect(getLabel(2, 'pair')).rejects.toMatchObject({
+      code: 'INVALID_LABEL_INDEX',
+    });
+    await expect(
+      getTopLabels([0.5, 0.3, 0.2], { dataset: 'pair' })
+    ).rejects.toMatchObject({ code: 'DIMENSION_MISMATCH' });
+  });
+
+  it('validates names and sources', () => {
+    expect(() => registerLabelDataset('coco', ['a'])).toThrow(
+      /Cannot override built-in/
+    );
+    expect(() => registerLabelDataset('', ['a'])).toThrow(
+      expect.objectContaining({ code: 'INVALID_OPTIONS' })
+    );
+
+    const invalid = [
+      '',
+      '{"categories": ',
+      {
+        categories: [
+          { id: 1, name: 'a' },
+          { id: 1, name: 'b' },
+        ],
+      },
+      { names: { person: '0' } },
+      [1, 2],
+    ];
+    for (const source of invalid) {
+      expect(() => registerLabelDataset('broken', source as never)).toThrow(
+        expect.objectContaining({ code: 'INVALID_INPUT' })
+      );
+    }
+  });
+});
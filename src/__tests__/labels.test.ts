@@ -166,6 +166,103 @@ describe('Label Database', () => {
     });
   });
 
+  describe('getTopLabels activations', () => {
+    beforeAll(() => {
+      VisionUtils.registerLabelDataset('animals', [
+        { name: 'cat', supercategory: 'pet' },
+        { name: 'dog', supercategory: 'pet' },
+        { name: 'wolf', supercategory: 'wild' },
+        'rock',
+      ]);
+    });
+
+    it('should apply softmax with temperature before the native lookup', async () => {
+      mockGetTopLabels.mockResolvedValue([]);
+
+      await VisionUtils.getTopLabels([2, 0], {
+        activation: 'softmax',
+        temperature: 2,
+      });
+
+      const [probabilities] = mockGetTopLabels.mock.calls[0]!;
+      const expected = 1 / (1 + Math.exp(-1));
+      expect(probabilities[0]).toBeCloseTo(expected);
+      expect(probabilities[1]).toBeCloseTo(1 - expected);
+    });
+
+    it('should return every class above threshold for sigmoid output', async () => {
+      const result = await VisionUtils.getTopLabels([3, -3, 1, 0], {
+        dataset: 'animals',
+        activation: 'sigmoid',
+        minConfidence: 0.5,
+      });
+
+      expect(result.map((r) => r.label)).toEqual(['cat', 'wolf', 'rock']);
+      expect(result[0]!.confidence).toBeCloseTo(1 / (1 + Math.exp(-3)));
+    });
+
+    it('should apply per-class thresholds by index or label', async () => {
+      const result = await VisionUtils.getTopLabels([0.4, 0.3, 0.2, 0.1], {
+        dataset: 'animals',
+        minConfidence: 0.15,
+        thresholds: { 0: 0.5, rock: 0.05 },
+      });
+
+      expect(result).toEqual([
+        { index: 1, label: 'dog', confidence: 0.3 },
+        { index: 2, label: 'wolf', confidence: 0.2 },
+        { index: 3, label: 'rock', confidence: 0.1 },
+      ]);
+    });
+
+    it('should aggregate by supercategory', async () => {
+      const single = await VisionUtils.getTopLabels([0.3, 0.2, 0.4, 0.1], {
+        dataset: 'animals',
+        aggregateBy: 'supercategory',
+      });
+      expect(single.map((r) => [r.label, r.members])).toEqual([
+        ['pet', [0, 1]],
+        ['wild', [2]],
+        ['rock', [3]],
+      ]);
+      expect(single[0]).toMatchObject({ index: 0, supercategory: 'pet' });
+      expect(single[0]!.confidence).toBeCloseTo(0.5);
+
+      const multi = await VisionUtils.getTopLabels([0.9, 0.95, 0.2, 0.1], {
+        dataset: 'animals',
+        activation: 'none',
+        aggregateBy: 'supercategory',
+        thresholds: { dog: 0.99 },
+        k: 1,
+      });
+      expect(multi).toEqual([
+        {
+          index: 0,
+          label: 'pet',
+          confidence: 0.9,
+          supercategory: 'pet',
+          members: [0],
+        },
+      ]);
+    });
+
+    it('should reject invalid activation options', async () => {
+      const invalid = [
+        { activation: 'relu' },
+        { temperature: 2 },
+        { activation: 'softmax', temperature: 0 },
+        { thresholds: { person: 'high' } },
+        { aggregateBy: 'category' },
+      ];
+      for (const options of invalid) {
+        await expect(
+          VisionUtils.getTopLabels([1, 2], options as never)
+        ).rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+      }
+      expect(mockGetTopLabels).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getAllLabels', () => {
     it('should return all labels for coco', async () => {
       mockGetAllLabels.mockResolvedValue([
@@ -25,7 +25,13 @@ async function letterbox(
     saveFormat?: 'jpg' | 'png';
   }
 ): Promise<TestLetterboxResult> {
-  if (!source || typeof source !== 'object' || !source.type || !source.value) {
+  if (
+    !source ||
+    typeof source !== 'object' ||
+    !source.type ||
+    !('value' in source) ||
+    !source.value
+  ) {
     throw new VisionUtilsException(
       'INVALID_SOURCE',
       'Source must be a valid ImageSource object'
@@ -0,0 +1,218 @@
+/**
+ * Tests for the runtime model preset registry
+ */
+
+import {
+  createDetectionPipeline,
+  decodeYoloOutput,
+  getModelPresetConfig,
+  getPixelData,
+  listModelPresets,
+  registerModelPreset,
+  VisionUtilsException,
+} from '../index';
+import type { ModelPresetConfig } from '../types';
+import NativeVisionUtils from '../NativeVisionUtils';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    getPixelData: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+const source = { type: 'file' as const, value: '/path/to/image.jpg' };
+
+const detector: ModelPresetConfig = {
+  resize: { width: 512, height: 384, strategy: 'letterbox' },
+  normalization: { preset: 'custom', mean: [0, 0, 0], std: [1, 1, 1] },
+  colorFormat: 'bgr',
+  dataLayout: 'nchw',
+  labels: 'voc',
+  boxFormat: 'cxcywh',
+  decoder: 'yolov5',
+};
+
+describe('model preset registry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedNative.getPixelData.mockResolvedValue({
+      data: [0],
+      width: 1,
+      height: 1,
+      channels: 3,
+      shape: [1, 1, 3],
+      processingTimeMs: 1,
+    });
+  });
+
+  it('lists and describes the built-in presets', () => {
+    const names = listModelPresets();
+    expect(names).toHaveLength(13);
+    expect(names.slice(0, 2)).toEqual(['yolo', 'yolov8']);
+
+    expect(getModelPresetConfig('yolov8')).toEqual({
+      resize: { width: 640, height: 640, strategy: 'letterbox' },
+      normalization: { preset: 'scale' },
+      colorFormat: 'rgb',
+      dataLayout: 'nchw',
+      labels: 'coco',
+      boxFormat: 'xyxy',
+      decoder: 'yolov8',
+    });
+    expect(getModelPresetConfig('resnet')).toMatchObject({
+      labels: 'imagenet',
+      decoder: 'classification',
+    });
+  });
+
+  it('returns copies that cannot change the registry', () => {
+    const clip = getModelPresetConfig('clip');
+    clip.resize.width = 1;
+    clip.normalization.mean![0] = 1;
+
+    expect(getModelPresetConfig('clip').resize.width).toBe(224);
+    expect(getModelPresetConfig('clip').normalization.mean![0]).toBeCloseTo(
+      0.481
+    );
+  });
+
+  it('applies a registered preset in getPixelData', async () => {
+    registerModelPreset('acme-detector', detector);
+
+    await getPixelData({ source, modelPreset: 'acme-detector' });
+
+    expect(mockedNative.getPixelData).toHaveBeenCalledWith(
+      expect.objectContaining({
+        resize: expect.objectContaining({
+          width: 512,
+          height: 384,
+          strategy: 'letterbox',
+        }),
+        normalization: detector.normalization,
+        colorFormat: 'bgr',
+        dataLayout: 'nchw',
+      })
+    );
+    expect(listModelPresets()).toContain('acme-detector');
+    expect(getModelPresetConfig('acme-detector')).toEqual(detector);
+  });
+
+  it('copies the config and replaces it on re-registration', () => {
+    const config: ModelPresetConfig = {
+      ...detector,
+      resize: { ...detector.resize },
+    };
+    registerModelPreset('acme-copy', config);
+    config.resize.width = 1;
+    expect(getModelPresetConfig('acme-copy').resize.width).toBe(512);
+
+    registerModelPreset('acme-copy', { ...detector, colorFormat: 'rgb' });
+    expect(getModelPresetConfig('acme-copy').colorFormat).toBe('rgb');
+    expect(
+      listModelPresets().filter((name) => name === 'acme-copy')
+    ).toHaveLength(1);
+  });
+
+  it('rejects unknown presets before calling native', async () => {
+    await expect(
+      getPixelData({ source, modelPreset: 'not-registered' })
+    ).rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+    expect(mockedNative.getPixelData).not.toHaveBeenCalled();
+    expect(() => getModelPresetConfig('not-registered')).toThrow(
+      VisionUtilsException
+    );
+  });
+
+  it('validates names and configs', () => {
+    expect(() => registerModelPreset('yolov8', detector)).toThrow(
+      /Cannot override built-in/
+    );
+    expect(() => registerModelPreset('', detector)).toThrow(
+      expect.objectContaining({ code: 'INVALID_OPTIONS' })
+    );
+
+    const invalid = [
+      { ...detector, decoder: 'ssd' },
+      { ...detector, colorFormat: 'cmyk' },
+      { ...detector, boxFormat: 'yxyx' },
+      { ...detector, resize: undefined },
+    ];
+    for (const config of invalid) {
+      expect(() =>
+        registerModelPreset('acme-invalid', config as never)
+      ).toThrow(expect.objectContaining({ code: 'INVALID_OPTIONS' }));
+    }
+    expect(() =>
+      registerModelPreset('acme-invalid', {
+        ...detector,
+        resize: { width: 0, height: 1, strategy: 'cover' },
+      })
+    ).toThrow(expect.objectContaining({ code: 'INVALID_RESIZE' }));
+    expect(listModelPresets()).not.toContain('acme-invalid');
+  });
+
+  it('drives YOLO decoding from the preset metadata', () => {
+    registerModelPreset('acme-yolov5', detector);
+    // [6 attributes, 1 candidate]: a v5 head with one class
+    const tensor = [100, 100, 20, 20, 0.9, 0.8];
+
+    const result = decodeYoloOutput(tensor, [6, 1], {
+      modelPreset: 'acme-yolov5',
+      layout: 'attributes-first',
+    });
+
+    expect(result.version).toBe('v5');
+    expect(result.numClasses).toBe(1);
+    expect(result.format).toBe('cxcywh');
+    expect(result.detections[0]!.box).toEqual([100, 100, 20, 20]);
+  });
+
+  it('reads 32 mask coefficients for a yolov8-seg preset', () => {
+    registerModelPreset('acme-seg', {
+      ...detector,
+      boxFormat: 'xyxy',
+      decoder: 'yolov8-seg',
+    });
+    // [4 box + 2 classes + 32 masks, 1 candidate]
+    const coefficients = Array.from({ length: 32 }, (_, i) => i / 32);
+    const tensor = [10, 20, 30, 40, 0.1, 0.9, ...coefficients];
+
+    const result = decodeYoloOutput(tensor, [38, 1], {
+      modelPreset: 'acme-seg',
+      layout: 'attributes-first',
+    });
+
+    expect(result.version).toBe('v8');
+    expect(result.numClasses).toBe(2);
+    expect(result.detections).toHaveLength(1);
+    expect(result.detections[0]!.classIndex).toBe(1);
+    expect(result.detections[0]!.maskCoefficients).toEqual(coefficients);
+
+    // An explicit numMasks still wins over the preset default
+    expect(
+      decodeYoloOutput(tensor, [38, 1], {
+        modelPreset: 'acme-seg',
+        layout: 'attributes-first',
+        numMasks: 0,
+      }).numClasses
+    ).toBe(34);
+  });
+
+  it('accepts only YOLO presets in detection pipelines', () => {
+    const runModel = async () => ({ data: [], shape: [1, 84, 0] });
+    registerModelPreset('acme-classifier', {
+      ...detector,
+      decoder: 'classification',
+    });
+
+    expect(() =>
+      createDetectionPipeline({ preset: 'acme-classifier', runModel })
+    ).toThrow(/Unsupported detection preset/);
+    expect(() =>
+      createDetectionPipeline({ preset: 'acme-detector', runModel })
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests for Mixup, CutMix and Mosaic
+ */
+
+import { cutMix, mixup, mosaic } from '../index';
+import NativeVisionUtils from '../NativeVisionUtils';
+import { lastEncodedPixels, packedPixelResult } from './testSetup';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    getImageMetadata: jest.fn(),
+    getPixelData: jest.fn(),
+    tensorToImage: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+const image = (value: string) => ({ type: 'file' as const, value });
+
+/** Each image is filled with the value in its path, e.g. "/0.2.jpg" */
+const fillOf = (path: string) => Number(path.slice(1, -4));
+
+const encodedPixels = () => lastEncodedPixels(mockedNative.tensorToImage);
+
+describe('multi-image augmentation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedNative.getImageMetadata.mockResolvedValue({ width: 8, height: 4 });
+    mockedNative.getPixelData.mockImplementation(async (options) => {
+      const { source, resize } = options as {
+        source: { value: string };
+        resize?: { width: number; height: number };
+      };
+      const width = resize?.width ?? 4;
+      const height = resize?.height ?? 4;
+      return packedPixelResult(
+        new Array(width * height * 3).fill(fillOf(source.value)),
+        width,
+        height
+      );
+    });
+    mockedNative.tensorToImage.mockImplementation(
+      async (_data, width, height) => ({
+        base64: 'encoded',
+        width,
+        height,
+        format: 'png',
+      })
+    );
+  });
+
+  describe('mixup', () => {
+    it('blends both images and their labels with lambda', async () => {
+      const result = await mixup([image('/1.jpg'), image('/0.jpg')], {
+        lambda: 0.25,
+        labels: [2, 0],
+        numClasses: 3,
+        size: [2, 3],
+      });
+
+      expect(mockedNative.getPixelData.mock.calls[1]![0]).toMatchObject({
+        resize: { width: 2, height: 3, strategy: 'stretch' },
+      });
+      expect(encodedPixels()).toEqual(new Array(18).fill(0.25));
+      expect(result).toMatchObject({
+        base64: 'encoded',
+        width: 2,
+        height: 3,
+        lambda: 0.25,
+        weights: [0.25, 0.75],
+        labels: [0.75, 0, 0.25],
+      });
+    });
+
+    it('samples lambda from the beta distribution reproducibly', async () => {
+      const sources = [image('/1.jpg'), image('/0.jpg')];
+      const first = await mixup(sources, { alpha: 0.4 });
+      const again = await mixup(sources, { alpha: 0.4, seed: first.seed });
+
+      expect(again.lambda).toBe(first.lambda);
+      expect(first.lambda).toBeGreaterThanOrEqual(0);
+      expect(first.lambda).toBeLessThanOrEqual(1);
+
+      const lambdas = await Promise.all(
+        Array.from({ length: 200 }, async (_, seed) => {
+          const { lambda } = await mixup(sources, { alpha: 2, seed: seed + 1 });
+          return lambda;
+        })
+      );
+      const mean = lambdas.reduce((sum, v) => sum + v, 0) / lambdas.length;
+      expect(mean).toBeGreaterThan(0.45);
+      expect(mean).toBeLessThan(0.55);
+    });
+  });
+
+  describe('cutMix', () => {
+    it('pastes a region and weighs labels by the pasted area', async () => {
+      const result = await cutMix([image('/1.jpg'), image('/0.jpg')], {
+        lambda: 0.75,
+        labels: [
+          [1, 0],
+          [0, 1],
+        ],
+        seed: 5,
+      });
+
+      const { region } = result;
+      const area = region.width * region.height;
+      expect(area).toBeGreaterThan(0);
+      expect(area).toBeLessThanOrEqual(4);
+      expect(result.lambda).toBeCloseTo(1 - area / 16);
+      expect(result.weights).toEqual([result.lambda, 1 - result.lambda]);
+      expect(result.labels).toEqual(result.weights);
+
+      const pixels = encodedPixels();
+      for (let y = 0; y < 4; y++) {
+        for (let x = 0; x < 4; x++) {
+          const inside =
+            x >= region.x &&
+            x < region.x + region.width &&
+            y >= region.y &&
+            y < region.y + region.height;
+          expect(pixels[(y * 4 + x) * 3]).toBe(inside ? 0 : 1);
+        }
+      }
+    });
+  });
+
+  describe('mosaic', () => {
+    const sources = ['/0.1.jpg', '/0.2.jpg', '/0.3.jpg', '/0.4.jpg'].map(image);
+
+    it('places four scaled images around the center', async () => {
+      const result = await mosaic(sources, {
+        size: 8,
+        centerRange: [0.5, 0.5],
+        fillValue: [0, 0, 0],
+        labels: [0, 1, 2, 3],
+        numClasses: 4,
+      });
+
+      // 8x4 images fit 4x4 quadrants at half scale
+      expect(mockedNative.getPixelData.mock.calls[0]![0]).toMatchObject({
+        resize: { width: 4, height: 2 },
+      });
+      expect(result.center).toEqual([4, 4]);
+      expect(result.tiles).toEqual([
+        { x: 0, y: 2, width: 4, height: 2, scale: [0.5, 0.5], offset: [0, 2] },
+        { x: 4, y: 2, width: 4, height: 2, scale: [0.5, 0.5], offset: [4, 2] },
+        { x: 0, y: 4, width: 4, height: 2, scale: [0.5, 0.5], offset: [0, 4] },
+        { x: 4, y: 4, width: 4, height: 2, scale: [0.5, 0.5], offset: [4, 4] },
+      ]);
+      expect(result.weights).toEqual([0.25, 0.25, 0.25, 0.25]);
+      expect(result.labels).toEqual([0.25, 0.25, 0.25, 0.25]);
+
+      const pixels = encodedPixels();
+      const column = (x: number) =>
+        Array.from({ length: 8 }, (_, y) => pixels[(y * 8 + x) * 3]);
+      expect(column(0)).toEqual([0, 0, 0.1, 0.1, 0.3, 0.3, 0, 0]);
+      expect(column(7)).toEqual([0, 0, 0.2, 0.2, 0.4, 0.4, 0, 0]);
+    });
+
+    it('crops tiles at the border and merges their boxes', async () => {
+      const result = await mosaic(sources, {
+        size: 8,
+        centerRange: [0.25, 0.25],
+        boxes: [
+          [
+            [0, 0, 2, 2],
+            [4, 0, 4, 4],
+          ],
+          [[20, 20, 4, 4]],
+          [],
+          [[6, 0, 6, 4]],
+        ],
+        boxFormat: 'xywh',
+      });
+
+      expect(result.center).toEqual([2, 2]);
+      // The top-left tile only shows the right half of its image
+      expect(result.tiles[0]).toMatchObject({
+        x: 0,
+        y: 0,
+        width: 2,
+        height: 2,
+        offset: [-2, 0],
+      });
+      expect(result.boxFormat).toBe('xywh');
+      expect(result.boxes).toEqual([
+        [0, 0, 2, 2],
+        [5, 2, 1, 2],
+      ]);
+      expect(result.boxSources).toEqual([0, 3]);
+      expect(result.boxIndices).toEqual([1, 0]);
+    });
+  });
+
+  it('validates sources, labels and options before decoding', async () => {
+    const pair = [image('/1.jpg'), image('/0.jpg')];
+    const cases: Array<[Promise<unknown>, string]> = [
+      [mixup([image('/1.jpg')]), 'INVALID_INPUT'],
+      [mosaic(pair), 'INVALID_INPUT'],
+      [mixup(pair, { alpha: 0 }), 'INVALID_OPTIONS'],
+      [cutMix(pair, { lambda: 1.5 }), 'INVALID_OPTIONS'],
+      [mixup(pair, { size: [0, 4] }), 'INVALID_OPTIONS'],
+      [mixup(pair, { labels: [0, 1] }), 'INVALID_OPTIONS'],
+      [mixup(pair, { labels: [0, 3], numClasses: 3 }), 'INVALID_LABEL_INDEX'],
+      [
+        cutMix(pair, {
+          labels: [
+            [1, 0],
+            [0, 0, 1],
+          ],
+        }),
+        'DIMENSION_MISMATCH',
+      ],
+      [
+        mosaic([...pair, ...pair], { centerRange: [0.8, 0.2] }),
+        'INVALID_OPTIONS',
+      ],
+      [mosaic([...pair, ...pair], { boxes: [[]] }), 'INVALID_INPUT'],
+    ];
+    for (const [promise, code] of cases) {
+      await expect(promise).rejects.toMatchObject({ code });
+    }
+    expect(mockedNative.getPixelData).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for nonMaxSuppression modes and class-aware options
+ */
+
+import { nonMaxSuppression, VisionUtilsException } from '../index';
+import type { Detection } from '../types';
+import NativeVisionUtils from '../NativeVisionUtils';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    nonMaxSuppression: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+const detections: Detection[] = [
+  { box: [0, 0, 10, 10], score: 0.9, classIndex: 0, label: 'person' },
+  { box: [1, 1, 11, 11], score: 0.8, classIndex: 0, label: 'person' },
+  { box: [0, 0, 10, 10], score: 0.7, classIndex: 1, label: 'bicycle' },
+];
+
+describe('nonMaxSuppression modes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedNative.nonMaxSuppression.mockResolvedValue({
+      indices: [],
+      detections: [],
+      suppressedCount: 0,
+      processingTimeMs: 1,
+    });
+  });
+
+  it('defaults to greedy, class-agnostic suppression', async () => {
+    await nonMaxSuppression(detections);
+
+    expect(mockedNative.nonMaxSuppression).toHaveBeenCalledWith(detections, {
+      iouThreshold: 0.5,
+      scoreThreshold: 0,
+      maxDetections: undefined,
+      maxDetectionsPerClass: undefined,
+      format: 'xyxy',
+      mode: 'greedy',
+      agnostic: true,
+      sigma: 0.5,
+    });
+  });
+
+  it('forwards mode, class awareness and per-class limits', async () => {
+    await nonMaxSuppression(detections, {
+      mode: 'soft-gaussian',
+      agnostic: false,
+      maxDetectionsPerClass: 5,
+      sigma: 0.3,
+    });
+
+    expect(mockedNative.nonMaxSuppression).toHaveBeenCalledWith(
+      detections,
+      expect.objectContaining({
+        mode: 'soft-gaussian',
+        agnostic: false,
+        maxDetectionsPerClass: 5,
+        sigma: 0.3,
+      })
+    );
+  });
+
+  it('takes decayed scores and fused boxes from native', async () => {
+    mockedNative.nonMaxSuppression.mockResolvedValue({
+      indices: [0, 2],
+      detections: [
+        { box: [0.5, 0.5, 10.5, 10.5], score: 0.85, index: 0 },
+        { box: [0, 0, 10, 10], score: 0.7, index: 2 },
+      ],
+      suppressedCount: 1,
+      processingTimeMs: 1,
+    });
+
+    const result = await nonMaxSuppression(detections, {
+      mode: 'weighted-boxes-fusion',
+      agnostic: false,
+    });
+
+    expect(result.detections).toEqual([
+      {
+        box: [0.5, 0.5, 10.5, 10.5],
+        score: 0.85,
+        classIndex: 0,
+        label: 'person',
+      },
+      detections[2],
+    ]);
+  });
+
+  it('rejects unknown modes and invalid limits before calling native', async () => {
+    const invalid = [
+      { mode: 'matrix' },
+      { maxDetectionsPerClass: 0 },
+      { mode: 'soft-gaussian', sigma: 0 },
+    ];
+    for (const options of invalid) {
+      await expect(
+        nonMaxSuppression(detections, options as never)
+      ).rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+    }
+    await expect(
+      nonMaxSuppression(detections, { mode: 'nms' as never })
+    ).rejects.toThrow(VisionUtilsException);
+    expect(mockedNative.nonMaxSuppression).not.toHaveBeenCalled();
+  });
+});
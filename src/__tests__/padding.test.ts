@@ -0,0 +1,230 @@
+/**
+ * Tests for tensor/image padding and letterbox stride options
+ */
+
+import { letterbox, padImage, padTensor, VisionUtilsException } from '../index';
+import type { ImageSource } from '../types';
+import NativeVisionUtils from '../NativeVisionUtils';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    letterbox: jest.fn(),
+    padImage: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+const source: ImageSource = { type: 'file', value: '/path/to/image.jpg' };
+
+// 2x3 single-channel tensor:
+// 1 2 3
+// 4 5 6
+const tensor = [1, 2, 3, 4, 5, 6];
+
+describe('padTensor', () => {
+  it('pads with a constant value', () => {
+    const result = padTensor(tensor, [2, 3, 1], 'hwc', {
+      mode: 'constant',
+      size: 1,
+      value: [9],
+    });
+
+    expect(result.shape).toEqual([4, 5, 1]);
+    expect(result.padding).toEqual([1, 1, 1, 1]);
+    expect(result.data).toEqual([
+      9, 9, 9, 9, 9, 9, 1, 2, 3, 9, 9, 4, 5, 6, 9, 9, 9, 9, 9, 9,
+    ]);
+  });
+
+  it('supports asymmetric [top, right, bottom, left] sizes', () => {
+    const result = padTensor(tensor, [2, 3, 1], 'hwc', {
+      mode: 'constant',
+      size: [1, 0, 0, 2],
+    });
+
+    expect(result.shape).toEqual([3, 5, 1]);
+    expect(result.data).toEqual([0, 0, 0, 0, 0, 0, 0, 1, 2, 3, 0, 0, 4, 5, 6]);
+  });
+
+  it('reflects without repeating the edge', () => {
+    const result = padTensor(tensor, [2, 3, 1], 'hwc', {
+      mode: 'reflect',
+      size: [0, 2, 0, 2],
+    });
+
+    expect(result.data).toEqual([3, 2, 1, 2, 3, 2, 1, 6, 5, 4, 5, 6, 5, 4]);
+  });
+
+  it('replicates edge values', () => {
+    const result = padTensor(tensor, [2, 3, 1], 'hwc', {
+      mode: 'replicate',
+      size: [1, 1, 0, 0],
+    });
+
+    expect(result.data).toEqual([1, 2, 3, 3, 1, 2, 3, 3, 4, 5, 6, 6]);
+  });
+
+  it('wraps around in circular mode', () => {
+    const result = padTensor(tensor, [2, 3, 1], 'hwc', {
+      mode: 'circular',
+      size: [0, 1, 0, 1],
+    });
+
+    expect(result.data).toEqual([3, 1, 2, 3, 1, 6, 4, 5, 6, 4]);
+  });
+
+  it('pads channels independently in CHW layout', () => {
+    // 2 channels of 1x2
+    const result = padTensor([1, 2, 10, 20], [2, 1, 2], 'chw', {
+      mode: 'constant',
+      size: [0, 1, 0, 0],
+      value: [-1, -2],
+    });
+
+    expect(result.shape).toEqual([2, 1, 3]);
+    expect(result.data).toEqual([1, 2, -1, 10, 20, -2]);
+  });
+
+  it('pads interleaved channels in NHWC layout', () => {
+    const result = padTensor(
+      new Float32Array([1, 2, 3, 4]),
+      [1, 1, 2, 2],
+      'nhwc',
+      {
+        mode: 'replicate',
+        size: [0, 1, 0, 0],
+      }
+    );
+
+    expect(result.shape).toEqual([1, 1, 3, 2]);
+    expect(result.data).toEqual([1, 2, 3, 4, 3, 4]);
+  });
+
+  it('pads bottom/right up to a multiple of the stride', () => {
+    const data = new Array(3 * 50 * 37).fill(0.5);
+    const result = padTensor(data, [1, 3, 50, 37], 'nchw', {
+      mode: 'constant',
+      multipleOf: 32,
+    });
+
+    expect(result.shape).toEqual([1, 3, 64, 64]);
+    expect(result.padding).toEqual([0, 27, 14, 0]);
+    expect(result.data).toHaveLength(3 * 64 * 64);
+    expect(result.data[0]).toBe(0.5);
+    expect(result.data[63]).toBe(0);
+  });
+
+  it('rejects shapes that do not match the data', () => {
+    expect(() =>
+      padTensor(tensor, [2, 2, 1], 'hwc', { mode: 'constant', size: 1 })
+    ).toThrow(VisionUtilsException);
+    expect(() =>
+      padTensor(tensor, [2, 3], 'hwc', { mode: 'constant', size: 1 })
+    ).toThrow(VisionUtilsException);
+  });
+
+  it('rejects invalid padding options', () => {
+    const invalid = [
+      { mode: 'mirror', size: 1 },
+      { mode: 'constant', size: -1 },
+      { mode: 'constant', size: [1, 1] },
+      { mode: 'constant', multipleOf: 0 },
+    ];
+    for (const options of invalid) {
+      expect(() =>
+        padTensor(tensor, [2, 3, 1], 'hwc', options as never)
+      ).toThrow(expect.objectContaining({ code: 'INVALID_PADDING' }));
+    }
+  });
+});
+
+describe('padImage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('sends normalized padding and defaults to native', async () => {
+    mockedNative.padImage.mockResolvedValue({
+      imageBase64: 'padded',
+      width: 104,
+      height: 102,
+      padding: [1, 2, 1, 2],
+      originalSize: [100, 100],
+      processingTimeMs: 1,
+    });
+
+    const result = await padImage(source, {
+      mode: 'reflect',
+      size: [1, 2, 1, 2],
+    });
+
+    expect(mockedNative.padImage).toHaveBeenCalledWith(source, {
+      mode: 'reflect',
+      value: [0, 0, 0, 255],
+      padding: [1, 2, 1, 2],
+      multipleOf: 1,
+    });
+    expect(result.width).toBe(104);
+  });
+
+  it('expands a single size and forwards multipleOf', async () => {
+    mockedNative.padImage.mockResolvedValue({});
+
+    await padImage(source, {
+      mode: 'constant',
+      size: 4,
+      value: [114, 114, 114, 255],
+      multipleOf: 32,
+    });
+
+    expect(mockedNative.padImage).toHaveBeenCalledWith(source, {
+      mode: 'constant',
+      value: [114, 114, 114, 255],
+      padding: [4, 4, 4, 4],
+      multipleOf: 32,
+    });
+  });
+
+  it('validates options before calling native', async () => {
+    await expect(
+      padImage(source, { mode: 'constant', size: 1.5 })
+    ).rejects.toMatchObject({ code: 'INVALID_PADDING' });
+    await expect(padImage(source, null as never)).rejects.toBeInstanceOf(
+      VisionUtilsException
+    );
+    expect(mockedNative.padImage).not.toHaveBeenCalled();
+  });
+});
+
+describe('letterbox stride options', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedNative.letterbox.mockResolvedValue({});
+  });
+
+  it('passes autoStride, stride and center to native', async () => {
+    await letterbox(source, {
+      targetWidth: 640,
+      targetHeight: 640,
+      autoStride: true,
+      stride: 64,
+      center: false,
+    });
+
+    expect(mockedNative.letterbox).toHaveBeenCalledWith(
+      source,
+      expect.objectContaining({ autoStride: true, stride: 64, center: false })
+    );
+  });
+
+  it('defaults to full target size, stride 32 and centered', async () => {
+    await letterbox(source, { targetWidth: 640, targetHeight: 640 });
+
+    expect(mockedNative.letterbox).toHaveBeenCalledWith(
+      source,
+      expect.objectContaining({ autoStride: false, stride: 32, center: true })
+    );
+  });
+});
@@ -1,5 +1,15 @@
-import { mockGetPixelData, mockBatchGetPixelData } from './jest.setup';
-import { getPixelData, batchGetPixelData } from '../index';
+import {
+  mockGetPixelData,
+  mockBatchGetPixelData,
+  mockQuantize,
+  mockDequantize,
+} from './jest.setup';
+import {
+  getPixelData,
+  batchGetPixelData,
+  quantize,
+  dequantize,
+} from '../index';
 import type { PixelDataResult } from '../types';
 
 describe('Performance & Timing', () => {
@@ -320,3 +330,307 @@ describe('Result Shape Validation', () => {
     });
   });
 });
+
+/** Pack a typed array the way the native modules do */
+function toBase64(values: Float32Array | Int8Array | Int16Array): string {
+  return Buffer.from(
+    values.buffer,
+    values.byteOffset,
+    values.byteLength
+  ).toString('base64');
+}
+
+describe('Packed base64 transport', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const source = { type: 'url' as const, value: 'https://example.com/a.jpg' };
+  const floats = new Float32Array([0, 0.25, -1.5, 1e-7, 3.4e38, 0.1]);
+  const packedResult = {
+    dataBase64: toBase64(floats),
+    dataType: 'float32',
+    width: 2,
+    height: 1,
+    channels: 3,
+    dataLayout: 'hwc',
+    shape: [1, 2, 3],
+    processingTimeMs: 1,
+  };
+
+  it('views packed float32 data without converting it', async () => {
+    mockGetPixelData.mockResolvedValue(packedResult);
+
+    const result = await getPixelData({ source, outputFormat: 'float32Array' });
+
+    expect(result.data).toBeInstanceOf(Float32Array);
+    expect(result.data).toEqual(floats);
+    expect((result.data as Float32Array).buffer.byteLength).toBe(
+      floats.byteLength
+    );
+    expect(result.shape).toEqual([1, 2, 3]);
+  });
+
+  it('still honors the other output formats', async () => {
+    mockGetPixelData.mockResolvedValue(packedResult);
+
+    const array = await getPixelData({ source, outputFormat: 'array' });
+    expect(Array.isArray(array.data)).toBe(true);
+    expect(array.data).toEqual(Array.from(floats));
+
+    const uint8 = await getPixelData({ source, outputFormat: 'uint8Array' });
+    expect(Array.from(uint8.data.slice(0, 3))).toEqual([0, 64, 0]);
+  });
+
+  it('decodes packed items in batch results', async () => {
+    mockBatchGetPixelData.mockResolvedValue({
+      results: [
+        packedResult,
+        { error: true, code: 'E', message: 'm', index: 1 },
+      ],
+      totalTimeMs: 2,
+    });
+
+    const result = await batchGetPixelData([
+      { source, outputFormat: 'float32Array' },
+      { source },
+    ]);
+
+    expect(result.results[0]).toMatchObject({ data: floats });
+    expect(result.results[1]).toMatchObject({ error: true });
+  });
+
+  it('decodes quantized and dequantized buffers by dtype', async () => {
+    const int16 = new Int16Array([-32768, -1, 0, 1, 32767]);
+    mockQuantize.mockResolvedValue({
+      dataBase64: toBase64(int16),
+      dataType: 'int16',
+      dtype: 'int16',
+      mode: 'per-tensor',
+      scale: 1,
+      zeroPoint: 0,
+      processingTimeMs: 1,
+    });
+    mockDequantize.mockResolvedValue({
+      dataBase64: toBase64(floats),
+      dataType: 'float32',
+      processingTimeMs: 1,
+    });
+
+    const quantized = await quantize([0], {
+      dtype: 'int16',
+      scale: 1,
+      zeroPoint: 0,
+    });
+    expect(quantized.data).toBeInstanceOf(Int16Array);
+    expect(Array.from(quantized.data)).toEqual(Array.from(int16));
+
+    const dequantized = await dequantize([0], {
+      dtype: 'int8',
+      scale: 1,
+      zeroPoint: 0,
+    });
+    expect(dequantized.data).toEqual(floats);
+  });
+
+  it('handles every base64 padding length', async () => {
+    for (const bytes of [[1], [1, 2], [1, 2, 3], [255, 0, 128, 7]]) {
+      const int8 = new Int8Array(bytes);
+      mockQuantize.mockResolvedValue({
+        dataBase64: toBase64(int8),
+        dtype: 'int8',
+        mode: 'per-tensor',
+        scale: 1,
+        zeroPoint: 0,
+        processingTimeMs: 1,
+      });
+
+      const result = await quantize([0], { scale: 1, zeroPoint: 0 });
+      expect(Array.from(result.data)).toEqual(Array.from(int8));
+    }
+  });
+
+  describe('full-size frames', () => {
+    // A 640x640 RGB YOLO input: 1.2M floats per frame
+    const length = 640 * 640 * 3;
+    const frame = new Float32Array(length);
+    for (let i = 0; i < length; i++) frame[i] = Math.random();
+
+    // A JSON round-trip stands in for the bridge serializing each payload
+    const overBridge = <T>(payload: T): T =>
+      JSON.parse(JSON.stringify(payload));
+
+    it('decodes a packed frame to the same values as a number array', async () => {
+      const arrayPayload = { ...packedResult, dataBase64: undefined };
+      mockGetPixelData.mockResolvedValue(
+        overBridge({ ...arrayPayload, data: Array.from(frame) })
+      );
+      const legacy = await getPixelData({
+        source,
+        outputFormat: 'float32Array',
+      });
+
+      mockGetPixelData.mockResolvedValue(
+        overBridge({ ...packedResult, dataBase64: toBase64(frame) })
+      );
+      const packed = await getPixelData({
+        source,
+        outputFormat: 'float32Array',
+      });
+
+      expect(packed.data).toHaveLength(legacy.data.length);
+      for (let i = 0; i < length; i += 9973) {
+        expect(packed.data[i]).toBe(legacy.data[i]);
+      }
+    });
+
+    it('shrinks the serialized payload', () => {
+      const arrayBytes = JSON.stringify(Array.from(frame)).length;
+      const packedBytes = JSON.stringify(toBase64(frame)).length;
+
+      // base64 float32 is ~5.3 bytes per element
+      expect(packedBytes).toBeLessThan(length * 5.4);
+      expect(packedBytes).toBeLessThan(arrayBytes / 2);
+    });
+  });
+});
+
+describe('JSI buffer transport', () => {
+  const global = globalThis as {
+    __visionUtilsTakeBuffer?: (id: number) => ArrayBuffer;
+  };
+
+  // Stands in for the native buffer registry behind the JSI global
+  const registry = new Map<number, ArrayBuffer>();
+  let nextId = 1;
+  const register = (values: Float32Array | Int8Array | Int16Array) => {
+    const id = nextId++;
+    registry.set(id, values.buffer as ArrayBuffer);
+    return id;
+  };
+
+  const source = { type: 'url' as const, value: 'https://example.com/a.jpg' };
+  const pixelResult = (dataBufferId: number) => ({
+    dataBufferId,
+    dataType: 'float32',
+    width: 2,
+    height: 1,
+    channels: 3,
+    dataLayout: 'hwc',
+    shape: [1, 2, 3],
+    processingTimeMs: 1,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.__visionUtilsTakeBuffer = (id) => {
+      const buffer = registry.get(id);
+      registry.delete(id);
+      if (!buffer) throw new Error('Native buffer is unknown or already taken');
+      return buffer;
+    };
+  });
+
+  afterEach(() => {
+    delete global.__visionUtilsTakeBuffer;
+    registry.clear();
+  });
+
+  it('views the native buffer without copying it', async () => {
+    const floats = new Float32Array([0, 0.25, -1.5, 1e-7, 3.4e38, 0.1]);
+    mockGetPixelData.mockResolvedValue(pixelResult(register(floats)));
+
+    const result = await getPixelData({ source, outputFormat: 'float32Array' });
+
+    expect(result.data).toBeInstanceOf(Float32Array);
+    expect((result.data as Float32Array).buffer).toBe(floats.buffer);
+    expect(result.data).toEqual(floats);
+    // The buffer is handed over once
+    expect(registry.size).toBe(0);
+  });
+
+  it('takes buffers for batch, quantize and dequantize results', async () => {
+    const floats = new Float32Array([0.5, 1, 1.5, 2, 2.5, 3]);
+    const int8 = new Int8Array([-128, 0, 127]);
+    mockBatchGetPixelData.mockResolvedValue({
+      results: [pixelResult(register(floats))],
+      totalTimeMs: 1,
+    });
+    mockQuantize.mockResolvedValue({
+      dataBufferId: register(int8),
+      dataType: 'int8',
+      dtype: 'int8',
+      mode: 'per-tensor',
+      scale: 1,
+      zeroPoint: 0,
+      processingTimeMs: 1,
+    });
+    mockDequantize.mockResolvedValue({
+      dataBufferId: register(floats),
+      dataType: 'float32',
+      processingTimeMs: 1,
+    });
+
+    const batch = await batchGetPixelData([
+      { source, outputFormat: 'float32Array' },
+    ]);
+    const quantized = await quantize([0], { scale: 1, zeroPoint: 0 });
+    const dequantized = await dequantize([0], {
+      dtype: 'int8',
+      scale: 1,
+      zeroPoint: 0,
+    });
+
+    expect((batch.results[0] as PixelDataResult).data).toEqual(floats);
+    expect(quantized.data).toBeInstanceOf(Int8Array);
+    expect(quantized.data.buffer).toBe(int8.buffer);
+    expect(dequantized.data.buffer).toBe(floats.buffer);
+  });
+
+  it('rejects a buffer id when the bindings are missing', async () => {
+    delete global.__visionUtilsTakeBuffer;
+    mockGetPixelData.mockResolvedValue(pixelResult(1));
+
+    await expect(getPixelData({ source })).rejects.toMatchObject({
+      code: 'PROCESSING_ERROR',
+    });
+  });
+
+  it('receives a full frame faster than the base64 fallback', async () => {
+    // A 640x640 RGB YOLO input: 1.2M floats per frame
+    const length = 640 * 640 * 3;
+    const frame = new Float32Array(length);
+    for (let i = 0; i < length; i++) frame[i] = Math.random();
+    const packed = toBase64(frame);
+
+    const median = async (run: () => Promise<unknown>) => {
+      const times: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        const start = performance.now();
+        await run();
+        times.push(performance.now() - start);
+      }
+      return times.sort((a, b) => a - b)[2]!;
+    };
+
+    const base64Ms = await median(async () => {
+      mockGetPixelData.mockResolvedValue({
+        ...pixelResult(0),
+        dataBufferId: undefined,
+        dataBase64: packed,
+      });
+      await getPixelData({ source, outputFormat: 'float32Array' });
+    });
+    const bufferMs = await median(async () => {
+      mockGetPixelData.mockResolvedValue(pixelResult(register(frame)));
+      const result = await getPixelData({
+        source,
+        outputFormat: 'float32Array',
+      });
+      expect(result.data).toHaveLength(length);
+    });
+
+    // Taking the buffer is constant-time; decoding base64 touches ~4.9 MB
+    expect(bufferMs * 10).toBeLessThan(base64Ms);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Tests for pose estimation decoding
+ */
+
+import {
+  COCO_KEYPOINT_NAMES,
+  COCO_SKELETON,
+  decodePoseOutput,
+  VisionUtilsException,
+} from '../index';
+
+describe('COCO pose definitions', () => {
+  it('names the 17 COCO keypoints', () => {
+    expect(COCO_KEYPOINT_NAMES).toHaveLength(17);
+    expect(COCO_KEYPOINT_NAMES[0]).toBe('nose');
+    expect(COCO_KEYPOINT_NAMES[16]).toBe('right_ankle');
+  });
+
+  it('defines a skeleton over valid keypoint indices', () => {
+    expect(COCO_SKELETON).toHaveLength(19);
+    for (const { from, to } of COCO_SKELETON) {
+      expect(from).toBeGreaterThanOrEqual(0);
+      expect(to).toBeLessThan(17);
+    }
+    expect(COCO_SKELETON).toContainEqual({ from: 5, to: 6 }); // shoulders
+  });
+});
+
+describe('decodePoseOutput', () => {
+  describe("format: 'yolov8-pose'", () => {
+    // [1, 5 + 2 * 3, 2 candidates], attributes-first
+    const tensor = [
+      ...[50, 10],
+      ...[50, 10],
+      ...[20, 4],
+      ...[20, 4],
+      ...[0.9, 0.1],
+      ...[45, 0],
+      ...[40, 0],
+      ...[0.8, 0],
+      ...[55, 0],
+      ...[60, 0],
+      ...[0.7, 0],
+    ];
+
+    it('decodes boxes, person scores and keypoints', () => {
+      const result = decodePoseOutput(tensor, [1, 11, 2], {
+        format: 'yolov8-pose',
+        layout: 'attributes-first',
+        keypointNames: ['head', 'foot'],
+      });
+
+      expect(result.numKeypoints).toBe(2);
+      expect(result.detections).toHaveLength(1);
+      const [person] = result.detections;
+      expect(person!.box).toEqual([40, 40, 60, 60]);
+      expect(person!.score).toBe(0.9);
+      expect(person!.classIndex).toBe(0);
+      expect(person!.keypoints).toEqual([
+        { x: 45, y: 40, confidence: 0.8, name: 'head' },
+        { x: 55, y: 60, confidence: 0.7, name: 'foot' },
+      ]);
+    });
+
+    it('maps keypoints back through letterbox parameters', () => {
+      const result = decodePoseOutput(tensor, [1, 11, 2], {
+        format: 'yolov8-pose',
+        layout: 'attributes-first',
+        letterboxInfo: { scale: 0.5, offset: [0, 20] },
+      });
+
+      const [person] = result.detections;
+      expect(person!.box).toEqual([80, 40, 120, 80]);
+      expect(person!.keypoints[0]).toMatchObject({ x: 90, y: 40 });
+    });
+
+    it('names 17-keypoint models with COCO names', () => {
+      const candidate = [320, 320, 100, 200, 0.95];
+      for (let k = 0; k < 17; k++) candidate.push(300 + k, 250 + k, 0.9);
+
+      const result = decodePoseOutput(candidate, [1, 1, 56], {
+        format: 'yolov8-pose',
+        layout: 'candidates-first',
+      });
+
+      const { keypoints } = result.detections[0]!;
+      expect(keypoints).toHaveLength(17);
+      expect(keypoints[0]!.name).toBe('nose');
+      expect(keypoints[16]).toEqual({
+        x: 316,
+        y: 266,
+        confidence: 0.9,
+        name: 'right_ankle',
+      });
+    });
+  });
+
+  describe("format: 'movenet'", () => {
+    it('decodes single-pose output in normalized (y, x) order', () => {
+      const tensor: number[] = [];
+      for (let k = 0; k < 17; k++) tensor.push(0.5, 0.25, 0.9);
+
+      const result = decodePoseOutput(tensor, [1, 1, 17, 3], {
+        format: 'movenet',
+      });
+
+      const [person] = result.detections;
+      expect(person!.keypoints[0]).toEqual({
+        x: 48,
+        y: 96,
+        confidence: 0.9,
+        name: 'nose',
+      });
+      expect(person!.score).toBeCloseTo(0.9);
+    });
+
+    it('decodes multi-pose output with boxes', () => {
+      const person = (score: number) => {
+        const row: number[] = [];
+        for (let k = 0; k < 17; k++) row.push(0.5, 0.5, score);
+        return [...row, 0.25, 0.1, 0.75, 0.9, score];
+      };
+
+      const result = decodePoseOutput(
+        [...person(0.8), ...person(0.1)],
+        [1, 2, 56],
+        { format: 'movenet', inputSize: [256, 256] }
+      );
+
+      expect(result.detections).toHaveLength(1);
+      expect(result.detections[0]!.box).toEqual([25.6, 64, 230.4, 192]);
+      expect(result.detections[0]!.keypoints[0]).toMatchObject({
+        x: 128,
+        y: 128,
+      });
+    });
+  });
+
+  describe("format: 'heatmap'", () => {
+    // 5x5 heatmap peaking at (2, 2), skewed towards +x
+    const heatmap = [
+      ...[0, 0, 0, 0, 0],
+      ...[0, 0, 0.3, 0, 0],
+      ...[0, 0.2, 1, 0.5, 0],
+      ...[0, 0, 0.3, 0, 0],
+      ...[0, 0, 0, 0, 0],
+    ];
+
+    it('takes the integer argmax without refinement', () => {
+      const result = decodePoseOutput(heatmap, [1, 1, 5, 5], {
+        format: 'heatmap',
+        refinement: 'none',
+      });
+
+      expect(result.detections[0]!.keypoints[0]).toEqual({
+        x: 8,
+        y: 8,
+        confidence: 1,
+      });
+    });
+
+    it('shifts a quarter pixel towards the higher neighbour', () => {
+      const result = decodePoseOutput(heatmap, [1, 1, 5, 5], {
+        format: 'heatmap',
+        inputSize: [5, 5],
+      });
+
+      expect(result.detections[0]!.keypoints[0]).toMatchObject({
+        x: 2.25,
+        y: 2,
+      });
+    });
+
+    it('recovers the sub-pixel peak of a Gaussian with Taylor refinement', () => {
+      const gaussian: number[] = [];
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          gaussian.push(Math.exp(-((x - 3.3) ** 2 + (y - 4.6) ** 2) / 2));
+        }
+      }
+
+      const result = decodePoseOutput(gaussian, [1, 1, 8, 8], {
+        format: 'heatmap',
+        inputSize: [8, 8],
+        refinement: 'taylor',
+      });
+
+      const [keypoint] = result.detections[0]!.keypoints;
+      expect(keypoint!.x).toBeCloseTo(3.3, 5);
+      expect(keypoint!.y).toBeCloseTo(4.6, 5);
+    });
+
+    it('drops the person when the mean confidence is too low', () => {
+      const result = decodePoseOutput(heatmap, [1, 1, 5, 5], {
+        format: 'heatmap',
+        scoreThreshold: 1.5,
+      });
+
+      expect(result.detections).toEqual([]);
+      expect(result.numKeypoints).toBe(1);
+    });
+  });
+
+  it('validates the tensor and format', () => {
+    expect(() =>
+      decodePoseOutput([1, 2, 3], [1, 2, 2], { format: 'heatmap' })
+    ).toThrow(expect.objectContaining({ code: 'DIMENSION_MISMATCH' }));
+    expect(() =>
+      decodePoseOutput([1], [1], { format: 'openpose' as never })
+    ).toThrow(VisionUtilsException);
+    expect(() =>
+      decodePoseOutput(new Array(12).fill(0), [1, 12, 1], {
+        format: 'yolov8-pose',
+        layout: 'attributes-first',
+      })
+    ).toThrow(expect.objectContaining({ code: 'DIMENSION_MISMATCH' }));
+  });
+
+  it('rejects a batchIndex that is not an integer in range', () => {
+    const cases: Array<[string, number[], object]> = [
+      ['yolov8-pose', [2, 11, 1], { layout: 'attributes-first' }],
+      ['movenet', [2, 1, 17, 3], {}],
+      ['movenet', [2, 2, 56], {}],
+      ['heatmap', [2, 1, 5, 5], {}],
+    ];
+    for (const [format, shape, options] of cases) {
+      const tensor = new Array(shape.reduce((a, b) => a * b, 1)).fill(0);
+      for (const batchIndex of [0.5, -1, 2]) {
+        expect(() =>
+          decodePoseOutput(tensor, shape, {
+            format: format as 'movenet',
+            ...options,
+            batchIndex,
+          })
+        ).toThrow(expect.objectContaining({ code: 'INVALID_OPTIONS' }));
+      }
+      expect(() =>
+        decodePoseOutput(tensor, shape, {
+          format: format as 'movenet',
+          ...options,
+          batchIndex: 1,
+        })
+      ).not.toThrow();
+    }
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for semantic segmentation decoding
+ */
+
+import { decodeSegmentation, VisionUtilsException } from '../index';
+import type { LetterboxInfo } from '../types';
+import NativeVisionUtils from '../NativeVisionUtils';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    getAllLabels: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+// [1, 3, 2, 2] logits: class 0 wins top-left, class 1 top-right, class 2 bottom row
+const logits = [
+  // class 0
+  5, 0, 0, 0,
+  // class 1
+  0, 5, 0, 0,
+  // class 2
+  0, 0, 5, 5,
+];
+
+describe('decodeSegmentation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('takes the channel argmax for NCHW logits', async () => {
+    const result = await decodeSegmentation(logits, [1, 3, 2, 2]);
+
+    expect(result.mask).toEqual([0, 1, 2, 2]);
+    expect(result.width).toBe(2);
+    expect(result.height).toBe(2);
+    expect(result.numClasses).toBe(3);
+    expect(result.confidence).toBeUndefined();
+  });
+
+  it('supports NHWC logits', async () => {
+    const nhwc = [5, 0, 0, 0, 5, 0, 0, 0, 5, 0, 0, 5];
+    const result = await decodeSegmentation(nhwc, [1, 2, 2, 3], {
+      layout: 'nhwc',
+    });
+
+    expect(result.mask).toEqual([0, 1, 2, 2]);
+  });
+
+  it('reports per-class areas sorted by pixel count', async () => {
+    const result = await decodeSegmentation(logits, [1, 3, 2, 2]);
+
+    expect(result.classes).toEqual([
+      { classIndex: 2, pixelCount: 2, fraction: 0.5 },
+      { classIndex: 0, pixelCount: 1, fraction: 0.25 },
+      { classIndex: 1, pixelCount: 1, fraction: 0.25 },
+    ]);
+  });
+
+  it('computes softmax confidence of the predicted class', async () => {
+    const result = await decodeSegmentation([2, 0], [1, 2, 1, 1], {
+      includeConfidence: true,
+    });
+
+    expect(result.mask).toEqual([0]);
+    expect(result.confidence?.[0]).toBeCloseTo(1 / (1 + Math.exp(-2)));
+  });
+
+  it('thresholds a single channel with sigmoid', async () => {
+    const result = await decodeSegmentation([3, -3, 0.1, -0.1], [1, 1, 2, 2], {
+      includeConfidence: true,
+    });
+
+    expect(result.mask).toEqual([1, 0, 1, 0]);
+    expect(result.confidence?.[1]).toBeCloseTo(1 - 1 / (1 + Math.exp(3)));
+
+    const strict = await decodeSegmentation([3, -3, 0.1, -0.1], [1, 1, 2, 2], {
+      threshold: 0.9,
+    });
+    expect(strict.mask).toEqual([1, 0, 0, 0]);
+  });
+
+  it('resizes the mask to the requested output size', async () => {
+    const result = await decodeSegmentation(logits, [1, 3, 2, 2], {
+      outputSize: [4, 4],
+    });
+
+    expect(result.width).toBe(4);
+    expect(result.height).toBe(4);
+    expect(result.mask).toEqual([
+      0, 0, 1, 1, 0, 0, 1, 1, 2, 2, 2, 2, 2, 2, 2, 2,
+    ]);
+  });
+
+  it('removes letterbox padding and maps back to the original size', async () => {
+    // 4x2 original letterboxed into 4x4 with one row of padding top and bottom,
+    // logits at full letterbox resolution (2 classes)
+    const letterboxInfo: LetterboxInfo = {
+      scale: 1,
+      padding: [0, 1, 0, 1],
+      offset: [0, 1],
+      originalSize: [4, 2],
+      letterboxedSize: [4, 4],
+    };
+    // class 1 wins in the padded rows and at (x=3, y=2), class 0 elsewhere
+    const foreground = [0, 0, 0, 0, 5, 5, 5, 5, 5, 5, 5, 0, 0, 0, 0, 0];
+    const background = [9, 9, 9, 9, 0, 0, 0, 0, 0, 0, 0, 9, 9, 9, 9, 9];
+    const result = await decodeSegmentation(
+      [...foreground, ...background],
+      [1, 2, 4, 4],
+      { letterboxInfo }
+    );
+
+    expect(result.width).toBe(4);
+    expect(result.height).toBe(2);
+    expect(result.mask).toEqual([0, 0, 0, 0, 0, 0, 0, 1]);
+  });
+
+  it('interpolates logits bilinearly before the argmax', async () => {
+    // Class 2 never wins at a logits pixel but does halfway between them
+    const wide = [10, 0, 0, 10, 6, 6];
+    const nearest = await decodeSegmentation(wide, [1, 3, 1, 2], {
+      outputSize: [3, 1],
+    });
+    const bilinear = await decodeSegmentation(wide, [1, 3, 1, 2], {
+      outputSize: [3, 1],
+      interpolation: 'bilinear',
+    });
+
+    expect(nearest.mask).toEqual([0, 1, 1]);
+    expect(bilinear.mask).toEqual([0, 2, 1]);
+  });
+
+  it('attaches labels from a dataset', async () => {
+    mockedNative.getAllLabels.mockResolvedValue(['background', 'cat', 'dog']);
+
+    const result = await decodeSegmentation(logits, [1, 3, 2, 2], {
+      dataset: 'voc',
+    });
+
+    expect(mockedNative.getAllLabels).toHaveBeenCalledWith('voc');
+    expect(result.classes[0]).toMatchObject({ classIndex: 2, label: 'dog' });
+  });
+
+  it('rejects mismatched shapes and invalid options', async () => {
+    await expect(decodeSegmentation(logits, [1, 3, 2, 3])).rejects.toThrow(
+      VisionUtilsException
+    );
+    await expect(decodeSegmentation(logits, [3, 2, 2])).rejects.toThrow(
+      VisionUtilsException
+    );
+    await expect(
+      decodeSegmentation(logits, [1, 3, 2, 2], { activation: 'sigmoid' })
+    ).rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+    await expect(decodeSegmentation([], [1, 1, 1, 1])).rejects.toMatchObject({
+      code: 'INVALID_INPUT',
+    });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Tests for SAHI-style sliced detection
+ */
+
+import { slicedDetect } from '../index';
+import type { Detection, SliceRegion } from '../types';
+import NativeVisionUtils from '../NativeVisionUtils';
+
+jest.mock('../NativeVisionUtils', () => ({
+  __esModule: true,
+  default: {
+    getImageMetadata: jest.fn(),
+    getPixelData: jest.fn(),
+  },
+}));
+
+const mockedNative = NativeVisionUtils as jest.Mocked<typeof NativeVisionUtils>;
+
+const source = { type: 'file' as const, value: '/path/to/drone.jpg' };
+
+const sliceKey = (slice: SliceRegion) =>
+  slice.fullImage ? 'full' : `${slice.x},${slice.y}`;
+
+describe('slicedDetect', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedNative.getImageMetadata.mockResolvedValue({
+      width: 1000,
+      height: 600,
+    });
+    mockedNative.getPixelData.mockResolvedValue({
+      data: [0],
+      width: 1,
+      height: 1,
+      channels: 3,
+      shape: [1, 1, 3],
+      processingTimeMs: 1,
+    });
+  });
+
+  it('tiles the image with overlap and an optional full-image pass', async () => {
+    const runModel = jest.fn(async () => []);
+
+    const result = await slicedDetect(source, {
+      sliceSize: 512,
+      overlapPercent: 0.2,
+      fullImage: true,
+      pixelOptions: { dataLayout: 'nchw' },
+      runModel,
+    });
+
+    // Step 410 px; the last slice on each axis is shifted to the edge
+    expect(result.slices.map(sliceKey)).toEqual([
+      '0,0',
+      '410,0',
+      '488,0',
+      '0,88',
+      '410,88',
+      '488,88',
+      'full',
+    ]);
+    expect(result.slices[1]).toEqual({
+      x: 410,
+      y: 0,
+      width: 512,
+      height: 512,
+      fullImage: false,
+    });
+    expect(runModel).toHaveBeenCalledTimes(7);
+
+    const calls = mockedNative.getPixelData.mock.calls.map(
+      ([options]) => options as { roi?: unknown; dataLayout?: string }
+    );
+    expect(calls[1]).toMatchObject({
+      roi: { x: 410, y: 0, width: 512, height: 512 },
+      dataLayout: 'nchw',
+    });
+    expect(calls[6]).not.toHaveProperty('roi');
+  });
+
+  it('clamps slices to small images', async () => {
+    const result = await slicedDetect(source, {
+      sliceSize: [2000, 300],
+      runModel: async () => [],
+    });
+
+    expect(result.slices).toEqual([
+      { x: 0, y: 0, width: 1000, height: 300, fullImage: false },
+      { x: 0, y: 240, width: 1000, height: 300, fullImage: false },
+      { x: 0, y: 300, width: 1000, height: 300, fullImage: false },
+    ]);
+  });
+
+  it('offsets boxes into image coordinates and keeps detection fields', async () => {
+    const result = await slicedDetect(source, {
+      sliceSize: 512,
+      runModel: async (_input, slice) =>
+        sliceKey(slice) === '488,88'
+          ? [{ box: [10, 20, 30, 40], score: 0.8, classIndex: 2, label: 'car' }]
+          : [],
+    });
+
+    expect(result.detections).toEqual([
+      { box: [498, 108, 518, 128], score: 0.8, classIndex: 2, label: 'car' },
+    ]);
+    expect(result.rawDetectionCount).toBe(1);
+  });
+
+  it('scales boxes from resized slices back to the slice size', async () => {
+    mockedNative.getPixelData.mockResolvedValue({
+      data: [0],
+      width: 640,
+      height: 640,
+      channels: 3,
+      shape: [640, 640, 3],
+      processingTimeMs: 1,
+    });
+
+    const result = await slicedDetect(source, {
+      sliceSize: [500, 400],
+      overlapPercent: 0,
+      pixelOptions: {
+        resize: { width: 640, height: 640, strategy: 'stretch' },
+      },
+      runModel: async (_input, slice) =>
+        sliceKey(slice) === '500,200'
+          ? [{ box: [64, 32, 128, 96], score: 0.8, classIndex: 2 }]
+          : [],
+    });
+
+    // 500x400 slice read at 640x640: x scales by 500/640, y by 400/640
+    expect(result.detections).toEqual([
+      { box: [550, 220, 600, 260], score: 0.8, classIndex: 2 },
+    ]);
+  });
+
+  it('merges an object split across slices with NMM, or keeps the best with NMS', async () => {
+    // A car spanning x 470-530: the left slice sees its left part, the
+    // overlapping slice sees all of it
+    const runModel = async (
+      _input: unknown,
+      slice: SliceRegion
+    ): Promise<Detection[]> => {
+      const key = sliceKey(slice);
+      if (key === '0,0') {
+        return [{ box: [470, 100, 512, 140], score: 0.6, classIndex: 2 }];
+      }
+      if (key === '410,0') {
+        return [{ box: [60, 100, 120, 140], score: 0.9, classIndex: 2 }];
+      }
+      return [];
+    };
+
+    const nmm = await slicedDetect(source, { sliceSize: 512, runModel });
+    expect(nmm.detections).toEqual([
+      { box: [470, 100, 530, 140], score: 0.9, classIndex: 2 },
+    ]);
+
+    const nms = await slicedDetect(source, {
+      sliceSize: 512,
+      runModel,
+      mergeMode: 'nms',
+    });
+    expect(nms.detections).toEqual([
+      { box: [470, 100, 530, 140], score: 0.9, classIndex: 2 },
+    ]);
+    expect(nms.rawDetectionCount).toBe(2);
+
+    // The partial box covers 70% of the full one: IoU alone misses it
+    const iou = await slicedDetect(source, {
+      sliceSize: 512,
+      runModel,
+      matchMetric: 'iou',
+      matchThreshold: 0.8,
+    });
+    expect(iou.detections).toHaveLength(2);
+  });
+
+  it('only merges across classes when class-agnostic', async () => {
+    const runModel = async (
+      _input: unknown,
+      slice: SliceRegion
+    ): Promise<Detection[]> =>
+      sliceKey(slice) === '0,0'
+        ? [
+            { box: [0, 0, 50, 50], score: 0.9, classIndex: 0 },
+            { box: [0, 0, 50, 50], score: 0.5, classIndex: 1 },
+          ]
+        : [];
+
+    expect(
+      (await slicedDetect(source, { sliceSize: 512, runModel })).detections
+    ).toHaveLength(2);
+    expect(
+      (
+        await slicedDetect(source, {
+          sliceSize: 512,
+          runModel,
+          classAgnostic: true,
+        })
+      ).detections
+    ).toEqual([{ box: [0, 0, 50, 50], score: 0.9, classIndex: 0 }]);
+  });
+
+  it('reads and returns boxes in the configured format', async () => {
+    const result = await slicedDetect(source, {
+      sliceSize: 512,
+      format: 'cxcywh',
+      runModel: async (_input, slice) =>
+        sliceKey(slice) === '410,88'
+          ? [{ box: [50, 50, 20, 10], score: 1 }]
+          : [],
+    });
+
+    expect(result.format).toBe('cxcywh');
+    expect(result.detections[0]!.box).toEqual([460, 138, 20, 10]);
+  });
+
+  it('validates options before loading the image', async () => {
+    const runModel = async () => [];
+    const invalid = [
+      { sliceSize: 0, runModel },
+      { sliceSize: [512], runModel },
+      { sliceSize: 512 },
+      { sliceSize: 512, runModel, overlapPercent: 1 },
+      { sliceSize: 512, runModel, mergeMode: 'wbf' },
+      { sliceSize: 512, runModel, matchMetric: 'giou' },
+      { sliceSize: 512, runModel, matchThreshold: 2 },
+      {
+        sliceSize: 512,
+        runModel,
+        pixelOptions: { resize: { width: 640, height: 640 } },
+      },
+    ];
+    for (const options of invalid) {
+      await expect(
+        slicedDetect(source, options as never)
+      ).rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+    }
+    expect(mockedNative.getImageMetadata).not.toHaveBeenCalled();
+
+    await expect(
+      slicedDetect(source, {
+        sliceSize: 512,
+        runModel: async () => null as never,
+      })
+    ).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for stitching patch outputs back into one map
+ */
+
+import { stitchPatches } from '../index';
+import type { GridPatch, PatchOutput } from '../types';
+
+const patch = (x: number, y: number, width: number, height: number) =>
+  ({ data: [], row: 0, column: 0, x, y, width, height } as GridPatch);
+
+const filled = (
+  width: number,
+  height: number,
+  value: number,
+  channels = 1
+): PatchOutput => ({
+  data: new Array(width * height * channels).fill(value),
+  width,
+  height,
+  channels,
+});
+
+// Two 6x2 patches overlapping by 2 columns on a 10x2 image
+const grid = {
+  patches: [patch(0, 0, 6, 2), patch(4, 0, 6, 2)],
+  originalWidth: 10,
+  originalHeight: 2,
+};
+
+const row = (data: Float32Array, width: number) =>
+  Array.from(data.slice(0, width));
+
+describe('stitchPatches', () => {
+  it('reassembles identical patches without seams in every blend mode', () => {
+    for (const blend of ['average', 'linear', 'gaussian', 'max'] as const) {
+      const result = stitchPatches([filled(6, 2, 3), filled(6, 2, 3)], grid, {
+        blend,
+      });
+      expect(result).toMatchObject({
+        width: 10,
+        height: 2,
+        channels: 1,
+        layout: 'hwc',
+        scale: [1, 1],
+      });
+      for (const value of result.data) {
+        expect(value).toBeCloseTo(3, 5);
+      }
+    }
+  });
+
+  it('blends overlaps with the selected weighting', () => {
+    const outputs = [filled(6, 2, 0), filled(6, 2, 1)];
+
+    expect(
+      row(stitchPatches(outputs, grid, { blend: 'average' }).data, 10)
+    ).toEqual([0, 0, 0, 0, 0.5, 0.5, 1, 1, 1, 1]);
+
+    // Ramps: patch 0 weighs 2 and 1 at x 4-5, patch 1 weighs 1 and 2
+    const linear = row(stitchPatches(outputs, grid).data, 10);
+    expect(linear[4]).toBeCloseTo(1 / 3);
+    expect(linear[5]).toBeCloseTo(2 / 3);
+    expect(linear[3]).toBe(0);
+    expect(linear[6]).toBe(1);
+
+    const gaussian = row(
+      stitchPatches(outputs, grid, { blend: 'gaussian', sigma: 0.25 }).data,
+      10
+    );
+    expect(gaussian[4]).toBeGreaterThan(0);
+    expect(gaussian[4]).toBeLessThan(0.5);
+    expect(gaussian[5]).toBeGreaterThan(0.5);
+    expect(gaussian[9]).toBeCloseTo(1, 5);
+  });
+
+  it('keeps the highest class score per channel with max in CHW', () => {
+    // Channel 0 is higher in the first patch, channel 1 in the second
+    const first = {
+      data: [...new Array(12).fill(0.8), ...new Array(12).fill(0.1)],
+      width: 6,
+      height: 2,
+      channels: 2,
+    };
+    const second = {
+      data: [...new Array(12).fill(0.3), ...new Array(12).fill(0.6)],
+      width: 6,
+      height: 2,
+      channels: 2,
+    };
+
+    const { data } = stitchPatches([first, second], grid, {
+      blend: 'max',
+      layout: 'chw',
+    });
+    expect(data).toHaveLength(40);
+    // Overlap pixel (4, 0) in each channel plane
+    expect(data[4]).toBeCloseTo(0.8);
+    expect(data[20 + 4]).toBeCloseTo(0.6);
+    // Outside the overlap only one patch contributes
+    expect(data[20 + 0]).toBeCloseTo(0.1);
+    expect(data[9]).toBeCloseTo(0.3);
+  });
+
+  it('upscales the map for super-resolution outputs', () => {
+    const rgb = (value: number) => filled(12, 4, value, 3);
+
+    const result = stitchPatches([rgb(10), rgb(20)], grid, {
+      blend: 'average',
+    });
+    expect(result).toMatchObject({
+      width: 20,
+      height: 4,
+      channels: 3,
+      scale: [2, 2],
+    });
+    expect(result.data).toHaveLength(20 * 4 * 3);
+    // Pixel (9, 1) sits in the 4-pixel-wide overlap
+    expect(Array.from(result.data.slice((20 + 9) * 3, (20 + 10) * 3))).toEqual([
+      15, 15, 15,
+    ]);
+    expect(result.data[(20 + 19) * 3]).toBe(20);
+  });
+
+  it('leaves pixels no patch covers at 0', () => {
+    const { data } = stitchPatches(
+      [filled(4, 2, 5)],
+      { patches: [patch(0, 0, 4, 2)], originalWidth: 6, originalHeight: 2 },
+      { blend: 'max' }
+    );
+    expect(row(data, 6)).toEqual([5, 5, 5, 5, 0, 0]);
+  });
+
+  it('validates outputs and options', () => {
+    expect(() => stitchPatches([filled(6, 2, 0)], grid)).toThrow(
+      expect.objectContaining({ code: 'DIMENSION_MISMATCH' })
+    );
+    expect(() =>
+      stitchPatches(
+        [filled(6, 2, 0), { data: [1, 2, 3], width: 6, height: 2 }],
+        grid
+      )
+    ).toThrow(expect.objectContaining({ code: 'DIMENSION_MISMATCH' }));
+    expect(() =>
+      stitchPatches([filled(6, 2, 0), filled(6, 2, 0, 2)], grid)
+    ).toThrow(expect.objectContaining({ code: 'DIMENSION_MISMATCH' }));
+    expect(() =>
+      stitchPatches([filled(6, 2, 0), filled(12, 4, 0)], grid)
+    ).toThrow(expect.objectContaining({ code: 'DIMENSION_MISMATCH' }));
+
+    const outputs = [filled(6, 2, 0), filled(6, 2, 0)];
+    const invalid = [{ blend: 'median' }, { layout: 'hw' }, { sigma: 0 }];
+    for (const options of invalid) {
+      expect(() => stitchPatches(outputs, grid, options as never)).toThrow(
+        expect.objectContaining({ code: 'INVALID_OPTIONS' })
+      );
+    }
+  });
+});
@@ -90,7 +90,52 @@ NativeModules.VisionUtils = {
   overlayHeatmap: mockOverlayHeatmap,
 };
 
+/**
+ * Pack numbers as little-endian float32 base64, the way native results
+ * carry tensors (`dataBase64` with `dataType: 'float32'`)
+ */
+function packFloats(values: ArrayLike<number>): string {
+  return Buffer.from(Float32Array.from(values).buffer).toString('base64');
+}
+
+/**
+ * HWC getPixelData result for `values`, packed the way native returns it
+ */
+function packedPixelResult(
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  channels = 3
+) {
+  return {
+    dataBase64: packFloats(values),
+    dataType: 'float32' as const,
+    width,
+    height,
+    channels,
+    shape: [height, width, channels],
+    processingTimeMs: 1,
+  };
+}
+
+/**
+ * Pixel data handed to a tensorToImage mock by its last call, rounded to
+ * 3 decimals
+ */
+function lastEncodedPixels(
+  tensorToImage: Pick<jest.MockInstance<unknown, unknown[]>, 'mock'>
+): number[] {
+  const calls = tensorToImage.mock.calls;
+  return Array.from(
+    calls[calls.length - 1]![0] as ArrayLike<number>,
+    (v) => Math.round(v * 1000) / 1000
+  );
+}
+
 export {
+  packFloats,
+  packedPixelResult,
+  lastEncodedPixels,
   mockGetPixelData,
   mockBatchGetPixelData,
   mockGetImageStatistics,
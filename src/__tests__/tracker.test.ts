@@ -0,0 +1,179 @@
+/**
+ * Tests for the pure-TS multi-object tracker
+ */
+
+import { createTracker, VisionUtilsException } from '../index';
+import type { BoundingBox, Detection } from '../types';
+
+const box = (x: number, y: number, size = 20): BoundingBox => [
+  x,
+  y,
+  x + size,
+  y + size,
+];
+
+const detection = (x: number, y: number, score = 0.9): Detection => ({
+  box: box(x, y),
+  score,
+  classIndex: 0,
+  label: 'person',
+});
+
+describe('createTracker', () => {
+  it('keeps stable ids for moving objects and estimates velocity', () => {
+    const tracker = createTracker();
+
+    let tracks = tracker.update([detection(0, 0), detection(200, 100)]);
+    expect(tracks.map((t) => t.trackId)).toEqual([1, 2]);
+
+    for (let frame = 1; frame <= 20; frame++) {
+      tracks = tracker.update([
+        detection(200 - 3 * frame, 100),
+        detection(5 * frame, 0),
+      ]);
+    }
+
+    const [first, second] = [...tracks].sort((a, b) => a.trackId - b.trackId);
+    expect(first).toMatchObject({
+      trackId: 1,
+      age: 21,
+      hits: 21,
+      state: 'confirmed',
+      detectionIndex: 1,
+      label: 'person',
+    });
+    expect(first!.velocity[0]).toBeCloseTo(5, 0);
+    expect(first!.velocity[1]).toBeCloseTo(0, 1);
+    expect(second!.velocity[0]).toBeCloseTo(-3, 0);
+    expect(first!.box[0]).toBeCloseTo(100, 0);
+  });
+
+  it('smooths jittery detections', () => {
+    const tracker = createTracker();
+    for (let frame = 0; frame < 10; frame++) {
+      tracker.update([detection(100, 100)]);
+    }
+
+    const [track] = tracker.update([detection(104, 100)]);
+    expect(track!.box[0]).toBeGreaterThan(100);
+    expect(track!.box[0]).toBeLessThan(104);
+  });
+
+  it('reports new tracks after minHits once warmed up', () => {
+    const tracker = createTracker({ minHits: 2 });
+    tracker.update([detection(0, 0)]);
+    tracker.update([detection(0, 0)]);
+
+    expect(tracker.update([detection(0, 0), detection(300, 300)])).toHaveLength(
+      1
+    );
+    expect(tracker.getTracks()[1]).toMatchObject({
+      trackId: 2,
+      state: 'tentative',
+    });
+
+    const tracks = tracker.update([detection(0, 0), detection(300, 300)]);
+    expect(tracks.map((t) => t.trackId)).toEqual([1, 2]);
+  });
+
+  it('keeps lost tracks for maxAge frames and re-acquires them', () => {
+    const tracker = createTracker({ maxAge: 2 });
+    tracker.update([detection(50, 50)]);
+
+    expect(tracker.update([])).toEqual([]);
+    expect(tracker.getTracks()).toEqual([
+      expect.objectContaining({
+        trackId: 1,
+        state: 'lost',
+        timeSinceUpdate: 1,
+      }),
+    ]);
+    tracker.update([]);
+
+    expect(tracker.update([detection(50, 50)])[0]!.trackId).toBe(1);
+
+    tracker.update([]);
+    tracker.update([]);
+    tracker.update([]);
+    expect(tracker.getTracks()).toEqual([]);
+    expect(tracker.update([detection(50, 50)])).toEqual([]);
+    expect(tracker.getTracks()[0]).toMatchObject({
+      trackId: 2,
+      state: 'tentative',
+    });
+  });
+
+  it('recovers occluded objects from low-score detections with ByteTrack', () => {
+    const sort = createTracker({ type: 'sort', maxAge: 0 });
+    const byte = createTracker({ type: 'bytetrack', maxAge: 0 });
+    for (const tracker of [sort, byte]) {
+      for (let frame = 0; frame < 3; frame++) {
+        tracker.update([detection(10, 10)]);
+      }
+    }
+
+    // Occluded: the object is still detected, but below highThreshold
+    expect(byte.update([detection(11, 10, 0.3)])[0]).toMatchObject({
+      trackId: 1,
+      score: 0.3,
+    });
+
+    // A low-score detection never starts a ByteTrack track
+    expect(
+      byte.update([detection(11, 10, 0.3), detection(300, 300, 0.3)])
+    ).toHaveLength(1);
+    expect(byte.getTracks()).toHaveLength(1);
+    expect(
+      sort.update([detection(11, 10, 0.3), detection(300, 300, 0.3)])
+    ).toHaveLength(1);
+    expect(sort.getTracks()).toHaveLength(2);
+
+    // Detections under lowThreshold are ignored entirely
+    expect(byte.update([detection(11, 10, 0.05)])).toEqual([]);
+  });
+
+  it('matches only within a class when classAware', () => {
+    const tracker = createTracker({ classAware: true });
+    tracker.update([detection(0, 0)]);
+
+    const [track] = tracker.update([
+      { box: box(0, 0), score: 0.9, classIndex: 1 },
+    ]);
+    expect(track!.trackId).toBe(2);
+  });
+
+  it('reads and returns boxes in the configured format', () => {
+    const tracker = createTracker({ format: 'cxcywh' });
+
+    const [track] = tracker.update([{ box: [50, 60, 20, 10], score: 0.8 }]);
+    expect(track!.box).toEqual([50, 60, 20, 10]);
+    expect(track).not.toHaveProperty('classIndex');
+  });
+
+  it('resets ids and validates input', () => {
+    const tracker = createTracker();
+    tracker.update([detection(0, 0)]);
+    tracker.reset();
+    expect(tracker.getTracks()).toEqual([]);
+    expect(tracker.update([detection(0, 0)])[0]!.trackId).toBe(1);
+
+    expect(() =>
+      tracker.update([{ box: [0, 0, 1], score: 1 }] as never)
+    ).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }));
+    const invalid = [
+      { type: 'deepsort' },
+      { iouThreshold: 1.5 },
+      { maxAge: -1 },
+      { minHits: 0 },
+      { lowThreshold: 0.6, highThreshold: 0.5 },
+    ];
+    for (const options of invalid) {
+      expect(() => createTracker(options as never)).toThrow(
+        expect.objectContaining({ code: 'INVALID_OPTIONS' })
+      );
+    }
+    expect(() => createTracker({ format: 'yolo' as never })).toThrow(
+      VisionUtilsException
+    );
+  });
+});
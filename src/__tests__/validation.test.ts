@@ -1,5 +1,9 @@
-import { mockGetPixelData } from './jest.setup';
-import { getPixelData, VisionUtilsException } from '../index';
+import { mockGetPixelData, mockBatchGetPixelData } from './jest.setup';
+import {
+  getPixelData,
+  batchGetPixelData,
+  VisionUtilsException,
+} from '../index';
 import type { GetPixelDataOptions } from '../types';
 
 describe('Input Validation', () => {
@@ -255,5 +259,153 @@ describe('Input Validation', () => {
       });
       expect(mockGetPixelData).toHaveBeenCalled();
     });
+
+    it('should throw with INVALID_OPTIONS for a scale that is not positive', async () => {
+      for (const scale of [0, -1 / 255, NaN, Infinity]) {
+        await expect(
+          getPixelData({
+            source: { type: 'url', value: 'https://example.com/image.jpg' },
+            normalization: {
+              preset: 'custom',
+              mean: [0.5, 0.5, 0.5],
+              std: [0.5, 0.5, 0.5],
+              scale,
+            },
+          })
+        ).rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+      }
+      expect(mockGetPixelData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('preprocessing validation', () => {
+    const source = {
+      type: 'url',
+      value: 'https://example.com/image.jpg',
+    } as const;
+
+    it('should forward preprocessing to native', async () => {
+      await getPixelData({
+        source,
+        preprocessing: {
+          histogramEqualization: true,
+          clahe: { clipLimit: 2, tileSize: 8 },
+        },
+      });
+      expect(mockGetPixelData).toHaveBeenCalledWith(
+        expect.objectContaining({
+          preprocessing: {
+            histogramEqualization: true,
+            clahe: { clipLimit: 2, tileSize: 8 },
+          },
+        })
+      );
+    });
+
+    it('should throw with INVALID_PREPROCESSING for non-positive clipLimit', async () => {
+      await expect(
+        getPixelData({
+          source,
+          preprocessing: { clahe: { clipLimit: 0, tileSize: 8 } },
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_PREPROCESSING' });
+    });
+
+    it('should throw for invalid CLAHE tileSize', async () => {
+      await expect(
+        getPixelData({
+          source,
+          preprocessing: { clahe: { clipLimit: 2, tileSize: 2.5 } },
+        })
+      ).rejects.toThrow(/tileSize/);
+    });
+  });
+
+  describe('filters validation', () => {
+    const source = {
+      type: 'url',
+      value: 'https://example.com/image.jpg',
+    } as const;
+
+    it('should forward filters to native', async () => {
+      await getPixelData({
+        source,
+        filters: {
+          sharpen: 0.5,
+          denoise: { strength: 0.3, type: 'bilateral' },
+          medianFilter: 3,
+        },
+      });
+      expect(mockGetPixelData).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filters: {
+            sharpen: 0.5,
+            denoise: { strength: 0.3, type: 'bilateral' },
+            medianFilter: 3,
+          },
+        })
+      );
+    });
+
+    it('should throw with INVALID_FILTERS for out-of-range sharpen', async () => {
+      await expect(
+        getPixelData({ source, filters: { sharpen: 1.5 } })
+      ).rejects.toMatchObject({ code: 'INVALID_FILTERS' });
+    });
+
+    it('should throw for unknown denoise type', async () => {
+      await expect(
+        getPixelData({
+          source,
+          filters: { denoise: { strength: 0.5, type: 'wavelet' as 'nlm' } },
+        })
+      ).rejects.toThrow(/denoise type/);
+    });
+
+    it('should throw for even median kernel size', async () => {
+      await expect(
+        getPixelData({ source, filters: { medianFilter: 4 } })
+      ).rejects.toThrow(/odd integer/);
+    });
+
+    it('should throw for median kernel sizes above 15', async () => {
+      await expect(
+        getPixelData({ source, filters: { medianFilter: 17 } })
+      ).rejects.toMatchObject({ code: 'INVALID_FILTERS' });
+      await expect(
+        getPixelData({ source, filters: { medianFilter: 15 } })
+      ).resolves.toBeDefined();
+    });
+
+    it('should forward preprocessing and filters in batch requests', async () => {
+      mockBatchGetPixelData.mockResolvedValue({ results: [], totalTimeMs: 1 });
+
+      await batchGetPixelData([
+        {
+          source,
+          preprocessing: { clahe: { clipLimit: 3, tileSize: 4 } },
+          filters: { medianFilter: 5 },
+        },
+      ]);
+
+      expect(mockBatchGetPixelData).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            preprocessing: { clahe: { clipLimit: 3, tileSize: 4 } },
+            filters: { medianFilter: 5 },
+          }),
+        ],
+        expect.anything()
+      );
+    });
+
+    it('should report the failing index in batch validation', async () => {
+      await expect(
+        batchGetPixelData([
+          { source },
+          { source, filters: { medianFilter: 2 } },
+        ])
+      ).rejects.toThrow(/\[Index 1\]/);
+    });
   });
 });
@@ -0,0 +1,239 @@
+/**
+ * Tests for YOLO output decoding
+ */
+
+import { decodeYoloOutput, VisionUtilsException } from '../index';
+
+/**
+ * Build a candidates-first tensor from rows of attributes
+ */
+function candidatesFirst(rows: number[][]): number[] {
+  return rows.flat();
+}
+
+/**
+ * Build an attributes-first tensor from rows of attributes
+ */
+function attributesFirst(rows: number[][]): number[] {
+  const numAttributes = rows[0]!.length;
+  const out: number[] = [];
+  for (let a = 0; a < numAttributes; a++) {
+    for (const row of rows) {
+      out.push(row[a]!);
+    }
+  }
+  return out;
+}
+
+describe('decodeYoloOutput', () => {
+  describe('YOLOv8 heads', () => {
+    // [cx, cy, w, h, cls0, cls1]
+    const rows = [
+      [100, 100, 50, 50, 0.9, 0.1],
+      [200, 200, 20, 40, 0.2, 0.6],
+      [300, 300, 10, 10, 0.05, 0.1],
+    ];
+
+    it('decodes attributes-first output', () => {
+      const result = decodeYoloOutput(attributesFirst(rows), [1, 6, 3], {
+        version: 'v8',
+        layout: 'attributes-first',
+        scoreThreshold: 0.25,
+      });
+
+      expect(result.version).toBe('v8');
+      expect(result.numClasses).toBe(2);
+      expect(result.candidateCount).toBe(3);
+      expect(result.detections).toHaveLength(2);
+      expect(result.detections[0]).toEqual({
+        box: [75, 75, 125, 125],
+        score: 0.9,
+        classIndex: 0,
+      });
+      expect(result.detections[1]!.classIndex).toBe(1);
+      expect(result.detections[1]!.box).toEqual([190, 180, 210, 220]);
+    });
+
+    it('decodes transposed (candidates-first) output', () => {
+      const result = decodeYoloOutput(candidatesFirst(rows), [1, 3, 6], {
+        version: 'v8',
+        layout: 'candidates-first',
+      });
+
+      expect(result.detections).toHaveLength(2);
+      expect(result.detections[0]!.box).toEqual([75, 75, 125, 125]);
+    });
+
+    it('infers v8 from the yolov8 preset', () => {
+      const result = decodeYoloOutput(attributesFirst(rows), [6, 3], {
+        modelPreset: 'yolov8',
+        layout: 'attributes-first',
+      });
+      expect(result.version).toBe('v8');
+    });
+
+    it('returns boxes in the requested format', () => {
+      const cxcywh = decodeYoloOutput(attributesFirst(rows), [1, 6, 3], {
+        layout: 'attributes-first',
+        outputFormat: 'cxcywh',
+      });
+      expect(cxcywh.format).toBe('cxcywh');
+      expect(cxcywh.detections[0]!.box).toEqual([100, 100, 50, 50]);
+
+      const xywh = decodeYoloOutput(attributesFirst(rows), [1, 6, 3], {
+        layout: 'attributes-first',
+        outputFormat: 'xywh',
+      });
+      expect(xywh.detections[0]!.box).toEqual([75, 75, 50, 50]);
+    });
+  });
+
+  describe('YOLOv5 heads', () => {
+    // [cx, cy, w, h, obj, cls0, cls1]
+    const rows = [
+      [100, 100, 50, 50, 0.9, 0.8, 0.1],
+      [200, 200, 20, 20, 0.1, 0.9, 0.1],
+      [300, 300, 10, 10, 0.5, 0.2, 0.4],
+    ];
+
+    it('multiplies objectness into the class score', () => {
+      const result = decodeYoloOutput(candidatesFirst(rows), [1, 3, 7], {
+        version: 'v5',
+        layout: 'candidates-first',
+        scoreThreshold: 0.15,
+      });
+
+      expect(result.version).toBe('v5');
+      expect(result.numClasses).toBe(2);
+      expect(result.detections).toHaveLength(2);
+      expect(result.detections[0]!.score).toBeCloseTo(0.72);
+      expect(result.detections[1]!.score).toBeCloseTo(0.2);
+      expect(result.detections[1]!.classIndex).toBe(1);
+    });
+
+    it('infers v5 from numClasses', () => {
+      const result = decodeYoloOutput(candidatesFirst(rows), [1, 3, 7], {
+        layout: 'candidates-first',
+        numClasses: 2,
+      });
+      expect(result.version).toBe('v5');
+    });
+
+    it('scales normalized coordinates to the input size', () => {
+      const result = decodeYoloOutput([0.5, 0.5, 0.25, 0.25, 1, 1], [1, 1, 6], {
+        version: 'v5',
+        layout: 'candidates-first',
+        normalizedCoordinates: true,
+        inputWidth: 320,
+        inputHeight: 640,
+      });
+      expect(result.detections[0]!.box).toEqual([120, 240, 200, 400]);
+    });
+  });
+
+  it('infers layout and version from the tensor shape', () => {
+    const rows = Array.from({ length: 8 }, (_, i) => [
+      i * 10,
+      i * 10,
+      4,
+      4,
+      0.5,
+      0.9,
+    ]);
+
+    const v8 = decodeYoloOutput(attributesFirst(rows), [1, 6, 8]);
+    expect(v8.version).toBe('v8');
+    expect(v8.numClasses).toBe(2);
+    expect(v8.detections).toHaveLength(8);
+
+    const v5 = decodeYoloOutput(candidatesFirst(rows), [1, 8, 6], {
+      numClasses: 1,
+    });
+    expect(v5.version).toBe('v5');
+    expect(v5.numClasses).toBe(1);
+    expect(v5.detections[0]!.score).toBeCloseTo(0.45);
+
+    const transposedV8 = decodeYoloOutput(candidatesFirst(rows), [1, 8, 6], {
+      numClasses: 2,
+    });
+    expect(transposedV8.version).toBe('v8');
+  });
+
+  it('requires a version hint for candidates-first tensors', () => {
+    // [cx, cy, w, h, a, b] is a v5 head with 1 class or a v8 head with 2
+    const rows = Array.from({ length: 8 }, () => [10, 10, 2, 2, 0.5, 0.9]);
+    expect(() => decodeYoloOutput(candidatesFirst(rows), [1, 8, 6])).toThrow(
+      expect.objectContaining({ code: 'INVALID_OPTIONS' })
+    );
+    expect(
+      decodeYoloOutput(candidatesFirst(rows), [1, 8, 6], {
+        modelPreset: 'yolov8',
+      }).version
+    ).toBe('v8');
+  });
+
+  it('limits the number of candidates', () => {
+    const rows = [
+      [10, 10, 2, 2, 0.5],
+      [20, 20, 2, 2, 0.9],
+      [30, 30, 2, 2, 0.7],
+    ];
+    const result = decodeYoloOutput(attributesFirst(rows), [5, 3], {
+      version: 'v8',
+      layout: 'attributes-first',
+      maxCandidates: 2,
+    });
+    expect(result.detections.map((d) => d.score)).toEqual([0.9, 0.7]);
+  });
+
+  it('decodes the requested batch index', () => {
+    const first = attributesFirst([[10, 10, 2, 2, 0.9]]);
+    const second = attributesFirst([[50, 50, 2, 2, 0.8]]);
+    const result = decodeYoloOutput([...first, ...second], [2, 5, 1], {
+      version: 'v8',
+      layout: 'attributes-first',
+      batchIndex: 1,
+    });
+    expect(result.detections[0]!.box).toEqual([49, 49, 51, 51]);
+  });
+
+  describe('validation', () => {
+    it('throws on empty tensor', () => {
+      expect(() => decodeYoloOutput([], [1, 84, 0])).toThrow(
+        VisionUtilsException
+      );
+    });
+
+    it('throws when length does not match shape', () => {
+      expect(() => decodeYoloOutput([1, 2, 3], [1, 84, 8400])).toThrow(
+        /does not match shape/
+      );
+    });
+
+    it('throws when attributes do not match numClasses', () => {
+      expect(() =>
+        decodeYoloOutput(new Array(84 * 2).fill(0), [1, 84, 2], {
+          numClasses: 10,
+        })
+      ).toThrow(/Attribute dimension/);
+    });
+
+    it('throws on out-of-range batch index', () => {
+      expect(() =>
+        decodeYoloOutput([0, 0, 0, 0, 1], [1, 5, 1], {
+          layout: 'attributes-first',
+          batchIndex: 1,
+        })
+      ).toThrow(/batchIndex/);
+    });
+
+    it('throws on a non-integer batch index', () => {
+      expect(() =>
+        decodeYoloOutput([0, 0, 0, 0, 1, 0, 0, 0, 0, 1], [2, 5, 1], {
+          layout: 'attributes-first',
+          batchIndex: 0.5,
+        })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_OPTIONS' }));
+    });
+  });
+});
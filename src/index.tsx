@@ -20,7 +20,12 @@ import {
   type OutputFormat,
   type Normalization,
   type ResizeOptions,
+  type PreprocessingOptions,
+  type FilterOptions,
   type ImageSource,
+  type Roi,
+  type PixelBufferFormat,
+  type PixelsSource,
   type ImageStatistics,
   type ImageMetadata,
   type ImageValidationOptions,
@@ -32,7 +37,15 @@ import {
   type MultiCropResult,
   type ExtractPatchOptions,
   type ModelPreset,
+  type BuiltInModelPreset,
+  type ModelPresetConfig,
+  type ModelDecoder,
   type AugmentationOptions,
+  type AugmentationOutput,
+  type AugmentationResult,
+  type AugmentationAnnotations,
+  type TransformedAnnotations,
+  type AnnotationMask,
   type QuantizeOptions,
   type QuantizeResult,
   type DequantizeOptions,
@@ -44,8 +57,14 @@ import {
   type LabelDataset,
   type LabelInfo,
   type GetTopLabelsOptions,
+  type LabelActivation,
   type TopLabelResult,
   type DatasetInfo,
+  type BuiltInLabelDataset,
+  type LabelEntry,
+  type CocoCategory,
+  type LabelDatasetSource,
+  type RegisterLabelDatasetOptions,
   type CameraFrameSource,
   type CameraFrameOptions,
   type CameraFrameResult,
@@ -61,11 +80,13 @@ import {
   type ClipBoxesResult,
   type IoUResult,
   type Detection,
+  type NMSMode,
   type NMSOptions,
   type NMSResult,
   // Letterbox Types
   type LetterboxOptions,
   type LetterboxResult,
+  type LetterboxInfo,
   type ReverseLetterboxOptions,
   type ReverseLetterboxResult,
   // Drawing Types
@@ -102,6 +123,106 @@ import {
   // Cutout Types
   type CutoutOptions,
   type CutoutResult,
+  type CutoutFillMode,
+  type CutoutRegion,
+  // YOLO Output Decoding Types
+  type YoloDecodeOptions,
+  type YoloDecodeResult,
+  // Detection Pipeline Types
+  type DetectionModelOutput,
+  type DetectionPipeline,
+  type DetectionPipelineOptions,
+  type DetectionPipelineResult,
+  // Edge Detection Types
+  type EdgeDetectionOptions,
+  type EdgeDetectionResult,
+  // Padding Types
+  type PaddingMode,
+  type PaddingOptions,
+  type PadTensorResult,
+  type PadImageResult,
+  // Segmentation Decoding Types
+  type SegmentationDecodeOptions,
+  type SegmentationResult,
+  type SegmentationClassArea,
+  // Instance Segmentation Types
+  type InstanceMaskOptions,
+  type InstanceMask,
+  type InstanceMaskResult,
+  type OverlayInstanceMasksOptions,
+  // Pose Estimation Types
+  type SkeletonConnection,
+  type PoseDecodeOptions,
+  type PoseDecodeResult,
+  type PoseDetection,
+  // Hugging Face Preprocessor Types
+  type HFPreprocessorConfig,
+  type HFPreprocessorImportResult,
+  type HFSize,
+  // Object Tracking Types
+  type Track,
+  type Tracker,
+  type TrackerOptions,
+  type TrackerType,
+  type TrackState,
+  // Keypoint Smoothing Types
+  type KeypointSmoother,
+  type KeypointSmootherOptions,
+  type TimestampUnit,
+  // Sliced Inference Types
+  type SliceRegion,
+  type SliceMergeMode,
+  type SliceMatchMetric,
+  type SlicedDetectOptions,
+  type SlicedDetectResult,
+  // Patch Stitching Types
+  type PatchOutput,
+  type StitchBlendMode,
+  type StitchPatchesOptions,
+  type StitchPatchesResult,
+  // Augmentation Pipeline Types
+  type AugmentationStepType,
+  type AugmentationStepBase,
+  type AugmentationStep,
+  type FlipStep,
+  type RotateStep,
+  type ColorJitterStep,
+  type CutoutStep,
+  type OneOfStep,
+  type ComposeOptions,
+  type AlbumentationsTransform,
+  type AugmentationPipelineConfig,
+  type AppliedAugmentation,
+  type AugmentationPipeline,
+  type AugmentationPipelineResult,
+  // Multi-Image Augmentation Types
+  type MixLabel,
+  type MultiImageAugmentationOptions,
+  type MixupOptions,
+  type MixupResult,
+  type CutMixOptions,
+  type CutMixResult,
+  type MosaicOptions,
+  type MosaicTile,
+  type MosaicResult,
+  // Augmentation Policy Types
+  type AugmentationPolicyName,
+  type AutoAugmentPolicy,
+  type PolicyOp,
+  type AugmentationPolicyOptions,
+  type RandAugmentOptions,
+  type TrivialAugmentOptions,
+  type AppliedPolicyOp,
+  type AugmentationPolicySample,
+  type AugmentationPolicy,
+  // Geometric Transform Types
+  type Quad,
+  type GeometricTransformOptions,
+  type AffineTransformOptions,
+  type PerspectiveTransformOptions,
+  type RandomResizedCropOptions,
+  type GeometricTransformResult,
+  type RandomResizedCropResult,
 } from './types';
 
 // Re-export all types
@@ -118,77 +239,87 @@ const DEFAULT_NORMALIZATION: Normalization = { preset: 'scale' };
 const DEFAULT_RESIZE_STRATEGY = 'cover' as const;
 const DEFAULT_PAD_COLOR: [number, number, number, number] = [0, 0, 0, 255];
 const DEFAULT_LETTERBOX_COLOR: [number, number, number] = [114, 114, 114];
+const DEFAULT_LETTERBOX_STRIDE = 32;
 const DEFAULT_BATCH_CONCURRENCY = 4;
 
 // =============================================================================
 // Model Preset Configurations
 // =============================================================================
 
-interface ModelPresetConfig {
-  resize: {
-    width: number;
-    height: number;
-    strategy: 'cover' | 'contain' | 'stretch' | 'letterbox';
-  };
-  normalization: Normalization;
-  colorFormat: ColorFormat;
-  dataLayout: DataLayout;
-}
-
-const MODEL_PRESETS: Record<ModelPreset, ModelPresetConfig> = {
+const MODEL_PRESETS: Record<BuiltInModelPreset, ModelPresetConfig> = {
   yolo: {
     resize: { width: 640, height: 640, strategy: 'letterbox' },
     normalization: { preset: 'scale' },
     colorFormat: 'rgb',
     dataLayout: 'nchw',
+    labels: 'coco',
+    boxFormat: 'xyxy',
+    decoder: 'yolov5',
   },
   yolov8: {
     resize: { width: 640, height: 640, strategy: 'letterbox' },
     normalization: { preset: 'scale' },
     colorFormat: 'rgb',
     dataLayout: 'nchw',
+    labels: 'coco',
+    boxFormat: 'xyxy',
+    decoder: 'yolov8',
   },
   mobilenet: {
     resize: { width: 224, height: 224, strategy: 'cover' },
     normalization: { preset: 'imagenet' },
     colorFormat: 'rgb',
     dataLayout: 'nhwc',
+    labels: 'imagenet',
+    decoder: 'classification',
   },
   mobilenet_v2: {
     resize: { width: 224, height: 224, strategy: 'cover' },
     normalization: { preset: 'imagenet' },
     colorFormat: 'rgb',
     dataLayout: 'nhwc',
+    labels: 'imagenet',
+    decoder: 'classification',
   },
   mobilenet_v3: {
     resize: { width: 224, height: 224, strategy: 'cover' },
     normalization: { preset: 'imagenet' },
     colorFormat: 'rgb',
     dataLayout: 'nhwc',
+    labels: 'imagenet',
+    decoder: 'classification',
   },
   efficientnet: {
     resize: { width: 224, height: 224, strategy: 'cover' },
     normalization: { preset: 'imagenet' },
     colorFormat: 'rgb',
     dataLayout: 'nhwc',
+    labels: 'imagenet',
+    decoder: 'classification',
   },
   resnet: {
     resize: { width: 224, height: 224, strategy: 'cover' },
     normalization: { preset: 'imagenet' },
     colorFormat: 'rgb',
     dataLayout: 'nchw',
+    labels: 'imagenet',
+    decoder: 'classification',
   },
   resnet50: {
     resize: { width: 224, height: 224, strategy: 'cover' },
     normalization: { preset: 'imagenet' },
     colorFormat: 'rgb',
     dataLayout: 'nchw',
+    labels: 'imagenet',
+    decoder: 'classification',
   },
   vit: {
     resize: { width: 224, height: 224, strategy: 'cover' },
     normalization: { preset: 'imagenet' },
     colorFormat: 'rgb',
     dataLayout: 'nchw',
+    labels: 'imagenet',
+    decoder: 'classification',
   },
   clip: {
     resize: { width: 224, height: 224, strategy: 'cover' },
@@ -218,13 +349,42 @@ const MODEL_PRESETS: Record<ModelPreset, ModelPresetConfig> = {
     normalization: { preset: 'imagenet' },
     colorFormat: 'rgb',
     dataLayout: 'nchw',
+    labels: 'coco91',
+    boxFormat: 'cxcywh',
   },
 };
 
+/** Presets added at runtime with registerModelPreset */
+const customModelPresets = new Map<string, ModelPresetConfig>();
+
+/**
+ * Looks up a built-in or registered model preset
+ */
+function resolveModelPreset(name: ModelPreset): ModelPresetConfig | undefined {
+  if (Object.prototype.hasOwnProperty.call(MODEL_PRESETS, name)) {
+    return MODEL_PRESETS[name as BuiltInModelPreset];
+  }
+  return customModelPresets.get(name);
+}
+
 // =============================================================================
 // Validation
 // =============================================================================
 
+const VALID_COLOR_FORMATS: ColorFormat[] = [
+  'rgb',
+  'rgba',
+  'bgr',
+  'bgra',
+  'grayscale',
+  'hsv',
+  'hsl',
+  'lab',
+  'yuv',
+  'ycbcr',
+];
+const VALID_DATA_LAYOUTS: DataLayout[] = ['hwc', 'chw', 'nhwc', 'nchw'];
+
 /**
  * Validates the source configuration
  */
@@ -237,7 +397,15 @@ function validateSource(source: GetPixelDataOptions['source']): void {
     throw new VisionUtilsException('INVALID_SOURCE', 'Source type is required');
   }
 
-  const validTypes = ['url', 'file', 'base64', 'asset', 'photoLibrary'];
+  const validTypes = [
+    'url',
+    'file',
+    'base64',
+    'asset',
+    'photoLibrary',
+    'bytes',
+    'pixels',
+  ];
   if (!validTypes.includes(source.type)) {
     throw new VisionUtilsException(
       'INVALID_SOURCE',
@@ -247,6 +415,11 @@ function validateSource(source: GetPixelDataOptions['source']): void {
     );
   }
 
+  if (source.type === 'pixels') {
+    validatePixelsSource(source);
+    return;
+  }
+
   if (source.value === undefined || source.value === null) {
     throw new VisionUtilsException(
       'INVALID_SOURCE',
@@ -264,6 +437,142 @@ function validateSource(source: GetPixelDataOptions['source']): void {
       );
     }
   }
+
+  if (source.type === 'bytes') {
+    if (!isByteBuffer(source.value) || source.value.byteLength === 0) {
+      throw new VisionUtilsException(
+        'INVALID_SOURCE',
+        'Bytes source value must be a non-empty ArrayBuffer or Uint8Array'
+      );
+    }
+  }
+}
+
+const PIXEL_BUFFER_CHANNELS: Record<PixelBufferFormat, number> = {
+  rgba: 4,
+  rgb: 3,
+  bgra: 4,
+  bgr: 3,
+  grayscale: 1,
+};
+
+/**
+ * Validates a raw pixel buffer source against its declared size and format
+ */
+function validatePixelsSource(source: PixelsSource): void {
+  const { width, height, format, data } = source;
+
+  if (
+    !Number.isInteger(width) ||
+    !Number.isInteger(height) ||
+    width <= 0 ||
+    height <= 0
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_SOURCE',
+      'Pixels source width and height must be positive integers'
+    );
+  }
+
+  const channels = PIXEL_BUFFER_CHANNELS[format];
+  if (!channels) {
+    throw new VisionUtilsException(
+      'INVALID_SOURCE',
+      `Invalid pixels source format: ${format}. Must be one of: ${Object.keys(
+        PIXEL_BUFFER_CHANNELS
+      ).join(', ')}`
+    );
+  }
+
+  if (!isByteBuffer(data)) {
+    throw new VisionUtilsException(
+      'INVALID_SOURCE',
+      'Pixels source data must be an ArrayBuffer, Uint8Array or Uint8ClampedArray'
+    );
+  }
+
+  const expected = width * height * channels;
+  if (data.byteLength !== expected) {
+    throw new VisionUtilsException(
+      'DIMENSION_MISMATCH',
+      `Pixels source data has ${data.byteLength} bytes, expected ${expected} for ${width}x${height} ${format}`
+    );
+  }
+}
+
+function isByteBuffer(
+  value: unknown
+): value is ArrayBuffer | Uint8Array | Uint8ClampedArray {
+  return (
+    value instanceof ArrayBuffer ||
+    value instanceof Uint8Array ||
+    value instanceof Uint8ClampedArray
+  );
+}
+
+/** JSI global that copies JS bytes into native memory and returns their id */
+type PutNativeBuffer = (
+  buffer: ArrayBuffer,
+  byteOffset: number,
+  byteLength: number
+) => number;
+
+/**
+ * Hand in-memory bytes to native code
+ *
+ * With the JSI bindings installed, the bytes are copied once into native
+ * memory and only their `bufferId` crosses the bridge. Otherwise (e.g. a
+ * remote debugger) they are packed into a base64 `value`.
+ */
+function toNativeBytes(
+  data: ArrayBuffer | Uint8Array | Uint8ClampedArray
+): { bufferId: number } | { value: string } {
+  const put = (globalThis as { __visionUtilsPutBuffer?: PutNativeBuffer })
+    .__visionUtilsPutBuffer;
+  if (typeof put !== 'function') {
+    return { value: bytesToBase64(data) };
+  }
+  if (data instanceof ArrayBuffer) {
+    return { bufferId: put(data, 0, data.byteLength) };
+  }
+  return {
+    bufferId: put(data.buffer as ArrayBuffer, data.byteOffset, data.byteLength),
+  };
+}
+
+/**
+ * Converts a source to the form the native module reads
+ *
+ * In-memory buffers cannot cross the bridge as-is, so `bytes` and `pixels`
+ * sources are handed over as a native buffer id (see `toNativeBytes`). The
+ * native side takes that buffer once, then decodes bytes as an encoded image
+ * and wraps pixels directly, without an image codec round-trip. Other
+ * sources pass through unchanged.
+ *
+ * A serialized buffer source can only be read by one native call.
+ */
+function serializeSource(source: ImageSource): Object {
+  switch (source.type) {
+    case 'bytes':
+      return { type: 'bytes', ...toNativeBytes(source.value) };
+    case 'pixels':
+      return {
+        type: 'pixels',
+        ...toNativeBytes(source.data),
+        width: source.width,
+        height: source.height,
+        format: source.format,
+      };
+    default:
+      return source;
+  }
+}
+
+/**
+ * Prepared getPixelData options with the source serialized for native
+ */
+function toNativeOptions(prepared: PreparedOptions): Object {
+  return { ...prepared, source: serializeSource(prepared.source) };
 }
 
 /**
@@ -329,6 +638,101 @@ function validateNormalization(normalization?: Normalization): void {
       );
     }
   }
+
+  if (
+    normalization.scale !== undefined &&
+    !(Number.isFinite(normalization.scale) && normalization.scale > 0)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'Normalization scale must be a finite number greater than 0'
+    );
+  }
+}
+
+/**
+ * Validates preprocessing options if provided
+ */
+function validatePreprocessing(preprocessing?: PreprocessingOptions): void {
+  if (!preprocessing) return;
+
+  if (
+    preprocessing.histogramEqualization !== undefined &&
+    typeof preprocessing.histogramEqualization !== 'boolean'
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_PREPROCESSING',
+      'histogramEqualization must be a boolean'
+    );
+  }
+
+  if (preprocessing.clahe) {
+    const { clipLimit, tileSize } = preprocessing.clahe;
+    if (typeof clipLimit !== 'number' || clipLimit <= 0) {
+      throw new VisionUtilsException(
+        'INVALID_PREPROCESSING',
+        'CLAHE clipLimit must be a positive number'
+      );
+    }
+    if (!Number.isInteger(tileSize) || tileSize < 1 || tileSize > 64) {
+      throw new VisionUtilsException(
+        'INVALID_PREPROCESSING',
+        'CLAHE tileSize must be an integer between 1 and 64'
+      );
+    }
+  }
+}
+
+/**
+ * Validates filter options if provided
+ */
+function validateFilters(filters?: FilterOptions): void {
+  if (!filters) return;
+
+  if (filters.sharpen !== undefined) {
+    if (
+      typeof filters.sharpen !== 'number' ||
+      filters.sharpen < 0 ||
+      filters.sharpen > 1
+    ) {
+      throw new VisionUtilsException(
+        'INVALID_FILTERS',
+        'Sharpen must be a number between 0 and 1'
+      );
+    }
+  }
+
+  if (filters.denoise) {
+    const validTypes = ['bilateral', 'nlm'];
+    if (!validTypes.includes(filters.denoise.type)) {
+      throw new VisionUtilsException(
+        'INVALID_FILTERS',
+        `Invalid denoise type: ${
+          filters.denoise.type
+        }. Must be one of: ${validTypes.join(', ')}`
+      );
+    }
+    if (
+      typeof filters.denoise.strength !== 'number' ||
+      filters.denoise.strength < 0 ||
+      filters.denoise.strength > 1
+    ) {
+      throw new VisionUtilsException(
+        'INVALID_FILTERS',
+        'Denoise strength must be a number between 0 and 1'
+      );
+    }
+  }
+
+  if (filters.medianFilter !== undefined) {
+    const size = filters.medianFilter;
+    if (!Number.isInteger(size) || size < 3 || size > 15 || size % 2 === 0) {
+      throw new VisionUtilsException(
+        'INVALID_FILTERS',
+        'Median filter kernel size must be an odd integer from 3 to 15'
+      );
+    }
+  }
 }
 
 /**
@@ -338,42 +742,43 @@ function validateOptions(options: GetPixelDataOptions): void {
   validateSource(options.source);
   validateResize(options.resize);
   validateNormalization(options.normalization);
+  validatePreprocessing(options.preprocessing);
+  validateFilters(options.filters);
 
   if (options.colorFormat) {
-    const validFormats = [
-      'rgb',
-      'rgba',
-      'bgr',
-      'bgra',
-      'grayscale',
-      'hsv',
-      'hsl',
-      'lab',
-      'yuv',
-      'ycbcr',
-    ];
-    if (!validFormats.includes(options.colorFormat)) {
+    if (!VALID_COLOR_FORMATS.includes(options.colorFormat)) {
       throw new VisionUtilsException(
         'INVALID_SOURCE',
         `Invalid color format: ${
           options.colorFormat
-        }. Must be one of: ${validFormats.join(', ')}`
+        }. Must be one of: ${VALID_COLOR_FORMATS.join(', ')}`
       );
     }
   }
 
   if (options.dataLayout) {
-    const validLayouts = ['hwc', 'chw', 'nhwc', 'nchw'];
-    if (!validLayouts.includes(options.dataLayout)) {
+    if (!VALID_DATA_LAYOUTS.includes(options.dataLayout)) {
       throw new VisionUtilsException(
         'INVALID_SOURCE',
         `Invalid data layout: ${
           options.dataLayout
-        }. Must be one of: ${validLayouts.join(', ')}`
+        }. Must be one of: ${VALID_DATA_LAYOUTS.join(', ')}`
       );
     }
   }
 
+  if (
+    options.modelPreset !== undefined &&
+    !resolveModelPreset(options.modelPreset)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Unknown model preset: ${
+        options.modelPreset
+      }. Must be one of: ${listModelPresets().join(', ')}`
+    );
+  }
+
   if (options.outputFormat) {
     const validOutputFormats = [
       'array',
@@ -499,7 +904,7 @@ function validateAugmentation(augmentation: AugmentationOptions): void {
 function applyModelPreset(options: GetPixelDataOptions): GetPixelDataOptions {
   if (!options.modelPreset) return options;
 
-  const preset = MODEL_PRESETS[options.modelPreset];
+  const preset = resolveModelPreset(options.modelPreset);
   if (!preset) return options;
 
   return {
@@ -543,6 +948,14 @@ function prepareOptions(options: GetPixelDataOptions): PreparedOptions {
     prepared.roi = presetApplied.roi;
   }
 
+  if (presetApplied.preprocessing) {
+    prepared.preprocessing = presetApplied.preprocessing;
+  }
+
+  if (presetApplied.filters) {
+    prepared.filters = presetApplied.filters;
+  }
+
   if (presetApplied.cache) {
     prepared.cache = presetApplied.cache;
   }
@@ -554,6 +967,223 @@ function prepareOptions(options: GetPixelDataOptions): PreparedOptions {
 // Output Conversion
 // =============================================================================
 
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = new Uint8Array(128);
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET.charCodeAt(i)] = i;
+}
+
+/**
+ * Decode a base64 string straight into a new ArrayBuffer
+ */
+function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  let length = base64.length;
+  while (length > 0 && base64.charCodeAt(length - 1) === 61 /* '=' */) {
+    length--;
+  }
+
+  // Every 4 characters carry 3 bytes (6 bits each)
+  const bytes = new Uint8Array(Math.floor((length * 3) / 4));
+  let j = 0;
+  for (let i = 0; i < length; i += 4) {
+    const a = BASE64_LOOKUP[base64.charCodeAt(i)]!;
+    const b = BASE64_LOOKUP[base64.charCodeAt(i + 1)]!;
+    const c = i + 2 < length ? BASE64_LOOKUP[base64.charCodeAt(i + 2)]! : 0;
+    const d = i + 3 < length ? BASE64_LOOKUP[base64.charCodeAt(i + 3)]! : 0;
+    // Integer division as (x - x % n) / n keeps global lookups out of the loop
+    bytes[j++] = a * 4 + (b - (b % 16)) / 16;
+    if (j < bytes.length) bytes[j++] = (b % 16) * 16 + (c - (c % 4)) / 4;
+    if (j < bytes.length) bytes[j++] = (c % 4) * 64 + d;
+  }
+  return bytes.buffer;
+}
+
+/** Bytes encoded per chunk: a multiple of 3, so only the last chunk pads */
+const BASE64_CHUNK_BYTES = 3 * 4096;
+const BASE64_PAD = 61; // '='
+
+/**
+ * Encode raw bytes as a base64 string
+ *
+ * Each chunk is built as character codes and turned into one string, and
+ * the chunks are joined once, instead of appending per character.
+ */
+function bytesToBase64(
+  buffer: ArrayBuffer | Uint8Array | Uint8ClampedArray
+): string {
+  const bytes =
+    buffer instanceof ArrayBuffer
+      ? new Uint8Array(buffer)
+      : new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const length = bytes.length;
+  const chunks: string[] = [];
+
+  for (let start = 0; start < length; start += BASE64_CHUNK_BYTES) {
+    const end = Math.min(start + BASE64_CHUNK_BYTES, length);
+    const codes = new Uint8Array(Math.ceil((end - start) / 3) * 4);
+    let j = 0;
+    for (let i = start; i < end; i += 3) {
+      const a = bytes[i]!;
+      const b = i + 1 < length ? bytes[i + 1]! : 0;
+      const c = i + 2 < length ? bytes[i + 2]! : 0;
+      codes[j++] = BASE64_ALPHABET.charCodeAt((a - (a % 4)) / 4);
+      codes[j++] = BASE64_ALPHABET.charCodeAt(
+        (a % 4) * 16 + (b - (b % 16)) / 16
+      );
+      codes[j++] =
+        i + 1 < length
+          ? BASE64_ALPHABET.charCodeAt((b % 16) * 4 + (c - (c % 64)) / 64)
+          : BASE64_PAD;
+      codes[j++] =
+        i + 2 < length ? BASE64_ALPHABET.charCodeAt(c % 64) : BASE64_PAD;
+    }
+    chunks.push(String.fromCharCode(...codes));
+  }
+  return chunks.join('');
+}
+
+/** JSI global that turns a native buffer id into an ArrayBuffer over its memory */
+type TakeNativeBuffer = (id: number) => ArrayBuffer;
+
+/**
+ * Install the JSI buffer bindings once, when the module loads
+ *
+ * Native only returns buffer ids after this succeeds; otherwise (or where
+ * the module is mocked) results keep arriving as packed base64.
+ */
+function installBufferTransport(): void {
+  try {
+    if (typeof VisionUtils.install === 'function') {
+      VisionUtils.install();
+    }
+  } catch {
+    // Keep the base64 fallback
+  }
+}
+
+installBufferTransport();
+
+/**
+ * Take a native buffer by id: the ArrayBuffer views native memory directly
+ */
+function takeNativeBuffer(id: number): ArrayBuffer {
+  const take = (globalThis as { __visionUtilsTakeBuffer?: TakeNativeBuffer })
+    .__visionUtilsTakeBuffer;
+  if (typeof take !== 'function') {
+    throw new VisionUtilsException(
+      'PROCESSING_ERROR',
+      'Native returned a buffer id, but the JSI buffer bindings are not installed'
+    );
+  }
+  return take(id);
+}
+
+/**
+ * View native bytes as the typed array of `dataType` (no copy)
+ */
+function viewNativeBytes(
+  buffer: ArrayBuffer,
+  dataType: string
+): Float32Array | Uint8Array | Int8Array | Int16Array {
+  switch (dataType) {
+    case 'float32':
+      return new Float32Array(buffer);
+    case 'uint8':
+      return new Uint8Array(buffer);
+    case 'int8':
+      return new Int8Array(buffer);
+    case 'int16':
+      return new Int16Array(buffer);
+    default:
+      throw new VisionUtilsException(
+        'INVALID_INPUT',
+        `Unsupported native data type: ${dataType}`
+      );
+  }
+}
+
+/**
+ * Read a native tensor as a typed array of `dataType`
+ *
+ * Prefers the JSI buffer (`<key>BufferId`), which is viewed in place. The
+ * base64 fallback (`<key>Base64`) is decoded into a new buffer. Returns
+ * undefined when the result carries neither.
+ */
+function readNativeBuffer(
+  result: Record<string, unknown>,
+  key: string,
+  dataType: string
+): Float32Array | Uint8Array | Int8Array | Int16Array | undefined {
+  const bufferId = result[`${key}BufferId`];
+  if (typeof bufferId === 'number') {
+    return viewNativeBytes(takeNativeBuffer(bufferId), dataType);
+  }
+  const packed = result[`${key}Base64`];
+  if (typeof packed === 'string') {
+    return viewNativeBytes(base64ToArrayBuffer(packed), dataType);
+  }
+  return undefined;
+}
+
+/**
+ * Read a native float32 tensor that is a buffer, packed, or a plain array
+ */
+function readNativeFloats(
+  result: Record<string, unknown>,
+  key: string
+): Float32Array | number[] {
+  return (
+    (readNativeBuffer(result, key, 'float32') as Float32Array | undefined) ??
+    (result[key] as number[] | undefined) ??
+    []
+  );
+}
+
+/**
+ * Validates the `output` option of the augmentation APIs
+ */
+function validateAugmentationOutput(output: AugmentationOutput | undefined) {
+  if (output !== undefined && output !== 'base64' && output !== 'pixels') {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid output: ${output}. Must be 'base64' or 'pixels'`
+    );
+  }
+}
+
+/**
+ * Read the RGBA `pixels` an augmentation returned for `output: 'pixels'`
+ *
+ * The result gets a `pixels` source over the native bytes, which can be fed
+ * straight back in as the source of the next call.
+ */
+function readPixelOutput<T extends { width: number; height: number }>(
+  result: T
+): T & { pixels?: PixelsSource } {
+  const native = result as unknown as Record<string, unknown>;
+  const data = readNativeBuffer(native, 'pixels', 'uint8') as
+    | Uint8Array
+    | undefined;
+  if (!data) {
+    return result;
+  }
+  // The pixels source replaces the packed buffer
+  const withPixels: Record<string, unknown> = {
+    ...native,
+    pixels: {
+      type: 'pixels',
+      data,
+      width: result.width,
+      height: result.height,
+      format: 'rgba',
+    },
+  };
+  delete withPixels.pixelsBufferId;
+  delete withPixels.pixelsBase64;
+  return withPixels as unknown as T & { pixels: PixelsSource };
+}
+
 /**
  * Converts the native result to the requested output format
  */
@@ -562,12 +1192,13 @@ function convertOutputFormat(
   outputFormat: OutputFormat,
   quantization?: { scale: number; zeroPoint: number }
 ): PixelDataResult {
-  const data = result.data as number[];
+  const data = readNativeFloats(result, 'data');
 
   switch (outputFormat) {
     case 'float32Array':
       return {
-        data: new Float32Array(data),
+        // Packed results already are a Float32Array over the native bytes
+        data: data instanceof Float32Array ? data : new Float32Array(data),
         width: result.width as number,
         height: result.height as number,
         channels: result.channels as number,
@@ -638,7 +1269,7 @@ function convertOutputFormat(
     }
     default:
       return {
-        data: data,
+        data: Array.isArray(data) ? data : Array.from(data),
         width: result.width as number,
         height: result.height as number,
         channels: result.channels as number,
@@ -690,7 +1321,7 @@ export async function getPixelData(
 
     // Call native module
     const result = (await VisionUtils.getPixelData(
-      preparedOptions as unknown as Object
+      toNativeOptions(preparedOptions)
     )) as Record<string, unknown>;
 
     // Convert output format
@@ -746,7 +1377,7 @@ export async function batchGetPixelData(
 
     // Call native module
     const result = (await VisionUtils.batchGetPixelData(
-      preparedOptionsArray as unknown as Object[],
+      preparedOptionsArray.map(toNativeOptions),
       preparedBatchOptions as unknown as Object
     )) as Record<string, unknown>;
 
@@ -799,7 +1430,7 @@ export async function getImageStatistics(
   try {
     validateSource(source);
     const result = (await VisionUtils.getImageStatistics(
-      source as unknown as Object
+      serializeSource(source)
     )) as ImageStatistics;
     return result;
   } catch (error) {
@@ -828,7 +1459,7 @@ export async function getImageMetadata(
   try {
     validateSource(source);
     const result = (await VisionUtils.getImageMetadata(
-      source as unknown as Object
+      serializeSource(source)
     )) as ImageMetadata;
     return result;
   } catch (error) {
@@ -863,7 +1494,7 @@ export async function validateImage(
   try {
     validateSource(source);
     const result = (await VisionUtils.validateImage(
-      source as unknown as Object,
+      serializeSource(source),
       options as unknown as Object
     )) as ImageValidationResult;
     return result;
@@ -943,9 +1574,9 @@ export async function fiveCrop(
     const preparedOptions = prepareOptions(options);
 
     const result = (await VisionUtils.fiveCrop(
-      options.source as unknown as Object,
+      serializeSource(options.source),
       cropOptions as unknown as Object,
-      preparedOptions as unknown as Object
+      toNativeOptions(preparedOptions)
     )) as MultiCropResult;
     return result;
   } catch (error) {
@@ -976,9 +1607,9 @@ export async function tenCrop(
     const preparedOptions = prepareOptions(options);
 
     const result = (await VisionUtils.tenCrop(
-      options.source as unknown as Object,
+      serializeSource(options.source),
       cropOptions as unknown as Object,
-      preparedOptions as unknown as Object
+      toNativeOptions(preparedOptions)
     )) as MultiCropResult;
     return result;
   } catch (error) {
@@ -1214,58 +1845,350 @@ export async function permute(
 }
 
 // =============================================================================
-// Augmentation API
+// Annotation Transforms
 // =============================================================================
 
 /**
- * Apply augmentations to an image and return as base64
- *
- * @param source - Image source specification
- * @param augmentations - Augmentation options to apply
- * @returns Promise resolving to augmented image as base64
- *
- * @example
- * const augmented = await applyAugmentations(
- *   { type: 'file', value: '/path/to/image.jpg' },
- *   { horizontalFlip: true, brightness: 0.2, rotation: 15 }
- * );
+ * Row-major 3x3 homogeneous matrix mapping source pixels to output pixels
  */
-export async function applyAugmentations(
-  source: ImageSource,
-  augmentations: AugmentationOptions
-): Promise<{ base64: string; processingTimeMs: number }> {
-  try {
-    validateSource(source);
-    validateAugmentation(augmentations);
+type Matrix3 = [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number
+];
+
+function multiplyMatrix3(a: Matrix3, b: Matrix3): Matrix3 {
+  const out = new Array<number>(9).fill(0) as Matrix3;
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      out[row * 3 + col] =
+        a[row * 3]! * b[col]! +
+        a[row * 3 + 1]! * b[3 + col]! +
+        a[row * 3 + 2]! * b[6 + col]!;
+    }
+  }
+  return out;
+}
 
-    const result = (await VisionUtils.applyAugmentations(
-      source as unknown as Object,
-      augmentations as unknown as Object
-    )) as { base64: string; processingTimeMs: number };
-    return result;
-  } catch (error) {
-    throw VisionUtilsException.fromNativeError(error);
+function invertMatrix3(m: Matrix3): Matrix3 {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h;
+  const B = f * g - d * i;
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (Math.abs(det) < 1e-12) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'Transform is not invertible'
+    );
   }
+  return [
+    A / det,
+    (c * h - b * i) / det,
+    (b * f - c * e) / det,
+    B / det,
+    (a * i - c * g) / det,
+    (c * d - a * f) / det,
+    C / det,
+    (b * g - a * h) / det,
+    (a * e - b * d) / det,
+  ];
 }
 
-/**
- * Apply color jitter augmentation with granular control over color properties.
- *
- * More granular than applyAugmentations - allows specifying ranges for each
- * color property, with random sampling within those ranges. Supports seeded
- * randomness for reproducible augmentation pipelines.
- *
- * @param source - Image source specification
- * @param options - Color jitter options with ranges for brightness, contrast, saturation, hue
- * @returns Promise resolving to ColorJitterResult with the augmented image and applied values
- *
- * @example
- * // Basic color jitter with symmetric ranges
- * const result = await colorJitter(
- *   { type: 'file', value: '/path/to/image.jpg' },
- *   {
- *     brightness: 0.2,     // Random in [-0.2, +0.2]
- *     contrast: 0.2,       // Random in [0.8, 1.2]
+function transformPoint(m: Matrix3, x: number, y: number): [number, number] {
+  const w = m[6] * x + m[7] * y + m[8];
+  return [(m[0] * x + m[1] * y + m[2]) / w, (m[3] * x + m[4] * y + m[5]) / w];
+}
+
+function hasAnnotations(annotations: AugmentationAnnotations): boolean {
+  return (
+    annotations.boxes !== undefined ||
+    annotations.keypoints !== undefined ||
+    annotations.masks !== undefined
+  );
+}
+
+/** Options without annotation fields, as sent to native */
+function withoutAnnotations<T extends AugmentationAnnotations>(
+  options: T
+): Omit<T, keyof AugmentationAnnotations> {
+  const rest = { ...options };
+  delete rest.boxes;
+  delete rest.boxFormat;
+  delete rest.keypoints;
+  delete rest.masks;
+  return rest;
+}
+
+function validateAnnotations(annotations: AugmentationAnnotations): void {
+  const { boxes, boxFormat, keypoints, masks } = annotations;
+  if (boxes !== undefined) {
+    validateBoxes(boxes);
+    if (boxes.some((box) => !Array.isArray(box) || box.length !== 4)) {
+      throw new VisionUtilsException(
+        'INVALID_INPUT',
+        'Each box must have 4 coordinates'
+      );
+    }
+  }
+  if (boxFormat !== undefined && !BOX_FORMATS.includes(boxFormat)) {
+    throw new VisionUtilsException(
+      'INVALID_FORMAT',
+      `Invalid box format: ${boxFormat}. Must be one of: ${BOX_FORMATS.join(
+        ', '
+      )}`
+    );
+  }
+  if (keypoints !== undefined && !Array.isArray(keypoints)) {
+    throw new VisionUtilsException(
+      'INVALID_INPUT',
+      'Keypoints must be an array'
+    );
+  }
+  if (masks !== undefined) {
+    if (!Array.isArray(masks)) {
+      throw new VisionUtilsException('INVALID_INPUT', 'Masks must be an array');
+    }
+    masks.forEach((mask, i) => {
+      if (
+        !Number.isInteger(mask.width) ||
+        !Number.isInteger(mask.height) ||
+        mask.width <= 0 ||
+        mask.height <= 0 ||
+        mask.data.length !== mask.width * mask.height
+      ) {
+        throw new VisionUtilsException(
+          'INVALID_INPUT',
+          `Mask ${i} must hold width * height values`
+        );
+      }
+    });
+  }
+}
+
+/** Nearest-neighbor resample of a mask through a source-to-output transform */
+function transformMask(
+  mask: AnnotationMask,
+  inverse: Matrix3,
+  sourceWidth: number,
+  sourceHeight: number,
+  outputWidth: number,
+  outputHeight: number
+): AnnotationMask {
+  // The mask keeps its resolution relative to the image
+  const scaleX = mask.width / sourceWidth;
+  const scaleY = mask.height / sourceHeight;
+  const width = Math.max(1, Math.round(outputWidth * scaleX));
+  const height = Math.max(1, Math.round(outputHeight * scaleY));
+  const data = new Array<number>(width * height).fill(0);
+  const { floor } = Math;
+  const [a, b, c, d, e, f, g, h, i] = inverse;
+
+  for (let y = 0; y < height; y++) {
+    const imageY = (y + 0.5) / scaleY;
+    for (let x = 0; x < width; x++) {
+      const imageX = (x + 0.5) / scaleX;
+      const w = g * imageX + h * imageY + i;
+      const maskX = floor(((a * imageX + b * imageY + c) / w) * scaleX);
+      const maskY = floor(((d * imageX + e * imageY + f) / w) * scaleY);
+      if (
+        maskX >= 0 &&
+        maskX < mask.width &&
+        maskY >= 0 &&
+        maskY < mask.height
+      ) {
+        data[y * width + x] = mask.data[maskY * mask.width + maskX]!;
+      }
+    }
+  }
+  return { data, width, height };
+}
+
+/**
+ * Map annotations through a geometric transform. Boxes become the enclosing
+ * box of their transformed corners, clipped like clipBoxes with
+ * removeInvalid.
+ */
+function transformAnnotations(
+  annotations: AugmentationAnnotations,
+  matrix: Matrix3,
+  sourceWidth: number,
+  sourceHeight: number,
+  outputWidth: number,
+  outputHeight: number
+): TransformedAnnotations {
+  const result: TransformedAnnotations = {};
+
+  if (annotations.boxes) {
+    const format = annotations.boxFormat ?? 'xyxy';
+    result.boxes = [];
+    result.boxIndices = [];
+    annotations.boxes.forEach((box, index) => {
+      const [x1, y1, x2, y2] = toXyxy(box, format);
+      const corners = [
+        transformPoint(matrix, x1, y1),
+        transformPoint(matrix, x2, y1),
+        transformPoint(matrix, x1, y2),
+        transformPoint(matrix, x2, y2),
+      ];
+      const xs = corners.map(([x]) => x);
+      const ys = corners.map(([, y]) => y);
+      const clipped = clipXyxy(
+        [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)],
+        outputWidth,
+        outputHeight
+      );
+      if (clipped[2] > clipped[0] && clipped[3] > clipped[1]) {
+        result.boxes!.push(fromXyxy(clipped, format));
+        result.boxIndices!.push(index);
+      }
+    });
+  }
+
+  if (annotations.keypoints) {
+    result.keypoints = annotations.keypoints.map((keypoint) => {
+      const [x, y] = transformPoint(matrix, keypoint.x, keypoint.y);
+      const inside = x >= 0 && x <= outputWidth && y >= 0 && y <= outputHeight;
+      return inside
+        ? { ...keypoint, x, y }
+        : { ...keypoint, x, y, confidence: 0 };
+    });
+  }
+
+  if (annotations.masks) {
+    const inverse = invertMatrix3(matrix);
+    result.masks = annotations.masks.map((mask) =>
+      transformMask(
+        mask,
+        inverse,
+        sourceWidth,
+        sourceHeight,
+        outputWidth,
+        outputHeight
+      )
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Transform applied by native applyAugmentations: rotation about the center
+ * onto a canvas grown to fit, then horizontal and vertical flips
+ */
+function augmentationMatrix(
+  augmentations: AugmentationOptions,
+  sourceWidth: number,
+  sourceHeight: number,
+  outputWidth: number,
+  outputHeight: number
+): Matrix3 {
+  const radians = ((augmentations.rotation ?? 0) * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  // Positive angles turn clockwise in image (y-down) coordinates
+  let matrix = multiplyMatrix3(
+    [cos, -sin, outputWidth / 2, sin, cos, outputHeight / 2, 0, 0, 1],
+    [1, 0, -sourceWidth / 2, 0, 1, -sourceHeight / 2, 0, 0, 1]
+  );
+  if (augmentations.horizontalFlip) {
+    matrix = multiplyMatrix3([-1, 0, outputWidth, 0, 1, 0, 0, 0, 1], matrix);
+  }
+  if (augmentations.verticalFlip) {
+    matrix = multiplyMatrix3([1, 0, 0, 0, -1, outputHeight, 0, 0, 1], matrix);
+  }
+  return matrix;
+}
+
+// =============================================================================
+// Augmentation API
+// =============================================================================
+
+/**
+ * Apply augmentations to an image and return as base64
+ *
+ * @param source - Image source specification
+ * @param augmentations - Augmentation options to apply
+ * @returns Promise resolving to augmented image as base64
+ *
+ * @example
+ * const augmented = await applyAugmentations(
+ *   { type: 'file', value: '/path/to/image.jpg' },
+ *   { horizontalFlip: true, brightness: 0.2, rotation: 15 }
+ * );
+ */
+export async function applyAugmentations(
+  source: ImageSource,
+  augmentations: AugmentationOptions
+): Promise<AugmentationResult> {
+  try {
+    validateSource(source);
+    validateAugmentation(augmentations);
+    validateAugmentationOutput(augmentations.output);
+    validateAnnotations(augmentations);
+
+    const { horizontalFlip, verticalFlip, ...options } =
+      withoutAnnotations(augmentations);
+    const result = readPixelOutput(
+      (await VisionUtils.applyAugmentations(serializeSource(source), {
+        ...options,
+        // Native key names
+        ...(horizontalFlip !== undefined && { flipHorizontal: horizontalFlip }),
+        ...(verticalFlip !== undefined && { flipVertical: verticalFlip }),
+      } as unknown as Object)) as AugmentationResult
+    );
+
+    if (!hasAnnotations(augmentations)) {
+      return result;
+    }
+    const { width, height } = await getImageMetadata(source);
+    const matrix = augmentationMatrix(
+      augmentations,
+      width,
+      height,
+      result.width,
+      result.height
+    );
+    return {
+      ...result,
+      ...transformAnnotations(
+        augmentations,
+        matrix,
+        width,
+        height,
+        result.width,
+        result.height
+      ),
+    };
+  } catch (error) {
+    throw VisionUtilsException.fromNativeError(error);
+  }
+}
+
+/**
+ * Apply color jitter augmentation with granular control over color properties.
+ *
+ * More granular than applyAugmentations - allows specifying ranges for each
+ * color property, with random sampling within those ranges. Supports seeded
+ * randomness for reproducible augmentation pipelines.
+ *
+ * @param source - Image source specification
+ * @param options - Color jitter options with ranges for brightness, contrast, saturation, hue
+ * @returns Promise resolving to ColorJitterResult with the augmented image and applied values
+ *
+ * @example
+ * // Basic color jitter with symmetric ranges
+ * const result = await colorJitter(
+ *   { type: 'file', value: '/path/to/image.jpg' },
+ *   {
+ *     brightness: 0.2,     // Random in [-0.2, +0.2]
+ *     contrast: 0.2,       // Random in [0.8, 1.2]
  *     saturation: 0.3,     // Random in [0.7, 1.3]
  *     hue: 0.1,            // Random in [-0.1, +0.1]
  *   }
@@ -1327,12 +2250,14 @@ export async function colorJitter(
     validateRange('contrast', options.contrast);
     validateRange('saturation', options.saturation);
     validateRange('hue', options.hue);
+    validateAugmentationOutput(options.output);
 
-    const result = (await VisionUtils.colorJitter(
-      source as unknown as Object,
-      options as unknown as Object
-    )) as ColorJitterResult;
-    return result;
+    return readPixelOutput(
+      (await VisionUtils.colorJitter(
+        serializeSource(source),
+        options as unknown as Object
+      )) as ColorJitterResult
+    );
   } catch (error) {
     throw VisionUtilsException.fromNativeError(error);
   }
@@ -1436,11 +2361,14 @@ export async function cutout(
       );
     }
 
-    const result = (await VisionUtils.cutout(
-      source as unknown as Object,
-      options as unknown as Object
-    )) as CutoutResult;
-    return result;
+    validateAugmentationOutput(options.output);
+
+    return readPixelOutput(
+      (await VisionUtils.cutout(
+        serializeSource(source),
+        options as unknown as Object
+      )) as CutoutResult
+    );
   } catch (error) {
     throw VisionUtilsException.fromNativeError(error);
   }
@@ -1529,7 +2457,9 @@ export async function quantize(
       width: options.width,
       height: options.height,
     })) as {
-      data: number[];
+      data?: number[];
+      dataBufferId?: number;
+      dataBase64?: string;
       dtype: QuantizationDtype;
       mode: QuantizationMode;
       scale: number | number[];
@@ -1537,20 +2467,27 @@ export async function quantize(
       processingTimeMs: number;
     };
 
-    // Convert to appropriate typed array
-    let typedData: Int8Array | Uint8Array | Int16Array;
-    switch (result.dtype) {
-      case 'int8':
-        typedData = new Int8Array(result.data);
-        break;
-      case 'uint8':
-        typedData = new Uint8Array(result.data);
-        break;
-      case 'int16':
-        typedData = new Int16Array(result.data);
-        break;
-      default:
-        typedData = new Int8Array(result.data);
+    // Convert to appropriate typed array (buffer results view the native bytes)
+    let typedData = readNativeBuffer(result, 'data', result.dtype) as
+      | Int8Array
+      | Uint8Array
+      | Int16Array
+      | undefined;
+    if (!typedData) {
+      const values = result.data ?? [];
+      switch (result.dtype) {
+        case 'int8':
+          typedData = new Int8Array(values);
+          break;
+        case 'uint8':
+          typedData = new Uint8Array(values);
+          break;
+        case 'int16':
+          typedData = new Int16Array(values);
+          break;
+        default:
+          typedData = new Int8Array(values);
+      }
     }
 
     return {
@@ -1606,14 +2543,12 @@ export async function dequantize(
       channels: options.channels ?? 3,
       width: options.width,
       height: options.height,
-    })) as {
-      data: number[];
-      processingTimeMs: number;
-    };
+    })) as Record<string, unknown>;
 
+    const values = readNativeFloats(result, 'data');
     return {
-      data: new Float32Array(result.data),
-      processingTimeMs: result.processingTimeMs,
+      data: values instanceof Float32Array ? values : new Float32Array(values),
+      processingTimeMs: result.processingTimeMs as number,
     };
   } catch (error) {
     throw VisionUtilsException.fromNativeError(error);
@@ -1726,6 +2661,87 @@ export async function getCacheStats(): Promise<{
 // Label Database Functions
 // =============================================================================
 
+interface CustomLabelDataset {
+  labels: string[];
+  supercategories: Array<string | undefined>;
+  description: string;
+}
+
+const BUILT_IN_LABEL_DATASETS: BuiltInLabelDataset[] = [
+  'coco',
+  'coco91',
+  'imagenet',
+  'imagenet21k',
+  'voc',
+  'cifar10',
+  'cifar100',
+  'places365',
+  'ade20k',
+];
+
+/** Datasets added with registerLabelDataset(), answered without native */
+const customLabelDatasets = new Map<string, CustomLabelDataset>();
+
+/**
+ * Prettify a label the way the native database does ("traffic_light" ->
+ * "Traffic Light")
+ */
+function labelDisplayName(name: string): string {
+  return name
+    .replace(/_/g, ' ')
+    .toLowerCase()
+    .replace(/(^|\s)(\S)/g, (_match, space: string, letter: string) => {
+      return space + letter.toUpperCase();
+    });
+}
+
+function customLabelInfo(custom: CustomLabelDataset, index: number): LabelInfo {
+  const name = custom.labels[index] as string;
+  const supercategory = custom.supercategories[index];
+  return {
+    index,
+    name,
+    displayName: labelDisplayName(name),
+    ...(supercategory !== undefined && { supercategory }),
+  };
+}
+
+/**
+ * Top-K lookup for a registered dataset, matching the native semantics:
+ * sort by score, take K, then drop results below minConfidence
+ */
+function getCustomTopLabels(
+  scores: number[],
+  dataset: string,
+  custom: CustomLabelDataset,
+  options: { k: number; minConfidence: number; includeMetadata: boolean }
+): TopLabelResult[] {
+  if (scores.length !== custom.labels.length) {
+    throw new VisionUtilsException(
+      'DIMENSION_MISMATCH',
+      `Score count (${scores.length}) doesn't match label count (${custom.labels.length}) for dataset ${dataset}`
+    );
+  }
+
+  const order = scores.map((_score, index) => index);
+  order.sort((a, b) => (scores[b] as number) - (scores[a] as number));
+
+  const results: TopLabelResult[] = [];
+  for (const index of order.slice(0, options.k)) {
+    const confidence = scores[index] as number;
+    if (confidence < options.minConfidence) continue;
+    const supercategory = custom.supercategories[index];
+    results.push({
+      index,
+      label: custom.labels[index] as string,
+      confidence,
+      ...(options.includeMetadata &&
+        supercategory !== undefined && { supercategory }),
+    });
+  }
+  return results;
+}
+
 /**
  * Get a label by index from a dataset
  *
@@ -1760,6 +2776,19 @@ export async function getLabel(
     );
   }
 
+  const custom = customLabelDatasets.get(dataset);
+  if (custom) {
+    if (index >= custom.labels.length) {
+      throw new VisionUtilsException(
+        'INVALID_LABEL_INDEX',
+        `Index ${index} out of range for dataset ${dataset} with ${custom.labels.length} classes`
+      );
+    }
+    return includeMetadata
+      ? customLabelInfo(custom, index)
+      : (custom.labels[index] as string);
+  }
+
   try {
     const result = await VisionUtils.getLabel(index, dataset, includeMetadata);
     return result as string | LabelInfo;
@@ -1774,8 +2803,9 @@ export async function getLabel(
  * Takes model output scores and returns the top K predictions with labels
  * and confidence scores. Useful for classification model results.
  *
- * @param scores - Array of confidence scores from model output
- * @param options - Options including dataset, k value, and minimum confidence
+ * @param scores - Array of confidence scores or logits from model output
+ * @param options - Options including dataset, k value, minimum confidence,
+ *   activation, per-class thresholds and supercategory aggregation
  * @returns Promise resolving to array of TopLabelResult
  *
  * @example
@@ -1791,6 +2821,14 @@ export async function getLabel(
  * //   { index: 209, label: "Golden retriever", confidence: 0.08 },
  * //   ...
  * // ]
+ *
+ * // Multi-label logits with a stricter threshold for one class
+ * const tags = await getTopLabels(logits, {
+ *   dataset: 'coco',
+ *   activation: 'sigmoid',
+ *   minConfidence: 0.5,
+ *   thresholds: { person: 0.8 },
+ * });
  */
 export async function getTopLabels(
   scores: number[],
@@ -1803,13 +2841,134 @@ export async function getTopLabels(
     );
   }
 
+  validateTopLabelsOptions(options);
+
+  const activation = options.activation ?? 'none';
+  const probabilities = activateScores(
+    scores,
+    activation,
+    options.temperature ?? 1
+  );
   const opts = {
     dataset: options.dataset,
-    k: options.k ?? 5,
+    k: options.k ?? (activation === 'sigmoid' ? scores.length : 5),
     minConfidence: options.minConfidence ?? 0,
     includeMetadata: options.includeMetadata ?? false,
   };
 
+  if (!options.thresholds && !options.aggregateBy) {
+    return lookupTopLabels(probabilities, opts);
+  }
+
+  // Thresholds and grouping need every class ranked with its supercategory
+  const ranked = await lookupTopLabels(probabilities, {
+    dataset: opts.dataset,
+    k: scores.length,
+    minConfidence: -Number.MAX_VALUE,
+    includeMetadata: true,
+  });
+  return options.aggregateBy
+    ? aggregateTopLabels(
+        ranked,
+        options.thresholds ?? {},
+        activation === 'sigmoid',
+        opts
+      )
+    : filterTopLabels(ranked, options.thresholds ?? {}, opts);
+}
+
+const LABEL_ACTIVATIONS: LabelActivation[] = ['none', 'softmax', 'sigmoid'];
+
+function validateTopLabelsOptions(options: GetTopLabelsOptions): void {
+  const { activation, temperature, thresholds, aggregateBy } = options;
+  if (activation !== undefined && !LABEL_ACTIVATIONS.includes(activation)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid activation: ${activation}. Must be one of: ${LABEL_ACTIVATIONS.join(
+        ', '
+      )}`
+    );
+  }
+  if (temperature !== undefined) {
+    if (activation === undefined || activation === 'none') {
+      throw new VisionUtilsException(
+        'INVALID_OPTIONS',
+        "temperature requires the 'softmax' or 'sigmoid' activation"
+      );
+    }
+    if (!Number.isFinite(temperature) || temperature <= 0) {
+      throw new VisionUtilsException(
+        'INVALID_OPTIONS',
+        'temperature must be a positive number'
+      );
+    }
+  }
+  if (thresholds !== undefined) {
+    if (thresholds === null || typeof thresholds !== 'object') {
+      throw new VisionUtilsException(
+        'INVALID_OPTIONS',
+        'thresholds must be an object keyed by class index or label'
+      );
+    }
+    for (const [key, value] of Object.entries(thresholds)) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new VisionUtilsException(
+          'INVALID_OPTIONS',
+          `Threshold for ${key} must be a number`
+        );
+      }
+    }
+  }
+  if (aggregateBy !== undefined && aggregateBy !== 'supercategory') {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid aggregateBy: ${aggregateBy}. Must be 'supercategory'`
+    );
+  }
+}
+
+/**
+ * Apply temperature and the activation to raw scores
+ */
+function activateScores(
+  scores: number[],
+  activation: LabelActivation,
+  temperature: number
+): number[] {
+  if (activation === 'none') return scores;
+
+  const logits = scores.map((score) => score / temperature);
+  if (activation === 'sigmoid') {
+    return logits.map((logit) => 1 / (1 + Math.exp(-logit)));
+  }
+
+  // Subtract the max logit so exp() cannot overflow
+  const max = logits.reduce((a, b) => (b > a ? b : a), -Infinity);
+  const exps = logits.map((logit) => Math.exp(logit - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return exps.map((value) => value / sum);
+}
+
+/**
+ * Rank scores against a registered dataset in JS, or a built-in one natively
+ */
+async function lookupTopLabels(
+  scores: number[],
+  opts: {
+    dataset?: LabelDataset;
+    k: number;
+    minConfidence: number;
+    includeMetadata: boolean;
+  }
+): Promise<TopLabelResult[]> {
+  const custom =
+    opts.dataset !== undefined
+      ? customLabelDatasets.get(opts.dataset)
+      : undefined;
+  if (custom) {
+    return getCustomTopLabels(scores, opts.dataset as string, custom, opts);
+  }
+
   try {
     const result = await VisionUtils.getTopLabels(scores, opts);
     return result as TopLabelResult[];
@@ -1818,6 +2977,77 @@ export async function getTopLabels(
   }
 }
 
+function classThreshold(
+  thresholds: Record<string | number, number>,
+  result: TopLabelResult
+): number | undefined {
+  return thresholds[result.index] ?? thresholds[result.label];
+}
+
+/**
+ * Keep ranked classes that pass their own threshold, up to K
+ */
+function filterTopLabels(
+  ranked: TopLabelResult[],
+  thresholds: Record<string | number, number>,
+  opts: { k: number; minConfidence: number; includeMetadata: boolean }
+): TopLabelResult[] {
+  const results: TopLabelResult[] = [];
+  for (const result of ranked) {
+    if (results.length >= opts.k) break;
+    const threshold = classThreshold(thresholds, result) ?? opts.minConfidence;
+    if (result.confidence < threshold) continue;
+
+    const { supercategory, ...rest } = result;
+    results.push(
+      opts.includeMetadata && supercategory !== undefined ? result : rest
+    );
+  }
+  return results;
+}
+
+/**
+ * Group ranked classes by supercategory. Per-class thresholds drop classes
+ * before grouping; minConfidence and K apply to the groups.
+ */
+function aggregateTopLabels(
+  ranked: TopLabelResult[],
+  thresholds: Record<string | number, number>,
+  multiLabel: boolean,
+  opts: { k: number; minConfidence: number }
+): TopLabelResult[] {
+  const groups = new Map<string, TopLabelResult & { members: number[] }>();
+  for (const result of ranked) {
+    const threshold = classThreshold(thresholds, result);
+    if (threshold !== undefined && result.confidence < threshold) continue;
+
+    const { supercategory } = result;
+    const key =
+      supercategory !== undefined
+        ? `supercategory:${supercategory}`
+        : `class:${result.index}`;
+    const group = groups.get(key);
+    if (group) {
+      // Ranked input is sorted, so the first member already holds the max
+      group.members.push(result.index);
+      if (!multiLabel) group.confidence += result.confidence;
+      continue;
+    }
+    groups.set(key, {
+      index: result.index,
+      label: supercategory ?? result.label,
+      confidence: result.confidence,
+      ...(supercategory !== undefined && { supercategory }),
+      members: [result.index],
+    });
+  }
+
+  return [...groups.values()]
+    .filter((group) => group.confidence >= opts.minConfidence)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, opts.k);
+}
+
 /**
  * Get all labels for a dataset
  *
@@ -1835,6 +3065,11 @@ export async function getTopLabels(
  * // ["tench", "goldfish", ..., "toilet tissue"] (1000 items)
  */
 export async function getAllLabels(dataset: LabelDataset): Promise<string[]> {
+  const custom = customLabelDatasets.get(dataset);
+  if (custom) {
+    return [...custom.labels];
+  }
+
   try {
     const result = await VisionUtils.getAllLabels(dataset);
     return result;
@@ -1864,6 +3099,16 @@ export async function getAllLabels(dataset: LabelDataset): Promise<string[]> {
 export async function getDatasetInfo(
   dataset: LabelDataset
 ): Promise<DatasetInfo> {
+  const custom = customLabelDatasets.get(dataset);
+  if (custom) {
+    return {
+      name: dataset,
+      numClasses: custom.labels.length,
+      description: custom.description,
+      isAvailable: true,
+    };
+  }
+
   try {
     const result = await VisionUtils.getDatasetInfo(dataset);
     return result as DatasetInfo;
@@ -1875,8 +3120,9 @@ export async function getDatasetInfo(
 /**
  * Get list of all available datasets
  *
- * Returns the names of all built-in label datasets that can be used
- * with getLabel() and getTopLabels().
+ * Returns the names of all built-in label datasets, followed by any added
+ * with registerLabelDataset(), that can be used with getLabel() and
+ * getTopLabels().
  *
  * @returns Promise resolving to array of dataset names
  *
@@ -1887,7 +3133,7 @@ export async function getDatasetInfo(
 export async function getAvailableDatasets(): Promise<LabelDataset[]> {
   try {
     const result = await VisionUtils.getAvailableDatasets();
-    return result as LabelDataset[];
+    return [...(result as LabelDataset[]), ...customLabelDatasets.keys()];
   } catch (error) {
     throw VisionUtilsException.fromNativeError(error);
   }
@@ -1966,8 +3212,20 @@ export async function processCameraFrame(
   };
 
   try {
-    const result = await VisionUtils.processCameraFrame(frameSource, opts);
-    return result as CameraFrameResult;
+    const result = (await VisionUtils.processCameraFrame(
+      frameSource,
+      opts
+    )) as Record<string, unknown>;
+
+    const tensor = readNativeFloats(result, 'tensor');
+    return {
+      tensor:
+        tensor instanceof Float32Array ? tensor : new Float32Array(tensor),
+      shape: result.shape as number[],
+      width: result.width as number,
+      height: result.height as number,
+      processingTimeMs: result.processingTimeMs as number,
+    };
   } catch (error) {
     throw VisionUtilsException.fromNativeError(error);
   }
@@ -2085,54 +3343,100 @@ export function isVisionUtilsError(
 // Bounding Box Utilities
 // =============================================================================
 
-/**
- * Convert bounding boxes between different formats
- *
- * Supported formats:
- * - 'xyxy': [x1, y1, x2, y2] - top-left and bottom-right corners
- * - 'xywh': [x, y, width, height] - top-left corner and dimensions
- * - 'cxcywh': [cx, cy, width, height] - center point and dimensions (YOLO format)
- *
- * @param boxes - Array of bounding boxes in the source format
- * @param options - Conversion options specifying source and target formats
- * @returns Promise resolving to converted boxes
- *
- * @example
- * // Convert YOLO format (cxcywh) to corner format (xyxy)
- * const result = await convertBoxFormat(
- *   [[320, 240, 100, 80]], // center-x, center-y, width, height
- *   { fromFormat: 'cxcywh', toFormat: 'xyxy' }
- * );
- * // result.boxes = [[270, 200, 370, 280]]
- */
-export async function convertBoxFormat(
-  boxes: BoundingBox[],
-  options: ConvertBoxFormatOptions
-): Promise<ConvertBoxFormatResult> {
+const BOX_FORMATS: BoxFormat[] = ['xyxy', 'xywh', 'cxcywh'];
+
+function validateBoxes(boxes: BoundingBox[]): void {
   if (!boxes || !Array.isArray(boxes)) {
     throw new VisionUtilsException(
       'INVALID_INPUT',
       'Boxes must be an array of bounding boxes'
     );
   }
+}
 
-  const validFormats: BoxFormat[] = ['xyxy', 'xywh', 'cxcywh'];
-  if (!validFormats.includes(options.fromFormat)) {
+function validateBoxFormats(options: ConvertBoxFormatOptions): void {
+  if (!BOX_FORMATS.includes(options.fromFormat)) {
     throw new VisionUtilsException(
       'INVALID_FORMAT',
       `Invalid fromFormat: ${
         options.fromFormat
-      }. Must be one of: ${validFormats.join(', ')}`
+      }. Must be one of: ${BOX_FORMATS.join(', ')}`
     );
   }
-  if (!validFormats.includes(options.toFormat)) {
+  if (!BOX_FORMATS.includes(options.toFormat)) {
     throw new VisionUtilsException(
       'INVALID_FORMAT',
       `Invalid toFormat: ${
         options.toFormat
-      }. Must be one of: ${validFormats.join(', ')}`
+      }. Must be one of: ${BOX_FORMATS.join(', ')}`
+    );
+  }
+}
+
+function validateScaleDimensions(options: ScaleBoxesOptions): void {
+  if (
+    options.fromWidth <= 0 ||
+    options.fromHeight <= 0 ||
+    options.toWidth <= 0 ||
+    options.toHeight <= 0
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_DIMENSIONS',
+      'All dimensions must be positive numbers'
+    );
+  }
+}
+
+function validateClipDimensions(options: ClipBoxesOptions): void {
+  if (options.width <= 0 || options.height <= 0) {
+    throw new VisionUtilsException(
+      'INVALID_DIMENSIONS',
+      'Width and height must be positive numbers'
+    );
+  }
+}
+
+function validateIoUBoxes(box1: BoundingBox, box2: BoundingBox): void {
+  if (!box1 || box1.length !== 4) {
+    throw new VisionUtilsException(
+      'INVALID_INPUT',
+      'box1 must be an array of 4 numbers'
+    );
+  }
+  if (!box2 || box2.length !== 4) {
+    throw new VisionUtilsException(
+      'INVALID_INPUT',
+      'box2 must be an array of 4 numbers'
     );
   }
+}
+
+/**
+ * Convert bounding boxes between different formats
+ *
+ * Supported formats:
+ * - 'xyxy': [x1, y1, x2, y2] - top-left and bottom-right corners
+ * - 'xywh': [x, y, width, height] - top-left corner and dimensions
+ * - 'cxcywh': [cx, cy, width, height] - center point and dimensions (YOLO format)
+ *
+ * @param boxes - Array of bounding boxes in the source format
+ * @param options - Conversion options specifying source and target formats
+ * @returns Promise resolving to converted boxes
+ *
+ * @example
+ * // Convert YOLO format (cxcywh) to corner format (xyxy)
+ * const result = await convertBoxFormat(
+ *   [[320, 240, 100, 80]], // center-x, center-y, width, height
+ *   { fromFormat: 'cxcywh', toFormat: 'xyxy' }
+ * );
+ * // result.boxes = [[270, 200, 370, 280]]
+ */
+export async function convertBoxFormat(
+  boxes: BoundingBox[],
+  options: ConvertBoxFormatOptions
+): Promise<ConvertBoxFormatResult> {
+  validateBoxes(boxes);
+  validateBoxFormats(options);
 
   try {
     const result = await VisionUtils.convertBoxFormat(
@@ -2171,24 +3475,8 @@ export async function scaleBoxes(
   boxes: BoundingBox[],
   options: ScaleBoxesOptions
 ): Promise<ScaleBoxesResult> {
-  if (!boxes || !Array.isArray(boxes)) {
-    throw new VisionUtilsException(
-      'INVALID_INPUT',
-      'Boxes must be an array of bounding boxes'
-    );
-  }
-
-  if (
-    options.fromWidth <= 0 ||
-    options.fromHeight <= 0 ||
-    options.toWidth <= 0 ||
-    options.toHeight <= 0
-  ) {
-    throw new VisionUtilsException(
-      'INVALID_DIMENSIONS',
-      'All dimensions must be positive numbers'
-    );
-  }
+  validateBoxes(boxes);
+  validateScaleDimensions(options);
 
   try {
     const result = await VisionUtils.scaleBoxes(boxes, options);
@@ -2220,19 +3508,8 @@ export async function clipBoxes(
   boxes: BoundingBox[],
   options: ClipBoxesOptions
 ): Promise<ClipBoxesResult> {
-  if (!boxes || !Array.isArray(boxes)) {
-    throw new VisionUtilsException(
-      'INVALID_INPUT',
-      'Boxes must be an array of bounding boxes'
-    );
-  }
-
-  if (options.width <= 0 || options.height <= 0) {
-    throw new VisionUtilsException(
-      'INVALID_DIMENSIONS',
-      'Width and height must be positive numbers'
-    );
-  }
+  validateBoxes(boxes);
+  validateClipDimensions(options);
 
   try {
     const result = await VisionUtils.clipBoxes(
@@ -2271,25 +3548,65 @@ export async function calculateIoU(
   box2: BoundingBox,
   format: BoxFormat = 'xyxy'
 ): Promise<IoUResult> {
-  if (!box1 || box1.length !== 4) {
+  validateIoUBoxes(box1, box2);
+
+  try {
+    const result = await VisionUtils.calculateIoU(box1, box2, format);
+    return result as IoUResult;
+  } catch (error) {
+    throw VisionUtilsException.fromNativeError(error);
+  }
+}
+
+const NMS_MODES: NMSMode[] = [
+  'greedy',
+  'soft-linear',
+  'soft-gaussian',
+  'diou',
+  'weighted-boxes-fusion',
+];
+
+function resolveNMSOptions(detections: Detection[], options: NMSOptions) {
+  if (!detections || !Array.isArray(detections)) {
     throw new VisionUtilsException(
       'INVALID_INPUT',
-      'box1 must be an array of 4 numbers'
+      'Detections must be an array'
     );
   }
-  if (!box2 || box2.length !== 4) {
+
+  const mode = options.mode ?? 'greedy';
+  if (!NMS_MODES.includes(mode)) {
     throw new VisionUtilsException(
-      'INVALID_INPUT',
-      'box2 must be an array of 4 numbers'
+      'INVALID_OPTIONS',
+      `NMS mode must be one of: ${NMS_MODES.join(', ')}`
     );
   }
-
-  try {
-    const result = await VisionUtils.calculateIoU(box1, box2, format);
-    return result as IoUResult;
-  } catch (error) {
-    throw VisionUtilsException.fromNativeError(error);
+  if (
+    options.maxDetectionsPerClass !== undefined &&
+    !(options.maxDetectionsPerClass >= 1)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'maxDetectionsPerClass must be at least 1'
+    );
+  }
+  if (options.sigma !== undefined && !(options.sigma > 0)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'sigma must be greater than 0'
+    );
   }
+
+  return {
+    iouThreshold: options.iouThreshold ?? 0.5,
+    scoreThreshold: options.scoreThreshold ?? 0.0,
+    maxDetections: options.maxDetections,
+    maxDetectionsPerClass: options.maxDetectionsPerClass,
+    format: options.format ?? 'xyxy',
+    mode,
+    agnostic: options.agnostic ?? true,
+    sigma: options.sigma ?? 0.5,
+  };
 }
 
 /**
@@ -2299,6 +3616,10 @@ export async function calculateIoU(
  * the highest-scoring box among overlapping boxes. Essential for
  * post-processing object detection model outputs.
  *
+ * Besides the default greedy suppression, `mode` selects soft-NMS
+ * (linear or Gaussian score decay), DIoU-NMS, or weighted boxes fusion.
+ * Set `agnostic: false` to suppress only within each `classIndex`.
+ *
  * @param detections - Array of detections with boxes and scores
  * @param options - NMS options including IoU and score thresholds
  * @returns Promise resolving to filtered detections
@@ -2315,28 +3636,42 @@ export async function calculateIoU(
  *   maxDetections: 100
  * });
  * // result.detections = first and third detection (second suppressed)
+ *
+ * @example
+ * // Per-class soft-NMS, at most 10 boxes per class
+ * const result = await nonMaxSuppression(detections, {
+ *   mode: 'soft-gaussian',
+ *   agnostic: false,
+ *   scoreThreshold: 0.05,
+ *   maxDetectionsPerClass: 10,
+ * });
+ *
+ * @example
+ * // Fuse test-time-augmentation predictions into consensus boxes
+ * const fused = await nonMaxSuppression(ttaDetections, {
+ *   mode: 'weighted-boxes-fusion',
+ *   iouThreshold: 0.55,
+ * });
  */
-export async function nonMaxSuppression(
-  detections: Detection[],
+export async function nonMaxSuppression<T extends Detection>(
+  detections: T[],
   options: NMSOptions = {}
-): Promise<NMSResult> {
-  if (!detections || !Array.isArray(detections)) {
-    throw new VisionUtilsException(
-      'INVALID_INPUT',
-      'Detections must be an array'
-    );
-  }
-
-  const opts = {
-    iouThreshold: options.iouThreshold ?? 0.5,
-    scoreThreshold: options.scoreThreshold ?? 0.0,
-    maxDetections: options.maxDetections,
-    format: options.format ?? 'xyxy',
-  };
+): Promise<NMSResult<T>> {
+  const opts = resolveNMSOptions(detections, options);
 
   try {
-    const result = await VisionUtils.nonMaxSuppression(detections, opts);
-    return result as NMSResult;
+    const result = (await VisionUtils.nonMaxSuppression(
+      detections,
+      opts
+    )) as NMSResult;
+    // Native NMS only echoes box/score; keep classIndex, label and mask coefficients
+    return {
+      ...result,
+      detections: result.indices.map((i, k) => {
+        const { box, score } = result.detections[k]!;
+        return { ...detections[i], box, score } as T;
+      }),
+    };
   } catch (error) {
     throw VisionUtilsException.fromNativeError(error);
   }
@@ -2387,10 +3722,13 @@ export async function letterbox(
     targetHeight: options.targetHeight,
     fillColor: options.fillColor ?? DEFAULT_LETTERBOX_COLOR,
     scaleUp: options.scaleUp ?? true,
+    autoStride: options.autoStride ?? false,
+    stride: options.stride ?? DEFAULT_LETTERBOX_STRIDE,
+    center: options.center ?? true,
   };
 
   try {
-    const result = await VisionUtils.letterbox(source, opts);
+    const result = await VisionUtils.letterbox(serializeSource(source), opts);
     return result as LetterboxResult;
   } catch (error) {
     throw VisionUtilsException.fromNativeError(error);
@@ -2429,13 +3767,7 @@ export async function reverseLetterbox(
   boxes: BoundingBox[],
   options: ReverseLetterboxOptions
 ): Promise<ReverseLetterboxResult> {
-  if (!boxes || !Array.isArray(boxes)) {
-    throw new VisionUtilsException(
-      'INVALID_INPUT',
-      'Boxes must be an array of bounding boxes'
-    );
-  }
-
+  validateBoxes(boxes);
   if (options.scale <= 0) {
     throw new VisionUtilsException('INVALID_SCALE', 'Scale must be positive');
   }
@@ -2499,7 +3831,11 @@ export async function drawBoxes(
   };
 
   try {
-    const result = await VisionUtils.drawBoxes(source, boxes, opts);
+    const result = await VisionUtils.drawBoxes(
+      serializeSource(source),
+      boxes,
+      opts
+    );
     return result as DrawResult;
   } catch (error) {
     throw VisionUtilsException.fromNativeError(error);
@@ -2561,7 +3897,11 @@ export async function drawKeypoints(
   };
 
   try {
-    const result = await VisionUtils.drawKeypoints(source, keypoints, opts);
+    const result = await VisionUtils.drawKeypoints(
+      serializeSource(source),
+      keypoints,
+      opts
+    );
     return result as KeypointsDrawResult;
   } catch (error) {
     throw VisionUtilsException.fromNativeError(error);
@@ -2629,7 +3969,11 @@ export async function overlayMask(
   };
 
   try {
-    const result = await VisionUtils.overlayMask(source, mask, opts);
+    const result = await VisionUtils.overlayMask(
+      serializeSource(source),
+      mask,
+      opts
+    );
     return result as DrawResult;
   } catch (error) {
     throw VisionUtilsException.fromNativeError(error);
@@ -2697,7 +4041,11 @@ export async function overlayHeatmap(
   };
 
   try {
-    const result = await VisionUtils.overlayHeatmap(source, heatmap, opts);
+    const result = await VisionUtils.overlayHeatmap(
+      serializeSource(source),
+      heatmap,
+      opts
+    );
     return result as DrawResult;
   } catch (error) {
     throw VisionUtilsException.fromNativeError(error);
@@ -2750,7 +4098,7 @@ export async function detectBlur(
   };
 
   try {
-    const result = await VisionUtils.detectBlur(source, opts);
+    const result = await VisionUtils.detectBlur(serializeSource(source), opts);
     return result as BlurDetectionResult;
   } catch (error) {
     throw VisionUtilsException.fromNativeError(error);
@@ -2935,7 +4283,7 @@ export async function extractGrid(
 
   try {
     const result = await VisionUtils.extractGrid(
-      source,
+      serializeSource(source),
       opts,
       preparedPixelOptions
     );
@@ -2989,9 +4337,10 @@ export async function randomCrop(
       'Crop width and height must be at least 1'
     );
   }
+  validateAnnotations(cropOptions);
 
   const opts = {
-    ...cropOptions,
+    ...withoutAnnotations(cropOptions),
     count: cropOptions.count ?? 1,
     seed: cropOptions.seed ?? Math.floor(Math.random() * 2147483647),
   };
@@ -3002,12 +4351,28 @@ export async function randomCrop(
   });
 
   try {
-    const result = await VisionUtils.randomCrop(
-      source,
+    const result = (await VisionUtils.randomCrop(
+      serializeSource(source),
       opts,
       preparedPixelOptions
-    );
-    return result as RandomCropResult;
+    )) as RandomCropResult;
+    if (!hasAnnotations(cropOptions)) {
+      return result;
+    }
+    return {
+      ...result,
+      crops: result.crops.map((crop) => ({
+        ...crop,
+        ...transformAnnotations(
+          cropOptions,
+          [1, 0, -crop.x, 0, 1, -crop.y, 0, 0, 1],
+          result.originalWidth,
+          result.originalHeight,
+          crop.width,
+          crop.height
+        ),
+      })),
+    };
   } catch (error) {
     throw VisionUtilsException.fromNativeError(error);
   }
@@ -3250,3 +4615,6692 @@ export function assembleBatch(
     processingTimeMs,
   };
 }
+
+// =============================================================================
+// YOLO Output Decoding API
+// =============================================================================
+
+const DEFAULT_YOLO_SCORE_THRESHOLD = 0.25;
+const DEFAULT_YOLO_INPUT_SIZE = 640;
+const DEFAULT_YOLO_SEG_MASKS = 32;
+
+/**
+ * Convert a center-format box to the requested output format
+ */
+function fromCxcywh(
+  cx: number,
+  cy: number,
+  w: number,
+  h: number,
+  format: BoxFormat
+): BoundingBox {
+  switch (format) {
+    case 'cxcywh':
+      return [cx, cy, w, h];
+    case 'xywh':
+      return [cx - w / 2, cy - h / 2, w, h];
+    case 'xyxy':
+    default:
+      return [cx - w / 2, cy - h / 2, cx + w / 2, cy + h / 2];
+  }
+}
+
+/**
+ * Validate options.batchIndex against the batch size; defaults to 0
+ */
+function resolveBatchIndex(
+  batchIndex: number | undefined,
+  batchSize: number
+): number {
+  const index = batchIndex ?? 0;
+  if (!Number.isInteger(index) || index < 0 || index >= batchSize) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `batchIndex ${index} is out of range for batch size ${batchSize}`
+    );
+  }
+  return index;
+}
+
+/**
+ * Decode a raw YOLO detection output tensor into detections
+ *
+ * Handles YOLOv5/v7 heads (with objectness) and YOLOv8/v11 heads (anchor-free),
+ * in either [attributes, candidates] or [candidates, attributes] layout.
+ * Applies the score threshold and per-candidate class argmax; the result is
+ * intended to be passed straight into nonMaxSuppression.
+ *
+ * Boxes are returned in model input pixel space (e.g. 640x640). Use
+ * reverseLetterbox to map them back to the original image.
+ *
+ * @param tensor - Raw model output as flat array
+ * @param shape - Output tensor shape, e.g. [1, 84, 8400] or [1, 25200, 85]
+ * @param options - Decoding options (version, layout, thresholds, box format)
+ * @returns Decoded detections sorted by score
+ *
+ * @example
+ * // YOLOv8 output [1, 84, 8400]
+ * const output = await model.run(input);
+ * const { detections } = decodeYoloOutput(output, [1, 84, 8400], {
+ *   modelPreset: 'yolov8',
+ *   scoreThreshold: 0.3,
+ * });
+ * const nms = await nonMaxSuppression(detections, { iouThreshold: 0.45 });
+ *
+ * @example
+ * // YOLOv5 output [1, 25200, 85]
+ * const { detections } = decodeYoloOutput(output, [1, 25200, 85], {
+ *   version: 'v5',
+ *   outputFormat: 'xywh',
+ * });
+ */
+export function decodeYoloOutput(
+  tensor: number[] | Float32Array,
+  shape: number[],
+  options: YoloDecodeOptions = {}
+): YoloDecodeResult {
+  const startTime = performance.now();
+
+  if (!tensor || tensor.length === 0) {
+    throw new VisionUtilsException('INVALID_INPUT', 'Tensor cannot be empty');
+  }
+
+  if (!Array.isArray(shape) || shape.length < 2 || shape.length > 3) {
+    throw new VisionUtilsException(
+      'INVALID_INPUT',
+      'Shape must be [attributes, candidates] or [batch, attributes, candidates] (either order)'
+    );
+  }
+
+  const expectedSize = shape.reduce((a, b) => a * b, 1);
+  if (tensor.length !== expectedSize) {
+    throw new VisionUtilsException(
+      'DIMENSION_MISMATCH',
+      `Tensor length ${tensor.length} does not match shape ${shape.join(
+        'x'
+      )} = ${expectedSize}`
+    );
+  }
+
+  const batchSize = shape.length === 3 ? shape[0]! : 1;
+  const batchIndex = resolveBatchIndex(options.batchIndex, batchSize);
+
+  const preset = options.modelPreset
+    ? resolveModelPreset(options.modelPreset)
+    : undefined;
+  const numMasks =
+    options.numMasks ??
+    (preset?.decoder === 'yolov8-seg' ? DEFAULT_YOLO_SEG_MASKS : 0);
+  if (!Number.isInteger(numMasks) || numMasks < 0) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'numMasks must be a non-negative integer'
+    );
+  }
+
+  const dimA = shape[shape.length - 2]!;
+  const dimB = shape[shape.length - 1]!;
+
+  // Resolve layout: the attribute dimension is usually much smaller
+  let layout = options.layout ?? 'auto';
+  if (layout === 'auto') {
+    layout = dimA <= dimB ? 'attributes-first' : 'candidates-first';
+  }
+  const numAttributes = layout === 'attributes-first' ? dimA : dimB;
+  const numCandidates = layout === 'attributes-first' ? dimB : dimA;
+
+  // Resolve head version
+  const presetVersion =
+    preset?.decoder === 'yolov5'
+      ? 'v5'
+      : preset?.decoder === 'yolov8' || preset?.decoder === 'yolov8-seg'
+      ? 'v8'
+      : undefined;
+  let version = options.version ?? 'auto';
+  if (version === 'auto') {
+    if (options.numClasses !== undefined) {
+      version =
+        numAttributes === options.numClasses + numMasks + 5 ? 'v5' : 'v8';
+    } else if (presetVersion) {
+      version = presetVersion;
+    } else if (layout === 'candidates-first') {
+      // A transposed v8 head ([candidates, 4 + nc]) looks just like a v5 one
+      throw new VisionUtilsException(
+        'INVALID_OPTIONS',
+        'Cannot tell a v5 from a v8 head in a candidates-first tensor; pass version, numClasses or modelPreset'
+      );
+    } else {
+      // v8/v11 exports are [4 + nc, candidates]
+      version = 'v8';
+    }
+  }
+
+  const classOffset = version === 'v5' ? 5 : 4;
+  const numClasses =
+    options.numClasses ?? numAttributes - classOffset - numMasks;
+  if (numClasses < 1 || numAttributes !== classOffset + numClasses + numMasks) {
+    throw new VisionUtilsException(
+      'DIMENSION_MISMATCH',
+      `Attribute dimension ${numAttributes} does not match a ${version} head with ${numClasses} classes and ${numMasks} mask coefficients (expected ${
+        classOffset + numClasses + numMasks
+      })`
+    );
+  }
+  const maskOffset = classOffset + numClasses;
+
+  const scoreThreshold = options.scoreThreshold ?? DEFAULT_YOLO_SCORE_THRESHOLD;
+  const objectnessThreshold = options.objectnessThreshold ?? scoreThreshold;
+  const format = options.outputFormat ?? preset?.boxFormat ?? 'xyxy';
+
+  let scaleX = 1;
+  let scaleY = 1;
+  if (options.normalizedCoordinates) {
+    const presetSize = preset?.resize;
+    scaleX = options.inputWidth ?? presetSize?.width ?? DEFAULT_YOLO_INPUT_SIZE;
+    scaleY =
+      options.inputHeight ?? presetSize?.height ?? DEFAULT_YOLO_INPUT_SIZE;
+  }
+
+  const batchOffset = batchIndex * numAttributes * numCandidates;
+  const at =
+    layout === 'attributes-first'
+      ? (candidate: number, attribute: number) =>
+          tensor[batchOffset + attribute * numCandidates + candidate] ?? 0
+      : (candidate: number, attribute: number) =>
+          tensor[batchOffset + candidate * numAttributes + attribute] ?? 0;
+
+  const detections: Detection[] = [];
+
+  for (let i = 0; i < numCandidates; i++) {
+    let objectness = 1;
+    if (version === 'v5') {
+      objectness = at(i, 4);
+      if (objectness < objectnessThreshold) continue;
+    }
+
+    let bestClass = 0;
+    let bestScore = -Infinity;
+    for (let c = 0; c < numClasses; c++) {
+      const classScore = at(i, classOffset + c);
+      if (classScore > bestScore) {
+        bestScore = classScore;
+        bestClass = c;
+      }
+    }
+
+    const score = bestScore * objectness;
+    if (score < scoreThreshold) continue;
+
+    const detection: Detection = {
+      box: fromCxcywh(
+        at(i, 0) * scaleX,
+        at(i, 1) * scaleY,
+        at(i, 2) * scaleX,
+        at(i, 3) * scaleY,
+        format
+      ),
+      score,
+      classIndex: bestClass,
+    };
+    if (numMasks > 0) {
+      detection.maskCoefficients = Array.from({ length: numMasks }, (_, k) =>
+        at(i, maskOffset + k)
+      );
+    }
+    detections.push(detection);
+  }
+
+  detections.sort((a, b) => b.score - a.score);
+  if (options.maxCandidates !== undefined && options.maxCandidates >= 0) {
+    detections.length = Math.min(detections.length, options.maxCandidates);
+  }
+
+  const processingTimeMs = performance.now() - startTime;
+
+  return {
+    detections,
+    format,
+    version,
+    numClasses,
+    candidateCount: numCandidates,
+    processingTimeMs,
+  };
+}
+
+// =============================================================================
+// Detection Pipeline API
+// =============================================================================
+
+/**
+ * Create an end-to-end object detection pipeline
+ *
+ * Owns the full detection flow: letterbox → getPixelData → inference
+ * callback → decodeYoloOutput → nonMaxSuppression → reverseLetterbox →
+ * getLabel. The LetterboxInfo produced during preprocessing is the one used
+ * to restore boxes, so the coordinate round trip stays consistent.
+ *
+ * @param options - Pipeline options including the inference callback
+ * @returns Detection pipeline with detect() and postprocess()
+ *
+ * @example
+ * const pipeline = createDetectionPipeline({
+ *   preset: 'yolov8',
+ *   dataset: 'coco',
+ *   runModel: async (input) => {
+ *     const output = await model.run([input.data]);
+ *     return { data: output[0], shape: [1, 84, 8400] };
+ *   },
+ *   nms: { iouThreshold: 0.45 },
+ * });
+ *
+ * const { detections } = await pipeline.detect({ type: 'file', value: path });
+ * // [{ box: [x1, y1, x2, y2], score: 0.91, classIndex: 0, label: 'person' }, ...]
+ */
+export function createDetectionPipeline(
+  options: DetectionPipelineOptions
+): DetectionPipeline {
+  if (!options || typeof options.runModel !== 'function') {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'runModel must be a function returning the raw model output'
+    );
+  }
+
+  const preset = options.preset ?? 'yolov8';
+  const presetConfig = resolveModelPreset(preset);
+  if (
+    presetConfig?.decoder !== 'yolov5' &&
+    presetConfig?.decoder !== 'yolov8'
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Unsupported detection preset: ${preset}. Must be a preset with a yolov5 or yolov8 decoder`
+    );
+  }
+
+  const dataset = options.dataset ?? presetConfig.labels ?? 'coco';
+  const includeLabels = options.includeLabels ?? true;
+  const format =
+    options.decode?.outputFormat ?? presetConfig.boxFormat ?? 'xyxy';
+
+  const letterboxOptions: LetterboxOptions = {
+    ...options.letterbox,
+    targetWidth: options.letterbox?.targetWidth ?? presetConfig.resize.width,
+    targetHeight: options.letterbox?.targetHeight ?? presetConfig.resize.height,
+  };
+
+  const postprocess = async (
+    output: DetectionModelOutput,
+    letterboxInfo: LetterboxInfo
+  ): Promise<Detection[]> => {
+    const decoded = decodeYoloOutput(output.data, output.shape, {
+      inputWidth: letterboxOptions.targetWidth,
+      inputHeight: letterboxOptions.targetHeight,
+      ...options.decode,
+      modelPreset: preset,
+      outputFormat: format,
+    });
+
+    if (decoded.detections.length === 0) {
+      return [];
+    }
+
+    const nms = await nonMaxSuppression(decoded.detections, {
+      ...options.nms,
+      format,
+    });
+
+    if (nms.detections.length === 0) {
+      return [];
+    }
+
+    const restored = await reverseLetterbox(
+      nms.detections.map((d) => d.box),
+      {
+        scale: letterboxInfo.scale,
+        offset: letterboxInfo.offset,
+        originalSize: letterboxInfo.originalSize,
+        format,
+        clip: options.clip ?? true,
+      }
+    );
+
+    const labels = new Map<number, string>();
+    if (includeLabels) {
+      const classIndices = new Set<number>();
+      for (const detection of nms.detections) {
+        if (detection.classIndex !== undefined) {
+          classIndices.add(detection.classIndex);
+        }
+      }
+      await Promise.all(
+        Array.from(classIndices).map(async (classIndex) => {
+          const label = await getLabel(classIndex, dataset);
+          labels.set(
+            classIndex,
+            typeof label === 'string' ? label : label.name
+          );
+        })
+      );
+    }
+
+    return nms.detections.map((detection, i) => {
+      const label =
+        detection.classIndex !== undefined
+          ? labels.get(detection.classIndex)
+          : undefined;
+      return {
+        ...detection,
+        box: restored.boxes[i] ?? detection.box,
+        ...(label !== undefined ? { label } : {}),
+      };
+    });
+  };
+
+  const detect = async (
+    source: ImageSource
+  ): Promise<DetectionPipelineResult> => {
+    const startTime = performance.now();
+
+    const lb = await letterbox(source, letterboxOptions);
+    const input = await getPixelData({
+      source: { type: 'base64', value: lb.imageBase64 },
+      colorFormat: presetConfig.colorFormat,
+      normalization: presetConfig.normalization,
+      dataLayout: presetConfig.dataLayout,
+      ...options.pixelOptions,
+    });
+    const preprocessEnd = performance.now();
+
+    const output = await options.runModel(input, lb.letterboxInfo);
+    const inferenceEnd = performance.now();
+
+    const detections = await postprocess(output, lb.letterboxInfo);
+    const endTime = performance.now();
+
+    return {
+      detections,
+      format,
+      letterboxInfo: lb.letterboxInfo,
+      timing: {
+        preprocessMs: preprocessEnd - startTime,
+        inferenceMs: inferenceEnd - preprocessEnd,
+        postprocessMs: endTime - inferenceEnd,
+      },
+      processingTimeMs: endTime - startTime,
+    };
+  };
+
+  return { detect, postprocess };
+}
+
+// =============================================================================
+// Edge Detection API
+// =============================================================================
+
+/**
+ * Validates edge detection options
+ */
+function validateEdgeDetection(options: EdgeDetectionOptions): void {
+  if (!options) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'Edge detection options are required'
+    );
+  }
+
+  const validTypes = ['sobel', 'canny', 'laplacian'];
+  if (!validTypes.includes(options.type)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid edge detection type: ${
+        options.type
+      }. Must be one of: ${validTypes.join(', ')}`
+    );
+  }
+
+  const low = options.lowThreshold ?? 50;
+  const high = options.highThreshold ?? 150;
+  if (low < 0 || high < 0) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'Canny thresholds must be non-negative'
+    );
+  }
+  if (low > high) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'lowThreshold must be less than or equal to highThreshold'
+    );
+  }
+
+  if (options.outputAsChannel && options.outputFormat === 'base64') {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      "outputAsChannel requires outputFormat 'tensor'"
+    );
+  }
+
+  validateResize(options.resize);
+}
+
+/**
+ * Append a single-channel map to native pixel data, respecting its layout
+ */
+function appendChannel(
+  result: Record<string, unknown>,
+  channel: number[]
+): Record<string, unknown> {
+  const data = readNativeFloats(result, 'data');
+  const channels = result.channels as number;
+  const layout = (result.dataLayout as DataLayout) || DEFAULT_DATA_LAYOUT;
+  const pixelCount = channel.length;
+  const outChannels = channels + 1;
+
+  const merged = new Float32Array(pixelCount * outChannels);
+  if (layout === 'chw' || layout === 'nchw') {
+    merged.set(data);
+    merged.set(channel, pixelCount * channels);
+  } else {
+    for (let p = 0; p < pixelCount; p++) {
+      for (let c = 0; c < channels; c++) {
+        merged[p * outChannels + c] = data[p * channels + c] ?? 0;
+      }
+      merged[p * outChannels + channels] = channel[p] ?? 0;
+    }
+  }
+
+  const shape = [...(result.shape as number[])];
+  const channelAxis =
+    layout === 'chw' ? 0 : layout === 'nchw' ? 1 : shape.length - 1;
+  shape[channelAxis] = outChannels;
+
+  // The merged data replaces the packed buffer
+  const appended: Record<string, unknown> = {
+    ...result,
+    data: merged,
+    channels: outChannels,
+    shape,
+  };
+  delete appended.dataBufferId;
+  delete appended.dataBase64;
+  delete appended.dataType;
+  return appended;
+}
+
+/**
+ * Detect edges in an image
+ *
+ * Computes a Sobel gradient magnitude, Canny edge map, or Laplacian response
+ * on the grayscale image. Sobel and Laplacian maps are scaled to [0, 1];
+ * Canny output is binary. With outputAsChannel, the edge map is computed on
+ * the same resized/cropped image as getPixelData and appended as an extra
+ * channel to its result (e.g. RGB → RGB+edge).
+ *
+ * @param source - Image source
+ * @param options - Edge detection options
+ * @param pixelOptions - Pixel data options used with outputAsChannel
+ * @returns Promise resolving to the edge map
+ *
+ * @example
+ * // Canny edge map as base64 for display
+ * const edges = await detectEdges(source, {
+ *   type: 'canny',
+ *   lowThreshold: 50,
+ *   highThreshold: 150,
+ *   outputFormat: 'base64',
+ * });
+ *
+ * @example
+ * // RGB + Sobel channel for a document scanning model
+ * const { pixelData } = await detectEdges(
+ *   source,
+ *   { type: 'sobel', outputAsChannel: true },
+ *   { resize: { width: 256, height: 256 }, dataLayout: 'nchw' }
+ * );
+ * // pixelData.shape = [1, 4, 256, 256]
+ */
+export async function detectEdges(
+  source: ImageSource,
+  options: EdgeDetectionOptions,
+  pixelOptions: Omit<GetPixelDataOptions, 'source'> = {}
+): Promise<EdgeDetectionResult> {
+  try {
+    validateSource(source);
+    validateEdgeDetection(options);
+
+    const edgeOptions = {
+      type: options.type,
+      lowThreshold: options.lowThreshold ?? 50,
+      highThreshold: options.highThreshold ?? 150,
+      outputFormat: options.outputFormat ?? 'tensor',
+    };
+
+    if (!options.outputAsChannel) {
+      const result = await VisionUtils.detectEdges(serializeSource(source), {
+        ...edgeOptions,
+        resize: options.resize,
+        roi: options.roi,
+      });
+      return result as EdgeDetectionResult;
+    }
+
+    const pixelRequest: GetPixelDataOptions = { ...pixelOptions, source };
+    validateOptions(pixelRequest);
+    const prepared = prepareOptions(pixelRequest);
+
+    const edges = (await VisionUtils.detectEdges(serializeSource(source), {
+      ...edgeOptions,
+      resize: prepared.resize,
+      roi: prepared.roi,
+    })) as EdgeDetectionResult;
+    const pixels = (await VisionUtils.getPixelData({
+      ...prepared,
+      source: serializeSource(source),
+    })) as Record<string, unknown>;
+
+    if (edges.width !== pixels.width || edges.height !== pixels.height) {
+      throw new VisionUtilsException(
+        'DIMENSION_MISMATCH',
+        `Edge map size ${edges.width}x${edges.height} does not match pixel data size ${pixels.width}x${pixels.height}`
+      );
+    }
+
+    return {
+      ...edges,
+      pixelData: convertOutputFormat(
+        appendChannel(pixels, edges.data ?? []),
+        prepared.outputFormat
+      ),
+    };
+  } catch (error) {
+    throw VisionUtilsException.fromNativeError(error);
+  }
+}
+
+// =============================================================================
+// Padding API
+// =============================================================================
+
+const PADDING_MODES: PaddingMode[] = [
+  'constant',
+  'reflect',
+  'replicate',
+  'circular',
+];
+
+/**
+ * Validate padding options and normalize the size to [top, right, bottom, left]
+ */
+function resolvePaddingSize(
+  options: PaddingOptions
+): [number, number, number, number] {
+  if (!options || !PADDING_MODES.includes(options.mode)) {
+    throw new VisionUtilsException(
+      'INVALID_PADDING',
+      `Padding mode must be one of: ${PADDING_MODES.join(', ')}`
+    );
+  }
+
+  const size = options.size ?? 0;
+  const sides: [number, number, number, number] =
+    typeof size === 'number' ? [size, size, size, size] : size;
+
+  if (
+    !Array.isArray(sides) ||
+    sides.length !== 4 ||
+    sides.some((side) => !Number.isInteger(side) || side < 0)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_PADDING',
+      'Padding size must be a non-negative integer or [top, right, bottom, left]'
+    );
+  }
+
+  if (
+    options.multipleOf !== undefined &&
+    (!Number.isInteger(options.multipleOf) || options.multipleOf < 1)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_PADDING',
+      'multipleOf must be a positive integer'
+    );
+  }
+
+  if (
+    options.value !== undefined &&
+    (!Array.isArray(options.value) ||
+      options.value.some((v) => typeof v !== 'number' || !isFinite(v)))
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_PADDING',
+      'Padding value must be an array of numbers'
+    );
+  }
+
+  return [...sides];
+}
+
+/**
+ * Map an out-of-range index back into [0, length) for the given padding mode.
+ * Returns -1 for 'constant' padding.
+ */
+function padSourceIndex(
+  index: number,
+  length: number,
+  mode: PaddingMode
+): number {
+  if (index >= 0 && index < length) {
+    return index;
+  }
+
+  switch (mode) {
+    case 'replicate':
+      return index < 0 ? 0 : length - 1;
+    case 'circular':
+      return ((index % length) + length) % length;
+    case 'reflect': {
+      if (length === 1) return 0;
+      const period = 2 * (length - 1);
+      const m = ((index % period) + period) % period;
+      return m < length ? m : period - m;
+    }
+    case 'constant':
+    default:
+      return -1;
+  }
+}
+
+/**
+ * Pad the spatial dimensions of a tensor
+ *
+ * Supports constant, reflect, replicate and circular padding with asymmetric
+ * [top, right, bottom, left] sizes. Use `multipleOf` to pad height and width
+ * up to a stride multiple without resizing (padding goes to bottom/right, so
+ * coordinates in the original tensor are unchanged).
+ *
+ * @param data - Tensor data as flat array
+ * @param shape - Tensor shape matching the layout, e.g. [H, W, C] or [N, C, H, W]
+ * @param layout - Data layout of the tensor
+ * @param options - Padding options
+ * @returns Padded tensor with its new shape and the padding applied
+ *
+ * @example
+ * // Pad a 3x500x375 CHW tensor to 512x384 for a stride-32 segmentation model
+ * const padded = padTensor(result.data, [3, 500, 375], 'chw', {
+ *   mode: 'constant',
+ *   multipleOf: 32,
+ * });
+ * // padded.shape => [3, 512, 384]
+ *
+ * @example
+ * // Reflect padding, 2px top/bottom and 4px left/right
+ * const padded = padTensor(data, [224, 224, 3], 'hwc', {
+ *   mode: 'reflect',
+ *   size: [2, 4, 2, 4],
+ * });
+ */
+export function padTensor(
+  data: number[] | Float32Array,
+  shape: number[],
+  layout: DataLayout,
+  options: PaddingOptions
+): PadTensorResult {
+  const startTime = performance.now();
+
+  const batched = layout === 'nhwc' || layout === 'nchw';
+  const channelsFirst = layout === 'chw' || layout === 'nchw';
+  if (!['hwc', 'chw', 'nhwc', 'nchw'].includes(layout)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Unsupported data layout: ${layout}`
+    );
+  }
+
+  if (
+    !Array.isArray(shape) ||
+    shape.length !== (batched ? 4 : 3) ||
+    shape.some((dim) => !Number.isInteger(dim) || dim < 1)
+  ) {
+    throw new VisionUtilsException(
+      'DIMENSION_MISMATCH',
+      `Shape must have ${
+        batched ? 4 : 3
+      } positive dimensions for '${layout}' layout`
+    );
+  }
+
+  const dims = batched ? shape : [1, ...shape];
+  const [batch, height, width, channels] = (
+    channelsFirst ? [dims[0], dims[2], dims[3], dims[1]] : dims
+  ) as [number, number, number, number];
+
+  if (!data || data.length !== batch * height * width * channels) {
+    throw new VisionUtilsException(
+      'DIMENSION_MISMATCH',
+      `Data length ${data?.length ?? 0} does not match shape [${shape.join(
+        ', '
+      )}]`
+    );
+  }
+
+  const padding = resolvePaddingSize(options);
+  const multipleOf = options.multipleOf ?? 1;
+  const paddedHeight = padding[0] + height + padding[2];
+  const paddedWidth = padding[3] + width + padding[1];
+  padding[2] += (multipleOf - (paddedHeight % multipleOf)) % multipleOf;
+  padding[1] += (multipleOf - (paddedWidth % multipleOf)) % multipleOf;
+
+  const [top, right, bottom, left] = padding;
+  const outHeight = top + height + bottom;
+  const outWidth = left + width + right;
+
+  // Strides for (batch, y, x, channel) in the source and output tensors
+  const strides = (h: number, w: number) =>
+    channelsFirst
+      ? [channels * h * w, w, 1, h * w]
+      : [h * w * channels, w * channels, channels, 1];
+  const [srcN, srcY, srcX, srcC] = strides(height, width) as [
+    number,
+    number,
+    number,
+    number
+  ];
+  const [dstN, dstY, dstX, dstC] = strides(outHeight, outWidth) as [
+    number,
+    number,
+    number,
+    number
+  ];
+
+  const fill = Array.from(
+    { length: channels },
+    (_, c) => options.value?.[c] ?? options.value?.[0] ?? 0
+  );
+  const output = new Array<number>(batch * outHeight * outWidth * channels);
+
+  for (let n = 0; n < batch; n++) {
+    for (let y = 0; y < outHeight; y++) {
+      const sy = padSourceIndex(y - top, height, options.mode);
+      for (let x = 0; x < outWidth; x++) {
+        const sx = padSourceIndex(x - left, width, options.mode);
+        const dstBase = n * dstN + y * dstY + x * dstX;
+        if (sy < 0 || sx < 0) {
+          for (let c = 0; c < channels; c++) {
+            output[dstBase + c * dstC] = fill[c] as number;
+          }
+        } else {
+          const srcBase = n * srcN + sy * srcY + sx * srcX;
+          for (let c = 0; c < channels; c++) {
+            output[dstBase + c * dstC] = data[srcBase + c * srcC] as number;
+          }
+        }
+      }
+    }
+  }
+
+  const outShape = channelsFirst
+    ? [channels, outHeight, outWidth]
+    : [outHeight, outWidth, channels];
+
+  return {
+    data: output,
+    shape: batched ? [batch, ...outShape] : outShape,
+    padding,
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+/**
+ * Pad an image with constant, reflect, replicate or circular borders
+ *
+ * Unlike letterbox, the image is never resized. Use `multipleOf` to pad the
+ * bottom/right edges so the output dimensions satisfy a model's stride.
+ *
+ * @param source - Image source
+ * @param options - Padding options
+ * @returns Promise resolving to the padded image and the padding applied
+ *
+ * @example
+ * // Pad to multiples of 32 for a segmentation model
+ * const padded = await padImage(source, { mode: 'constant', multipleOf: 32 });
+ *
+ * @example
+ * // Asymmetric reflect padding [top, right, bottom, left]
+ * const padded = await padImage(source, {
+ *   mode: 'reflect',
+ *   size: [10, 0, 10, 0],
+ * });
+ */
+export async function padImage(
+  source: ImageSource,
+  options: PaddingOptions
+): Promise<PadImageResult> {
+  validateSource(source);
+
+  try {
+    const opts = {
+      mode: options.mode,
+      value: options.value ?? DEFAULT_PAD_COLOR,
+      padding: resolvePaddingSize(options),
+      multipleOf: options.multipleOf ?? 1,
+    };
+    const result = await VisionUtils.padImage(serializeSource(source), opts);
+    return result as PadImageResult;
+  } catch (error) {
+    throw VisionUtilsException.fromNativeError(error);
+  }
+}
+
+// =============================================================================
+// Segmentation Decoding API
+// =============================================================================
+
+const DEFAULT_SEGMENTATION_THRESHOLD = 0.5;
+
+/**
+ * Decode raw semantic segmentation logits into a class-index mask
+ *
+ * Takes the model's `[1, C, H, W]` (or NHWC) output, applies channel argmax
+ * (softmax) or a sigmoid threshold (binary, single channel), and resizes the
+ * mask back to the source image. When `letterboxInfo` is given, letterbox
+ * padding is removed and the mask is mapped to the original image size.
+ *
+ * The mask is ready for `overlayMask(source, mask, { maskWidth: width,
+ * maskHeight: height, isClassMask: true })`.
+ *
+ * @param logits - Raw model output as flat array
+ * @param shape - Output tensor shape, e.g. [1, 150, 128, 128]
+ * @param options - Decoding options (layout, activation, resize-back, labels)
+ * @returns Promise resolving to the class mask and per-class pixel areas
+ *
+ * @example
+ * // SegFormer (ADE20K) output [1, 150, 128, 128] on a letterboxed input
+ * const lb = await letterbox(source, { targetWidth: 512, targetHeight: 512 });
+ * const logits = await model.run(input);
+ * const seg = await decodeSegmentation(logits, [1, 150, 128, 128], {
+ *   letterboxInfo: lb.letterboxInfo,
+ *   dataset: 'ade20k',
+ * });
+ * await overlayMask(source, seg.mask, {
+ *   maskWidth: seg.width,
+ *   maskHeight: seg.height,
+ *   isClassMask: true,
+ * });
+ *
+ * @example
+ * // Binary person segmentation [1, 1, 256, 256]
+ * const seg = await decodeSegmentation(output, [1, 1, 256, 256], {
+ *   outputSize: [imageWidth, imageHeight],
+ *   includeConfidence: true,
+ * });
+ */
+export async function decodeSegmentation(
+  logits: number[] | Float32Array,
+  shape: number[],
+  options: SegmentationDecodeOptions = {}
+): Promise<SegmentationResult> {
+  const startTime = performance.now();
+
+  if (!logits || logits.length === 0) {
+    throw new VisionUtilsException('INVALID_INPUT', 'Logits cannot be empty');
+  }
+
+  const layout = options.layout ?? 'nchw';
+  const batched = layout === 'nchw' || layout === 'nhwc';
+  const channelsFirst = layout === 'nchw' || layout === 'chw';
+  if (!['hwc', 'chw', 'nhwc', 'nchw'].includes(layout)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Unsupported data layout: ${layout}`
+    );
+  }
+
+  if (
+    !Array.isArray(shape) ||
+    shape.length !== (batched ? 4 : 3) ||
+    shape.some((dim) => !Number.isInteger(dim) || dim < 1)
+  ) {
+    throw new VisionUtilsException(
+      'DIMENSION_MISMATCH',
+      `Shape must have ${
+        batched ? 4 : 3
+      } positive dimensions for '${layout}' layout`
+    );
+  }
+
+  const dims = batched ? shape : [1, ...shape];
+  const [batch, numClasses, height, width] = (
+    channelsFirst ? dims : [dims[0], dims[3], dims[1], dims[2]]
+  ) as [number, number, number, number];
+
+  if (logits.length !== batch * numClasses * height * width) {
+    throw new VisionUtilsException(
+      'DIMENSION_MISMATCH',
+      `Logits length ${logits.length} does not match shape [${shape.join(
+        ', '
+      )}]`
+    );
+  }
+
+  const batchIndex = resolveBatchIndex(options.batchIndex, batch);
+
+  const activation =
+    options.activation ?? (numClasses === 1 ? 'sigmoid' : 'softmax');
+  if (activation === 'sigmoid' && numClasses !== 1) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Sigmoid activation expects a single channel, got ${numClasses}`
+    );
+  }
+  const threshold = options.threshold ?? DEFAULT_SEGMENTATION_THRESHOLD;
+
+  // Map output pixel centers to logits coordinates: src = (out + 0.5) * k + b - 0.5
+  const { letterboxInfo } = options;
+  let baseWidth = width;
+  let baseHeight = height;
+  let kx = 1;
+  let ky = 1;
+  let bx = 0;
+  let by = 0;
+  if (letterboxInfo) {
+    const [lbWidth, lbHeight] = letterboxInfo.letterboxedSize;
+    [baseWidth, baseHeight] = letterboxInfo.originalSize;
+    kx = (letterboxInfo.scale * width) / lbWidth;
+    ky = (letterboxInfo.scale * height) / lbHeight;
+    bx = (letterboxInfo.offset[0] * width) / lbWidth;
+    by = (letterboxInfo.offset[1] * height) / lbHeight;
+  }
+
+  const [outWidth, outHeight] = options.outputSize ?? [baseWidth, baseHeight];
+  if (
+    !Number.isInteger(outWidth) ||
+    !Number.isInteger(outHeight) ||
+    outWidth < 1 ||
+    outHeight < 1
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'outputSize must be positive integers [width, height]'
+    );
+  }
+  kx *= baseWidth / outWidth;
+  ky *= baseHeight / outHeight;
+
+  const batchOffset = batchIndex * numClasses * height * width;
+  const pixelStride = channelsFirst ? 1 : numClasses;
+  const classStride = channelsFirst ? height * width : 1;
+  const valueAt = (c: number, y: number, x: number) =>
+    logits[
+      batchOffset + c * classStride + (y * width + x) * pixelStride
+    ] as number;
+
+  const bilinear = options.interpolation === 'bilinear';
+  const values = new Float64Array(numClasses);
+  const mask = new Array<number>(outWidth * outHeight);
+  const confidence = options.includeConfidence
+    ? new Array<number>(outWidth * outHeight)
+    : undefined;
+  const counts = new Array<number>(Math.max(numClasses, 2)).fill(0);
+
+  for (let oy = 0; oy < outHeight; oy++) {
+    const sy = Math.min(Math.max((oy + 0.5) * ky + by - 0.5, 0), height - 1);
+    const y0 = bilinear ? Math.floor(sy) : Math.round(sy);
+    const y1 = Math.min(y0 + 1, height - 1);
+    const wy = sy - y0;
+
+    for (let ox = 0; ox < outWidth; ox++) {
+      const sx = Math.min(Math.max((ox + 0.5) * kx + bx - 0.5, 0), width - 1);
+      const x0 = bilinear ? Math.floor(sx) : Math.round(sx);
+      const x1 = Math.min(x0 + 1, width - 1);
+      const wx = sx - x0;
+
+      for (let c = 0; c < numClasses; c++) {
+        values[c] = bilinear
+          ? (valueAt(c, y0, x0) * (1 - wx) + valueAt(c, y0, x1) * wx) *
+              (1 - wy) +
+            (valueAt(c, y1, x0) * (1 - wx) + valueAt(c, y1, x1) * wx) * wy
+          : valueAt(c, y0, x0);
+      }
+
+      let classIndex: number;
+      let score: number;
+      if (activation === 'sigmoid') {
+        const p = 1 / (1 + Math.exp(-(values[0] as number)));
+        classIndex = p >= threshold ? 1 : 0;
+        score = classIndex === 1 ? p : 1 - p;
+      } else {
+        classIndex = 0;
+        for (let c = 1; c < numClasses; c++) {
+          if ((values[c] as number) > (values[classIndex] as number)) {
+            classIndex = c;
+          }
+        }
+        score = 0;
+        if (confidence) {
+          const max = values[classIndex] as number;
+          let sum = 0;
+          for (let c = 0; c < numClasses; c++) {
+            sum += Math.exp((values[c] as number) - max);
+          }
+          score = 1 / sum;
+        }
+      }
+
+      const idx = oy * outWidth + ox;
+      mask[idx] = classIndex;
+      if (confidence) confidence[idx] = score;
+      counts[classIndex] = (counts[classIndex] as number) + 1;
+    }
+  }
+
+  let labels: string[] | undefined;
+  if (options.dataset) {
+    labels = await getAllLabels(options.dataset);
+  }
+
+  const total = outWidth * outHeight;
+  const classes: SegmentationClassArea[] = [];
+  counts.forEach((pixelCount, classIndex) => {
+    if (pixelCount === 0) return;
+    const area: SegmentationClassArea = {
+      classIndex,
+      pixelCount,
+      fraction: pixelCount / total,
+    };
+    const label = labels?.[classIndex];
+    if (label !== undefined) area.label = label;
+    classes.push(area);
+  });
+  classes.sort((a, b) => b.pixelCount - a.pixelCount);
+
+  const result: SegmentationResult = {
+    mask,
+    width: outWidth,
+    height: outHeight,
+    classes,
+    numClasses,
+    processingTimeMs: performance.now() - startTime,
+  };
+  if (confidence) result.confidence = confidence;
+  return result;
+}
+
+// =============================================================================
+// Instance Segmentation API
+// =============================================================================
+
+/**
+ * Convert a box in the given format to [x1, y1, x2, y2]
+ */
+function toXyxy(
+  box: BoundingBox,
+  format: BoxFormat
+): [number, number, number, number] {
+  const [a, b, c, d] = box;
+  switch (format) {
+    case 'xywh':
+      return [a, b, a + c, b + d];
+    case 'cxcywh':
+      return [a - c / 2, b - d / 2, a + c / 2, b + d / 2];
+    case 'xyxy':
+    default:
+      return [a, b, c, d];
+  }
+}
+
+/**
+ * Decode per-instance binary masks from prototype masks (YOLOv8-seg)
+ *
+ * Each mask is `sigmoid(maskCoefficients · prototypes)`, upsampled from the
+ * prototype resolution and cropped to the instance's box. With
+ * `letterboxInfo`, boxes and masks are mapped back to original image
+ * coordinates using the same parameters as reverseLetterbox.
+ *
+ * @param detections - Post-NMS detections with maskCoefficients, boxes in model input space
+ * @param prototypes - Prototype mask tensor as flat array
+ * @param shape - Prototype tensor shape, e.g. [1, 32, 160, 160]
+ * @param options - Layout, box format, letterbox and threshold options
+ * @returns One binary mask per detection, cropped to its box
+ *
+ * @example
+ * // YOLOv8-seg outputs: [1, 116, 8400] detections and [1, 32, 160, 160] prototypes
+ * const decoded = decodeYoloOutput(output0, [1, 116, 8400], {
+ *   modelPreset: 'yolov8',
+ *   numMasks: 32,
+ * });
+ * const nms = await nonMaxSuppression(decoded.detections, { iouThreshold: 0.45 });
+ * const masks = decodeInstanceMasks(nms.detections, output1, [1, 32, 160, 160], {
+ *   letterboxInfo: lb.letterboxInfo,
+ * });
+ * await overlayInstanceMasks(source, masks, { alpha: 0.5 });
+ */
+export function decodeInstanceMasks(
+  detections: Detection[],
+  prototypes: number[] | Float32Array,
+  shape: number[],
+  options: InstanceMaskOptions = {}
+): InstanceMaskResult {
+  const startTime = performance.now();
+
+  if (!detections || !Array.isArray(detections)) {
+    throw new VisionUtilsException(
+      'INVALID_INPUT',
+      'Detections must be an array'
+    );
+  }
+
+  const layout = options.layout ?? 'nchw';
+  const batched = layout === 'nchw' || layout === 'nhwc';
+  const channelsFirst = layout === 'nchw' || layout === 'chw';
+  if (!['hwc', 'chw', 'nhwc', 'nchw'].includes(layout)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Unsupported data layout: ${layout}`
+    );
+  }
+
+  if (
+    !Array.isArray(shape) ||
+    shape.length !== (batched ? 4 : 3) ||
+    shape.some((dim) => !Number.isInteger(dim) || dim < 1)
+  ) {
+    throw new VisionUtilsException(
+      'DIMENSION_MISMATCH',
+      `Shape must have ${
+        batched ? 4 : 3
+      } positive dimensions for '${layout}' layout`
+    );
+  }
+
+  const dims = batched ? shape : [1, ...shape];
+  const [batch, numMasks, protoHeight, protoWidth] = (
+    channelsFirst ? dims : [dims[0], dims[3], dims[1], dims[2]]
+  ) as [number, number, number, number];
+
+  if (
+    !prototypes ||
+    prototypes.length !== batch * numMasks * protoHeight * protoWidth
+  ) {
+    throw new VisionUtilsException(
+      'DIMENSION_MISMATCH',
+      `Prototype length ${
+        prototypes?.length ?? 0
+      } does not match shape [${shape.join(', ')}]`
+    );
+  }
+
+  const batchIndex = resolveBatchIndex(options.batchIndex, batch);
+
+  const threshold = options.threshold ?? DEFAULT_SEGMENTATION_THRESHOLD;
+  if (threshold <= 0 || threshold >= 1) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'threshold must be between 0 and 1 (exclusive)'
+    );
+  }
+  // Compare logits instead of applying sigmoid to every pixel
+  const logitThreshold = Math.log(threshold / (1 - threshold));
+
+  const { letterboxInfo } = options;
+  const [inputWidth, inputHeight] = options.inputSize ??
+    letterboxInfo?.letterboxedSize ?? [
+      DEFAULT_YOLO_INPUT_SIZE,
+      DEFAULT_YOLO_INPUT_SIZE,
+    ];
+  const scale = letterboxInfo?.scale ?? 1;
+  const [offsetX, offsetY] = letterboxInfo?.offset ?? [0, 0];
+  const [width, height] = letterboxInfo?.originalSize ?? [
+    inputWidth,
+    inputHeight,
+  ];
+
+  // Output pixel coordinate -> prototype coordinate
+  const protoScaleX = protoWidth / inputWidth;
+  const protoScaleY = protoHeight / inputHeight;
+  const toProtoX = (x: number) => (x * scale + offsetX) * protoScaleX - 0.5;
+  const toProtoY = (y: number) => (y * scale + offsetY) * protoScaleY - 0.5;
+
+  const batchOffset = batchIndex * numMasks * protoHeight * protoWidth;
+  const pixelStride = channelsFirst ? 1 : numMasks;
+  const maskStride = channelsFirst ? protoHeight * protoWidth : 1;
+  const format = options.boxFormat ?? 'xyxy';
+
+  const instances = detections.map((detection): InstanceMask => {
+    const coefficients = detection.maskCoefficients;
+    if (!coefficients || coefficients.length !== numMasks) {
+      throw new VisionUtilsException(
+        'DIMENSION_MISMATCH',
+        `Detection has ${
+          coefficients?.length ?? 0
+        } mask coefficients, prototypes have ${numMasks}`
+      );
+    }
+
+    // Box in output coordinates, clipped to the image
+    const [ix1, iy1, ix2, iy2] = toXyxy(detection.box, format);
+    const x1 = Math.min(Math.max((ix1 - offsetX) / scale, 0), width);
+    const y1 = Math.min(Math.max((iy1 - offsetY) / scale, 0), height);
+    const x2 = Math.min(Math.max((ix2 - offsetX) / scale, 0), width);
+    const y2 = Math.min(Math.max((iy2 - offsetY) / scale, 0), height);
+
+    const left = Math.floor(x1);
+    const top = Math.floor(y1);
+    const maskWidth = Math.max(Math.ceil(x2) - left, 0);
+    const maskHeight = Math.max(Math.ceil(y2) - top, 0);
+
+    // Mask logits over the prototype region covered by the box (1px margin)
+    const px0 = Math.max(Math.floor(toProtoX(x1)) - 1, 0);
+    const py0 = Math.max(Math.floor(toProtoY(y1)) - 1, 0);
+    const px1 = Math.min(Math.ceil(toProtoX(x2)) + 1, protoWidth - 1);
+    const py1 = Math.min(Math.ceil(toProtoY(y2)) + 1, protoHeight - 1);
+    const regionWidth = Math.max(px1 - px0 + 1, 1);
+    const regionHeight = Math.max(py1 - py0 + 1, 1);
+    const logits = new Float64Array(regionWidth * regionHeight);
+    for (let py = py0; py <= py1; py++) {
+      for (let px = px0; px <= px1; px++) {
+        const base = batchOffset + (py * protoWidth + px) * pixelStride;
+        let sum = 0;
+        for (let k = 0; k < numMasks; k++) {
+          sum +=
+            (coefficients[k] as number) *
+            (prototypes[base + k * maskStride] as number);
+        }
+        logits[(py - py0) * regionWidth + (px - px0)] = sum;
+      }
+    }
+    const logitAt = (px: number, py: number) =>
+      logits[
+        (Math.min(Math.max(py, py0), py1) - py0) * regionWidth +
+          (Math.min(Math.max(px, px0), px1) - px0)
+      ] as number;
+
+    const mask = new Array<number>(maskWidth * maskHeight).fill(0);
+    let area = 0;
+    for (let my = 0; my < maskHeight; my++) {
+      const cy = top + my + 0.5;
+      if (cy < y1 || cy > y2) continue;
+      const sy = Math.min(Math.max(toProtoY(cy), 0), protoHeight - 1);
+      const sy0 = Math.floor(sy);
+      const wy = sy - sy0;
+
+      for (let mx = 0; mx < maskWidth; mx++) {
+        const cx = left + mx + 0.5;
+        if (cx < x1 || cx > x2) continue;
+        const sx = Math.min(Math.max(toProtoX(cx), 0), protoWidth - 1);
+        const sx0 = Math.floor(sx);
+        const wx = sx - sx0;
+
+        const value =
+          (logitAt(sx0, sy0) * (1 - wx) + logitAt(sx0 + 1, sy0) * wx) *
+            (1 - wy) +
+          (logitAt(sx0, sy0 + 1) * (1 - wx) + logitAt(sx0 + 1, sy0 + 1) * wx) *
+            wy;
+        if (value >= logitThreshold) {
+          mask[my * maskWidth + mx] = 1;
+          area++;
+        }
+      }
+    }
+
+    const instance: InstanceMask = {
+      box: [x1, y1, x2, y2],
+      score: detection.score,
+      mask,
+      maskOrigin: [left, top],
+      maskWidth,
+      maskHeight,
+      area,
+    };
+    if (detection.classIndex !== undefined) {
+      instance.classIndex = detection.classIndex;
+    }
+    if (detection.label !== undefined) instance.label = detection.label;
+    return instance;
+  });
+
+  return {
+    instances,
+    width,
+    height,
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+/**
+ * Render all instance masks on an image through overlayMask
+ *
+ * Instances are painted in order, so later (lower-scoring) instances are
+ * drawn over earlier ones where they overlap.
+ *
+ * @param source - Image source the masks were decoded for
+ * @param result - Result of decodeInstanceMasks
+ * @param options - overlayMask options plus instance or class coloring
+ * @returns Promise resolving to image with mask overlay
+ *
+ * @example
+ * const masks = decodeInstanceMasks(detections, prototypes, [1, 32, 160, 160], {
+ *   letterboxInfo: lb.letterboxInfo,
+ * });
+ * const overlay = await overlayInstanceMasks(source, masks, { colorBy: 'class' });
+ */
+export async function overlayInstanceMasks(
+  source: ImageSource,
+  result: InstanceMaskResult,
+  options: OverlayInstanceMasksOptions = {}
+): Promise<DrawResult> {
+  if (!result || !Array.isArray(result.instances)) {
+    throw new VisionUtilsException(
+      'INVALID_INPUT',
+      'Result must come from decodeInstanceMasks'
+    );
+  }
+
+  const { colorBy = 'instance', ...overlayOptions } = options;
+  const { width, height } = result;
+
+  // Class mask with 0 as background: instance number or class index + 1
+  const combined = new Array<number>(width * height).fill(0);
+  result.instances.forEach((instance, i) => {
+    const value = colorBy === 'class' ? (instance.classIndex ?? 0) + 1 : i + 1;
+    const [left, top] = instance.maskOrigin;
+    for (let my = 0; my < instance.maskHeight; my++) {
+      for (let mx = 0; mx < instance.maskWidth; mx++) {
+        if (instance.mask[my * instance.maskWidth + mx]) {
+          combined[(top + my) * width + left + mx] = value;
+        }
+      }
+    }
+  });
+
+  return overlayMask(source, combined, {
+    ...overlayOptions,
+    maskWidth: width,
+    maskHeight: height,
+    isClassMask: true,
+  });
+}
+
+// =============================================================================
+// Pose Estimation API
+// =============================================================================
+
+/**
+ * COCO-17 keypoint names, in model output order
+ */
+export const COCO_KEYPOINT_NAMES: string[] = [
+  'nose',
+  'left_eye',
+  'right_eye',
+  'left_ear',
+  'right_ear',
+  'left_shoulder',
+  'right_shoulder',
+  'left_elbow',
+  'right_elbow',
+  'left_wrist',
+  'right_wrist',
+  'left_hip',
+  'right_hip',
+  'left_knee',
+  'right_knee',
+  'left_ankle',
+  'right_ankle',
+];
+
+/**
+ * COCO-17 skeleton connections, ready for DrawKeypointsOptions.skeleton
+ */
+export const COCO_SKELETON: SkeletonConnection[] = [
+  // Legs
+  { from: 15, to: 13 },
+  { from: 13, to: 11 },
+  { from: 16, to: 14 },
+  { from: 14, to: 12 },
+  // Torso
+  { from: 11, to: 12 },
+  { from: 5, to: 11 },
+  { from: 6, to: 12 },
+  { from: 5, to: 6 },
+  // Arms
+  { from: 5, to: 7 },
+  { from: 6, to: 8 },
+  { from: 7, to: 9 },
+  { from: 8, to: 10 },
+  // Head
+  { from: 1, to: 2 },
+  { from: 0, to: 1 },
+  { from: 0, to: 2 },
+  { from: 1, to: 3 },
+  { from: 2, to: 4 },
+  { from: 3, to: 5 },
+  { from: 4, to: 6 },
+];
+
+const DEFAULT_MOVENET_INPUT_SIZE = 192;
+const DEFAULT_HEATMAP_STRIDE = 4;
+
+/**
+ * Bounding box [x1, y1, x2, y2] around keypoints at or above a confidence,
+ * falling back to all keypoints when none qualify
+ */
+function keypointBounds(
+  keypoints: Keypoint[],
+  minConfidence: number
+): BoundingBox {
+  let points = keypoints.filter((k) => (k.confidence ?? 1) >= minConfidence);
+  if (points.length === 0) points = keypoints;
+  const xs = points.map((k) => k.x);
+  const ys = points.map((k) => k.y);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
+
+/**
+ * Mean keypoint confidence
+ */
+function meanConfidence(keypoints: Keypoint[]): number {
+  const total = keypoints.reduce((sum, k) => sum + (k.confidence ?? 0), 0);
+  return keypoints.length > 0 ? total / keypoints.length : 0;
+}
+
+/**
+ * Decode YOLOv8-pose candidates: [cx, cy, w, h, score, (x, y[, v]) * K]
+ */
+function decodeYoloPose(
+  tensor: number[] | Float32Array,
+  shape: number[],
+  options: PoseDecodeOptions,
+  scoreThreshold: number
+): [PoseDetection[], number] {
+  if (shape.length < 2 || shape.length > 3) {
+    throw new VisionUtilsException(
+      'INVALID_INPUT',
+      'YOLOv8-pose shape must be [attributes, candidates] or [batch, attributes, candidates] (either order)'
+    );
+  }
+
+  const batchSize = shape.length === 3 ? shape[0]! : 1;
+  const batchIndex = resolveBatchIndex(options.batchIndex, batchSize);
+
+  const dimA = shape[shape.length - 2]!;
+  const dimB = shape[shape.length - 1]!;
+  let layout = options.layout ?? 'auto';
+  if (layout === 'auto') {
+    layout = dimA <= dimB ? 'attributes-first' : 'candidates-first';
+  }
+  const numAttributes = layout === 'attributes-first' ? dimA : dimB;
+  const numCandidates = layout === 'attributes-first' ? dimB : dimA;
+
+  const keypointValues = numAttributes - 5;
+  const numKeypoints =
+    options.numKeypoints ??
+    (keypointValues % 3 === 0 ? keypointValues / 3 : keypointValues / 2);
+  const keypointDims = keypointValues / numKeypoints;
+  if (
+    !Number.isInteger(numKeypoints) ||
+    numKeypoints < 1 ||
+    (keypointDims !== 2 && keypointDims !== 3)
+  ) {
+    throw new VisionUtilsException(
+      'DIMENSION_MISMATCH',
+      `Attribute dimension ${numAttributes} does not match 5 + keypoints * 2 or 3`
+    );
+  }
+
+  const batchOffset = batchIndex * numAttributes * numCandidates;
+  const at =
+    layout === 'attributes-first'
+      ? (candidate: number, attribute: number) =>
+          tensor[batchOffset + attribute * numCandidates + candidate] ?? 0
+      : (candidate: number, attribute: number) =>
+          tensor[batchOffset + candidate * numAttributes + attribute] ?? 0;
+
+  const detections: PoseDetection[] = [];
+  for (let i = 0; i < numCandidates; i++) {
+    const score = at(i, 4);
+    if (score < scoreThreshold) continue;
+
+    const keypoints: Keypoint[] = [];
+    for (let k = 0; k < numKeypoints; k++) {
+      const base = 5 + k * keypointDims;
+      keypoints.push({
+        x: at(i, base),
+        y: at(i, base + 1),
+        confidence: keypointDims === 3 ? at(i, base + 2) : score,
+      });
+    }
+
+    detections.push({
+      box: fromCxcywh(at(i, 0), at(i, 1), at(i, 2), at(i, 3), 'xyxy'),
+      score,
+      classIndex: 0,
+      keypoints,
+    });
+  }
+
+  detections.sort((a, b) => b.score - a.score);
+  if (options.maxCandidates !== undefined && options.maxCandidates >= 0) {
+    detections.length = Math.min(detections.length, options.maxCandidates);
+  }
+  return [detections, numKeypoints];
+}
+
+/**
+ * Decode MoveNet single-pose [1, 1, K, 3] or multi-pose [1, P, K * 3 + 5] output
+ */
+function decodeMoveNet(
+  tensor: number[] | Float32Array,
+  shape: number[],
+  options: PoseDecodeOptions,
+  scoreThreshold: number
+): [PoseDetection[], number] {
+  const [inputWidth, inputHeight] = options.inputSize ??
+    options.letterboxInfo?.letterboxedSize ?? [
+      DEFAULT_MOVENET_INPUT_SIZE,
+      DEFAULT_MOVENET_INPUT_SIZE,
+    ];
+  const toKeypoint = (offset: number): Keypoint => ({
+    x: (tensor[offset + 1] ?? 0) * inputWidth,
+    y: (tensor[offset] ?? 0) * inputHeight,
+    confidence: tensor[offset + 2] ?? 0,
+  });
+
+  // Single-pose: [1, 1, K, 3]
+  if (shape.length === 4 && shape[3] === 3) {
+    const numKeypoints = shape[2]!;
+    const batchOffset =
+      resolveBatchIndex(options.batchIndex, shape[0]!) *
+      shape[1]! *
+      numKeypoints *
+      3;
+    const keypoints = Array.from({ length: numKeypoints }, (_, k) =>
+      toKeypoint(batchOffset + k * 3)
+    );
+    const score = meanConfidence(keypoints);
+    if (score < scoreThreshold) return [[], numKeypoints];
+    return [
+      [
+        {
+          box: keypointBounds(keypoints, scoreThreshold),
+          score,
+          classIndex: 0,
+          keypoints,
+        },
+      ],
+      numKeypoints,
+    ];
+  }
+
+  // Multi-pose: [1, P, K * 3 + 5] with trailing [ymin, xmin, ymax, xmax, score]
+  if (shape.length === 3 && (shape[2]! - 5) % 3 === 0 && shape[2]! > 5) {
+    const numPeople = shape[1]!;
+    const stride = shape[2]!;
+    const numKeypoints = (stride - 5) / 3;
+    const batchOffset =
+      resolveBatchIndex(options.batchIndex, shape[0]!) * numPeople * stride;
+    const detections: PoseDetection[] = [];
+    for (let p = 0; p < numPeople; p++) {
+      const base = batchOffset + p * stride;
+      const boxBase = base + numKeypoints * 3;
+      const score = tensor[boxBase + 4] ?? 0;
+      if (score < scoreThreshold) continue;
+      detections.push({
+        box: [
+          (tensor[boxBase + 1] ?? 0) * inputWidth,
+          (tensor[boxBase] ?? 0) * inputHeight,
+          (tensor[boxBase + 3] ?? 0) * inputWidth,
+          (tensor[boxBase + 2] ?? 0) * inputHeight,
+        ],
+        score,
+        classIndex: 0,
+        keypoints: Array.from({ length: numKeypoints }, (_, k) =>
+          toKeypoint(base + k * 3)
+        ),
+      });
+    }
+    return [detections.sort((a, b) => b.score - a.score), numKeypoints];
+  }
+
+  throw new VisionUtilsException(
+    'INVALID_INPUT',
+    'MoveNet shape must be [1, 1, K, 3] (single-pose) or [1, P, K * 3 + 5] (multi-pose)'
+  );
+}
+
+/**
+ * Decode per-keypoint heatmaps [1, K, H, W] into a single person
+ */
+function decodeHeatmapPose(
+  tensor: number[] | Float32Array,
+  shape: number[],
+  options: PoseDecodeOptions,
+  scoreThreshold: number
+): [PoseDetection[], number] {
+  const layout = options.dataLayout ?? 'nchw';
+  const batched = layout === 'nchw' || layout === 'nhwc';
+  const channelsFirst = layout === 'nchw' || layout === 'chw';
+  if (shape.length !== (batched ? 4 : 3)) {
+    throw new VisionUtilsException(
+      'DIMENSION_MISMATCH',
+      `Heatmap shape must have ${
+        batched ? 4 : 3
+      } dimensions for '${layout}' layout`
+    );
+  }
+
+  const dims = batched ? shape : [1, ...shape];
+  const [batchSize, numKeypoints, height, width] = (
+    channelsFirst ? dims : [dims[0], dims[3], dims[1], dims[2]]
+  ) as [number, number, number, number];
+
+  const [inputWidth, inputHeight] = options.inputSize ??
+    options.letterboxInfo?.letterboxedSize ?? [
+      width * DEFAULT_HEATMAP_STRIDE,
+      height * DEFAULT_HEATMAP_STRIDE,
+    ];
+  const refinement = options.refinement ?? 'quarter';
+
+  const batchOffset =
+    resolveBatchIndex(options.batchIndex, batchSize) *
+    numKeypoints *
+    height *
+    width;
+  const pixelStride = channelsFirst ? 1 : numKeypoints;
+  const keypointStride = channelsFirst ? height * width : 1;
+
+  const keypoints: Keypoint[] = [];
+  for (let k = 0; k < numKeypoints; k++) {
+    const value = (x: number, y: number) =>
+      tensor[
+        batchOffset +
+          k * keypointStride +
+          (Math.min(Math.max(y, 0), height - 1) * width +
+            Math.min(Math.max(x, 0), width - 1)) *
+            pixelStride
+      ] ?? 0;
+
+    let bestX = 0;
+    let bestY = 0;
+    let best = -Infinity;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const v = value(x, y);
+        if (v > best) {
+          best = v;
+          bestX = x;
+          bestY = y;
+        }
+      }
+    }
+
+    let x = bestX;
+    let y = bestY;
+    if (refinement === 'quarter') {
+      x += 0.25 * Math.sign(value(bestX + 1, bestY) - value(bestX - 1, bestY));
+      y += 0.25 * Math.sign(value(bestX, bestY + 1) - value(bestX, bestY - 1));
+    } else if (refinement === 'taylor') {
+      // Newton step on the log heatmap: offset = -H^-1 * gradient
+      const log = (px: number, py: number) =>
+        Math.log(Math.max(value(px, py), 1e-10));
+      const c = log(bestX, bestY);
+      const dx = 0.5 * (log(bestX + 1, bestY) - log(bestX - 1, bestY));
+      const dy = 0.5 * (log(bestX, bestY + 1) - log(bestX, bestY - 1));
+      const dxx = log(bestX + 1, bestY) - 2 * c + log(bestX - 1, bestY);
+      const dyy = log(bestX, bestY + 1) - 2 * c + log(bestX, bestY - 1);
+      const dxy =
+        0.25 *
+        (log(bestX + 1, bestY + 1) -
+          log(bestX + 1, bestY - 1) -
+          log(bestX - 1, bestY + 1) +
+          log(bestX - 1, bestY - 1));
+      const det = dxx * dyy - dxy * dxy;
+      // Only refine at a proper local maximum (negative definite Hessian)
+      if (det > 0 && dxx < 0) {
+        x -= (dyy * dx - dxy * dy) / det;
+        y -= (dxx * dy - dxy * dx) / det;
+      }
+    }
+
+    keypoints.push({
+      x: (x * inputWidth) / width,
+      y: (y * inputHeight) / height,
+      confidence: best,
+    });
+  }
+
+  const score = meanConfidence(keypoints);
+  if (score < scoreThreshold) return [[], numKeypoints];
+  return [
+    [
+      {
+        box: keypointBounds(keypoints, scoreThreshold),
+        score,
+        classIndex: 0,
+        keypoints,
+      },
+    ],
+    numKeypoints,
+  ];
+}
+
+/**
+ * Decode pose estimation model output into people with keypoints
+ *
+ * Supports YOLOv8/v11-pose candidates, MoveNet single- and multi-pose
+ * outputs, and HRNet-style heatmaps (with sub-pixel refinement). Keypoints
+ * are named with COCO_KEYPOINT_NAMES for 17-keypoint models and plug straight
+ * into drawKeypoints together with COCO_SKELETON.
+ *
+ * @param tensor - Raw model output as flat array
+ * @param shape - Output tensor shape, e.g. [1, 56, 8400], [1, 1, 17, 3] or [1, 17, 64, 48]
+ * @param options - Decoding options; `format` selects the model family
+ * @returns Detected people sorted by score
+ *
+ * @example
+ * // YOLOv8-pose output [1, 56, 8400]
+ * const { detections } = decodePoseOutput(output, [1, 56, 8400], {
+ *   format: 'yolov8-pose',
+ *   letterboxInfo: lb.letterboxInfo,
+ * });
+ * const { detections: people } = await nonMaxSuppression(detections, {
+ *   iouThreshold: 0.45,
+ * });
+ * for (const person of people) {
+ *   await drawKeypoints(source, person.keypoints, { skeleton: COCO_SKELETON });
+ * }
+ *
+ * @example
+ * // MoveNet Lightning [1, 1, 17, 3]
+ * const { detections } = decodePoseOutput(output, [1, 1, 17, 3], {
+ *   format: 'movenet',
+ *   inputSize: [192, 192],
+ * });
+ *
+ * @example
+ * // HRNet heatmaps [1, 17, 64, 48] for a 256x192 input
+ * const { detections } = decodePoseOutput(heatmaps, [1, 17, 64, 48], {
+ *   format: 'heatmap',
+ *   refinement: 'taylor',
+ * });
+ */
+export function decodePoseOutput(
+  tensor: number[] | Float32Array,
+  shape: number[],
+  options: PoseDecodeOptions
+): PoseDecodeResult {
+  const startTime = performance.now();
+
+  if (!tensor || tensor.length === 0) {
+    throw new VisionUtilsException('INVALID_INPUT', 'Tensor cannot be empty');
+  }
+
+  if (
+    !Array.isArray(shape) ||
+    shape.some((dim) => !Number.isInteger(dim) || dim < 1)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_INPUT',
+      'Shape must be an array of positive integers'
+    );
+  }
+
+  const expectedSize = shape.reduce((a, b) => a * b, 1);
+  if (tensor.length !== expectedSize) {
+    throw new VisionUtilsException(
+      'DIMENSION_MISMATCH',
+      `Tensor length ${tensor.length} does not match shape ${shape.join(
+        'x'
+      )} = ${expectedSize}`
+    );
+  }
+
+  const scoreThreshold = options.scoreThreshold ?? DEFAULT_YOLO_SCORE_THRESHOLD;
+
+  let decoded: [PoseDetection[], number];
+  switch (options.format) {
+    case 'yolov8-pose':
+      decoded = decodeYoloPose(tensor, shape, options, scoreThreshold);
+      break;
+    case 'movenet':
+      decoded = decodeMoveNet(tensor, shape, options, scoreThreshold);
+      break;
+    case 'heatmap':
+      decoded = decodeHeatmapPose(tensor, shape, options, scoreThreshold);
+      break;
+    default:
+      throw new VisionUtilsException(
+        'INVALID_OPTIONS',
+        `Unknown pose format: ${String(options.format)}`
+      );
+  }
+
+  const [detections, numKeypoints] = decoded;
+  const names =
+    options.keypointNames ??
+    (numKeypoints === COCO_KEYPOINT_NAMES.length
+      ? COCO_KEYPOINT_NAMES
+      : undefined);
+
+  // Map to original image coordinates and attach names
+  const scale = options.letterboxInfo?.scale ?? 1;
+  const [offsetX, offsetY] = options.letterboxInfo?.offset ?? [0, 0];
+  for (const detection of detections) {
+    const [x1, y1, x2, y2] = detection.box;
+    detection.box = [
+      (x1 - offsetX) / scale,
+      (y1 - offsetY) / scale,
+      (x2 - offsetX) / scale,
+      (y2 - offsetY) / scale,
+    ];
+    detection.keypoints.forEach((keypoint, k) => {
+      keypoint.x = (keypoint.x - offsetX) / scale;
+      keypoint.y = (keypoint.y - offsetY) / scale;
+      const name = names?.[k];
+      if (name !== undefined) keypoint.name = name;
+    });
+  }
+
+  return {
+    detections,
+    format: options.format,
+    numKeypoints,
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+// =============================================================================
+// Synchronous Bounding Box Utilities
+// =============================================================================
+
+/** Convert an xyxy box to `format` (inverse of toXyxy) */
+function fromXyxy(box: BoundingBox, format: BoxFormat): BoundingBox {
+  const [x1, y1, x2, y2] = box;
+  switch (format) {
+    case 'xywh':
+      return [x1, y1, x2 - x1, y2 - y1];
+    case 'cxcywh':
+      return [(x1 + x2) / 2, (y1 + y2) / 2, x2 - x1, y2 - y1];
+    case 'xyxy':
+    default:
+      return [x1, y1, x2, y2];
+  }
+}
+
+function clipXyxy(
+  box: BoundingBox,
+  width: number,
+  height: number
+): BoundingBox {
+  return [
+    Math.max(0, Math.min(width, box[0])),
+    Math.max(0, Math.min(height, box[1])),
+    Math.max(0, Math.min(width, box[2])),
+    Math.max(0, Math.min(height, box[3])),
+  ];
+}
+
+function xyxyIntersection(a: BoundingBox, b: BoundingBox): number {
+  const width = Math.max(0, Math.min(a[2], b[2]) - Math.max(a[0], b[0]));
+  const height = Math.max(0, Math.min(a[3], b[3]) - Math.max(a[1], b[1]));
+  return width * height;
+}
+
+function xyxyIoU(a: BoundingBox, b: BoundingBox): number {
+  const intersection = xyxyIntersection(a, b);
+  const union =
+    (a[2] - a[0]) * (a[3] - a[1]) +
+    (b[2] - b[0]) * (b[3] - b[1]) -
+    intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/** Distance-IoU: IoU minus the squared center distance over the enclosing box diagonal */
+function xyxyDIoU(a: BoundingBox, b: BoundingBox): number {
+  const dx = (a[0] + a[2] - b[0] - b[2]) / 2;
+  const dy = (a[1] + a[3] - b[1] - b[3]) / 2;
+  const cw = Math.max(a[2], b[2]) - Math.min(a[0], b[0]);
+  const ch = Math.max(a[3], b[3]) - Math.min(a[1], b[1]);
+  const diagonal = cw * cw + ch * ch;
+  return xyxyIoU(a, b) - (diagonal > 0 ? (dx * dx + dy * dy) / diagonal : 0);
+}
+
+interface NMSCandidate {
+  index: number;
+  box: BoundingBox;
+  score: number;
+}
+
+function hardSuppress(
+  group: number[],
+  boxes: BoundingBox[],
+  scores: number[],
+  iouThreshold: number,
+  useDIoU: boolean,
+  limit: number
+): NMSCandidate[] {
+  const order = [...group].sort((a, b) => scores[b]! - scores[a]!);
+  const kept: NMSCandidate[] = [];
+  const suppressed = new Set<number>();
+
+  for (const index of order) {
+    if (suppressed.has(index)) continue;
+    if (kept.length >= limit) break;
+
+    kept.push({ index, box: boxes[index]!, score: scores[index]! });
+    for (const other of order) {
+      if (other === index || suppressed.has(other)) continue;
+      const overlap = useDIoU
+        ? xyxyDIoU(boxes[index]!, boxes[other]!)
+        : xyxyIoU(boxes[index]!, boxes[other]!);
+      if (overlap > iouThreshold) {
+        suppressed.add(other);
+      }
+    }
+  }
+  return kept;
+}
+
+function softSuppress(
+  group: number[],
+  boxes: BoundingBox[],
+  scores: number[],
+  iouThreshold: number,
+  scoreThreshold: number,
+  gaussian: boolean,
+  sigma: number,
+  limit: number
+): NMSCandidate[] {
+  let pool: NMSCandidate[] = group.map((index) => ({
+    index,
+    box: boxes[index]!,
+    score: scores[index]!,
+  }));
+  const kept: NMSCandidate[] = [];
+
+  while (pool.length > 0 && kept.length < limit) {
+    let best = 0;
+    for (let i = 1; i < pool.length; i++) {
+      if (pool[i]!.score > pool[best]!.score) best = i;
+    }
+    const [top] = pool.splice(best, 1);
+    kept.push(top!);
+
+    // Decay the remaining scores by their overlap with the kept box
+    const next: NMSCandidate[] = [];
+    for (const candidate of pool) {
+      const overlap = xyxyIoU(top!.box, candidate.box);
+      const decay = gaussian
+        ? Math.exp(-(overlap * overlap) / sigma)
+        : overlap > iouThreshold
+        ? 1 - overlap
+        : 1;
+      const score = candidate.score * decay;
+      if (score >= scoreThreshold) next.push({ ...candidate, score });
+    }
+    pool = next;
+  }
+  return kept;
+}
+
+function fuseBoxes(
+  group: number[],
+  boxes: BoundingBox[],
+  scores: number[],
+  iouThreshold: number,
+  limit: number
+): NMSCandidate[] {
+  const order = [...group].sort((a, b) => scores[b]! - scores[a]!);
+  const members: number[][] = [];
+  const fused: BoundingBox[] = [];
+
+  for (const index of order) {
+    // Match against the best-overlapping fused box so far
+    let match = -1;
+    let bestIoU = iouThreshold;
+    fused.forEach((box, c) => {
+      const overlap = xyxyIoU(box, boxes[index]!);
+      if (overlap > bestIoU) {
+        bestIoU = overlap;
+        match = c;
+      }
+    });
+
+    if (match < 0) {
+      members.push([index]);
+      fused.push(boxes[index]!);
+      continue;
+    }
+
+    const cluster = members[match]!;
+    cluster.push(index);
+    const weighted = [0, 0, 0, 0];
+    let totalScore = 0;
+    for (const member of cluster) {
+      for (let k = 0; k < 4; k++) {
+        weighted[k]! += boxes[member]![k]! * scores[member]!;
+      }
+      totalScore += scores[member]!;
+    }
+    fused[match] =
+      totalScore > 0
+        ? (weighted.map((v) => v / totalScore) as BoundingBox)
+        : boxes[cluster[0]!]!;
+  }
+
+  return members
+    .map((cluster, c) => ({
+      index: cluster[0]!,
+      box: fused[c]!,
+      score:
+        cluster.reduce((sum, member) => sum + scores[member]!, 0) /
+        cluster.length,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Synchronous, pure-JS version of convertBoxFormat
+ *
+ * Produces the same boxes as the native implementation without a bridge
+ * round-trip, so it also runs in Jest, Node scripts and worklets.
+ *
+ * @example
+ * const { boxes } = convertBoxFormatSync([[320, 240, 100, 80]], {
+ *   fromFormat: 'cxcywh',
+ *   toFormat: 'xyxy',
+ * });
+ * // boxes = [[270, 200, 370, 280]]
+ */
+export function convertBoxFormatSync(
+  boxes: BoundingBox[],
+  options: ConvertBoxFormatOptions
+): ConvertBoxFormatResult {
+  validateBoxes(boxes);
+  validateBoxFormats(options);
+  const startTime = performance.now();
+
+  const converted =
+    options.fromFormat === options.toFormat
+      ? boxes.map((box) => [...box] as BoundingBox)
+      : boxes.map((box) =>
+          fromXyxy(toXyxy(box, options.fromFormat), options.toFormat)
+        );
+
+  return {
+    boxes: converted,
+    format: options.toFormat,
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+/**
+ * Synchronous, pure-JS version of scaleBoxes
+ *
+ * @example
+ * const { boxes } = scaleBoxesSync([[100, 100, 200, 200]], {
+ *   fromWidth: 640, fromHeight: 640,
+ *   toWidth: 1920, toHeight: 1080,
+ * });
+ */
+export function scaleBoxesSync(
+  boxes: BoundingBox[],
+  options: ScaleBoxesOptions
+): ScaleBoxesResult {
+  validateBoxes(boxes);
+  validateScaleDimensions(options);
+  const startTime = performance.now();
+
+  const format = options.format ?? 'xyxy';
+  const scaleX = options.toWidth / options.fromWidth;
+  const scaleY = options.toHeight / options.fromHeight;
+
+  const scaled = boxes.map((box) => {
+    const [x1, y1, x2, y2] = toXyxy(box, format);
+    let xyxy: BoundingBox = [
+      x1 * scaleX,
+      y1 * scaleY,
+      x2 * scaleX,
+      y2 * scaleY,
+    ];
+    if (options.clip ?? true) {
+      xyxy = clipXyxy(xyxy, options.toWidth, options.toHeight);
+    }
+    return fromXyxy(xyxy, format);
+  });
+
+  return {
+    boxes: scaled,
+    format,
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+/**
+ * Synchronous, pure-JS version of clipBoxes
+ *
+ * With `removeInvalid`, boxes with no area left after clipping are dropped
+ * and counted in `removedCount`.
+ *
+ * @example
+ * const { boxes } = clipBoxesSync([[-10, 50, 700, 500]], {
+ *   width: 640,
+ *   height: 480,
+ * });
+ * // boxes = [[0, 50, 640, 480]]
+ */
+export function clipBoxesSync(
+  boxes: BoundingBox[],
+  options: ClipBoxesOptions
+): ClipBoxesResult {
+  validateBoxes(boxes);
+  validateClipDimensions(options);
+  const startTime = performance.now();
+
+  const format = options.format ?? 'xyxy';
+  let clipped = boxes.map((box) =>
+    clipXyxy(toXyxy(box, format), options.width, options.height)
+  );
+
+  let removedCount = 0;
+  if (options.removeInvalid) {
+    const valid = clipped.filter((box) => box[2] > box[0] && box[3] > box[1]);
+    removedCount = clipped.length - valid.length;
+    clipped = valid;
+  }
+
+  return {
+    boxes: clipped.map((box) => fromXyxy(box, format)),
+    format,
+    removedCount,
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+/**
+ * Synchronous, pure-JS version of calculateIoU
+ *
+ * @example
+ * const { iou } = calculateIoUSync([100, 100, 200, 200], [150, 150, 250, 250]);
+ * // iou = 0.142...
+ */
+export function calculateIoUSync(
+  box1: BoundingBox,
+  box2: BoundingBox,
+  format: BoxFormat = 'xyxy'
+): IoUResult {
+  validateIoUBoxes(box1, box2);
+  const startTime = performance.now();
+
+  const a = toXyxy(box1, format);
+  const b = toXyxy(box2, format);
+  const intersection = xyxyIntersection(a, b);
+  const union =
+    (a[2] - a[0]) * (a[3] - a[1]) +
+    (b[2] - b[0]) * (b[3] - b[1]) -
+    intersection;
+
+  return {
+    iou: union > 0 ? intersection / union : 0,
+    intersection,
+    union,
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+/**
+ * Synchronous, pure-JS version of nonMaxSuppression
+ *
+ * Supports the same modes, class-aware suppression and limits as the
+ * native implementation, and returns the caller's detections the same way.
+ *
+ * @example
+ * const { detections: kept } = nonMaxSuppressionSync(detections, {
+ *   iouThreshold: 0.45,
+ *   agnostic: false,
+ * });
+ */
+export function nonMaxSuppressionSync<T extends Detection>(
+  detections: T[],
+  options: NMSOptions = {}
+): NMSResult<T> {
+  const opts = resolveNMSOptions(detections, options);
+  const startTime = performance.now();
+
+  const maxDetections = opts.maxDetections ?? 100;
+  const perClassLimit = Math.min(
+    opts.maxDetectionsPerClass ?? maxDetections,
+    maxDetections
+  );
+  const boxes = detections.map((d) => toXyxy(d.box, opts.format));
+  const scores = detections.map((d) => d.score);
+
+  // Filter by score threshold, then split into per-class groups
+  const candidates = detections
+    .map((_, i) => i)
+    .filter((i) => scores[i]! >= opts.scoreThreshold);
+  const groups = new Map<number, number[]>();
+  for (const i of candidates) {
+    const key = opts.agnostic ? 0 : detections[i]!.classIndex ?? -1;
+    const group = groups.get(key);
+    if (group) {
+      group.push(i);
+    } else {
+      groups.set(key, [i]);
+    }
+  }
+
+  const kept: NMSCandidate[] = [];
+  for (const group of groups.values()) {
+    switch (opts.mode) {
+      case 'soft-linear':
+      case 'soft-gaussian':
+        kept.push(
+          ...softSuppress(
+            group,
+            boxes,
+            scores,
+            opts.iouThreshold,
+            opts.scoreThreshold,
+            opts.mode === 'soft-gaussian',
+            opts.sigma,
+            perClassLimit
+          )
+        );
+        break;
+      case 'weighted-boxes-fusion':
+        kept.push(
+          ...fuseBoxes(group, boxes, scores, opts.iouThreshold, perClassLimit)
+        );
+        break;
+      default:
+        kept.push(
+          ...hardSuppress(
+            group,
+            boxes,
+            scores,
+            opts.iouThreshold,
+            opts.mode === 'diou',
+            perClassLimit
+          )
+        );
+    }
+  }
+
+  // Merge classes back into a single score-ordered list
+  kept.sort((a, b) => b.score - a.score || a.index - b.index);
+  const final = kept.slice(0, maxDetections);
+
+  return {
+    indices: final.map((c) => c.index),
+    detections: final.map((c) => ({
+      ...detections[c.index]!,
+      // Fused boxes are new; every other mode returns the input box untouched
+      box:
+        opts.mode === 'weighted-boxes-fusion'
+          ? fromXyxy(c.box, opts.format)
+          : detections[c.index]!.box,
+      score: c.score,
+    })),
+    suppressedCount: detections.length - final.length,
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+/**
+ * Synchronous, pure-JS version of reverseLetterbox
+ *
+ * @example
+ * const { boxes } = reverseLetterboxSync(
+ *   detections.map((d) => d.box),
+ *   {
+ *     scale: letterboxInfo.scale,
+ *     offset: letterboxInfo.offset,
+ *     originalSize: letterboxInfo.originalSize,
+ *   }
+ * );
+ */
+export function reverseLetterboxSync(
+  boxes: BoundingBox[],
+  options: ReverseLetterboxOptions
+): ReverseLetterboxResult {
+  validateBoxes(boxes);
+  if (options.scale <= 0) {
+    throw new VisionUtilsException('INVALID_SCALE', 'Scale must be positive');
+  }
+  const startTime = performance.now();
+
+  const format = options.format ?? 'xyxy';
+  const { scale } = options;
+  const [offsetX, offsetY] = options.offset;
+  const [originalWidth, originalHeight] = options.originalSize;
+
+  const restored = boxes.map((box) => {
+    const [x1, y1, x2, y2] = toXyxy(box, format);
+    let xyxy: BoundingBox = [
+      (x1 - offsetX) / scale,
+      (y1 - offsetY) / scale,
+      (x2 - offsetX) / scale,
+      (y2 - offsetY) / scale,
+    ];
+    if (options.clip ?? true) {
+      xyxy = clipXyxy(xyxy, originalWidth, originalHeight);
+    }
+    return fromXyxy(xyxy, format);
+  });
+
+  return {
+    boxes: restored,
+    format,
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+// =============================================================================
+// Hugging Face Preprocessor Import
+// =============================================================================
+
+/** Fields optionsFromHFPreprocessorConfig maps (or reports) itself */
+const HF_HANDLED_FIELDS = new Set([
+  'image_mean',
+  'image_std',
+  'do_normalize',
+  'do_rescale',
+  'rescale_factor',
+  'do_resize',
+  'size',
+  'default_to_square',
+  'do_center_crop',
+  'crop_size',
+  'do_convert_rgb',
+  'resample',
+]);
+
+/** Bookkeeping fields that do not affect pixels */
+const HF_METADATA_FIELDS = new Set([
+  'image_processor_type',
+  'feature_extractor_type',
+  'processor_class',
+  '_processor_class',
+  'auto_map',
+]);
+
+const PIL_RESAMPLE_NAMES = [
+  'nearest',
+  'lanczos',
+  'bilinear',
+  'bicubic',
+  'box',
+  'hamming',
+];
+
+interface HFTargetSize {
+  width?: number;
+  height?: number;
+  shortestEdge?: number;
+  longestEdge?: number;
+}
+
+function parseHFSize(
+  size: HFSize,
+  field: string,
+  defaultToSquare: boolean
+): HFTargetSize {
+  const isPositive = (value: unknown) =>
+    value === undefined || (typeof value === 'number' && value > 0);
+
+  if (typeof size === 'number') {
+    if (!(size > 0)) {
+      throw new VisionUtilsException(
+        'INVALID_OPTIONS',
+        `${field} must be a positive number`
+      );
+    }
+    return defaultToSquare
+      ? { width: size, height: size }
+      : { shortestEdge: size };
+  }
+
+  if (
+    !size ||
+    typeof size !== 'object' ||
+    !isPositive(size.width) ||
+    !isPositive(size.height) ||
+    !isPositive(size.shortest_edge) ||
+    !isPositive(size.longest_edge)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `${field} must be a number or an object of positive sizes`
+    );
+  }
+  if ((size.width === undefined) !== (size.height === undefined)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `${field} must set both height and width`
+    );
+  }
+  return {
+    width: size.width,
+    height: size.height,
+    shortestEdge: size.shortest_edge,
+    longestEdge: size.longest_edge,
+  };
+}
+
+function describeHFSize(size: HFTargetSize): string {
+  if (size.width !== undefined) return `${size.width}x${size.height}`;
+  const edges: string[] = [];
+  if (size.shortestEdge !== undefined) {
+    edges.push(`shortest_edge ${size.shortestEdge}`);
+  }
+  if (size.longestEdge !== undefined) {
+    edges.push(`longest_edge ${size.longestEdge}`);
+  }
+  return edges.join(', ');
+}
+
+function hfChannelValues(value: unknown, field: string): number[] {
+  const values = typeof value === 'number' ? [value, value, value] : value;
+  if (
+    !Array.isArray(values) ||
+    (values.length !== 1 && values.length !== 3) ||
+    !values.every((v) => typeof v === 'number' && Number.isFinite(v))
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `${field} must be a number or an array of 1 or 3 numbers`
+    );
+  }
+  return values.length === 1 ? [values[0], values[0], values[0]] : values;
+}
+
+function hfNormalization(
+  config: HFPreprocessorConfig,
+  warnings: string[]
+): Normalization {
+  const scale =
+    config.do_rescale ?? true ? config.rescale_factor ?? 1 / 255 : 1;
+  if (typeof scale !== 'number' || !(scale > 0)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'rescale_factor must be a positive number'
+    );
+  }
+
+  const hasStats =
+    config.image_mean !== undefined && config.image_std !== undefined;
+  const doNormalize = config.do_normalize ?? hasStats;
+  if (doNormalize && hasStats) {
+    const std = hfChannelValues(config.image_std, 'image_std');
+    if (std.some((s) => s === 0)) {
+      throw new VisionUtilsException(
+        'INVALID_OPTIONS',
+        'image_std values must be non-zero'
+      );
+    }
+    return {
+      preset: 'custom',
+      mean: hfChannelValues(config.image_mean, 'image_mean'),
+      std,
+      scale,
+    };
+  }
+  if (doNormalize) {
+    warnings.push(
+      'do_normalize is set without both image_mean and image_std; normalization is skipped'
+    );
+  }
+
+  if (Math.abs(scale - 1 / 255) < 1e-12) return { preset: 'scale' };
+  if (scale === 1) return { preset: 'raw' };
+  return { preset: 'custom', mean: [0, 0, 0], std: [1, 1, 1], scale };
+}
+
+function hfResize(
+  config: HFPreprocessorConfig,
+  warnings: string[]
+): ResizeOptions | undefined {
+  const doResize = config.do_resize ?? config.size !== undefined;
+  const doCrop = config.do_center_crop ?? false;
+  // Processors that center crop (CLIP, ConvNeXt, ...) read a bare number as
+  // the shortest edge; the rest resize to a square
+  const defaultToSquare =
+    typeof config.default_to_square === 'boolean'
+      ? config.default_to_square
+      : !doCrop;
+
+  let size: HFTargetSize | undefined;
+  if (doResize) {
+    if (config.size === undefined) {
+      warnings.push('do_resize is set without size; resize is skipped');
+    } else {
+      size = parseHFSize(config.size, 'size', defaultToSquare);
+    }
+  }
+
+  if (doCrop) {
+    if (config.crop_size === undefined) {
+      warnings.push(
+        'do_center_crop is set without crop_size; center crop is skipped'
+      );
+    } else {
+      // Crop sizes are always square when given as a single number
+      const crop = parseHFSize(config.crop_size, 'crop_size', true);
+      const width = crop.width ?? crop.shortestEdge ?? crop.longestEdge!;
+      const height = crop.height ?? crop.shortestEdge ?? crop.longestEdge!;
+
+      // Resizing to exactly the crop size makes the crop a no-op
+      if (size?.width === width && size.height === height) {
+        return { width, height, strategy: 'stretch' };
+      }
+      // Shortest edge to a square crop's side is exactly 'cover'
+      const exact =
+        width === height &&
+        size?.shortestEdge === width &&
+        size.longestEdge === undefined;
+      if (!exact) {
+        const resized = size
+          ? `Resize to ${describeHFSize(size)}`
+          : 'No resize';
+        warnings.push(
+          `${resized} followed by a ${width}x${height} center crop is approximated by a 'cover' resize to ${width}x${height}`
+        );
+      }
+      return { width, height, strategy: 'cover' };
+    }
+  }
+
+  if (!size) return undefined;
+  if (size.width !== undefined && size.height !== undefined) {
+    return { width: size.width, height: size.height, strategy: 'stretch' };
+  }
+  if (size.longestEdge !== undefined) {
+    const edge = size.longestEdge;
+    warnings.push(
+      `size ${describeHFSize(
+        size
+      )} keeps the aspect ratio at a variable output size; approximated by a 'contain' resize to ${edge}x${edge}`
+    );
+    return { width: edge, height: edge, strategy: 'contain' };
+  }
+  const edge = size.shortestEdge!;
+  warnings.push(
+    `size shortest_edge ${edge} keeps the aspect ratio at a variable output size; approximated by a 'cover' resize to ${edge}x${edge}, which crops the long side`
+  );
+  return { width: edge, height: edge, strategy: 'cover' };
+}
+
+/**
+ * Build getPixelData options from a Hugging Face preprocessor_config.json
+ *
+ * Maps rescaling, normalization, resizing and center cropping to the closest
+ * getPixelData options, always producing RGB in NCHW layout as transformers
+ * models expect. Anything that cannot be reproduced exactly (variable output
+ * sizes, the resampling filter, padding and other processor-specific fields)
+ * is listed in `warnings` instead of failing.
+ *
+ * @param config - Parsed config object or its JSON text
+ * @returns Options to spread into getPixelData, plus warnings
+ *
+ * @example
+ * const config = await (await fetch(`${repoUrl}/preprocessor_config.json`)).json();
+ * const { options, warnings } = optionsFromHFPreprocessorConfig(config);
+ * if (warnings.length) console.warn(warnings.join('\n'));
+ * const input = await getPixelData({ ...options, source });
+ */
+export function optionsFromHFPreprocessorConfig(
+  config: HFPreprocessorConfig | string
+): HFPreprocessorImportResult {
+  let parsed: unknown = config;
+  if (typeof config === 'string') {
+    try {
+      parsed = JSON.parse(config);
+    } catch (error) {
+      throw new VisionUtilsException(
+        'INVALID_INPUT',
+        `Preprocessor config is not valid JSON: ${(error as Error).message}`
+      );
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new VisionUtilsException(
+      'INVALID_INPUT',
+      'Preprocessor config must be an object'
+    );
+  }
+  const hfConfig = parsed as HFPreprocessorConfig;
+
+  const warnings: string[] = [];
+  const options: Omit<GetPixelDataOptions, 'source'> = {
+    colorFormat: 'rgb',
+    dataLayout: 'nchw',
+    normalization: hfNormalization(hfConfig, warnings),
+  };
+
+  const resize = hfResize(hfConfig, warnings);
+  if (resize) {
+    options.resize = resize;
+    const { resample } = hfConfig;
+    if (resample !== undefined && resample !== 2) {
+      const name = PIL_RESAMPLE_NAMES[resample] ?? 'unknown';
+      warnings.push(
+        `resample ${resample} (${name}) is not configurable; images are resized with the platform's smooth scaling filter`
+      );
+    }
+  }
+
+  if (hfConfig.do_convert_rgb === false) {
+    warnings.push(
+      'do_convert_rgb=false is ignored; images are always converted to RGB'
+    );
+  }
+
+  for (const [key, value] of Object.entries(hfConfig)) {
+    if (HF_HANDLED_FIELDS.has(key) || HF_METADATA_FIELDS.has(key)) continue;
+    // Disabled steps (do_pad: false, ...) need no support
+    if (value === false || value === null || value === undefined) continue;
+    warnings.push(`Unsupported field ${key} is ignored`);
+  }
+
+  return { options, warnings };
+}
+
+// =============================================================================
+// Model Preset Registry
+// =============================================================================
+
+const VALID_MODEL_DECODERS: ModelDecoder[] = [
+  'classification',
+  'yolov5',
+  'yolov8',
+  'yolov8-seg',
+  'yolov8-pose',
+  'movenet',
+  'heatmap',
+  'segmentation',
+];
+
+function validateModelPresetConfig(config: ModelPresetConfig): void {
+  if (!config || typeof config !== 'object') {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'Model preset config must be an object'
+    );
+  }
+  if (!config.resize || !config.normalization) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'Model preset config requires resize and normalization'
+    );
+  }
+  validateResize(config.resize);
+  validateNormalization(config.normalization);
+
+  if (!VALID_COLOR_FORMATS.includes(config.colorFormat)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid color format: ${
+        config.colorFormat
+      }. Must be one of: ${VALID_COLOR_FORMATS.join(', ')}`
+    );
+  }
+  if (!VALID_DATA_LAYOUTS.includes(config.dataLayout)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid data layout: ${
+        config.dataLayout
+      }. Must be one of: ${VALID_DATA_LAYOUTS.join(', ')}`
+    );
+  }
+  if (
+    config.boxFormat !== undefined &&
+    !BOX_FORMATS.includes(config.boxFormat)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid box format: ${
+        config.boxFormat
+      }. Must be one of: ${BOX_FORMATS.join(', ')}`
+    );
+  }
+  if (
+    config.decoder !== undefined &&
+    !VALID_MODEL_DECODERS.includes(config.decoder)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid decoder: ${
+        config.decoder
+      }. Must be one of: ${VALID_MODEL_DECODERS.join(', ')}`
+    );
+  }
+}
+
+function copyModelPresetConfig(config: ModelPresetConfig): ModelPresetConfig {
+  const { normalization } = config;
+  return {
+    ...config,
+    resize: { ...config.resize },
+    normalization: {
+      ...normalization,
+      ...(normalization.mean && { mean: [...normalization.mean] }),
+      ...(normalization.std && { std: [...normalization.std] }),
+    },
+  };
+}
+
+/**
+ * Register a model preset usable anywhere a built-in preset name is
+ *
+ * Registering an existing custom name replaces it; built-in presets cannot be
+ * overridden. The config is copied, so later changes to the passed object
+ * have no effect.
+ *
+ * @param name - Preset name
+ * @param config - Preprocessing settings and optional output metadata
+ *
+ * @example
+ * registerModelPreset('acme-detector', {
+ *   resize: { width: 512, height: 512, strategy: 'letterbox' },
+ *   normalization: { preset: 'scale' },
+ *   colorFormat: 'rgb',
+ *   dataLayout: 'nchw',
+ *   labels: 'coco',
+ *   decoder: 'yolov8',
+ * });
+ * const input = await getPixelData({ source, modelPreset: 'acme-detector' });
+ */
+export function registerModelPreset(
+  name: string,
+  config: ModelPresetConfig
+): void {
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'Model preset name must be a non-empty string'
+    );
+  }
+  if (Object.prototype.hasOwnProperty.call(MODEL_PRESETS, name)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Cannot override built-in model preset: ${name}`
+    );
+  }
+  validateModelPresetConfig(config);
+
+  customModelPresets.set(name, copyModelPresetConfig(config));
+}
+
+/**
+ * Get the configuration behind a built-in or registered model preset
+ *
+ * @param name - Preset name
+ * @returns A copy of the preset config
+ *
+ * @example
+ * const { resize, labels } = getModelPresetConfig('yolov8');
+ * // resize: { width: 640, height: 640, strategy: 'letterbox' }, labels: 'coco'
+ */
+export function getModelPresetConfig(name: ModelPreset): ModelPresetConfig {
+  const config = resolveModelPreset(name);
+  if (!config) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Unknown model preset: ${name}. Must be one of: ${listModelPresets().join(
+        ', '
+      )}`
+    );
+  }
+  return copyModelPresetConfig(config);
+}
+
+/**
+ * List the names of all model presets, built-in first, then in registration order
+ *
+ * @example
+ * listModelPresets(); // ['yolo', 'yolov8', ..., 'detr', 'acme-detector']
+ */
+export function listModelPresets(): ModelPreset[] {
+  return [...Object.keys(MODEL_PRESETS), ...customModelPresets.keys()];
+}
+
+// =============================================================================
+// Custom Label Datasets
+// =============================================================================
+
+function invalidLabelSource(message: string): VisionUtilsException {
+  return new VisionUtilsException('INVALID_INPUT', message);
+}
+
+/**
+ * Turn an index-keyed map (or array) of names into dense label entries.
+ * Unused indices are filled with 'N/A'.
+ */
+function indexedLabelEntries(
+  names: string[] | Record<string, string>,
+  supercategories: string[] | Record<string, string> = {}
+): LabelEntry[] {
+  const entries: LabelEntry[] = [];
+  for (const [key, name] of Object.entries(names)) {
+    if (!/^\d+$/.test(key)) {
+      throw invalidLabelSource(`Label key must be a class index, got: ${key}`);
+    }
+    if (typeof name !== 'string') {
+      throw invalidLabelSource(`Label ${key} must be a string`);
+    }
+    entries[Number(key)] = { name };
+  }
+  for (let i = 0; i < entries.length; i++) {
+    entries[i] = entries[i] ?? { name: 'N/A' };
+  }
+  for (const [key, supercategory] of Object.entries(supercategories)) {
+    const entry = /^\d+$/.test(key) ? entries[Number(key)] : undefined;
+    if (entry && typeof supercategory === 'string') {
+      entry.supercategory = supercategory;
+    }
+  }
+  return entries;
+}
+
+function cocoLabelEntries(
+  categories: CocoCategory[],
+  cocoIndex: 'position' | 'id'
+): LabelEntry[] {
+  if (!Array.isArray(categories)) {
+    throw invalidLabelSource('COCO categories must be an array');
+  }
+  const seen = new Set<number>();
+  for (const category of categories) {
+    if (
+      !category ||
+      !Number.isInteger(category.id) ||
+      category.id < 0 ||
+      typeof category.name !== 'string'
+    ) {
+      throw invalidLabelSource(
+        'Each COCO category must have a non-negative integer id and a name'
+      );
+    }
+    if (seen.has(category.id)) {
+      throw invalidLabelSource(`Duplicate COCO category id: ${category.id}`);
+    }
+    seen.add(category.id);
+  }
+
+  const sorted = [...categories].sort((a, b) => a.id - b.id);
+  const toEntry = (category: CocoCategory): LabelEntry => ({
+    name: category.name,
+    ...(typeof category.supercategory === 'string' && {
+      supercategory: category.supercategory,
+    }),
+  });
+  if (cocoIndex === 'position') {
+    return sorted.map(toEntry);
+  }
+
+  const entries: LabelEntry[] = [];
+  for (const category of sorted) {
+    entries[category.id] = toEntry(category);
+  }
+  for (let i = 0; i < entries.length; i++) {
+    entries[i] = entries[i] ?? { name: 'N/A' };
+  }
+  return entries;
+}
+
+/**
+ * Call onChar for each character outside quoted YAML strings; returning
+ * false stops the scan
+ */
+function scanYamlOutsideQuotes(
+  text: string,
+  onChar: (char: string, index: number) => boolean | void
+): void {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i] as string;
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (onChar(char, i) === false) {
+      return;
+    }
+  }
+}
+
+function stripYamlComment(line: string): string {
+  let end = line.length;
+  scanYamlOutsideQuotes(line, (char, index) => {
+    if (char === '#' && (index === 0 || /\s/.test(line[index - 1] as string))) {
+      end = index;
+      return false;
+    }
+    return true;
+  });
+  return line.slice(0, end);
+}
+
+function unquoteYaml(value: string): string {
+  const trimmed = value.trim();
+  const first = trimmed[0];
+  if (
+    trimmed.length >= 2 &&
+    (first === '"' || first === "'") &&
+    trimmed[trimmed.length - 1] === first
+  ) {
+    const inner = trimmed.slice(1, -1);
+    return first === "'" ? inner.replace(/''/g, "'") : inner;
+  }
+  return trimmed;
+}
+
+function splitYamlPair(item: string): [string, string] {
+  const colon = item.indexOf(':');
+  if (colon === -1) {
+    throw invalidLabelSource(`Expected "index: name" in YAML, got: ${item}`);
+  }
+  return [
+    unquoteYaml(item.slice(0, colon)),
+    unquoteYaml(item.slice(colon + 1)),
+  ];
+}
+
+/**
+ * Read a top-level `key:` block from dataset YAML. Supports block maps
+ * (`0: person`), block lists (`- person`) and flow style (`[a, b]`,
+ * `{0: a, 1: b}`).
+ */
+function parseYamlLabelBlock(
+  lines: string[],
+  key: string
+): Record<string, string> | undefined {
+  const pattern = new RegExp(`^${key}\\s*:`);
+  const start = lines.findIndex((line) => pattern.test(line));
+  if (start === -1) return undefined;
+
+  const header = lines[start] as string;
+  const inline = stripYamlComment(header.slice(header.indexOf(':') + 1)).trim();
+  const result: Record<string, string> = {};
+
+  if (inline) {
+    const open = inline[0];
+    const close = inline[inline.length - 1];
+    if (!((open === '[' && close === ']') || (open === '{' && close === '}'))) {
+      throw invalidLabelSource(`Unsupported YAML value for ${key}: ${inline}`);
+    }
+    const body = inline.slice(1, -1);
+    const items: string[] = [];
+    let itemStart = 0;
+    scanYamlOutsideQuotes(body, (char, index) => {
+      if (char === ',') {
+        items.push(body.slice(itemStart, index));
+        itemStart = index + 1;
+      }
+    });
+    items.push(body.slice(itemStart));
+    items
+      .filter((item) => item.trim() !== '')
+      .forEach((item, position) => {
+        if (open === '[') {
+          result[position] = unquoteYaml(item);
+        } else {
+          const [index, name] = splitYamlPair(item);
+          result[index] = name;
+        }
+      });
+    return result;
+  }
+
+  let position = 0;
+  for (const raw of lines.slice(start + 1)) {
+    const line = stripYamlComment(raw);
+    if (line.trim() === '') continue;
+    if (!/^\s/.test(line)) break;
+
+    const item = line.trim();
+    if (item === '-' || item.startsWith('- ')) {
+      result[position++] = unquoteYaml(item.slice(1));
+    } else {
+      const [index, name] = splitYamlPair(item);
+      result[index] = name;
+    }
+  }
+  return result;
+}
+
+function parseLabelText(
+  text: string,
+  cocoIndex: 'position' | 'id'
+): LabelEntry[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (error) {
+      throw invalidLabelSource(
+        `Invalid label JSON: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    return parseLabelSource(parsed as LabelDatasetSource, cocoIndex, false);
+  }
+
+  const lines = text.split(/\r?\n/);
+  const names = parseYamlLabelBlock(lines, 'names');
+  if (names) {
+    return indexedLabelEntries(
+      names,
+      parseYamlLabelBlock(lines, 'supercategories')
+    );
+  }
+
+  return lines
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+    .map((name) => ({ name }));
+}
+
+function parseLabelSource(
+  source: LabelDatasetSource,
+  cocoIndex: 'position' | 'id',
+  allowText: boolean = true
+): LabelEntry[] {
+  if (typeof source === 'string' && allowText) {
+    return parseLabelText(source, cocoIndex);
+  }
+  if (Array.isArray(source)) {
+    return source.map((item, index) => {
+      if (typeof item === 'string') return { name: item };
+      if (item && typeof item.name === 'string') {
+        return {
+          name: item.name,
+          ...(typeof item.supercategory === 'string' && {
+            supercategory: item.supercategory,
+          }),
+        };
+      }
+      throw invalidLabelSource(
+        `Label at index ${index} must be a string or { name } entry`
+      );
+    });
+  }
+  if (source && typeof source === 'object') {
+    if ('categories' in source) {
+      return cocoLabelEntries(source.categories, cocoIndex);
+    }
+    if ('names' in source && source.names && typeof source.names === 'object') {
+      return indexedLabelEntries(source.names, source.supercategories);
+    }
+  }
+  throw invalidLabelSource(
+    'Label source must be an array, labels text, COCO categories JSON or Ultralytics names YAML'
+  );
+}
+
+/**
+ * Register a label dataset usable anywhere a built-in dataset name is
+ *
+ * Registered datasets work with getLabel(), getTopLabels(), getAllLabels(),
+ * getDatasetInfo(), getAvailableDatasets(), model preset `labels`, detection
+ * pipelines and segmentation decoding. They are answered in JS without a
+ * native call. Registering an existing custom name replaces it; built-in
+ * datasets cannot be overridden.
+ *
+ * @param name - Dataset name
+ * @param source - Label array, labels file text, COCO JSON or Ultralytics YAML
+ * @param options - Description and COCO id mapping
+ *
+ * @example
+ * registerLabelDataset('fruits', ['apple', 'banana', 'cherry']);
+ *
+ * // Ultralytics data.yaml
+ * registerLabelDataset('ppe', `
+ * names:
+ *   0: helmet
+ *   1: vest
+ * supercategories:
+ *   0: head
+ *   1: body
+ * `);
+ *
+ * const top = await getTopLabels(scores, { dataset: 'ppe', k: 1 });
+ */
+export function registerLabelDataset(
+  name: string,
+  source: LabelDatasetSource,
+  options: RegisterLabelDatasetOptions = {}
+): void {
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'Label dataset name must be a non-empty string'
+    );
+  }
+  if ((BUILT_IN_LABEL_DATASETS as string[]).includes(name)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Cannot override built-in label dataset: ${name}`
+    );
+  }
+  const cocoIndex = options.cocoIndex ?? 'position';
+  if (cocoIndex !== 'position' && cocoIndex !== 'id') {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid cocoIndex: ${cocoIndex}. Must be 'position' or 'id'`
+    );
+  }
+
+  const entries = parseLabelSource(source, cocoIndex);
+  if (entries.length === 0) {
+    throw invalidLabelSource(`Label dataset ${name} has no labels`);
+  }
+
+  customLabelDatasets.set(name, {
+    labels: entries.map((entry) => entry.name),
+    supercategories: entries.map((entry) => entry.supercategory),
+    description:
+      options.description ?? `Custom label dataset (${entries.length} classes)`,
+  });
+}
+
+// =============================================================================
+// Object Tracking
+// =============================================================================
+
+const TRACKER_TYPES: TrackerType[] = ['sort', 'bytetrack'];
+
+// Kalman noise as a fraction of the box size, as in DeepSORT and ByteTrack
+const KALMAN_POSITION_WEIGHT = 1 / 20;
+const KALMAN_VELOCITY_WEIGHT = 1 / 160;
+
+/** Minimum IoU in ByteTrack's second pass over low-score detections */
+const BYTETRACK_LOW_SCORE_IOU = 0.5;
+
+/**
+ * Constant-velocity Kalman filter for one box coordinate. The SORT-style
+ * 8-state filter over (cx, cy, w, h) has block-diagonal matrices, so it is
+ * exactly four of these.
+ */
+interface AxisFilter {
+  position: number;
+  velocity: number;
+  // Covariance entries: position, position-velocity, velocity
+  p00: number;
+  p01: number;
+  p11: number;
+}
+
+interface TrackRecord {
+  trackId: number;
+  /** Filters for cx, cy, w, h */
+  axes: [AxisFilter, AxisFilter, AxisFilter, AxisFilter];
+  score: number;
+  classIndex?: number;
+  label?: string;
+  age: number;
+  hits: number;
+  hitStreak: number;
+  timeSinceUpdate: number;
+  confirmed: boolean;
+  detectionIndex?: number;
+}
+
+function createAxisFilter(value: number, scale: number): AxisFilter {
+  return {
+    position: value,
+    velocity: 0,
+    p00: (2 * KALMAN_POSITION_WEIGHT * scale) ** 2,
+    p01: 0,
+    p11: (10 * KALMAN_VELOCITY_WEIGHT * scale) ** 2,
+  };
+}
+
+function predictAxis(filter: AxisFilter, scale: number): void {
+  filter.position += filter.velocity;
+  filter.p00 +=
+    2 * filter.p01 + filter.p11 + (KALMAN_POSITION_WEIGHT * scale) ** 2;
+  filter.p01 += filter.p11;
+  filter.p11 += (KALMAN_VELOCITY_WEIGHT * scale) ** 2;
+}
+
+function correctAxis(
+  filter: AxisFilter,
+  measurement: number,
+  scale: number
+): void {
+  const innovation = filter.p00 + (KALMAN_POSITION_WEIGHT * scale) ** 2;
+  const positionGain = filter.p00 / innovation;
+  const velocityGain = filter.p01 / innovation;
+  const residual = measurement - filter.position;
+
+  filter.position += positionGain * residual;
+  filter.velocity += velocityGain * residual;
+  filter.p11 -= velocityGain * filter.p01;
+  filter.p00 *= 1 - positionGain;
+  filter.p01 *= 1 - positionGain;
+}
+
+/** Per-axis noise scale: width for x and w, height for y and h */
+function axisScales(width: number, height: number): number[] {
+  const w = Math.max(width, 1);
+  const h = Math.max(height, 1);
+  return [w, h, w, h];
+}
+
+function xyxyToCxcywh(box: BoundingBox): number[] {
+  return [
+    (box[0] + box[2]) / 2,
+    (box[1] + box[3]) / 2,
+    box[2] - box[0],
+    box[3] - box[1],
+  ];
+}
+
+function trackXyxy(track: TrackRecord): BoundingBox {
+  const [cx, cy, w, h] = track.axes.map((axis) => axis.position) as [
+    number,
+    number,
+    number,
+    number
+  ];
+  const halfWidth = Math.max(w, 0) / 2;
+  const halfHeight = Math.max(h, 0) / 2;
+  return [cx - halfWidth, cy - halfHeight, cx + halfWidth, cy + halfHeight];
+}
+
+function predictTrack(track: TrackRecord): void {
+  const [, , width, height] = track.axes;
+  // Stop a shrinking box at zero size instead of inverting it
+  if (width.position + width.velocity <= 0) width.velocity = 0;
+  if (height.position + height.velocity <= 0) height.velocity = 0;
+
+  const scales = axisScales(width.position, height.position);
+  track.axes.forEach((axis, i) => predictAxis(axis, scales[i]!));
+
+  track.age += 1;
+  if (track.timeSinceUpdate > 0) track.hitStreak = 0;
+  track.timeSinceUpdate += 1;
+  track.detectionIndex = undefined;
+}
+
+function correctTrack(
+  track: TrackRecord,
+  box: BoundingBox,
+  detection: Detection,
+  detectionIndex: number
+): void {
+  const measurement = xyxyToCxcywh(box);
+  const scales = axisScales(measurement[2]!, measurement[3]!);
+  track.axes.forEach((axis, i) =>
+    correctAxis(axis, measurement[i]!, scales[i]!)
+  );
+
+  track.score = detection.score;
+  track.classIndex = detection.classIndex;
+  track.label = detection.label;
+  track.hits += 1;
+  track.hitStreak += 1;
+  track.timeSinceUpdate = 0;
+  track.detectionIndex = detectionIndex;
+}
+
+/**
+ * Minimum-cost assignment (Hungarian algorithm with potentials). Returns the
+ * column assigned to each row, or -1 for rows left over when there are
+ * fewer columns than rows.
+ */
+function solveAssignment(cost: number[][]): number[] {
+  const rows = cost.length;
+  const cols = rows > 0 ? cost[0]!.length : 0;
+  if (rows > cols) {
+    const transposed = Array.from({ length: cols }, (_, c) =>
+      cost.map((row) => row[c]!)
+    );
+    const result = new Array<number>(rows).fill(-1);
+    solveAssignment(transposed).forEach((row, column) => {
+      if (row >= 0) result[row] = column;
+    });
+    return result;
+  }
+
+  // 1-indexed; column 0 is the sentinel the augmenting path starts from
+  const u = new Array<number>(rows + 1).fill(0);
+  const v = new Array<number>(cols + 1).fill(0);
+  const owner = new Array<number>(cols + 1).fill(0);
+  const way = new Array<number>(cols + 1).fill(0);
+
+  for (let i = 1; i <= rows; i++) {
+    owner[0] = i;
+    let j0 = 0;
+    const minReduced = new Array<number>(cols + 1).fill(Infinity);
+    const used = new Array<boolean>(cols + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = owner[j0]!;
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= cols; j++) {
+        if (used[j]) continue;
+        const reduced = cost[i0 - 1]![j - 1]! - u[i0]! - v[j]!;
+        if (reduced < minReduced[j]!) {
+          minReduced[j] = reduced;
+          way[j] = j0;
+        }
+        if (minReduced[j]! < delta) {
+          delta = minReduced[j]!;
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= cols; j++) {
+        if (used[j]) {
+          u[owner[j]!]! += delta;
+          v[j]! -= delta;
+        } else {
+          minReduced[j]! -= delta;
+        }
+      }
+      j0 = j1;
+    } while (owner[j0] !== 0);
+    do {
+      const j1 = way[j0]!;
+      owner[j0] = owner[j1]!;
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const result = new Array<number>(rows).fill(-1);
+  for (let j = 1; j <= cols; j++) {
+    if (owner[j]! > 0) result[owner[j]! - 1] = j - 1;
+  }
+  return result;
+}
+
+interface TrackAssociation {
+  matches: Array<[TrackRecord, number]>;
+  unmatchedTracks: TrackRecord[];
+  unmatchedDetections: number[];
+}
+
+/**
+ * Match tracks to detections by IoU of the predicted boxes. Pairs below
+ * the threshold stay unmatched.
+ */
+function associateTracks(
+  tracks: TrackRecord[],
+  detectionIndices: number[],
+  boxes: BoundingBox[],
+  detections: Detection[],
+  iouThreshold: number,
+  classAware: boolean
+): TrackAssociation {
+  if (tracks.length === 0 || detectionIndices.length === 0) {
+    return {
+      matches: [],
+      unmatchedTracks: tracks,
+      unmatchedDetections: detectionIndices,
+    };
+  }
+
+  const iou = tracks.map((track) => {
+    const predicted = trackXyxy(track);
+    return detectionIndices.map((d) =>
+      classAware && track.classIndex !== detections[d]!.classIndex
+        ? 0
+        : xyxyIoU(predicted, boxes[d]!)
+    );
+  });
+  const assignment = solveAssignment(iou.map((row) => row.map((x) => 1 - x)));
+
+  const matches: Array<[TrackRecord, number]> = [];
+  const unmatchedTracks: TrackRecord[] = [];
+  const matched = new Set<number>();
+  tracks.forEach((track, t) => {
+    const column = assignment[t]!;
+    const overlap = column >= 0 ? iou[t]![column]! : 0;
+    if (overlap > 0 && overlap >= iouThreshold) {
+      matches.push([track, detectionIndices[column]!]);
+      matched.add(column);
+    } else {
+      unmatchedTracks.push(track);
+    }
+  });
+
+  return {
+    matches,
+    unmatchedTracks,
+    unmatchedDetections: detectionIndices.filter((_, c) => !matched.has(c)),
+  };
+}
+
+function validateTrackerOptions(options: TrackerOptions): void {
+  const { type, iouThreshold, maxAge, minHits, format } = options;
+  if (type !== undefined && !TRACKER_TYPES.includes(type)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid tracker type: ${type}. Must be one of: ${TRACKER_TYPES.join(
+        ', '
+      )}`
+    );
+  }
+  if (format !== undefined && !BOX_FORMATS.includes(format)) {
+    throw new VisionUtilsException(
+      'INVALID_FORMAT',
+      `Invalid box format: ${format}. Must be one of: ${BOX_FORMATS.join(', ')}`
+    );
+  }
+  const unitRange: Array<[string, number | undefined]> = [
+    ['iouThreshold', iouThreshold],
+    ['highThreshold', options.highThreshold],
+    ['lowThreshold', options.lowThreshold],
+  ];
+  for (const [name, value] of unitRange) {
+    if (value !== undefined && !(value >= 0 && value <= 1)) {
+      throw new VisionUtilsException(
+        'INVALID_OPTIONS',
+        `${name} must be between 0 and 1`
+      );
+    }
+  }
+  if ((options.lowThreshold ?? 0.1) > (options.highThreshold ?? 0.5)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'lowThreshold must not exceed highThreshold'
+    );
+  }
+  if (maxAge !== undefined && !(Number.isInteger(maxAge) && maxAge >= 0)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'maxAge must be a non-negative integer'
+    );
+  }
+  if (minHits !== undefined && !(Number.isInteger(minHits) && minHits >= 1)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'minHits must be a positive integer'
+    );
+  }
+}
+
+function validateTrackerDetections(detections: Detection[]): void {
+  if (!Array.isArray(detections)) {
+    throw new VisionUtilsException(
+      'INVALID_INPUT',
+      'Detections must be an array'
+    );
+  }
+  detections.forEach((detection, i) => {
+    if (
+      !detection ||
+      !Array.isArray(detection.box) ||
+      detection.box.length !== 4 ||
+      !detection.box.every(Number.isFinite) ||
+      !Number.isFinite(detection.score)
+    ) {
+      throw new VisionUtilsException(
+        'INVALID_INPUT',
+        `Detection ${i} must have a 4-number box and a numeric score`
+      );
+    }
+  });
+}
+
+/**
+ * Create a stateful multi-object tracker
+ *
+ * Feed it each frame's detections to get tracks with stable ids,
+ * Kalman-smoothed boxes and velocities. Matching uses the same IoU as
+ * calculateIoUSync, on boxes converted from `format`. Pure TypeScript and
+ * fully deterministic.
+ *
+ * 'sort' matches all detections to all tracks once. 'bytetrack' first
+ * matches detections scoring at least highThreshold, then matches the
+ * remaining tracks to lower-score detections, keeping occluded objects
+ * alive; only high-score detections start tracks.
+ *
+ * @param options - Tracker type, matching and lifetime options
+ * @returns Tracker with update(), getTracks() and reset()
+ *
+ * @example
+ * const tracker = createTracker({ type: 'bytetrack', maxAge: 30 });
+ *
+ * // For each camera frame
+ * const tracks = tracker.update(detections);
+ * // [{ trackId: 1, box: [...], velocity: [2.1, -0.4], age: 12, state: 'confirmed', ... }]
+ */
+export function createTracker(options: TrackerOptions = {}): Tracker {
+  validateTrackerOptions(options);
+
+  const type = options.type ?? 'sort';
+  const iouThreshold = options.iouThreshold ?? 0.3;
+  const maxAge = options.maxAge ?? 30;
+  const minHits = options.minHits ?? 3;
+  const format = options.format ?? 'xyxy';
+  const classAware = options.classAware ?? false;
+  const highThreshold = options.highThreshold ?? 0.5;
+  const lowThreshold = options.lowThreshold ?? 0.1;
+
+  let tracks: TrackRecord[] = [];
+  let nextTrackId = 1;
+  let frameCount = 0;
+
+  const toTrack = (track: TrackRecord): Track => {
+    const state: TrackState = !track.confirmed
+      ? 'tentative'
+      : track.timeSinceUpdate === 0
+      ? 'confirmed'
+      : 'lost';
+    return {
+      trackId: track.trackId,
+      box: fromXyxy(trackXyxy(track), format),
+      velocity: [track.axes[0].velocity, track.axes[1].velocity],
+      score: track.score,
+      ...(track.classIndex !== undefined && { classIndex: track.classIndex }),
+      ...(track.label !== undefined && { label: track.label }),
+      age: track.age,
+      hits: track.hits,
+      timeSinceUpdate: track.timeSinceUpdate,
+      state,
+      ...(track.detectionIndex !== undefined && {
+        detectionIndex: track.detectionIndex,
+      }),
+    };
+  };
+
+  const startTrack = (
+    box: BoundingBox,
+    detection: Detection,
+    detectionIndex: number
+  ): TrackRecord => {
+    const [cx, cy, w, h] = xyxyToCxcywh(box) as [
+      number,
+      number,
+      number,
+      number
+    ];
+    const scales = axisScales(w, h);
+    return {
+      trackId: nextTrackId++,
+      axes: [
+        createAxisFilter(cx, scales[0]!),
+        createAxisFilter(cy, scales[1]!),
+        createAxisFilter(w, scales[2]!),
+        createAxisFilter(h, scales[3]!),
+      ],
+      score: detection.score,
+      classIndex: detection.classIndex,
+      label: detection.label,
+      age: 1,
+      hits: 1,
+      hitStreak: 1,
+      timeSinceUpdate: 0,
+      confirmed: false,
+      detectionIndex,
+    };
+  };
+
+  const update = (detections: Detection[]): Track[] => {
+    validateTrackerDetections(detections);
+    frameCount += 1;
+
+    const boxes = detections.map((d) => toXyxy(d.box, format));
+    tracks.forEach(predictTrack);
+
+    const matches: Array<[TrackRecord, number]> = [];
+    let unmatchedTracks: TrackRecord[];
+    let newTrackCandidates: number[];
+
+    if (type === 'bytetrack') {
+      const high: number[] = [];
+      const low: number[] = [];
+      detections.forEach((d, i) => {
+        if (d.score >= highThreshold) high.push(i);
+        else if (d.score >= lowThreshold) low.push(i);
+      });
+
+      const first = associateTracks(
+        tracks,
+        high,
+        boxes,
+        detections,
+        iouThreshold,
+        classAware
+      );
+      matches.push(...first.matches);
+
+      // Only tracks that were being followed last frame get a second chance
+      const recoverable = first.unmatchedTracks.filter(
+        (t) => t.confirmed && t.timeSinceUpdate === 1
+      );
+      const second = associateTracks(
+        recoverable,
+        low,
+        boxes,
+        detections,
+        BYTETRACK_LOW_SCORE_IOU,
+        classAware
+      );
+      matches.push(...second.matches);
+
+      const recovered = new Set(second.matches.map(([t]) => t));
+      // ByteTrack drops unconfirmed tracks as soon as they miss a frame
+      unmatchedTracks = first.unmatchedTracks.filter(
+        (t) => t.confirmed && !recovered.has(t)
+      );
+      const unmatchedTentative = new Set(
+        first.unmatchedTracks.filter((t) => !t.confirmed)
+      );
+      tracks = tracks.filter((t) => !unmatchedTentative.has(t));
+      newTrackCandidates = first.unmatchedDetections;
+    } else {
+      const all = associateTracks(
+        tracks,
+        detections.map((_, i) => i),
+        boxes,
+        detections,
+        iouThreshold,
+        classAware
+      );
+      matches.push(...all.matches);
+      unmatchedTracks = all.unmatchedTracks;
+      newTrackCandidates = all.unmatchedDetections;
+    }
+
+    for (const [track, d] of matches) {
+      correctTrack(track, boxes[d]!, detections[d]!, d);
+    }
+    for (const d of newTrackCandidates) {
+      tracks.push(startTrack(boxes[d]!, detections[d]!, d));
+    }
+
+    const expired = new Set(
+      unmatchedTracks.filter((t) => t.timeSinceUpdate > maxAge)
+    );
+    tracks = tracks.filter((t) => !expired.has(t));
+
+    for (const track of tracks) {
+      if (
+        track.timeSinceUpdate === 0 &&
+        (track.hitStreak >= minHits || frameCount <= minHits)
+      ) {
+        track.confirmed = true;
+      }
+    }
+
+    return tracks
+      .filter((t) => t.confirmed && t.timeSinceUpdate === 0)
+      .map(toTrack);
+  };
+
+  return {
+    update,
+    getTracks: () => tracks.map(toTrack),
+    reset: () => {
+      tracks = [];
+      nextTrackId = 1;
+      frameCount = 0;
+    },
+  };
+}
+
+// =============================================================================
+// Keypoint Smoothing
+// =============================================================================
+
+const TIMESTAMP_UNITS: Record<TimestampUnit, number> = {
+  s: 1,
+  ms: 1e-3,
+  ns: 1e-9,
+};
+
+/** One Euro filter state for a single coordinate */
+interface OneEuroAxis {
+  value: number;
+  derivative: number;
+}
+
+interface SmoothedKeypoint {
+  x: OneEuroAxis;
+  y: OneEuroAxis;
+  /** Timestamp of the last accepted observation, in seconds */
+  lastSeen: number;
+}
+
+interface SmoothedPerson {
+  keypoints: Array<SmoothedKeypoint | undefined>;
+  /** Timestamp of the last smooth() call, in seconds */
+  lastTimestamp: number;
+}
+
+function oneEuroAlpha(dt: number, cutoff: number): number {
+  const r = 2 * Math.PI * cutoff * dt;
+  return r / (r + 1);
+}
+
+function stepOneEuro(
+  axis: OneEuroAxis,
+  measurement: number,
+  dt: number,
+  minCutoff: number,
+  beta: number,
+  dCutoff: number
+): void {
+  const speed = (measurement - axis.value) / dt;
+  axis.derivative += oneEuroAlpha(dt, dCutoff) * (speed - axis.derivative);
+  const cutoff = minCutoff + beta * Math.abs(axis.derivative);
+  axis.value += oneEuroAlpha(dt, cutoff) * (measurement - axis.value);
+}
+
+function validateKeypointSmootherOptions(
+  options: KeypointSmootherOptions
+): void {
+  const positive: Array<[string, number | undefined]> = [
+    ['minCutoff', options.minCutoff],
+    ['dCutoff', options.dCutoff],
+    ['maxGapMs', options.maxGapMs],
+  ];
+  for (const [name, value] of positive) {
+    if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+      throw new VisionUtilsException(
+        'INVALID_OPTIONS',
+        `${name} must be a positive number`
+      );
+    }
+  }
+  const { beta, minConfidence, timestampUnit } = options;
+  if (beta !== undefined && !(Number.isFinite(beta) && beta >= 0)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'beta must be a non-negative number'
+    );
+  }
+  if (
+    minConfidence !== undefined &&
+    !(minConfidence >= 0 && minConfidence <= 1)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'minConfidence must be between 0 and 1'
+    );
+  }
+  if (
+    timestampUnit !== undefined &&
+    !Object.prototype.hasOwnProperty.call(TIMESTAMP_UNITS, timestampUnit)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid timestampUnit: ${timestampUnit}. Must be one of: ${Object.keys(
+        TIMESTAMP_UNITS
+      ).join(', ')}`
+    );
+  }
+}
+
+/**
+ * Create a One Euro filter for keypoint streams
+ *
+ * Removes jitter from pose output across camera frames while keeping fast
+ * motion responsive: the cutoff frequency rises with each keypoint's speed.
+ * Each person id gets its own state. Keypoints that are missing or below
+ * minConfidence hold their last smoothed position; after maxGapMs without
+ * an observation a keypoint restarts from its next one, and a person that
+ * is not updated for maxGapMs is forgotten.
+ *
+ * @param options - Filter parameters, confidence threshold and gap handling
+ * @returns Smoother with smooth() and reset()
+ *
+ * @example
+ * const smoother = createKeypointSmoother({ minCutoff: 1, beta: 0.01 });
+ *
+ * // For each camera frame
+ * const smoothed = poses.map((pose, i) =>
+ *   smoother.smooth(pose.keypoints, frame.timestamp, tracks[i].trackId)
+ * );
+ */
+export function createKeypointSmoother(
+  options: KeypointSmootherOptions = {}
+): KeypointSmoother {
+  validateKeypointSmootherOptions(options);
+
+  const minCutoff = options.minCutoff ?? 1;
+  const beta = options.beta ?? 0.007;
+  const dCutoff = options.dCutoff ?? 1;
+  const minConfidence = options.minConfidence ?? 0;
+  const maxGap = (options.maxGapMs ?? 500) / 1000;
+  const toSeconds = TIMESTAMP_UNITS[options.timestampUnit ?? 'ms'];
+
+  const people = new Map<number | string, SmoothedPerson>();
+
+  const smooth = (
+    keypoints: Keypoint[],
+    timestamp: number,
+    id: number | string = 0
+  ): Keypoint[] => {
+    if (!Array.isArray(keypoints)) {
+      throw new VisionUtilsException(
+        'INVALID_INPUT',
+        'Keypoints must be an array'
+      );
+    }
+    if (typeof timestamp !== 'number' || !Number.isFinite(timestamp)) {
+      throw new VisionUtilsException(
+        'INVALID_INPUT',
+        'Timestamp must be a finite number'
+      );
+    }
+    const now = timestamp * toSeconds;
+
+    // Forget people who left the frame
+    for (const [key, person] of people) {
+      if (key !== id && now - person.lastTimestamp > maxGap) {
+        people.delete(key);
+      }
+    }
+
+    let person = people.get(id);
+    if (person && now < person.lastTimestamp) {
+      throw new VisionUtilsException(
+        'INVALID_INPUT',
+        `Timestamp ${timestamp} is earlier than the previous frame for ${id}`
+      );
+    }
+    if (!person || now - person.lastTimestamp > maxGap) {
+      person = { keypoints: [], lastTimestamp: now };
+      people.set(id, person);
+    }
+    person.lastTimestamp = now;
+    const state = person;
+
+    return keypoints.map((keypoint, i) => {
+      const previous = state.keypoints[i];
+      const observed =
+        keypoint !== null &&
+        typeof keypoint === 'object' &&
+        Number.isFinite(keypoint.x) &&
+        Number.isFinite(keypoint.y) &&
+        (keypoint.confidence ?? 1) >= minConfidence;
+
+      if (!observed) {
+        return previous && now - previous.lastSeen <= maxGap
+          ? { ...keypoint, x: previous.x.value, y: previous.y.value }
+          : keypoint;
+      }
+
+      const dt = previous ? now - previous.lastSeen : 0;
+      if (!previous || dt > maxGap) {
+        state.keypoints[i] = {
+          x: { value: keypoint.x, derivative: 0 },
+          y: { value: keypoint.y, derivative: 0 },
+          lastSeen: now,
+        };
+        return { ...keypoint };
+      }
+      // A repeated timestamp carries no timing information to filter with
+      if (dt > 0) {
+        stepOneEuro(previous.x, keypoint.x, dt, minCutoff, beta, dCutoff);
+        stepOneEuro(previous.y, keypoint.y, dt, minCutoff, beta, dCutoff);
+        previous.lastSeen = now;
+      }
+      return { ...keypoint, x: previous.x.value, y: previous.y.value };
+    });
+  };
+
+  return {
+    smooth,
+    reset: (id?: number | string) => {
+      if (id === undefined) {
+        people.clear();
+      } else {
+        people.delete(id);
+      }
+    },
+  };
+}
+
+// =============================================================================
+// Sliced Inference
+// =============================================================================
+
+const SLICE_MERGE_MODES: SliceMergeMode[] = ['nms', 'nmm'];
+const SLICE_MATCH_METRICS: SliceMatchMetric[] = ['iou', 'ios'];
+
+interface SliceCandidate {
+  detection: Detection;
+  /** xyxy box in original image coordinates */
+  box: BoundingBox;
+}
+
+/** Start offsets along one axis; the last slice is shifted to end at the edge */
+function sliceStarts(size: number, slice: number, step: number): number[] {
+  const starts: number[] = [];
+  for (let start = 0; start + slice < size; start += step) {
+    starts.push(start);
+  }
+  starts.push(size - slice);
+  return starts;
+}
+
+/**
+ * Tile an image into overlapping slices (SAHI's slicing scheme). Slices
+ * larger than the image are clamped to it.
+ */
+function computeSliceRegions(
+  imageWidth: number,
+  imageHeight: number,
+  sliceWidth: number,
+  sliceHeight: number,
+  overlapPercent: number
+): SliceRegion[] {
+  const width = Math.min(sliceWidth, imageWidth);
+  const height = Math.min(sliceHeight, imageHeight);
+  const stepX = Math.max(1, width - Math.floor(width * overlapPercent));
+  const stepY = Math.max(1, height - Math.floor(height * overlapPercent));
+
+  const xs = sliceStarts(imageWidth, width, stepX);
+  return sliceStarts(imageHeight, height, stepY).flatMap((y) =>
+    xs.map((x) => ({ x, y, width, height, fullImage: false }))
+  );
+}
+
+function sliceOverlap(
+  a: BoundingBox,
+  b: BoundingBox,
+  metric: SliceMatchMetric
+): number {
+  const intersection = xyxyIntersection(a, b);
+  const areaA = (a[2] - a[0]) * (a[3] - a[1]);
+  const areaB = (b[2] - b[0]) * (b[3] - b[1]);
+  const denominator =
+    metric === 'ios' ? Math.min(areaA, areaB) : areaA + areaB - intersection;
+  return denominator > 0 ? intersection / denominator : 0;
+}
+
+/**
+ * Greedy NMS / NMM. Each remaining detection is matched against the
+ * highest-scoring unmatched one; with 'nmm' matched boxes are merged into
+ * their union instead of dropped.
+ */
+function mergeSliceDetections(
+  candidates: SliceCandidate[],
+  mode: SliceMergeMode,
+  metric: SliceMatchMetric,
+  threshold: number,
+  classAgnostic: boolean
+): SliceCandidate[] {
+  const order = candidates
+    .map((_, i) => i)
+    .sort(
+      (a, b) =>
+        candidates[b]!.detection.score - candidates[a]!.detection.score || a - b
+    );
+  const consumed = new Array<boolean>(candidates.length).fill(false);
+
+  const merged: SliceCandidate[] = [];
+  for (const i of order) {
+    if (consumed[i]) continue;
+    consumed[i] = true;
+    const keep = candidates[i]!;
+    const box: BoundingBox = [...keep.box];
+
+    for (const j of order) {
+      if (consumed[j]) continue;
+      const other = candidates[j]!;
+      if (
+        !classAgnostic &&
+        other.detection.classIndex !== keep.detection.classIndex
+      ) {
+        continue;
+      }
+      if (sliceOverlap(keep.box, other.box, metric) < threshold) continue;
+
+      consumed[j] = true;
+      if (mode === 'nmm') {
+        box[0] = Math.min(box[0], other.box[0]);
+        box[1] = Math.min(box[1], other.box[1]);
+        box[2] = Math.max(box[2], other.box[2]);
+        box[3] = Math.max(box[3], other.box[3]);
+      }
+    }
+    merged.push({ detection: keep.detection, box });
+  }
+  return merged;
+}
+
+function validateSlicedDetectOptions(options: SlicedDetectOptions): void {
+  if (!options || typeof options.runModel !== 'function') {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'runModel must be a function returning the detections of a slice'
+    );
+  }
+  const sizes = Array.isArray(options.sliceSize)
+    ? options.sliceSize
+    : [options.sliceSize, options.sliceSize];
+  if (
+    sizes.length !== 2 ||
+    !sizes.every((size) => Number.isInteger(size) && size > 0)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'sliceSize must be a positive integer or [width, height]'
+    );
+  }
+  const { overlapPercent, matchThreshold, format, mergeMode, matchMetric } =
+    options;
+  if (
+    overlapPercent !== undefined &&
+    !(overlapPercent >= 0 && overlapPercent < 1)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'overlapPercent must be at least 0 and less than 1'
+    );
+  }
+  if (
+    matchThreshold !== undefined &&
+    !(matchThreshold >= 0 && matchThreshold <= 1)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'matchThreshold must be between 0 and 1'
+    );
+  }
+  if (format !== undefined && !BOX_FORMATS.includes(format)) {
+    throw new VisionUtilsException(
+      'INVALID_FORMAT',
+      `Invalid box format: ${format}. Must be one of: ${BOX_FORMATS.join(', ')}`
+    );
+  }
+  // Boxes are mapped back with a per-axis scale, which only undoes a stretch
+  const resize = options.pixelOptions?.resize;
+  if (resize && resize.strategy !== 'stretch') {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `pixelOptions.resize must use the 'stretch' strategy, got '${
+        resize.strategy ?? 'cover'
+      }'`
+    );
+  }
+  if (mergeMode !== undefined && !SLICE_MERGE_MODES.includes(mergeMode)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid mergeMode: ${mergeMode}. Must be one of: ${SLICE_MERGE_MODES.join(
+        ', '
+      )}`
+    );
+  }
+  if (matchMetric !== undefined && !SLICE_MATCH_METRICS.includes(matchMetric)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid matchMetric: ${matchMetric}. Must be one of: ${SLICE_MATCH_METRICS.join(
+        ', '
+      )}`
+    );
+  }
+}
+
+/**
+ * Detect small objects by running a model on overlapping image slices
+ *
+ * Slicing Aided Hyper Inference (SAHI): the image is tiled into slices of
+ * `sliceSize`, each slice is read with getPixelData (as an roi) and passed
+ * to `runModel`, and the returned boxes are scaled from the slice's pixel
+ * data (when pixelOptions resizes it) and shifted into image coordinates.
+ * Duplicates across slice boundaries, and with the optional full-image
+ * pass, are then merged with NMS or NMM. Slices run one at a time.
+ *
+ * @param source - Image source
+ * @param options - Slicing, inference callback and merge options
+ * @returns Promise resolving to merged detections in image coordinates
+ *
+ * @example
+ * const { detections } = await slicedDetect(
+ *   { type: 'file', value: dronePhotoPath },
+ *   {
+ *     sliceSize: 640,
+ *     overlapPercent: 0.2,
+ *     fullImage: true,
+ *     pixelOptions: {
+ *       resize: { width: 640, height: 640, strategy: 'stretch' },
+ *       normalization: { preset: 'scale' },
+ *       dataLayout: 'nchw',
+ *     },
+ *     runModel: async (input) => detectInTile(input),
+ *   }
+ * );
+ */
+export async function slicedDetect(
+  source: ImageSource,
+  options: SlicedDetectOptions
+): Promise<SlicedDetectResult> {
+  validateSource(source);
+  validateSlicedDetectOptions(options);
+  const startTime = performance.now();
+
+  const [sliceWidth, sliceHeight] = Array.isArray(options.sliceSize)
+    ? options.sliceSize
+    : [options.sliceSize, options.sliceSize];
+  const format = options.format ?? 'xyxy';
+
+  const { width: imageWidth, height: imageHeight } = await getImageMetadata(
+    source
+  );
+  const slices = computeSliceRegions(
+    imageWidth,
+    imageHeight,
+    sliceWidth,
+    sliceHeight,
+    options.overlapPercent ?? 0.2
+  );
+  if (options.fullImage) {
+    slices.push({
+      x: 0,
+      y: 0,
+      width: imageWidth,
+      height: imageHeight,
+      fullImage: true,
+    });
+  }
+
+  const candidates: SliceCandidate[] = [];
+  for (const slice of slices) {
+    const input = await getPixelData({
+      ...options.pixelOptions,
+      source,
+      ...(!slice.fullImage && {
+        roi: {
+          x: slice.x,
+          y: slice.y,
+          width: slice.width,
+          height: slice.height,
+        },
+      }),
+    });
+    const detections = await options.runModel(input, slice);
+    if (!Array.isArray(detections)) {
+      throw new VisionUtilsException(
+        'INVALID_INPUT',
+        'runModel must resolve to an array of detections'
+      );
+    }
+
+    const scaleX = options.pixelOptions?.resize ? slice.width / input.width : 1;
+    const scaleY = options.pixelOptions?.resize
+      ? slice.height / input.height
+      : 1;
+    for (const detection of detections) {
+      const [x1, y1, x2, y2] = toXyxy(detection.box, format);
+      const box = clipXyxy(
+        [
+          x1 * scaleX + slice.x,
+          y1 * scaleY + slice.y,
+          x2 * scaleX + slice.x,
+          y2 * scaleY + slice.y,
+        ],
+        imageWidth,
+        imageHeight
+      );
+      if (box[2] > box[0] && box[3] > box[1]) {
+        candidates.push({ detection, box });
+      }
+    }
+  }
+
+  const merged = mergeSliceDetections(
+    candidates,
+    options.mergeMode ?? 'nmm',
+    options.matchMetric ?? 'ios',
+    options.matchThreshold ?? 0.5,
+    options.classAgnostic ?? false
+  );
+
+  return {
+    detections: merged.map(({ detection, box }) => ({
+      ...detection,
+      box: fromXyxy(box, format),
+    })),
+    format,
+    slices,
+    rawDetectionCount: candidates.length,
+    imageWidth,
+    imageHeight,
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+// =============================================================================
+// Patch Stitching
+// =============================================================================
+
+const STITCH_BLEND_MODES: StitchBlendMode[] = [
+  'average',
+  'linear',
+  'gaussian',
+  'max',
+];
+
+/** Smallest blend weight, so pixels only one patch covers keep its value */
+const MIN_STITCH_WEIGHT = 1e-6;
+
+/** Blend weights along one patch axis of `size` output pixels */
+function stitchAxisWeights(
+  size: number,
+  blend: StitchBlendMode,
+  sigma: number
+): Float32Array {
+  const weights = new Float32Array(size).fill(1);
+  const center = (size - 1) / 2;
+  const sd = Math.max(sigma * size, MIN_STITCH_WEIGHT);
+  for (let i = 0; i < size; i++) {
+    if (blend === 'linear') {
+      // 1 at each edge, rising towards the center
+      weights[i] = Math.min(i + 1, size - i);
+    } else if (blend === 'gaussian') {
+      weights[i] = Math.max(
+        Math.exp(-((i - center) ** 2) / (2 * sd * sd)),
+        MIN_STITCH_WEIGHT
+      );
+    }
+  }
+  return weights;
+}
+
+function validateStitchPatches(
+  patchOutputs: PatchOutput[],
+  gridResult: Pick<
+    GridExtractResult,
+    'patches' | 'originalWidth' | 'originalHeight'
+  >,
+  options: StitchPatchesOptions
+): void {
+  if (!gridResult || !Array.isArray(gridResult.patches)) {
+    throw new VisionUtilsException(
+      'INVALID_INPUT',
+      'gridResult must be the result of extractGrid'
+    );
+  }
+  if (
+    !Array.isArray(patchOutputs) ||
+    patchOutputs.length !== gridResult.patches.length
+  ) {
+    throw new VisionUtilsException(
+      'DIMENSION_MISMATCH',
+      `Expected one output per patch (${gridResult.patches.length}), got ${
+        Array.isArray(patchOutputs) ? patchOutputs.length : 'none'
+      }`
+    );
+  }
+  const { blend, layout, sigma } = options;
+  if (blend !== undefined && !STITCH_BLEND_MODES.includes(blend)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid blend: ${blend}. Must be one of: ${STITCH_BLEND_MODES.join(
+        ', '
+      )}`
+    );
+  }
+  if (
+    layout !== undefined &&
+    !['hwc', 'chw', 'nhwc', 'nchw'].includes(layout)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid layout: ${layout}. Must be one of: hwc, chw, nhwc, nchw`
+    );
+  }
+  if (sigma !== undefined && !(sigma > 0 && Number.isFinite(sigma))) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'sigma must be a positive number'
+    );
+  }
+}
+
+/**
+ * Reassemble per-patch model outputs into one map of the original image
+ *
+ * Each output is placed at its GridPatch position and overlaps are blended,
+ * which hides the seams sliding-window inference otherwise leaves. Outputs
+ * may be at a different resolution than their patch (super-resolution,
+ * strided segmentation heads); the scale is taken from the first patch and
+ * applied to the whole map. Works for class scores and image values alike.
+ *
+ * @param patchOutputs - Model output for each patch, in gridResult order
+ * @param gridResult - Result of extractGrid the patches came from
+ * @param options - Blend mode and output layout
+ * @returns Stitched float map
+ *
+ * @example
+ * const grid = await extractGrid(source, { rows: 2, columns: 2, overlap: 64 });
+ * const outputs = await Promise.all(
+ *   grid.patches.map(async (patch) => ({
+ *     data: await segment(patch.data),
+ *     width: patch.width,
+ *     height: patch.height,
+ *     channels: 21,
+ *   }))
+ * );
+ * const { data } = stitchPatches(outputs, grid, {
+ *   blend: 'gaussian',
+ *   layout: 'chw',
+ * });
+ */
+export function stitchPatches(
+  patchOutputs: PatchOutput[],
+  gridResult: Pick<
+    GridExtractResult,
+    'patches' | 'originalWidth' | 'originalHeight'
+  >,
+  options: StitchPatchesOptions = {}
+): StitchPatchesResult {
+  validateStitchPatches(patchOutputs, gridResult, options);
+  const startTime = performance.now();
+
+  const blend = options.blend ?? 'linear';
+  const layout = options.layout ?? 'hwc';
+  const channelFirst = layout === 'chw' || layout === 'nchw';
+  const sigma = options.sigma ?? 0.125;
+
+  const first = patchOutputs[0];
+  const firstPatch = gridResult.patches[0];
+  const scaleX = first && firstPatch ? first.width / firstPatch.width : 1;
+  const scaleY = first && firstPatch ? first.height / firstPatch.height : 1;
+  const width = Math.round(gridResult.originalWidth * scaleX);
+  const height = Math.round(gridResult.originalHeight * scaleY);
+
+  let channels = 0;
+  patchOutputs.forEach((output, i) => {
+    const patch = gridResult.patches[i]!;
+    const patchChannels =
+      output.channels ?? output.data.length / (output.width * output.height);
+    if (
+      !Number.isInteger(output.width) ||
+      !Number.isInteger(output.height) ||
+      output.width <= 0 ||
+      output.height <= 0 ||
+      !Number.isInteger(patchChannels) ||
+      patchChannels <= 0 ||
+      output.data.length !== output.width * output.height * patchChannels
+    ) {
+      throw new VisionUtilsException(
+        'DIMENSION_MISMATCH',
+        `Patch output ${i} does not hold width * height * channels values`
+      );
+    }
+    if (i === 0) {
+      channels = patchChannels;
+    } else if (patchChannels !== channels) {
+      throw new VisionUtilsException(
+        'DIMENSION_MISMATCH',
+        `Patch output ${i} has ${patchChannels} channels, expected ${channels}`
+      );
+    }
+    // Edge patches may round differently, but never by more than a pixel
+    if (
+      Math.abs(output.width - patch.width * scaleX) > 1 ||
+      Math.abs(output.height - patch.height * scaleY) > 1
+    ) {
+      throw new VisionUtilsException(
+        'DIMENSION_MISMATCH',
+        `Patch output ${i} is ${output.width}x${output.height}, expected ${
+          patch.width * scaleX
+        }x${patch.height * scaleY}`
+      );
+    }
+  });
+
+  const plane = width * height;
+  const values = new Float32Array(plane * channels);
+  const weightSums = new Float32Array(plane);
+  if (blend === 'max') {
+    values.fill(-Infinity);
+  }
+
+  const weightCache = new Map<number, Float32Array>();
+  const axisWeights = (size: number) => {
+    let weights = weightCache.get(size);
+    if (!weights) {
+      weights = stitchAxisWeights(size, blend, sigma);
+      weightCache.set(size, weights);
+    }
+    return weights;
+  };
+
+  patchOutputs.forEach((output, i) => {
+    const patch = gridResult.patches[i]!;
+    const { data, width: outWidth, height: outHeight } = output;
+    const outPlane = outWidth * outHeight;
+    const originX = Math.round(patch.x * scaleX);
+    const originY = Math.round(patch.y * scaleY);
+    const weightsX = axisWeights(outWidth);
+    const weightsY = axisWeights(outHeight);
+
+    const startX = Math.max(0, -originX);
+    const endX = Math.min(outWidth, width - originX);
+    const startY = Math.max(0, -originY);
+    const endY = Math.min(outHeight, height - originY);
+
+    for (let py = startY; py < endY; py++) {
+      const rowWeight = weightsY[py]!;
+      for (let px = startX; px < endX; px++) {
+        const pixel = (originY + py) * width + originX + px;
+        const source = py * outWidth + px;
+        const weight = rowWeight * weightsX[px]!;
+        weightSums[pixel] = weightSums[pixel]! + weight;
+
+        for (let c = 0; c < channels; c++) {
+          const value = data[
+            channelFirst ? c * outPlane + source : source * channels + c
+          ] as number;
+          const target = channelFirst
+            ? c * plane + pixel
+            : pixel * channels + c;
+          if (blend === 'max') {
+            if (value > values[target]!) values[target] = value;
+          } else {
+            values[target] = values[target]! + weight * value;
+          }
+        }
+      }
+    }
+  });
+
+  for (let pixel = 0; pixel < plane; pixel++) {
+    const weightSum = weightSums[pixel]!;
+    for (let c = 0; c < channels; c++) {
+      const target = channelFirst ? c * plane + pixel : pixel * channels + c;
+      if (weightSum === 0) {
+        values[target] = 0;
+      } else if (blend !== 'max') {
+        values[target] = values[target]! / weightSum;
+      }
+    }
+  }
+
+  return {
+    data: values,
+    width,
+    height,
+    channels,
+    layout,
+    scale: [scaleX, scaleY],
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+// =============================================================================
+// Augmentation Pipelines
+// =============================================================================
+
+const AUGMENTATION_STEP_TYPES: AugmentationStepType[] = [
+  'horizontalFlip',
+  'verticalFlip',
+  'rotate',
+  'colorJitter',
+  'cutout',
+  'oneOf',
+];
+const CUTOUT_FILL_MODES: CutoutFillMode[] = ['constant', 'noise', 'random'];
+const PIPELINE_FORMATS = ['png', 'jpeg', 'webp'];
+const IDENTITY_MATRIX3: Matrix3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+/** Image being augmented: RGB HWC in [0, 1], and its transform from the source */
+interface PipelineImage {
+  data: Float32Array;
+  width: number;
+  height: number;
+  matrix: Matrix3;
+}
+
+/**
+ * Park-Miller generator returning values in [0, 1). The first draws are
+ * skipped: for small seeds they grow almost linearly with the seed, so
+ * seeds 1, 2, 3... would start with nearly the same values.
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = (Math.abs(Math.floor(seed)) % 2147483646) + 1;
+  const next = () => {
+    state = (state * 48271) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+  for (let i = 0; i < 8; i++) next();
+  return next;
+}
+
+function randomSeed(random: () => number = Math.random): number {
+  return Math.floor(random() * 2147483646) + 1;
+}
+
+/** Range of a colorJitter-style option, as the native colorJitter reads it */
+function jitterRange(
+  value: number | [number, number] | undefined,
+  identity: number,
+  multiplicative: boolean
+): [number, number] {
+  if (value === undefined) return [identity, identity];
+  if (Array.isArray(value)) return value;
+  return multiplicative ? [Math.max(0, 1 - value), 1 + value] : [-value, value];
+}
+
+function sampleRange([min, max]: [number, number], random: () => number) {
+  return min === max ? min : min + random() * (max - min);
+}
+
+function defaultStepProbability(step: AugmentationStep): number {
+  return step.type === 'horizontalFlip' || step.type === 'verticalFlip'
+    ? 0.5
+    : 1;
+}
+
+/**
+ * Resample through a source-to-output transform (bilinear); pixels mapping
+ * outside the source take the fill color
+ */
+function warpPipelineImage(
+  image: PipelineImage,
+  transform: Matrix3,
+  width: number,
+  height: number,
+  fill: [number, number, number]
+): PipelineImage {
+  const [a, b, c, d, e, f, g, h, i] = invertMatrix3(transform);
+  const { data: source, width: sourceWidth, height: sourceHeight } = image;
+  const data = new Float32Array(width * height * 3);
+  const { floor } = Math;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const outX = x + 0.5;
+      const outY = y + 0.5;
+      const w = g * outX + h * outY + i;
+      const sourceX = (a * outX + b * outY + c) / w - 0.5;
+      const sourceY = (d * outX + e * outY + f) / w - 0.5;
+      const x0 = floor(sourceX);
+      const y0 = floor(sourceY);
+      const target = (y * width + x) * 3;
+
+      if (x0 < -1 || y0 < -1 || x0 >= sourceWidth || y0 >= sourceHeight) {
+        data[target] = fill[0];
+        data[target + 1] = fill[1];
+        data[target + 2] = fill[2];
+        continue;
+      }
+
+      const fx = sourceX - x0;
+      const fy = sourceY - y0;
+      const hasX0 = x0 >= 0;
+      const hasX1 = x0 + 1 < sourceWidth;
+      const hasY0 = y0 >= 0;
+      const hasY1 = y0 + 1 < sourceHeight;
+      const i00 = (y0 * sourceWidth + x0) * 3;
+      const i01 = i00 + sourceWidth * 3;
+      for (let ch = 0; ch < 3; ch++) {
+        const fillValue = fill[ch]!;
+        const p00 = hasX0 && hasY0 ? source[i00 + ch]! : fillValue;
+        const p10 = hasX1 && hasY0 ? source[i00 + 3 + ch]! : fillValue;
+        const p01 = hasX0 && hasY1 ? source[i01 + ch]! : fillValue;
+        const p11 = hasX1 && hasY1 ? source[i01 + 3 + ch]! : fillValue;
+        data[target + ch] =
+          (p00 * (1 - fx) + p10 * fx) * (1 - fy) +
+          (p01 * (1 - fx) + p11 * fx) * fy;
+      }
+    }
+  }
+
+  return {
+    data,
+    width,
+    height,
+    matrix: multiplyMatrix3(transform, image.matrix),
+  };
+}
+
+/**
+ * Apply a 3x4 color matrix (rows of [r, g, b, offset]) in place, clamping to
+ * [0, 1] as drawing into a bitmap does
+ */
+function applyColorMatrix(data: Float32Array, m: number[]): void {
+  const [m0, m1, m2, m3, m4, m5, m6, m7, m8, m9, m10, m11] = m as [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number
+  ];
+  for (let i = 0; i < data.length; i += 3) {
+    const r = data[i]!;
+    const g = data[i + 1]!;
+    const b = data[i + 2]!;
+    const nr = m0 * r + m1 * g + m2 * b + m3;
+    const ng = m4 * r + m5 * g + m6 * b + m7;
+    const nb = m8 * r + m9 * g + m10 * b + m11;
+    data[i] = nr < 0 ? 0 : nr > 1 ? 1 : nr;
+    data[i + 1] = ng < 0 ? 0 : ng > 1 ? 1 : ng;
+    data[i + 2] = nb < 0 ? 0 : nb > 1 ? 1 : nb;
+  }
+}
+
+/** Color matrices matching the native colorJitter, in [0, 1] units */
+function jitterColors(
+  data: Float32Array,
+  brightness: number,
+  contrast: number,
+  saturation: number,
+  hue: number
+): void {
+  if (brightness !== 0) {
+    applyColorMatrix(data, [
+      1,
+      0,
+      0,
+      brightness,
+      0,
+      1,
+      0,
+      brightness,
+      0,
+      0,
+      1,
+      brightness,
+    ]);
+  }
+  if (contrast !== 1) {
+    const offset = (1 - contrast) * 0.5;
+    applyColorMatrix(data, [
+      contrast,
+      0,
+      0,
+      offset,
+      0,
+      contrast,
+      0,
+      offset,
+      0,
+      0,
+      contrast,
+      offset,
+    ]);
+  }
+  if (saturation !== 1) {
+    const r = 0.213 * (1 - saturation);
+    const g = 0.715 * (1 - saturation);
+    const b = 0.072 * (1 - saturation);
+    applyColorMatrix(data, [
+      r + saturation,
+      g,
+      b,
+      0,
+      r,
+      g + saturation,
+      b,
+      0,
+      r,
+      g,
+      b + saturation,
+      0,
+    ]);
+  }
+  if (hue !== 0) {
+    const cos = Math.cos(hue * 2 * Math.PI);
+    const sin = Math.sin(hue * 2 * Math.PI);
+    const [lumR, lumG, lumB] = [0.213, 0.715, 0.072];
+    applyColorMatrix(data, [
+      lumR + cos * (1 - lumR) - sin * lumR,
+      lumG - cos * lumG - sin * lumG,
+      lumB - cos * lumB + sin * (1 - lumB),
+      0,
+      lumR - cos * lumR + sin * 0.143,
+      lumG + cos * (1 - lumG) + sin * 0.14,
+      lumB - cos * lumB - sin * 0.283,
+      0,
+      lumR - cos * lumR - sin * (1 - lumR),
+      lumG - cos * lumG + sin * lumG,
+      lumB + cos * (1 - lumB) + sin * lumB,
+      0,
+    ]);
+  }
+}
+
+/** Erase random rectangles in place, sampled like the native cutout */
+function cutoutPipelineImage(
+  image: PipelineImage,
+  step: CutoutStep,
+  random: () => number
+): CutoutRegion[] {
+  const { data, width, height } = image;
+  const minSize = step.minSize ?? 0.02;
+  const maxSize = step.maxSize ?? 0.33;
+  const minAspect = step.minAspect ?? 0.3;
+  const maxAspect = step.maxAspect ?? 3.3;
+  const fillMode = step.fillMode ?? 'constant';
+
+  const regions: CutoutRegion[] = [];
+  for (let n = 0; n < (step.numCutouts ?? 1); n++) {
+    const area = (minSize + random() * (maxSize - minSize)) * width * height;
+    const aspect = minAspect + random() * (maxAspect - minAspect);
+    const cutWidth = Math.min(Math.floor(Math.sqrt(area * aspect)), width);
+    const cutHeight = Math.min(Math.floor(Math.sqrt(area / aspect)), height);
+    if (cutWidth <= 0 || cutHeight <= 0) continue;
+    const x = width > cutWidth ? Math.floor(random() * (width - cutWidth)) : 0;
+    const y =
+      height > cutHeight ? Math.floor(random() * (height - cutHeight)) : 0;
+
+    let fill: [number, number, number] | 'noise' = 'noise';
+    if (fillMode === 'random') {
+      fill = [
+        Math.floor(random() * 256),
+        Math.floor(random() * 256),
+        Math.floor(random() * 256),
+      ];
+    } else if (fillMode === 'constant') {
+      fill = step.fillValue ?? [0, 0, 0];
+    }
+
+    for (let row = y; row < y + cutHeight; row++) {
+      for (let col = x; col < x + cutWidth; col++) {
+        const target = (row * width + col) * 3;
+        for (let ch = 0; ch < 3; ch++) {
+          data[target + ch] = fill === 'noise' ? random() : fill[ch]! / 255;
+        }
+      }
+    }
+    regions.push({ x, y, width: cutWidth, height: cutHeight, fill });
+  }
+  return regions;
+}
+
+/** Decode to RGB HWC in [0, 1], optionally stretched to [width, height] */
+async function decodePipelineImage(
+  source: ImageSource,
+  size?: [number, number],
+  roi?: Roi
+): Promise<PipelineImage> {
+  const pixels = await getPixelData({
+    source,
+    colorFormat: 'rgb',
+    normalization: { preset: 'scale' },
+    dataLayout: 'hwc',
+    outputFormat: 'float32Array',
+    ...(roi && { roi }),
+    ...(size && {
+      resize: { width: size[0], height: size[1], strategy: 'stretch' },
+    }),
+  });
+  return {
+    data: Float32Array.from(pixels.data),
+    width: pixels.width,
+    height: pixels.height,
+    matrix: IDENTITY_MATRIX3,
+  };
+}
+
+function encodePipelineImage(
+  image: Pick<PipelineImage, 'data' | 'width' | 'height'>,
+  options: Pick<ComposeOptions, 'format' | 'quality'>
+): Promise<TensorToImageResult> {
+  return tensorToImage(
+    {
+      data: image.data,
+      width: image.width,
+      height: image.height,
+      channels: 3,
+      colorFormat: 'rgb',
+      dataLayout: 'hwc',
+      shape: [image.height, image.width, 3],
+      processingTimeMs: 0,
+    },
+    {
+      format: options.format ?? 'png',
+      ...(options.quality !== undefined && { quality: options.quality }),
+    }
+  );
+}
+
+function runAugmentationStep(
+  step: AugmentationStep,
+  state: { image: PipelineImage },
+  random: () => number
+): AppliedAugmentation {
+  if (!(random() < (step.p ?? defaultStepProbability(step)))) {
+    return { type: step.type, applied: false };
+  }
+  const { image } = state;
+
+  switch (step.type) {
+    case 'horizontalFlip':
+    case 'verticalFlip': {
+      const transform: Matrix3 =
+        step.type === 'horizontalFlip'
+          ? [-1, 0, image.width, 0, 1, 0, 0, 0, 1]
+          : [1, 0, 0, 0, -1, image.height, 0, 0, 1];
+      state.image = warpPipelineImage(
+        image,
+        transform,
+        image.width,
+        image.height,
+        [0, 0, 0]
+      );
+      return { type: step.type, applied: true };
+    }
+    case 'rotate': {
+      const limit = step.limit ?? 30;
+      const angle = sampleRange(
+        Array.isArray(limit) ? limit : [-limit, limit],
+        random
+      );
+      const radians = (angle * Math.PI) / 180;
+      const cos = Math.cos(radians);
+      const sin = Math.sin(radians);
+      const cx = image.width / 2;
+      const cy = image.height / 2;
+      // Clockwise in image (y-down) coordinates, as applyAugmentations
+      const transform: Matrix3 = [
+        cos,
+        -sin,
+        cx - cos * cx + sin * cy,
+        sin,
+        cos,
+        cy - sin * cx - cos * cy,
+        0,
+        0,
+        1,
+      ];
+      const [r, g, b] = step.fillValue ?? [0, 0, 0];
+      state.image = warpPipelineImage(
+        image,
+        transform,
+        image.width,
+        image.height,
+        [r / 255, g / 255, b / 255]
+      );
+      return { type: step.type, applied: true, params: { angle } };
+    }
+    case 'colorJitter': {
+      const brightness = sampleRange(
+        jitterRange(step.brightness, 0, false),
+        random
+      );
+      const contrast = sampleRange(jitterRange(step.contrast, 1, true), random);
+      const saturation = sampleRange(
+        jitterRange(step.saturation, 1, true),
+        random
+      );
+      const hue = sampleRange(jitterRange(step.hue, 0, false), random);
+      jitterColors(image.data, brightness, contrast, saturation, hue);
+      return {
+        type: step.type,
+        applied: true,
+        params: { brightness, contrast, saturation, hue },
+      };
+    }
+    case 'cutout': {
+      const regions = cutoutPipelineImage(image, step, random);
+      return { type: step.type, applied: true, params: { regions } };
+    }
+    case 'oneOf': {
+      const weights = step.transforms.map(
+        (child) => child.p ?? defaultStepProbability(child)
+      );
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+      if (total <= 0) {
+        return { type: step.type, applied: false };
+      }
+      let roll = random() * total;
+      let index = 0;
+      while (index < weights.length - 1 && roll >= weights[index]!) {
+        roll -= weights[index]!;
+        index++;
+      }
+      const chosen = runAugmentationStep(
+        { ...step.transforms[index]!, p: 1 },
+        state,
+        random
+      );
+      return {
+        type: step.type,
+        applied: true,
+        params: { index },
+        transforms: [chosen],
+      };
+    }
+  }
+}
+
+function isJitterRange(value: unknown, allowNegative: boolean): boolean {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0;
+  }
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((v) => typeof v === 'number' && Number.isFinite(v)) &&
+    value[0] <= value[1] &&
+    (allowNegative || value[0] >= 0)
+  );
+}
+
+function isFillValue(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((v) => typeof v === 'number' && v >= 0 && v <= 255)
+  );
+}
+
+function validateAugmentationStep(step: AugmentationStep, path: string): void {
+  const invalid = (message: string) =>
+    new VisionUtilsException('INVALID_OPTIONS', `${path}: ${message}`);
+
+  if (!step || !AUGMENTATION_STEP_TYPES.includes(step.type)) {
+    throw invalid(
+      `Invalid type: ${
+        step ? step.type : step
+      }. Must be one of: ${AUGMENTATION_STEP_TYPES.join(', ')}`
+    );
+  }
+  if (step.p !== undefined && !(step.p >= 0 && step.p <= 1)) {
+    throw invalid('p must be between 0 and 1');
+  }
+
+  switch (step.type) {
+    case 'rotate':
+      if (step.limit !== undefined && !isJitterRange(step.limit, true)) {
+        throw invalid('limit must be a non-negative number or [min, max]');
+      }
+      if (step.fillValue !== undefined && !isFillValue(step.fillValue)) {
+        throw invalid('fillValue must be [R, G, B] in 0-255');
+      }
+      break;
+    case 'colorJitter':
+      for (const key of [
+        'brightness',
+        'contrast',
+        'saturation',
+        'hue',
+      ] as const) {
+        const value = step[key];
+        const allowNegative = key === 'brightness' || key === 'hue';
+        if (value !== undefined && !isJitterRange(value, allowNegative)) {
+          throw invalid(`${key} must be a non-negative number or [min, max]`);
+        }
+      }
+      break;
+    case 'cutout': {
+      const { numCutouts, minSize, maxSize, minAspect, maxAspect } = step;
+      if (
+        numCutouts !== undefined &&
+        !(Number.isInteger(numCutouts) && numCutouts >= 0)
+      ) {
+        throw invalid('numCutouts must be a non-negative integer');
+      }
+      const min = minSize ?? 0.02;
+      const max = maxSize ?? 0.33;
+      if (!(min >= 0 && min <= max && max <= 1)) {
+        throw invalid('minSize and maxSize must satisfy 0 <= min <= max <= 1');
+      }
+      const minA = minAspect ?? 0.3;
+      const maxA = maxAspect ?? 3.3;
+      if (!(minA > 0 && minA <= maxA && Number.isFinite(maxA))) {
+        throw invalid('minAspect and maxAspect must satisfy 0 < min <= max');
+      }
+      if (
+        step.fillMode !== undefined &&
+        !CUTOUT_FILL_MODES.includes(step.fillMode)
+      ) {
+        throw invalid(
+          `Invalid fillMode: ${
+            step.fillMode
+          }. Must be one of: ${CUTOUT_FILL_MODES.join(', ')}`
+        );
+      }
+      if (step.fillValue !== undefined && !isFillValue(step.fillValue)) {
+        throw invalid('fillValue must be [R, G, B] in 0-255');
+      }
+      break;
+    }
+    case 'oneOf':
+      if (!Array.isArray(step.transforms) || step.transforms.length === 0) {
+        throw invalid('transforms must be a non-empty array');
+      }
+      step.transforms.forEach((child, i) =>
+        validateAugmentationStep(child, `${path}.transforms[${i}]`)
+      );
+      break;
+  }
+}
+
+function validateComposeOptions(
+  transformsList: AugmentationStep[],
+  options: ComposeOptions
+): void {
+  if (!Array.isArray(transformsList)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'transforms must be an array of augmentation steps'
+    );
+  }
+  transformsList.forEach((step, i) =>
+    validateAugmentationStep(step, `transforms[${i}]`)
+  );
+  validateImageEncoding(options);
+}
+
+function validateImageEncoding(
+  options: Pick<ComposeOptions, 'seed' | 'format' | 'quality'>
+): void {
+  const { seed, format, quality } = options;
+  if (seed !== undefined && !Number.isFinite(seed)) {
+    throw new VisionUtilsException('INVALID_OPTIONS', 'seed must be a number');
+  }
+  if (format !== undefined && !PIPELINE_FORMATS.includes(format)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid format: ${format}. Must be one of: ${PIPELINE_FORMATS.join(
+        ', '
+      )}`
+    );
+  }
+  if (quality !== undefined && !(quality >= 0 && quality <= 100)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'quality must be between 0 and 100'
+    );
+  }
+}
+
+/** albumentations release whose to_dict format toJSON writes */
+const ALBUMENTATIONS_VERSION = '2.0.0';
+/** cv2.INTER_LINEAR and cv2.BORDER_CONSTANT, how rotate resamples and fills */
+const CV2_INTER_LINEAR = 1;
+const CV2_BORDER_CONSTANT = 0;
+
+/**
+ * Write a step as the albumentations transform that does the same
+ *
+ * - rotate → Rotate, with the angles negated (albumentations turns
+ *   counter-clockwise)
+ * - colorJitter → ColorJitter, brightness offsets written as factors
+ *   (1 + offset)
+ * - cutout → Erasing (torchvision's RandomErasing, which cutout samples like),
+ *   with ratio = height / width; several cutouts become a Sequential of Erasing
+ */
+function stepToAlbumentations(step: AugmentationStep): AlbumentationsTransform {
+  const p = step.p ?? defaultStepProbability(step);
+  switch (step.type) {
+    case 'horizontalFlip':
+      return { __class_fullname__: 'HorizontalFlip', p };
+    case 'verticalFlip':
+      return { __class_fullname__: 'VerticalFlip', p };
+    case 'rotate': {
+      const [min, max] = jitterRange(step.limit ?? 30, 0, false);
+      return {
+        __class_fullname__: 'Rotate',
+        limit: [0 - max, 0 - min],
+        interpolation: CV2_INTER_LINEAR,
+        border_mode: CV2_BORDER_CONSTANT,
+        fill: step.fillValue ?? [0, 0, 0],
+        p,
+      };
+    }
+    case 'colorJitter': {
+      const [brightnessMin, brightnessMax] = jitterRange(
+        step.brightness,
+        0,
+        false
+      );
+      return {
+        __class_fullname__: 'ColorJitter',
+        brightness: [1 + brightnessMin, 1 + brightnessMax],
+        contrast: jitterRange(step.contrast, 1, true),
+        saturation: jitterRange(step.saturation, 1, true),
+        hue: jitterRange(step.hue, 0, false),
+        p,
+      };
+    }
+    case 'cutout': {
+      const fill =
+        step.fillMode === 'noise'
+          ? 'random'
+          : step.fillMode === 'random'
+          ? 'random_uniform'
+          : step.fillValue ?? [0, 0, 0];
+      const erasing = {
+        __class_fullname__: 'Erasing',
+        scale: [step.minSize ?? 0.02, step.maxSize ?? 0.33],
+        ratio: [1 / (step.maxAspect ?? 3.3), 1 / (step.minAspect ?? 0.3)],
+        fill,
+      };
+      const numCutouts = step.numCutouts ?? 1;
+      return numCutouts === 1
+        ? { ...erasing, p }
+        : {
+            __class_fullname__: 'Sequential',
+            transforms: Array.from({ length: numCutouts }, () => ({
+              ...erasing,
+              p: 1,
+            })),
+            p,
+          };
+    }
+    case 'oneOf':
+      return {
+        __class_fullname__: 'OneOf',
+        transforms: step.transforms.map(stepToAlbumentations),
+        p,
+      };
+  }
+}
+
+const ALBUMENTATIONS_TRANSFORMS = [
+  'HorizontalFlip',
+  'VerticalFlip',
+  'Rotate',
+  'ColorJitter',
+  'Erasing',
+  'Sequential',
+  'OneOf',
+];
+
+/**
+ * Read an albumentations transform back into a step; the inverse of
+ * stepToAlbumentations. Missing arguments take albumentations' defaults.
+ */
+function stepFromAlbumentations(
+  transform: AlbumentationsTransform,
+  path: string
+): AugmentationStep {
+  const invalid = (message: string) =>
+    new VisionUtilsException('INVALID_OPTIONS', `${path}: ${message}`);
+  const name = transform?.__class_fullname__;
+  if (!ALBUMENTATIONS_TRANSFORMS.includes(name)) {
+    throw invalid(
+      `Unsupported transform: ${name}. Must be one of: ${ALBUMENTATIONS_TRANSFORMS.join(
+        ', '
+      )}`
+    );
+  }
+  const range = (key: string, fallback: [number, number], factor: boolean) => {
+    const value = transform[key] ?? fallback;
+    if (!isJitterRange(value, !factor)) {
+      throw invalid(`${key} must be a non-negative number or [min, max]`);
+    }
+    return jitterRange(
+      value as number | [number, number],
+      factor ? 1 : 0,
+      factor
+    );
+  };
+  const fillValue = (): [number, number, number] => {
+    const fill = transform.fill ?? 0;
+    const rgb = typeof fill === 'number' ? [fill, fill, fill] : fill;
+    if (!isFillValue(rgb)) {
+      throw invalid('fill must be a number or [R, G, B] in 0-255');
+    }
+    return rgb as [number, number, number];
+  };
+  const children = () => {
+    if (!Array.isArray(transform.transforms)) {
+      throw invalid('transforms must be an array');
+    }
+    return transform.transforms;
+  };
+  // albumentations defaults p to 0.5 for everything but Sequential
+  const p = transform.p ?? (name === 'Sequential' ? 1 : 0.5);
+
+  switch (name) {
+    case 'HorizontalFlip':
+      return { type: 'horizontalFlip', p };
+    case 'VerticalFlip':
+      return { type: 'verticalFlip', p };
+    case 'Rotate': {
+      const borderMode = transform.border_mode ?? CV2_BORDER_CONSTANT;
+      if (borderMode !== CV2_BORDER_CONSTANT || transform.crop_border) {
+        throw invalid(
+          'only border_mode 0 (constant) without crop_border is supported'
+        );
+      }
+      const [min, max] = range('limit', [-90, 90], false);
+      return {
+        type: 'rotate',
+        limit: [0 - max, 0 - min],
+        fillValue: fillValue(),
+        p,
+      };
+    }
+    case 'ColorJitter': {
+      const [brightnessMin, brightnessMax] = range(
+        'brightness',
+        [0.8, 1.2],
+        true
+      );
+      const contrast = range('contrast', [0.8, 1.2], true);
+      const saturation = range('saturation', [0.8, 1.2], true);
+      const hue = range('hue', [-0.5, 0.5], false);
+      const isIdentity = ([min, max]: [number, number], identity: number) =>
+        min === identity && max === identity;
+      return {
+        type: 'colorJitter',
+        ...(!isIdentity([brightnessMin, brightnessMax], 1) && {
+          brightness: [brightnessMin - 1, brightnessMax - 1],
+        }),
+        ...(!isIdentity(contrast, 1) && { contrast }),
+        ...(!isIdentity(saturation, 1) && { saturation }),
+        ...(!isIdentity(hue, 0) && { hue }),
+        p,
+      };
+    }
+    case 'Erasing': {
+      const [minSize, maxSize] = range('scale', [0.02, 0.33], true);
+      const [minRatio, maxRatio] = range('ratio', [0.3, 3.3], true);
+      const fill = transform.fill ?? 0;
+      return {
+        type: 'cutout',
+        minSize,
+        maxSize,
+        minAspect: 1 / maxRatio,
+        maxAspect: 1 / minRatio,
+        ...(fill === 'random'
+          ? { fillMode: 'noise' as const }
+          : fill === 'random_uniform'
+          ? { fillMode: 'random' as const }
+          : { fillValue: fillValue() }),
+        p,
+      };
+    }
+    case 'Sequential': {
+      // Written for cutout's numCutouts: the same Erasing, each with p 1
+      const erasings = children().map((child, i) =>
+        stepFromAlbumentations(child, `${path}.transforms[${i}]`)
+      );
+      const [first] = erasings;
+      if (
+        !erasings.every(
+          (child) =>
+            child.type === 'cutout' &&
+            child.p === 1 &&
+            JSON.stringify(child) === JSON.stringify(first)
+        )
+      ) {
+        throw invalid('Sequential must repeat one Erasing with p 1');
+      }
+      return {
+        ...(first as CutoutStep | undefined),
+        type: 'cutout',
+        numCutouts: erasings.length,
+        p,
+      };
+    }
+    default:
+      return {
+        type: 'oneOf',
+        transforms: children().map((child, i) =>
+          stepFromAlbumentations(child, `${path}.transforms[${i}]`)
+        ),
+        p,
+      };
+  }
+}
+
+/**
+ * Build an augmentation pipeline that runs in one decode/encode pass
+ *
+ * The image is decoded once with getPixelData. Every step then runs on the
+ * pixels in JS, and the result is encoded once with tensorToImage. Geometric
+ * steps also move any boxes, keypoints and masks passed to `run`.
+ * `JSON.stringify(pipeline)` writes albumentations' `A.to_dict` format, so
+ * training code can load it with `A.from_dict`; augmentationPipelineFromJSON
+ * reads it back.
+ *
+ * @param transforms - Steps, usually built with the `transforms` helpers
+ * @param options - Seed and output encoding
+ * @returns Pipeline to run on images
+ *
+ * @example
+ * const pipeline = compose(
+ *   [
+ *     transforms.horizontalFlip({ p: 0.5 }),
+ *     transforms.oneOf([
+ *       transforms.rotate({ limit: 15 }),
+ *       transforms.colorJitter({ brightness: 0.2, contrast: 0.2 }),
+ *     ]),
+ *     transforms.cutout({ numCutouts: 2, maxSize: 0.1, p: 0.5 }),
+ *   ],
+ *   { seed: 42 }
+ * );
+ * const { base64, boxes, applied } = await pipeline.run(source, {
+ *   boxes: [[40, 60, 200, 220]],
+ * });
+ */
+export function compose(
+  transformsList: AugmentationStep[],
+  options: ComposeOptions = {}
+): AugmentationPipeline {
+  validateComposeOptions(transformsList, options);
+  // Deep copy: later edits to the caller's steps don't change the pipeline
+  const steps = JSON.parse(
+    JSON.stringify(transformsList)
+  ) as AugmentationStep[];
+  const seedStream =
+    options.seed !== undefined ? createSeededRandom(options.seed) : Math.random;
+
+  return {
+    transforms: steps,
+
+    async run(source, runOptions = {}) {
+      validateSource(source);
+      validateAnnotations(runOptions);
+      if (runOptions.seed !== undefined && !Number.isFinite(runOptions.seed)) {
+        throw new VisionUtilsException(
+          'INVALID_OPTIONS',
+          'seed must be a number'
+        );
+      }
+      const startTime = performance.now();
+      const seed = runOptions.seed ?? randomSeed(seedStream);
+      const random = createSeededRandom(seed);
+
+      const state = { image: await decodePipelineImage(source) };
+      const { width: sourceWidth, height: sourceHeight } = state.image;
+      const applied = steps.map((step) =>
+        runAugmentationStep(step, state, random)
+      );
+
+      const { image } = state;
+      const encoded = await encodePipelineImage(image, options);
+
+      return {
+        base64: encoded.base64,
+        width: image.width,
+        height: image.height,
+        seed,
+        applied,
+        ...(hasAnnotations(runOptions) &&
+          transformAnnotations(
+            runOptions,
+            image.matrix,
+            sourceWidth,
+            sourceHeight,
+            image.width,
+            image.height
+          )),
+        processingTimeMs: performance.now() - startTime,
+      };
+    },
+
+    toJSON() {
+      return {
+        __version__: ALBUMENTATIONS_VERSION,
+        transform: {
+          __class_fullname__: 'Compose',
+          transforms: steps.map(stepToAlbumentations),
+          p: 1,
+        },
+        ...(options.seed !== undefined && { seed: options.seed }),
+        ...(options.format !== undefined && { format: options.format }),
+        ...(options.quality !== undefined && { quality: options.quality }),
+      };
+    },
+  };
+}
+
+/**
+ * Rebuild a pipeline from AugmentationPipeline.toJSON output or its JSON string
+ *
+ * Also reads dicts written by albumentations' `A.to_dict` that only use
+ * HorizontalFlip, VerticalFlip, Rotate (constant border), ColorJitter,
+ * Erasing and OneOf; other transforms throw INVALID_OPTIONS.
+ *
+ * @example
+ * const pipeline = augmentationPipelineFromJSON(await fetchAugmentConfig());
+ */
+export function augmentationPipelineFromJSON(
+  json: string | AugmentationPipelineConfig
+): AugmentationPipeline {
+  let config: AugmentationPipelineConfig;
+  try {
+    config = typeof json === 'string' ? JSON.parse(json) : json;
+  } catch (error) {
+    throw new VisionUtilsException(
+      'INVALID_INPUT',
+      `Invalid pipeline JSON: ${(error as Error).message}`
+    );
+  }
+  const root = config?.transform;
+  if (
+    root?.__class_fullname__ !== 'Compose' ||
+    !Array.isArray(root.transforms)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'Expected an albumentations dict with a Compose transform'
+    );
+  }
+  if (root.p !== undefined && root.p !== 1) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'transform: Compose p must be 1'
+    );
+  }
+  const steps = root.transforms.map((transform, i) =>
+    stepFromAlbumentations(transform, `transforms[${i}]`)
+  );
+  return compose(steps, {
+    seed: config.seed,
+    format: config.format,
+    quality: config.quality,
+  });
+}
+
+/**
+ * Builders for augmentation pipeline steps
+ *
+ * @example
+ * compose([transforms.horizontalFlip(), transforms.rotate({ limit: 10 })]);
+ */
+export const transforms = {
+  /** Mirror left-right (default p: 0.5) */
+  horizontalFlip: (options: AugmentationStepBase = {}): FlipStep => ({
+    type: 'horizontalFlip',
+    ...options,
+  }),
+  /** Mirror top-bottom (default p: 0.5) */
+  verticalFlip: (options: AugmentationStepBase = {}): FlipStep => ({
+    type: 'verticalFlip',
+    ...options,
+  }),
+  /** Rotate by a random angle within limit, keeping the size */
+  rotate: (options: Omit<RotateStep, 'type'> = {}): RotateStep => ({
+    type: 'rotate',
+    ...options,
+  }),
+  /** Random brightness, contrast, saturation and hue */
+  colorJitter: (options: Omit<ColorJitterStep, 'type'>): ColorJitterStep => ({
+    type: 'colorJitter',
+    ...options,
+  }),
+  /** Random erasing */
+  cutout: (options: Omit<CutoutStep, 'type'> = {}): CutoutStep => ({
+    type: 'cutout',
+    ...options,
+  }),
+  /** Apply one of the steps, weighted by their p */
+  oneOf: (
+    steps: AugmentationStep[],
+    options: AugmentationStepBase = {}
+  ): OneOfStep => ({
+    type: 'oneOf',
+    transforms: steps,
+    ...options,
+  }),
+};
+
+// =============================================================================
+// Multi-Image Augmentation
+// =============================================================================
+
+/** Standard normal sample (Box-Muller) */
+function sampleNormal(random: () => number): number {
+  return (
+    Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+  );
+}
+
+/** Gamma(shape, 1) sample (Marsaglia-Tsang) */
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(1 - random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    if (Math.log(1 - random()) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+      return d * v;
+    }
+  }
+}
+
+function sampleBeta(alpha: number, random: () => number): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(alpha, random);
+  return x + y > 0 ? x / (x + y) : 0.5;
+}
+
+function resolveOutputSize(
+  size: number | [number, number] | undefined
+): [number, number] | undefined {
+  if (size === undefined) return undefined;
+  const sizes = Array.isArray(size) ? size : [size, size];
+  if (
+    sizes.length !== 2 ||
+    !sizes.every((value) => Number.isInteger(value) && value > 0)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'size must be a positive integer or [width, height]'
+    );
+  }
+  return sizes as [number, number];
+}
+
+function validateMultiImageOptions(
+  sources: ImageSource[],
+  count: number,
+  options: MultiImageAugmentationOptions
+): void {
+  if (!Array.isArray(sources) || sources.length !== count) {
+    throw new VisionUtilsException(
+      'INVALID_INPUT',
+      `Expected ${count} image sources`
+    );
+  }
+  sources.forEach(validateSource);
+  validateImageEncoding(options);
+
+  const { labels, numClasses } = options;
+  if (
+    numClasses !== undefined &&
+    !(Number.isInteger(numClasses) && numClasses > 0)
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'numClasses must be a positive integer'
+    );
+  }
+  if (labels === undefined) return;
+  if (!Array.isArray(labels) || labels.length !== count) {
+    throw new VisionUtilsException(
+      'INVALID_INPUT',
+      `Expected one label per image (${count})`
+    );
+  }
+  let length = numClasses;
+  for (const label of labels) {
+    if (typeof label === 'number') {
+      if (numClasses === undefined) {
+        throw new VisionUtilsException(
+          'INVALID_OPTIONS',
+          'numClasses is required for class index labels'
+        );
+      }
+      if (!Number.isInteger(label) || label < 0 || label >= numClasses) {
+        throw new VisionUtilsException(
+          'INVALID_LABEL_INDEX',
+          `Label ${label} is out of range for ${numClasses} classes`
+        );
+      }
+    } else if (!Array.isArray(label)) {
+      throw new VisionUtilsException(
+        'INVALID_INPUT',
+        'Labels must be class indices or label vectors'
+      );
+    } else {
+      length = length ?? label.length;
+      if (label.length !== length) {
+        throw new VisionUtilsException(
+          'DIMENSION_MISMATCH',
+          `Label vectors must all have ${length} classes`
+        );
+      }
+    }
+  }
+}
+
+function validateMixWeightOptions(options: MixupOptions | CutMixOptions): void {
+  const { alpha, lambda } = options;
+  if (alpha !== undefined && !(alpha > 0 && Number.isFinite(alpha))) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'alpha must be a positive number'
+    );
+  }
+  if (lambda !== undefined && !(lambda >= 0 && lambda <= 1)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'lambda must be between 0 and 1'
+    );
+  }
+}
+
+/** Weighted sum of the images' label vectors */
+function mixLabels(
+  labels: MixLabel[],
+  numClasses: number | undefined,
+  weights: number[]
+): number[] {
+  const vectors = labels.map((label) => {
+    if (typeof label !== 'number') return label;
+    const oneHot = new Array<number>(numClasses!).fill(0);
+    oneHot[label] = 1;
+    return oneHot;
+  });
+  return vectors[0]!.map((_, c) =>
+    vectors.reduce((sum, vector, i) => sum + weights[i]! * vector[c]!, 0)
+  );
+}
+
+/**
+ * Blend two images (Mixup)
+ *
+ * The result is `lambda * first + (1 - lambda) * second`, with lambda drawn
+ * from Beta(alpha, alpha) unless given. The second image is stretched to the
+ * size of the first (or to `size`). Labels are mixed with the same weights.
+ *
+ * @param sources - The two images
+ * @param options - Lambda, labels and output options
+ * @returns Promise resolving to the blended image and label weights
+ *
+ * @example
+ * const { base64, labels } = await mixup([imageA, imageB], {
+ *   alpha: 0.2,
+ *   labels: [3, 7],
+ *   numClasses: 10,
+ * });
+ * // labels = one-hot(3) * lambda + one-hot(7) * (1 - lambda)
+ */
+export async function mixup(
+  sources: ImageSource[],
+  options: MixupOptions = {}
+): Promise<MixupResult> {
+  validateMultiImageOptions(sources, 2, options);
+  validateMixWeightOptions(options);
+  const size = resolveOutputSize(options.size);
+  const startTime = performance.now();
+  const seed = options.seed ?? randomSeed();
+  const random = createSeededRandom(seed);
+
+  const first = await decodePipelineImage(sources[0]!, size);
+  const { width, height } = first;
+  const second = await decodePipelineImage(sources[1]!, [width, height]);
+  const lambda = options.lambda ?? sampleBeta(options.alpha ?? 0.2, random);
+
+  const a = first.data;
+  const b = second.data;
+  const data = new Float32Array(a.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = lambda * a[i]! + (1 - lambda) * b[i]!;
+  }
+
+  const encoded = await encodePipelineImage({ data, width, height }, options);
+  const weights = [lambda, 1 - lambda];
+  return {
+    base64: encoded.base64,
+    width,
+    height,
+    lambda,
+    weights,
+    ...(options.labels && {
+      labels: mixLabels(options.labels, options.numClasses, weights),
+    }),
+    seed,
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+/**
+ * Paste a random region of the second image into the first (CutMix)
+ *
+ * The region covers `1 - lambda` of the image, with lambda drawn from
+ * Beta(alpha, alpha) unless given. It is clipped at the image border, so
+ * the returned lambda (and the label weights) follow the area actually
+ * pasted.
+ *
+ * @param sources - The two images
+ * @param options - Lambda, labels and output options
+ * @returns Promise resolving to the mixed image, region and label weights
+ *
+ * @example
+ * const { region, labels } = await cutMix([imageA, imageB], {
+ *   labels: [0, 1],
+ *   numClasses: 2,
+ *   seed: 42,
+ * });
+ */
+export async function cutMix(
+  sources: ImageSource[],
+  options: CutMixOptions = {}
+): Promise<CutMixResult> {
+  validateMultiImageOptions(sources, 2, options);
+  validateMixWeightOptions(options);
+  const size = resolveOutputSize(options.size);
+  const startTime = performance.now();
+  const seed = options.seed ?? randomSeed();
+  const random = createSeededRandom(seed);
+
+  const first = await decodePipelineImage(sources[0]!, size);
+  const { width, height } = first;
+  const second = await decodePipelineImage(sources[1]!, [width, height]);
+  const target = options.lambda ?? sampleBeta(options.alpha ?? 1, random);
+
+  const ratio = Math.sqrt(1 - target);
+  const halfWidth = Math.floor((width * ratio) / 2);
+  const halfHeight = Math.floor((height * ratio) / 2);
+  const cx = Math.floor(random() * width);
+  const cy = Math.floor(random() * height);
+  const x1 = Math.max(0, cx - halfWidth);
+  const y1 = Math.max(0, cy - halfHeight);
+  const x2 = Math.min(width, cx + halfWidth);
+  const y2 = Math.min(height, cy + halfHeight);
+
+  const data = first.data;
+  for (let y = y1; y < y2; y++) {
+    const start = (y * width + x1) * 3;
+    data.set(second.data.subarray(start, start + (x2 - x1) * 3), start);
+  }
+
+  const encoded = await encodePipelineImage({ data, width, height }, options);
+  const lambda = 1 - ((x2 - x1) * (y2 - y1)) / (width * height);
+  const weights = [lambda, 1 - lambda];
+  return {
+    base64: encoded.base64,
+    width,
+    height,
+    lambda,
+    region: { x: x1, y: y1, width: x2 - x1, height: y2 - y1 },
+    weights,
+    ...(options.labels && {
+      labels: mixLabels(options.labels, options.numClasses, weights),
+    }),
+    seed,
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+function validateMosaicOptions(options: MosaicOptions): void {
+  const { centerRange, boxes, boxFormat, fillValue } = options;
+  if (
+    centerRange !== undefined &&
+    !(
+      Array.isArray(centerRange) &&
+      centerRange.length === 2 &&
+      centerRange[0] >= 0 &&
+      centerRange[0] <= centerRange[1] &&
+      centerRange[1] <= 1
+    )
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'centerRange must be [min, max] with 0 <= min <= max <= 1'
+    );
+  }
+  if (boxes !== undefined) {
+    if (!Array.isArray(boxes) || boxes.length !== 4) {
+      throw new VisionUtilsException(
+        'INVALID_INPUT',
+        'boxes must hold one box array per image'
+      );
+    }
+    boxes.forEach((imageBoxes) => validateAnnotations({ boxes: imageBoxes }));
+  }
+  validateAnnotations({ boxFormat });
+  if (fillValue !== undefined && !isFillValue(fillValue)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'fillValue must be [R, G, B] in 0-255'
+    );
+  }
+}
+
+/**
+ * Combine four images into one (YOLO Mosaic)
+ *
+ * Each image is scaled to fit half the output size and placed in one
+ * quadrant around a random center: top-left, top-right, bottom-left,
+ * bottom-right. Tiles are cropped at the output border and the rest is
+ * filled with `fillValue`. Boxes are scaled, offset and clipped to their
+ * tile. Image weights are the share of the covered area each tile takes.
+ *
+ * @param sources - The four images
+ * @param options - Size, boxes, labels and output options
+ * @returns Promise resolving to the mosaic, merged boxes and weights
+ *
+ * @example
+ * const { base64, boxes, boxSources, boxIndices } = await mosaic(
+ *   [image0, image1, image2, image3],
+ *   { size: 640, boxes: [boxes0, boxes1, boxes2, boxes3], boxFormat: 'xyxy' }
+ * );
+ * const classes = boxes.map((_, i) => classesPerImage[boxSources[i]][boxIndices[i]]);
+ */
+export async function mosaic(
+  sources: ImageSource[],
+  options: MosaicOptions = {}
+): Promise<MosaicResult> {
+  validateMultiImageOptions(sources, 4, options);
+  validateMosaicOptions(options);
+  const [width, height] = resolveOutputSize(options.size) ?? [640, 640];
+  const startTime = performance.now();
+  const seed = options.seed ?? randomSeed();
+  const random = createSeededRandom(seed);
+
+  const [minCenter, maxCenter] = options.centerRange ?? [0.25, 0.75];
+  const cx = Math.round(
+    width * (minCenter + random() * (maxCenter - minCenter))
+  );
+  const cy = Math.round(
+    height * (minCenter + random() * (maxCenter - minCenter))
+  );
+
+  const [fillR, fillG, fillB] = (options.fillValue ?? [114, 114, 114]).map(
+    (value) => value / 255
+  ) as [number, number, number];
+  const data = new Float32Array(width * height * 3);
+  for (let i = 0; i < data.length; i += 3) {
+    data[i] = fillR;
+    data[i + 1] = fillG;
+    data[i + 2] = fillB;
+  }
+
+  const boxFormat = options.boxFormat ?? 'xyxy';
+  const tiles: MosaicTile[] = [];
+  const boxes: BoundingBox[] = [];
+  const boxSources: number[] = [];
+  const boxIndices: number[] = [];
+
+  for (let i = 0; i < 4; i++) {
+    const source = sources[i]!;
+    const { width: sourceWidth, height: sourceHeight } = await getImageMetadata(
+      source
+    );
+    const fit = Math.min(width / 2 / sourceWidth, height / 2 / sourceHeight);
+    const w = Math.max(1, Math.round(sourceWidth * fit));
+    const h = Math.max(1, Math.round(sourceHeight * fit));
+    const image = await decodePipelineImage(source, [w, h]);
+
+    // Canvas region [x1, y1, x2, y2] and its top-left corner in the image
+    const left = i % 2 === 0;
+    const top = i < 2;
+    const x1 = left ? Math.max(cx - w, 0) : cx;
+    const y1 = top ? Math.max(cy - h, 0) : cy;
+    const x2 = left ? cx : Math.min(cx + w, width);
+    const y2 = top ? cy : Math.min(cy + h, height);
+    const imageX = left ? w - (x2 - x1) : 0;
+    const imageY = top ? h - (y2 - y1) : 0;
+
+    for (let row = 0; row < y2 - y1; row++) {
+      const from = ((imageY + row) * w + imageX) * 3;
+      data.set(
+        image.data.subarray(from, from + (x2 - x1) * 3),
+        ((y1 + row) * width + x1) * 3
+      );
+    }
+
+    const scaleX = w / sourceWidth;
+    const scaleY = h / sourceHeight;
+    const offsetX = x1 - imageX;
+    const offsetY = y1 - imageY;
+    tiles.push({
+      x: x1,
+      y: y1,
+      width: x2 - x1,
+      height: y2 - y1,
+      scale: [scaleX, scaleY],
+      offset: [offsetX, offsetY],
+    });
+
+    (options.boxes?.[i] ?? []).forEach((box, index) => {
+      const [bx1, by1, bx2, by2] = toXyxy(box, boxFormat);
+      const clipped: BoundingBox = [
+        Math.min(Math.max(bx1 * scaleX + offsetX, x1), x2),
+        Math.min(Math.max(by1 * scaleY + offsetY, y1), y2),
+        Math.min(Math.max(bx2 * scaleX + offsetX, x1), x2),
+        Math.min(Math.max(by2 * scaleY + offsetY, y1), y2),
+      ];
+      if (clipped[2] > clipped[0] && clipped[3] > clipped[1]) {
+        boxes.push(fromXyxy(clipped, boxFormat));
+        boxSources.push(i);
+        boxIndices.push(index);
+      }
+    });
+  }
+
+  const encoded = await encodePipelineImage({ data, width, height }, options);
+  const areas = tiles.map((tile) => tile.width * tile.height);
+  const covered = areas.reduce((sum, area) => sum + area, 0);
+  const weights = areas.map((area) => (covered > 0 ? area / covered : 0.25));
+  return {
+    base64: encoded.base64,
+    width,
+    height,
+    center: [cx, cy],
+    tiles,
+    boxes,
+    boxFormat,
+    boxSources,
+    boxIndices,
+    weights,
+    ...(options.labels && {
+      labels: mixLabels(options.labels, options.numClasses, weights),
+    }),
+    seed,
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+// =============================================================================
+// Augmentation Policies
+// =============================================================================
+
+const AUTO_AUGMENT_POLICIES: AutoAugmentPolicy[] = ['imagenet'];
+
+const RAND_AUGMENT_OPS: PolicyOp[] = [
+  'identity',
+  'rotate',
+  'brightness',
+  'contrast',
+  'saturation',
+];
+
+/**
+ * How far each op goes either way at full magnitude. Rotation uses
+ * torchvision's 30° (negative angles wrap into validateAugmentation's
+ * 0-360 range); brightness, contrast and saturation reach the limits
+ * validateAugmentation enforces (-1 to 1, 0 to 2).
+ */
+const POLICY_OP_LIMITS: Record<Exclude<PolicyOp, 'identity'>, number> = {
+  rotate: 30,
+  brightness: 1,
+  contrast: 1,
+  saturation: 1,
+};
+
+/**
+ * AutoAugment ImageNet policy as [op, probability, magnitude bin of 10].
+ * Ops with no AugmentationOptions equivalent (posterize, solarize, equalize,
+ * autocontrast, invert, sharpness, shear) are left out, which makes some
+ * sub-policies identity; the draw over all 25 sub-policies is unchanged.
+ */
+const IMAGENET_SUB_POLICIES: Array<Array<[PolicyOp, number, number]>> = [
+  [['rotate', 0.6, 9]],
+  [],
+  [],
+  [],
+  [],
+  [['rotate', 0.8, 8]],
+  [],
+  [],
+  [['rotate', 0.2, 3]],
+  [],
+  [
+    ['rotate', 0.8, 8],
+    ['saturation', 0.4, 0],
+  ],
+  [['rotate', 0.4, 9]],
+  [],
+  [],
+  [
+    ['saturation', 0.6, 4],
+    ['contrast', 1, 8],
+  ],
+  [
+    ['rotate', 0.8, 8],
+    ['saturation', 1, 2],
+  ],
+  [['saturation', 0.8, 8]],
+  [],
+  [],
+  [['saturation', 0.4, 0]],
+  [],
+  [],
+  [],
+  [
+    ['saturation', 0.6, 4],
+    ['contrast', 1, 8],
+  ],
+  [],
+];
+
+/** Sign is random, as in torchvision */
+function policyOpValue(
+  op: PolicyOp,
+  fraction: number,
+  random: () => number
+): number {
+  if (op === 'identity') return 0;
+  const delta = fraction * POLICY_OP_LIMITS[op] * (random() < 0.5 ? -1 : 1);
+  return op === 'contrast' || op === 'saturation' ? 1 + delta : delta;
+}
+
+/** Combine the applied ops; repeated ops add up (or multiply, for factors) */
+function policyOptions(ops: AppliedPolicyOp[]): AugmentationOptions {
+  const options: AugmentationOptions = {};
+  for (const { op, value, applied } of ops) {
+    if (!applied) continue;
+    switch (op) {
+      case 'rotate':
+        options.rotation =
+          ((((options.rotation ?? 0) + value) % 360) + 360) % 360;
+        break;
+      case 'brightness':
+        options.brightness = Math.min(
+          Math.max((options.brightness ?? 0) + value, -1),
+          1
+        );
+        break;
+      case 'contrast':
+        options.contrast = Math.min((options.contrast ?? 1) * value, 2);
+        break;
+      case 'saturation':
+        options.saturation = Math.min((options.saturation ?? 1) * value, 2);
+        break;
+    }
+  }
+  return options;
+}
+
+/**
+ * The applied ops as compose steps, in order and at their sampled values
+ *
+ * Policies run through the compose pipeline rather than applyAugmentations
+ * so the output matches torchvision: rotation keeps the image size and
+ * brightness is an offset on every platform.
+ */
+function policySteps(ops: AppliedPolicyOp[]): AugmentationStep[] {
+  const steps: AugmentationStep[] = [];
+  for (const { op, value, applied } of ops) {
+    if (!applied) continue;
+    switch (op) {
+      case 'rotate':
+        steps.push(transforms.rotate({ limit: [value, value], p: 1 }));
+        break;
+      case 'brightness':
+      case 'contrast':
+      case 'saturation':
+        steps.push(transforms.colorJitter({ [op]: [value, value], p: 1 }));
+        break;
+    }
+  }
+  return steps;
+}
+
+function validatePolicySeed(seed: number | undefined): void {
+  if (seed !== undefined && !Number.isFinite(seed)) {
+    throw new VisionUtilsException('INVALID_OPTIONS', 'seed must be a number');
+  }
+}
+
+function validateMagnitudeBins(numMagnitudeBins: number): void {
+  if (!Number.isInteger(numMagnitudeBins) || numMagnitudeBins < 2) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'numMagnitudeBins must be an integer of at least 2'
+    );
+  }
+}
+
+function createAugmentationPolicy(
+  name: AugmentationPolicyName,
+  seed: number | undefined,
+  choose: (
+    random: () => number
+  ) => Pick<AugmentationPolicySample, 'ops' | 'subPolicy'>
+): AugmentationPolicy {
+  validatePolicySeed(seed);
+  const seedStream =
+    seed !== undefined ? createSeededRandom(seed) : Math.random;
+
+  const sample = (sampleSeed?: number): AugmentationPolicySample => {
+    validatePolicySeed(sampleSeed);
+    const used = sampleSeed ?? randomSeed(seedStream);
+    const chosen = choose(createSeededRandom(used));
+    return { options: policyOptions(chosen.ops), ...chosen, seed: used };
+  };
+
+  return {
+    name,
+    sample,
+
+    async apply(source, applyOptions = {}) {
+      validateSource(source);
+      validateAnnotations(applyOptions);
+      const { seed: sampleSeed, ...annotations } = applyOptions;
+      const chosen = sample(sampleSeed);
+      const result: Partial<AugmentationPipelineResult> = await compose(
+        policySteps(chosen.ops)
+      ).run(source, { ...annotations, seed: chosen.seed });
+      // `ops` reports what ran; the pipeline's per-step report would repeat it
+      delete result.applied;
+      return {
+        ...(result as Omit<AugmentationPipelineResult, 'applied'>),
+        ops: chosen.ops,
+        ...(chosen.subPolicy !== undefined && { subPolicy: chosen.subPolicy }),
+        seed: chosen.seed,
+      };
+    },
+  };
+}
+
+/**
+ * AutoAugment with a learned policy
+ *
+ * Each image gets one of the policy's sub-policies at random; each op of the
+ * sub-policy runs with its own probability and magnitude. Only the ops
+ * AugmentationOptions can express are kept (rotate, saturation, contrast).
+ *
+ * @param policy - Learned policy (default: 'imagenet')
+ * @param options - Seed for a reproducible sequence
+ * @returns Policy to sample or apply per image
+ *
+ * @example
+ * const policy = autoAugment('imagenet', { seed: 42 });
+ * const result = await policy.apply(source, { boxes });
+ * console.log(result.subPolicy, result.ops);
+ */
+export function autoAugment(
+  policy: AutoAugmentPolicy = 'imagenet',
+  options: AugmentationPolicyOptions = {}
+): AugmentationPolicy {
+  if (!AUTO_AUGMENT_POLICIES.includes(policy)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `Invalid policy: ${policy}. Must be one of: ${AUTO_AUGMENT_POLICIES.join(
+        ', '
+      )}`
+    );
+  }
+  return createAugmentationPolicy('autoAugment', options.seed, (random) => {
+    const subPolicy = Math.floor(random() * IMAGENET_SUB_POLICIES.length);
+    const ops = IMAGENET_SUB_POLICIES[subPolicy]!.map(
+      ([op, probability, magnitude]) => {
+        const applied = random() < probability;
+        return {
+          op,
+          magnitude,
+          value: policyOpValue(op, magnitude / 9, random),
+          applied,
+        };
+      }
+    );
+    return { ops, subPolicy };
+  });
+}
+
+/**
+ * RandAugment: n ops drawn uniformly (with replacement), all at magnitude m
+ *
+ * Magnitude bins follow torchvision (m out of 31 bins by default); the full
+ * magnitude rotates by ±30° and reaches the color limits
+ * validateAugmentation enforces.
+ *
+ * @param options - n, m, magnitude bins and seed
+ * @returns Policy to sample or apply per image
+ *
+ * @example
+ * const policy = randAugment({ n: 2, m: 9 });
+ * const { ops } = policy.sample();
+ * // [{ op: 'rotate', magnitude: 9, value: -9, applied: true }, ...]
+ */
+export function randAugment(
+  options: RandAugmentOptions = {}
+): AugmentationPolicy {
+  const { n = 2, m = 9, numMagnitudeBins = 31 } = options;
+  validateMagnitudeBins(numMagnitudeBins);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'n must be a non-negative integer'
+    );
+  }
+  if (!Number.isInteger(m) || m < 0 || m >= numMagnitudeBins) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `m must be an integer between 0 and ${numMagnitudeBins - 1}`
+    );
+  }
+  return createAugmentationPolicy('randAugment', options.seed, (random) => ({
+    ops: Array.from({ length: n }, () => {
+      const op =
+        RAND_AUGMENT_OPS[Math.floor(random() * RAND_AUGMENT_OPS.length)]!;
+      return {
+        op,
+        magnitude: m,
+        value: policyOpValue(op, m / (numMagnitudeBins - 1), random),
+        applied: true,
+      };
+    }),
+  }));
+}
+
+/**
+ * TrivialAugment: one op per image at a uniformly drawn magnitude
+ *
+ * Uses the same ops and magnitude limits as randAugment.
+ *
+ * @param options - Magnitude bins and seed
+ * @returns Policy to sample or apply per image
+ *
+ * @example
+ * const policy = trivialAugment({ seed: 7 });
+ * const result = await policy.apply(source);
+ */
+export function trivialAugment(
+  options: TrivialAugmentOptions = {}
+): AugmentationPolicy {
+  const { numMagnitudeBins = 31 } = options;
+  validateMagnitudeBins(numMagnitudeBins);
+  return createAugmentationPolicy('trivialAugment', options.seed, (random) => {
+    const op =
+      RAND_AUGMENT_OPS[Math.floor(random() * RAND_AUGMENT_OPS.length)]!;
+    const magnitude = Math.floor(random() * numMagnitudeBins);
+    return {
+      ops: [
+        {
+          op,
+          magnitude,
+          value: policyOpValue(op, magnitude / (numMagnitudeBins - 1), random),
+          applied: true,
+        },
+      ],
+    };
+  });
+}
+
+// =============================================================================
+// Geometric Transforms
+// =============================================================================
+
+function isPoint(value: unknown): value is [number, number] {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((v) => typeof v === 'number' && Number.isFinite(v))
+  );
+}
+
+function validateGeometricOptions(
+  source: ImageSource,
+  options: GeometricTransformOptions & { size?: unknown }
+): void {
+  validateSource(source);
+  validateAnnotations(options);
+  validateImageEncoding(options);
+  if (options.fillValue !== undefined && !isFillValue(options.fillValue)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'fillValue must be [R, G, B] in 0-255'
+    );
+  }
+  resolveOutputSize(options.size as number | [number, number] | undefined);
+}
+
+/**
+ * Decode, warp and encode, mapping annotations with the same matrix
+ */
+async function warpSource(
+  source: ImageSource,
+  options: GeometricTransformOptions & { size?: [number, number] },
+  getMatrix: (width: number, height: number) => Matrix3
+): Promise<GeometricTransformResult> {
+  const startTime = performance.now();
+  const image = await decodePipelineImage(source);
+  const matrix = getMatrix(image.width, image.height);
+  const [width, height] = options.size ?? [image.width, image.height];
+  const fill = (options.fillValue ?? [0, 0, 0]).map((v) => v / 255) as [
+    number,
+    number,
+    number
+  ];
+
+  const warped = warpPipelineImage(image, matrix, width, height, fill);
+  const encoded = await encodePipelineImage(warped, options);
+  return {
+    base64: encoded.base64,
+    width,
+    height,
+    matrix: warped.matrix,
+    ...(hasAnnotations(options) &&
+      transformAnnotations(
+        options,
+        warped.matrix,
+        image.width,
+        image.height,
+        width,
+        height
+      )),
+    processingTimeMs: performance.now() - startTime,
+  };
+}
+
+function validateAffineOptions(options: AffineTransformOptions): void {
+  const { matrix, rotate, scale, shear, translate, center } = options;
+  if (matrix !== undefined) {
+    if (
+      [rotate, scale, shear, translate, center].some((v) => v !== undefined)
+    ) {
+      throw new VisionUtilsException(
+        'INVALID_OPTIONS',
+        'Give either matrix or rotate, scale, shear and translate'
+      );
+    }
+    if (
+      !Array.isArray(matrix) ||
+      (matrix.length !== 6 && matrix.length !== 9) ||
+      !matrix.every((v) => typeof v === 'number' && Number.isFinite(v))
+    ) {
+      throw new VisionUtilsException(
+        'INVALID_OPTIONS',
+        'matrix must have 6 (2x3) or 9 (3x3) numbers'
+      );
+    }
+    if (
+      matrix.length === 9 &&
+      (matrix[6] !== 0 || matrix[7] !== 0 || matrix[8] !== 1)
+    ) {
+      throw new VisionUtilsException(
+        'INVALID_OPTIONS',
+        'An affine matrix must end with [0, 0, 1]; use perspectiveTransform for projective transforms'
+      );
+    }
+    return;
+  }
+  if (rotate !== undefined && !Number.isFinite(rotate)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'rotate must be a number'
+    );
+  }
+  const scales = Array.isArray(scale) ? scale : [scale ?? 1, scale ?? 1];
+  if (
+    scales.length !== 2 ||
+    !scales.every((v) => v > 0 && Number.isFinite(v))
+  ) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'scale must be a positive number or [x, y]'
+    );
+  }
+  const shears = Array.isArray(shear) ? shear : [shear ?? 0, 0];
+  if (shears.length !== 2 || !shears.every((v) => Math.abs(v) < 90)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'shear must be between -90 and 90 degrees'
+    );
+  }
+  if (translate !== undefined && !isPoint(translate)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'translate must be [x, y]'
+    );
+  }
+  if (center !== undefined && !isPoint(center)) {
+    throw new VisionUtilsException('INVALID_OPTIONS', 'center must be [x, y]');
+  }
+}
+
+/** Scale, shear and rotate about the center, then translate */
+function affineMatrix(
+  options: AffineTransformOptions,
+  width: number,
+  height: number
+): Matrix3 {
+  const { matrix, rotate = 0, scale = 1, shear = 0 } = options;
+  if (matrix) {
+    return (matrix.length === 6 ? [...matrix, 0, 0, 1] : matrix) as Matrix3;
+  }
+  const [cx, cy] = options.center ?? [width / 2, height / 2];
+  const [tx, ty] = options.translate ?? [0, 0];
+  const [scaleX, scaleY] = Array.isArray(scale) ? scale : [scale, scale];
+  const [shearX, shearY] = (Array.isArray(shear) ? shear : [shear, 0]).map(
+    (degrees) => Math.tan((degrees * Math.PI) / 180)
+  ) as [number, number];
+  // Clockwise in y-down image coordinates
+  const angle = (rotate * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  let m: Matrix3 = [1, 0, -cx, 0, 1, -cy, 0, 0, 1];
+  m = multiplyMatrix3([scaleX, 0, 0, 0, scaleY, 0, 0, 0, 1], m);
+  m = multiplyMatrix3([1, shearX, 0, shearY, 1, 0, 0, 0, 1], m);
+  m = multiplyMatrix3([cos, -sin, 0, sin, cos, 0, 0, 0, 1], m);
+  return multiplyMatrix3([1, 0, cx + tx, 0, 1, cy + ty, 0, 0, 1], m);
+}
+
+/**
+ * Apply an affine transform
+ *
+ * Give an explicit `matrix` (2x3 as used by OpenCV's warpAffine, or 3x3), or
+ * any of rotate, scale, shear and translate. Sampling is bilinear; areas
+ * outside the source get `fillValue`. Annotations are mapped with the same
+ * matrix.
+ *
+ * @param source - Image source specification
+ * @param options - Transform, output size and annotations
+ * @returns Promise resolving to the image and the matrix applied
+ *
+ * @example
+ * const { base64, matrix, boxes } = await affineTransform(source, {
+ *   rotate: 10,
+ *   scale: 1.2,
+ *   shear: [5, 0],
+ *   translate: [20, -10],
+ *   boxes,
+ * });
+ */
+export async function affineTransform(
+  source: ImageSource,
+  options: AffineTransformOptions
+): Promise<GeometricTransformResult> {
+  validateGeometricOptions(source, options);
+  validateAffineOptions(options);
+  return warpSource(source, options, (width, height) =>
+    affineMatrix(options, width, height)
+  );
+}
+
+function validateQuad(quad: unknown, name: string): void {
+  if (!Array.isArray(quad) || quad.length !== 4 || !quad.every(isPoint)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      `${name} must be four [x, y] corners`
+    );
+  }
+}
+
+/** Homography mapping each corner of `from` onto the same corner of `to` */
+function solveHomography(from: Quad, to: Quad): Matrix3 {
+  // Eight equations in the first eight entries; the last is 1
+  const rows = from.flatMap(([x, y], k) => {
+    const [u, v] = to[k]!;
+    return [
+      [x, y, 1, 0, 0, 0, -u * x, -u * y, u],
+      [0, 0, 0, x, y, 1, -v * x, -v * y, v],
+    ];
+  });
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row]![col]!) > Math.abs(rows[pivot]![col]!)) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(rows[pivot]![col]!) < 1e-10) {
+      throw new VisionUtilsException(
+        'INVALID_OPTIONS',
+        'Quads must not have three collinear corners'
+      );
+    }
+    [rows[col], rows[pivot]] = [rows[pivot]!, rows[col]!];
+    const current = rows[col]!;
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const target = rows[row]!;
+      const factor = target[col]! / current[col]!;
+      for (let k = col; k < 9; k++) {
+        target[k] = target[k]! - factor * current[k]!;
+      }
+    }
+  }
+
+  const h = rows.map((row, i) => row[8]! / row[i]!);
+  return [...h, 1] as Matrix3;
+}
+
+/**
+ * Apply a perspective transform that moves `srcQuad` onto `dstQuad`
+ *
+ * Corners are [x, y] in source and output pixels, in the same order in both
+ * quads (e.g. top-left, top-right, bottom-right, bottom-left). Use it to
+ * rectify a document, or with small random corner offsets as augmentation.
+ *
+ * @param source - Image source specification
+ * @param srcQuad - Four corners in the source image
+ * @param dstQuad - Where those corners go in the output
+ * @param options - Output size, fill and annotations
+ * @returns Promise resolving to the image and the homography applied
+ *
+ * @example
+ * // Rectify a document into a 600x800 image
+ * const { base64 } = await perspectiveTransform(
+ *   source,
+ *   documentCorners,
+ *   [[0, 0], [600, 0], [600, 800], [0, 800]],
+ *   { size: [600, 800] }
+ * );
+ */
+export async function perspectiveTransform(
+  source: ImageSource,
+  srcQuad: Quad,
+  dstQuad: Quad,
+  options: PerspectiveTransformOptions = {}
+): Promise<GeometricTransformResult> {
+  validateGeometricOptions(source, options);
+  validateQuad(srcQuad, 'srcQuad');
+  validateQuad(dstQuad, 'dstQuad');
+  const matrix = solveHomography(srcQuad, dstQuad);
+  return warpSource(source, options, () => matrix);
+}
+
+function isPositiveRange(value: unknown): value is [number, number] {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value[0] > 0 &&
+    value[0] <= value[1] &&
+    Number.isFinite(value[1])
+  );
+}
+
+/**
+ * Crop a random area and aspect ratio, then resize it (torchvision
+ * RandomResizedCrop)
+ *
+ * Tries 10 times to find a crop whose area and aspect ratio fall in `scale`
+ * and `ratio`; otherwise takes the largest centered crop within `ratio`.
+ * The crop and resize are done natively.
+ *
+ * @param source - Image source specification
+ * @param options - Output size, scale and ratio ranges, seed and annotations
+ * @returns Promise resolving to the image, crop and the matrix applied
+ *
+ * @example
+ * const { base64, crop, matrix } = await randomResizedCrop(source, {
+ *   size: 224,
+ *   scale: [0.08, 1],
+ *   ratio: [3 / 4, 4 / 3],
+ *   seed: 42,
+ * });
+ */
+export async function randomResizedCrop(
+  source: ImageSource,
+  options: RandomResizedCropOptions
+): Promise<RandomResizedCropResult> {
+  validateGeometricOptions(source, options);
+  const [outputWidth, outputHeight] = resolveOutputSize(options.size ?? 0)!;
+  const { scale = [0.08, 1], ratio = [3 / 4, 4 / 3] } = options;
+  if (!isPositiveRange(scale) || !isPositiveRange(ratio)) {
+    throw new VisionUtilsException(
+      'INVALID_OPTIONS',
+      'scale and ratio must be [min, max] with 0 < min <= max'
+    );
+  }
+  const startTime = performance.now();
+  const seed = options.seed ?? randomSeed();
+  const random = createSeededRandom(seed);
+
+  const { width, height } = await getImageMetadata(source);
+  const area = width * height;
+  const [logMin, logMax] = [Math.log(ratio[0]), Math.log(ratio[1])];
+  let crop: Roi | undefined;
+  for (let attempt = 0; attempt < 10 && !crop; attempt++) {
+    const targetArea = area * (scale[0] + random() * (scale[1] - scale[0]));
+    const aspect = Math.exp(logMin + random() * (logMax - logMin));
+    const w = Math.round(Math.sqrt(targetArea * aspect));
+    const h = Math.round(Math.sqrt(targetArea / aspect));
+    if (w > 0 && w <= width && h > 0 && h <= height) {
+      crop = {
+        x: Math.floor(random() * (width - w + 1)),
+        y: Math.floor(random() * (height - h + 1)),
+        width: w,
+        height: h,
+      };
+    }
+  }
+  if (!crop) {
+    const imageRatio = width / height;
+    let w = width;
+    let h = height;
+    if (imageRatio < ratio[0]) {
+      h = Math.round(width / ratio[0]);
+    } else if (imageRatio > ratio[1]) {
+      w = Math.round(height * ratio[1]);
+    }
+    crop = {
+      x: Math.floor((width - w) / 2),
+      y: Math.floor((height - h) / 2),
+      width: w,
+      height: h,
+    };
+  }
+
+  const scaleX = outputWidth / crop.width;
+  const scaleY = outputHeight / crop.height;
+  const matrix: Matrix3 = [
+    scaleX,
+    0,
+    -crop.x * scaleX,
+    0,
+    scaleY,
+    -crop.y * scaleY,
+    0,
+    0,
+    1,
+  ];
+  const image = await decodePipelineImage(
+    source,
+    [outputWidth, outputHeight],
+    crop
+  );
+  const encoded = await encodePipelineImage(image, options);
+  return {
+    base64: encoded.base64,
+    width: outputWidth,
+    height: outputHeight,
+    matrix,
+    crop,
+    seed,
+    ...(hasAnnotations(options) &&
+      transformAnnotations(
+        options,
+        matrix,
+        width,
+        height,
+        outputWidth,
+        outputHeight
+      )),
+    processingTimeMs: performance.now() - startTime,
+  };
+}
@@ -49,6 +49,31 @@ export interface PhotoLibrarySource {
   value: string;
 }
 
+/**
+ * Encoded image file (JPEG, PNG, ...) already held in memory
+ */
+export interface BytesSource {
+  type: 'bytes';
+  value: ArrayBuffer | Uint8Array;
+}
+
+/**
+ * Channel order of a raw 8-bit pixel buffer
+ */
+export type PixelBufferFormat = 'rgba' | 'rgb' | 'bgra' | 'bgr' | 'grayscale';
+
+/**
+ * Already-decoded 8-bit pixels, interleaved and row-major with no row padding
+ */
+export interface PixelsSource {
+  type: 'pixels';
+  /** width * height * channels bytes */
+  data: ArrayBuffer | Uint8Array | Uint8ClampedArray;
+  width: number;
+  height: number;
+  format: PixelBufferFormat;
+}
+
 /**
  * Union type of all supported image sources
  */
@@ -57,7 +82,9 @@ export type ImageSource =
   | FileSource
   | Base64Source
   | AssetSource
-  | PhotoLibrarySource;
+  | PhotoLibrarySource
+  | BytesSource
+  | PixelsSource;
 
 // =============================================================================
 // Processing Options
@@ -115,7 +142,7 @@ export interface Normalization {
   mean?: number[];
   /** Custom standard deviation values per channel (required for 'custom' preset) */
   std?: number[];
-  /** Scale factor applied before mean/std normalization (default: 1/255 for 'custom') */
+  /** Scale factor (> 0) applied before mean/std normalization (default: 1/255 for 'custom') */
   scale?: number;
 }
 
@@ -408,10 +435,60 @@ export interface BlurOptions {
   radius: number;
 }
 
+/**
+ * Dense annotation mask, row-major. May be smaller than the image (e.g. a
+ * segmentation output); it is transformed at its own resolution.
+ */
+export interface AnnotationMask {
+  /** Mask values (class indices or 0/1), row-major */
+  data: number[];
+  /** Mask width */
+  width: number;
+  /** Mask height */
+  height: number;
+}
+
+/**
+ * Annotations that geometric augmentations transform along with the pixels
+ */
+export interface AugmentationAnnotations {
+  /** Bounding boxes in image pixels */
+  boxes?: BoundingBox[];
+  /** Format of boxes (default: 'xyxy') */
+  boxFormat?: BoxFormat;
+  /** Keypoints in image pixels */
+  keypoints?: Keypoint[];
+  /** Masks covering the whole image */
+  masks?: AnnotationMask[];
+}
+
+/**
+ * Annotations after a geometric augmentation
+ */
+export interface TransformedAnnotations {
+  /** Boxes clipped to the output image; boxes left with no area are dropped */
+  boxes?: BoundingBox[];
+  /** Index in the input boxes of each returned box */
+  boxIndices?: number[];
+  /** Keypoints in output pixels; those outside the image get confidence 0 */
+  keypoints?: Keypoint[];
+  /** Masks resampled (nearest neighbor) to the output; uncovered pixels are 0 */
+  masks?: AnnotationMask[];
+}
+
+/**
+ * How augmentation APIs return their image
+ *
+ * - 'base64': a PNG as `base64`
+ * - 'pixels': decoded RGBA as a `pixels` source, which can be passed straight
+ *   back in as the source of the next call (`base64` is then empty)
+ */
+export type AugmentationOutput = 'base64' | 'pixels';
+
 /**
  * Image augmentation options for training/inference robustness
  */
-export interface AugmentationOptions {
+export interface AugmentationOptions extends AugmentationAnnotations {
   /** Apply horizontal flip */
   horizontalFlip?: boolean;
   /** Apply vertical flip */
@@ -430,6 +507,24 @@ export interface AugmentationOptions {
   noise?: NoiseOptions;
   /** Apply blur to the image */
   blur?: BlurOptions;
+  /** Output image form (default: 'base64') */
+  output?: AugmentationOutput;
+}
+
+/**
+ * Result of applyAugmentations
+ */
+export interface AugmentationResult extends TransformedAnnotations {
+  /** Augmented image as base64 (empty when `output` is 'pixels') */
+  base64: string;
+  /** Augmented image as RGBA pixels, set when `output` is 'pixels' */
+  pixels?: PixelsSource;
+  /** Augmented image width (rotation expands the canvas) */
+  width: number;
+  /** Augmented image height */
+  height: number;
+  /** Processing time in milliseconds */
+  processingTimeMs: number;
 }
 
 // =============================================================================
@@ -449,10 +544,39 @@ export interface EdgeDetectionOptions {
   type: EdgeDetectionType;
   /** Add edge map as an additional channel instead of replacing image */
   outputAsChannel?: boolean;
-  /** Lower threshold for Canny edge detection */
+  /** Lower threshold for Canny edge detection, in gradient magnitude units (default: 50) */
   lowThreshold?: number;
-  /** Upper threshold for Canny edge detection */
+  /** Upper threshold for Canny edge detection, in gradient magnitude units (default: 150) */
   highThreshold?: number;
+  /** Output as edge map tensor or base64 PNG (default: 'tensor') */
+  outputFormat?: 'tensor' | 'base64';
+  /** Resize before edge detection (ignored with outputAsChannel, which follows the pixel options) */
+  resize?: ResizeOptions;
+  /** Region of interest (ignored with outputAsChannel, which follows the pixel options) */
+  roi?: Roi;
+}
+
+/**
+ * Result of edge detection
+ */
+export interface EdgeDetectionResult {
+  /** Edge map in [0, 1], single channel HWC (when outputFormat is 'tensor') */
+  data?: number[];
+  /** Edge map as base64 PNG (when outputFormat is 'base64') */
+  base64?: string;
+  /** Edge map width */
+  width: number;
+  /** Edge map height */
+  height: number;
+  /** Algorithm used */
+  type: EdgeDetectionType;
+  /**
+   * Pixel data with the edge map appended as the last channel
+   * (when outputAsChannel is set)
+   */
+  pixelData?: PixelDataResult;
+  /** Processing time in milliseconds */
+  processingTimeMs: number;
 }
 
 // =============================================================================
@@ -470,10 +594,51 @@ export type PaddingMode = 'constant' | 'reflect' | 'replicate' | 'circular';
 export interface PaddingOptions {
   /** Padding mode */
   mode: PaddingMode;
-  /** Padding value for 'constant' mode [R, G, B, A] */
+  /**
+   * Padding value for 'constant' mode.
+   * Images: [R, G, B, A] in 0-255 (default: [0, 0, 0, 255]).
+   * Tensors: one value per channel in tensor units, or a single value for all channels (default: [0])
+   */
   value?: number[];
-  /** Padding size: single number for all sides, or [top, right, bottom, left] */
-  size: number | [number, number, number, number];
+  /** Padding size: single number for all sides, or [top, right, bottom, left] (default: 0) */
+  size?: number | [number, number, number, number];
+  /**
+   * Extra padding added to the bottom and right edges so the padded height and
+   * width become multiples of this value (e.g. 32 for stride-constrained models)
+   */
+  multipleOf?: number;
+}
+
+/**
+ * Result of padTensor
+ */
+export interface PadTensorResult {
+  /** Padded tensor data */
+  data: number[];
+  /** Padded tensor shape (same layout as the input) */
+  shape: number[];
+  /** Padding applied [top, right, bottom, left] */
+  padding: [number, number, number, number];
+  /** Processing time in milliseconds */
+  processingTimeMs: number;
+}
+
+/**
+ * Result of padImage
+ */
+export interface PadImageResult {
+  /** Padded image as base64 (PNG) */
+  imageBase64: string;
+  /** Padded width */
+  width: number;
+  /** Padded height */
+  height: number;
+  /** Padding applied [top, right, bottom, left] */
+  padding: [number, number, number, number];
+  /** Original image dimensions [width, height] */
+  originalSize: [number, number];
+  /** Processing time in milliseconds */
+  processingTimeMs: number;
 }
 
 // =============================================================================
@@ -499,9 +664,9 @@ export interface DenoiseOptions {
  * CLAHE (Contrast Limited Adaptive Histogram Equalization) options
  */
 export interface ClaheOptions {
-  /** Clip limit for contrast limiting */
+  /** Clip limit for contrast limiting, relative to the average bin height (e.g. 2.0) */
   clipLimit: number;
-  /** Tile size for adaptive processing */
+  /** Number of tiles per side for adaptive processing (e.g. 8 for an 8x8 grid) */
   tileSize: number;
 }
 
@@ -523,7 +688,7 @@ export interface FilterOptions {
   sharpen?: number;
   /** Denoise options */
   denoise?: DenoiseOptions;
-  /** Median filter kernel size (must be odd number) */
+  /** Median filter kernel size (odd, 3 to 15) */
   medianFilter?: number;
 }
 
@@ -532,9 +697,9 @@ export interface FilterOptions {
 // =============================================================================
 
 /**
- * Pre-configured model presets
+ * Built-in model presets
  */
-export type ModelPreset =
+export type BuiltInModelPreset =
   | 'yolo'
   | 'yolov8'
   | 'mobilenet'
@@ -549,6 +714,48 @@ export type ModelPreset =
   | 'dino'
   | 'detr';
 
+/**
+ * Model preset name: a built-in preset or one added with registerModelPreset
+ */
+export type ModelPreset = BuiltInModelPreset | (string & {});
+
+/**
+ * Output decoder a model is meant for
+ *
+ * - 'classification': class scores for getTopLabels
+ * - 'yolov5' / 'yolov8': decodeYoloOutput heads
+ * - 'yolov8-seg': decodeYoloOutput with mask coefficients, then decodeInstanceMasks
+ * - 'yolov8-pose' / 'movenet' / 'heatmap': decodePoseOutput formats
+ * - 'segmentation': decodeSegmentation
+ */
+export type ModelDecoder =
+  | 'classification'
+  | 'yolov5'
+  | 'yolov8'
+  | 'yolov8-seg'
+  | PoseOutputFormat
+  | 'segmentation';
+
+/**
+ * Preprocessing and output metadata of a model preset
+ */
+export interface ModelPresetConfig {
+  resize: {
+    width: number;
+    height: number;
+    strategy: ResizeStrategy;
+  };
+  normalization: Normalization;
+  colorFormat: ColorFormat;
+  dataLayout: DataLayout;
+  /** Label dataset for class names (optional) */
+  labels?: LabelDataset;
+  /** Box format of decoded detections (optional) */
+  boxFormat?: BoxFormat;
+  /** Decoder for the raw model output (optional) */
+  decoder?: ModelDecoder;
+}
+
 // =============================================================================
 // Acceleration Types
 // =============================================================================
@@ -620,6 +827,10 @@ export interface GetPixelDataOptions {
   outputFormat?: OutputFormat;
   /** Model preset (auto-configures resize, normalization, layout) */
   modelPreset?: ModelPreset;
+  /** Contrast preprocessing, applied after resize and before normalization */
+  preprocessing?: PreprocessingOptions;
+  /** Image filters, applied after preprocessing and before normalization */
+  filters?: FilterOptions;
   /** Cache options */
   cache?: CacheOptions;
 }
@@ -750,6 +961,9 @@ export type ErrorCode =
   | 'INVALID_ROI'
   | 'INVALID_RESIZE'
   | 'INVALID_NORMALIZATION'
+  | 'INVALID_PREPROCESSING'
+  | 'INVALID_FILTERS'
+  | 'INVALID_PADDING'
   | 'INVALID_OPTIONS'
   | 'INVALID_CHANNEL'
   | 'INVALID_PATCH'
@@ -1116,9 +1330,9 @@ export type DeepPartial<T> = {
 // =============================================================================
 
 /**
- * Supported label datasets
+ * Label datasets bundled with the native module
  */
-export type LabelDataset =
+export type BuiltInLabelDataset =
   | 'coco'
   | 'coco91'
   | 'imagenet'
@@ -1129,6 +1343,12 @@ export type LabelDataset =
   | 'places365'
   | 'ade20k';
 
+/**
+ * A built-in label dataset, or the name of one added with
+ * registerLabelDataset()
+ */
+export type LabelDataset = BuiltInLabelDataset | (string & {});
+
 /**
  * Label info with optional metadata
  */
@@ -1153,6 +1373,15 @@ export interface GetLabelOptions {
   includeMetadata?: boolean;
 }
 
+/**
+ * Activation applied to raw scores before ranking
+ *
+ * - 'none': scores are already probabilities
+ * - 'softmax': single-label logits
+ * - 'sigmoid': multi-label logits, each class scored independently
+ */
+export type LabelActivation = 'none' | 'softmax' | 'sigmoid';
+
 /**
  * Options for getting top-K labels
  */
@@ -1161,10 +1390,28 @@ export interface GetTopLabelsOptions {
   dataset?: LabelDataset;
   /** Whether to include metadata (supercategory, display name) */
   includeMetadata?: boolean;
-  /** Number of top results to return (default: 5) */
+  /** Number of top results to return (default: 5, or all classes with 'sigmoid') */
   k?: number;
   /** Minimum confidence threshold (0-1, default: 0) */
   minConfidence?: number;
+  /** Activation applied to the scores before ranking (default: 'none') */
+  activation?: LabelActivation;
+  /**
+   * Temperature the logits are divided by before the activation
+   * (default: 1). Requires 'softmax' or 'sigmoid'.
+   */
+  temperature?: number;
+  /**
+   * Per-class confidence thresholds keyed by class index or label name.
+   * Classes without an entry use minConfidence.
+   */
+  thresholds?: Record<string | number, number>;
+  /**
+   * Group results by supercategory. A group scores the sum of its classes
+   * for single-label output and the maximum for 'sigmoid'. Classes without
+   * a supercategory form their own group.
+   */
+  aggregateBy?: 'supercategory';
 }
 
 /**
@@ -1179,6 +1426,11 @@ export interface TopLabelResult {
   confidence: number;
   /** Optional supercategory */
   supercategory?: string;
+  /**
+   * Class indices in this group, highest confidence first (only when
+   * aggregating by supercategory)
+   */
+  members?: number[];
 }
 
 /**
@@ -1195,6 +1447,62 @@ export interface DatasetInfo {
   isAvailable: boolean;
 }
 
+/**
+ * A category from the `categories` array of a COCO annotation file
+ */
+export interface CocoCategory {
+  /** Category id */
+  id: number;
+  /** Category name */
+  name: string;
+  /** Optional supercategory (e.g., "animal") */
+  supercategory?: string;
+}
+
+/**
+ * A label name with an optional supercategory
+ */
+export interface LabelEntry {
+  /** Label name */
+  name: string;
+  /** Optional supercategory */
+  supercategory?: string;
+}
+
+/**
+ * Label sources accepted by registerLabelDataset()
+ *
+ * - An array of names or `{ name, supercategory }` entries
+ * - The text of a labels file with one label per line
+ * - COCO annotation JSON (parsed or as text) with a `categories` array
+ * - Ultralytics dataset YAML text with a `names:` block, or the parsed
+ *   `{ names }` object. An optional `supercategories:` block with the same
+ *   keys assigns supercategories.
+ */
+export type LabelDatasetSource =
+  | Array<string | LabelEntry>
+  | string
+  | { categories: CocoCategory[] }
+  | {
+      names: string[] | Record<string, string>;
+      supercategories?: string[] | Record<string, string>;
+    };
+
+/**
+ * Options for registerLabelDataset()
+ */
+export interface RegisterLabelDatasetOptions {
+  /** Description returned by getDatasetInfo() */
+  description?: string;
+  /**
+   * How COCO category ids map to class indices (default: 'position').
+   * 'position' numbers categories 0..n-1 in id order, as Ultralytics and
+   * Detectron2 do; 'id' uses the category id itself and fills unused ids
+   * with 'N/A', as torchvision does.
+   */
+  cocoIndex?: 'position' | 'id';
+}
+
 // =============================================================================
 // Camera Frame Types
 // =============================================================================
@@ -1290,7 +1598,7 @@ export interface CameraFrameOptions {
  */
 export interface CameraFrameResult {
   /** Processed pixel data as normalized floats */
-  tensor: number[];
+  tensor: Float32Array;
 
   /** Tensor shape [height, width, channels] */
   shape: number[];
@@ -1362,12 +1670,17 @@ export interface ConvertYUVResult {
  */
 export interface PreparedOptions
   extends Required<
-    Omit<GetPixelDataOptions, 'roi' | 'resize' | 'cache' | 'modelPreset'>
+    Omit<
+      GetPixelDataOptions,
+      'roi' | 'resize' | 'cache' | 'modelPreset' | 'preprocessing' | 'filters'
+    >
   > {
   roi?: Roi;
   resize?: Required<ResizeOptions>;
   cache?: CacheOptions;
   modelPreset?: ModelPreset;
+  preprocessing?: PreprocessingOptions;
+  filters?: FilterOptions;
 }
 
 // =============================================================================
@@ -1467,18 +1780,45 @@ export interface ClipBoxesResult {
   processingTimeMs: number;
 }
 
+/**
+ * Non-Maximum Suppression variant
+ *
+ * - 'greedy': drop boxes whose IoU with a higher-scoring box exceeds the threshold
+ * - 'soft-linear': scale overlapping scores by (1 - IoU) above the threshold
+ * - 'soft-gaussian': scale overlapping scores by exp(-IoU² / sigma)
+ * - 'diou': greedy, using Distance-IoU so nearby-but-separate objects survive
+ * - 'weighted-boxes-fusion': merge each cluster into a score-weighted average box
+ */
+export type NMSMode =
+  | 'greedy'
+  | 'soft-linear'
+  | 'soft-gaussian'
+  | 'diou'
+  | 'weighted-boxes-fusion';
+
 /**
  * Options for Non-Maximum Suppression
  */
 export interface NMSOptions {
   /** IoU threshold for suppression (default: 0.5) */
   iouThreshold?: number;
-  /** Minimum confidence score to keep (default: 0.25) */
+  /** Minimum confidence score to keep, also applied to decayed soft-NMS scores (default: 0) */
   scoreThreshold?: number;
   /** Maximum number of boxes to keep (default: 100) */
   maxDetections?: number;
+  /** Maximum number of boxes to keep per class (default: no limit) */
+  maxDetectionsPerClass?: number;
   /** Format of the boxes (default: 'xyxy') */
   format?: BoxFormat;
+  /** Suppression variant (default: 'greedy') */
+  mode?: NMSMode;
+  /**
+   * Suppress across classes (default: true). When false, boxes only
+   * suppress boxes with the same classIndex.
+   */
+  agnostic?: boolean;
+  /** Gaussian spread for 'soft-gaussian' (default: 0.5) */
+  sigma?: number;
 }
 
 /**
@@ -1493,16 +1833,22 @@ export interface Detection {
   classIndex?: number;
   /** Class label (optional) */
   label?: string;
+  /** Mask coefficients for instance segmentation heads, e.g. YOLOv8-seg (optional) */
+  maskCoefficients?: number[];
 }
 
 /**
  * Result of NMS operation
  */
-export interface NMSResult {
+export interface NMSResult<T extends Detection = Detection> {
   /** Indices of kept detections in original array */
   indices: number[];
-  /** Filtered detections */
-  detections: Detection[];
+  /**
+   * Kept detections, with all the caller's fields. Soft-NMS modes replace
+   * score with the decayed score; 'weighted-boxes-fusion' replaces box and
+   * score with the fused values of the cluster led by the detection.
+   */
+  detections: T[];
   /** Number of suppressed detections */
   suppressedCount: number;
   /** Processing time in milliseconds */
@@ -1539,7 +1885,10 @@ export interface LetterboxOptions {
   fillColor?: [number, number, number];
   /** Whether to scale up if image is smaller than target (default: true) */
   scaleUp?: boolean;
-  /** Whether to use stride-compatible sizing (default: false) */
+  /**
+   * Pad only up to the next multiple of `stride` instead of the full target size,
+   * producing the minimum stride-compatible rectangle (default: false)
+   */
   autoStride?: boolean;
   /** Stride size when autoStride is enabled (default: 32) */
   stride?: number;
@@ -2028,7 +2377,7 @@ export interface GridExtractResult {
 /**
  * Options for random crop
  */
-export interface RandomCropOptions {
+export interface RandomCropOptions extends AugmentationAnnotations {
   /** Crop width */
   width: number;
   /** Crop height */
@@ -2042,7 +2391,7 @@ export interface RandomCropOptions {
 /**
  * Single random crop result
  */
-export interface RandomCropItem {
+export interface RandomCropItem extends TransformedAnnotations {
   /** Crop data (pixel array) */
   data: number[];
   /** X coordinate of crop origin */
@@ -2216,14 +2565,22 @@ export interface ColorJitterOptions {
    * If not provided, random values are generated.
    */
   seed?: number;
+
+  /**
+   * Output image form.
+   * @default 'base64'
+   */
+  output?: AugmentationOutput;
 }
 
 /**
  * Result from color jitter operation
  */
 export interface ColorJitterResult {
-  /** Augmented image as base64 PNG */
+  /** Augmented image as base64 PNG (empty when `output` is 'pixels') */
   base64: string;
+  /** Augmented image as RGBA pixels, set when `output` is 'pixels' */
+  pixels?: PixelsSource;
   /** Output image width */
   width: number;
   /** Output image height */
@@ -2336,6 +2693,12 @@ export interface CutoutOptions {
    * If not provided, random values are generated.
    */
   seed?: number;
+
+  /**
+   * Output image form.
+   * @default 'base64'
+   */
+  output?: AugmentationOutput;
 }
 
 /**
@@ -2358,8 +2721,10 @@ export interface CutoutRegion {
  * Result from cutout operation
  */
 export interface CutoutResult {
-  /** Augmented image as base64 PNG */
+  /** Augmented image as base64 PNG (empty when `output` is 'pixels') */
   base64: string;
+  /** Augmented image as RGBA pixels, set when `output` is 'pixels' */
+  pixels?: PixelsSource;
   /** Output image width */
   width: number;
   /** Output image height */
@@ -2375,3 +2740,1323 @@ export interface CutoutResult {
   /** Processing time in milliseconds */
   processingTimeMs: number;
 }
+
+// =============================================================================
+// YOLO Output Decoding Types
+// =============================================================================
+
+/**
+ * YOLO head version
+ * - 'v5': Objectness-based head [cx, cy, w, h, obj, cls0..clsN] (YOLOv5/v7)
+ * - 'v8': Anchor-free head [cx, cy, w, h, cls0..clsN] (YOLOv8/v11)
+ * - 'auto': Infer from numClasses or modelPreset; without either, only an
+ *   attributes-first tensor is decoded (as v8)
+ */
+export type YoloVersion = 'v5' | 'v8' | 'auto';
+
+/**
+ * Memory layout of the YOLO output tensor (batch dimension excluded)
+ * - 'attributes-first': [attributes, candidates], e.g. [84, 8400] (YOLOv8 export default)
+ * - 'candidates-first': [candidates, attributes], e.g. [25200, 85] (YOLOv5 export default)
+ * - 'auto': Treat the smaller dimension as the attribute dimension
+ */
+export type YoloOutputLayout = 'attributes-first' | 'candidates-first' | 'auto';
+
+/**
+ * Options for decoding a raw YOLO output tensor
+ *
+ * @example
+ * // YOLOv8 with 80 COCO classes, output shape [1, 84, 8400]
+ * { version: 'v8', numClasses: 80, scoreThreshold: 0.25 }
+ *
+ * @example
+ * // YOLOv5 with normalized coordinates
+ * { version: 'v5', normalizedCoordinates: true, inputWidth: 640, inputHeight: 640 }
+ */
+export interface YoloDecodeOptions {
+  /** YOLO head version (default: 'auto') */
+  version?: YoloVersion;
+  /** Tensor layout (default: 'auto') */
+  layout?: YoloOutputLayout;
+  /** Number of classes (default: inferred from the attribute dimension) */
+  numClasses?: number;
+  /** Minimum confidence score to keep a candidate (default: 0.25) */
+  scoreThreshold?: number;
+  /** Minimum objectness for v5 heads, checked before class scores (default: scoreThreshold) */
+  objectnessThreshold?: number;
+  /** Format of the returned boxes (default: the preset's boxFormat, else 'xyxy') */
+  outputFormat?: BoxFormat;
+  /** Model preset used for preprocessing; supplies version (from its decoder) and input size defaults */
+  modelPreset?: ModelPreset;
+  /** Whether box coordinates are normalized to 0-1 (default: false) */
+  normalizedCoordinates?: boolean;
+  /** Model input width, used to scale normalized coordinates (default: from preset or 640) */
+  inputWidth?: number;
+  /** Model input height, used to scale normalized coordinates (default: from preset or 640) */
+  inputHeight?: number;
+  /** Keep only the top-K candidates by score before NMS (optional) */
+  maxCandidates?: number;
+  /** Batch index to decode when the tensor has a batch dimension (default: 0) */
+  batchIndex?: number;
+  /**
+   * Number of trailing mask coefficients per candidate
+   * (default: 32 for a 'yolov8-seg' preset, otherwise 0).
+   * Decoded into Detection.maskCoefficients for decodeInstanceMasks.
+   */
+  numMasks?: number;
+}
+
+/**
+ * Result of YOLO output decoding
+ */
+export interface YoloDecodeResult {
+  /** Decoded detections, sorted by score descending, ready for nonMaxSuppression */
+  detections: Detection[];
+  /** Box format of the detections */
+  format: BoxFormat;
+  /** Head version that was used for decoding */
+  version: 'v5' | 'v8';
+  /** Number of classes decoded */
+  numClasses: number;
+  /** Total number of candidates in the tensor before thresholding */
+  candidateCount: number;
+  /** Processing time in milliseconds */
+  processingTimeMs: number;
+}
+
+// =============================================================================
+// Detection Pipeline Types
+// =============================================================================
+
+/**
+ * Raw output returned by a detection model inference callback
+ */
+export interface DetectionModelOutput {
+  /** Output tensor as flat array */
+  data: number[] | Float32Array;
+  /** Output tensor shape, e.g. [1, 84, 8400] */
+  shape: number[];
+}
+
+/**
+ * User-provided inference callback for a detection pipeline
+ *
+ * Receives the preprocessed model input and the letterbox transform
+ * that produced it, and resolves to the raw model output.
+ */
+export type DetectionModelRunner = (
+  input: PixelDataResult,
+  letterboxInfo: LetterboxInfo
+) => Promise<DetectionModelOutput>;
+
+/**
+ * Options for creating a detection pipeline
+ *
+ * @example
+ * {
+ *   preset: 'yolov8',
+ *   dataset: 'coco',
+ *   runModel: async (input) => {
+ *     const output = await model.run([input.data]);
+ *     return { data: output[0], shape: [1, 84, 8400] };
+ *   },
+ *   nms: { iouThreshold: 0.45 },
+ * }
+ */
+export interface DetectionPipelineOptions {
+  /** Model preset with a 'yolov5' or 'yolov8' decoder, used for letterboxing, normalization and decoding (default: 'yolov8') */
+  preset?: ModelPreset;
+  /** Label dataset for class names (default: the preset's labels, else 'coco') */
+  dataset?: LabelDataset;
+  /** Whether to look up class labels (default: true) */
+  includeLabels?: boolean;
+  /** Inference callback */
+  runModel: DetectionModelRunner;
+  /** Letterbox overrides (default: preset input size, YOLO gray fill) */
+  letterbox?: Partial<LetterboxOptions>;
+  /** Pixel data overrides applied on top of the preset */
+  pixelOptions?: Pick<
+    GetPixelDataOptions,
+    'colorFormat' | 'normalization' | 'dataLayout' | 'outputFormat'
+  >;
+  /** YOLO decoding options */
+  decode?: Omit<YoloDecodeOptions, 'modelPreset'>;
+  /** NMS options (box format follows the decoder output format) */
+  nms?: Omit<NMSOptions, 'format'>;
+  /** Whether to clip restored boxes to the original image (default: true) */
+  clip?: boolean;
+}
+
+/**
+ * Per-stage timing of a detection pipeline run
+ */
+export interface DetectionPipelineTiming {
+  /** Letterbox and pixel extraction time in milliseconds */
+  preprocessMs: number;
+  /** Inference callback time in milliseconds */
+  inferenceMs: number;
+  /** Decoding, NMS, box restoration and labeling time in milliseconds */
+  postprocessMs: number;
+}
+
+/**
+ * Result of a detection pipeline run
+ */
+export interface DetectionPipelineResult {
+  /** Labeled detections in original image coordinates */
+  detections: Detection[];
+  /** Box format of the detections */
+  format: BoxFormat;
+  /** Letterbox transform used for preprocessing and box restoration */
+  letterboxInfo: LetterboxInfo;
+  /** Per-stage timing */
+  timing: DetectionPipelineTiming;
+  /** Total processing time in milliseconds */
+  processingTimeMs: number;
+}
+
+/**
+ * Detection pipeline returned by createDetectionPipeline
+ */
+export interface DetectionPipeline {
+  /** Run the full pipeline on an image */
+  detect(source: ImageSource): Promise<DetectionPipelineResult>;
+  /** Run decoding, NMS, box restoration and labeling on a raw model output */
+  postprocess(
+    output: DetectionModelOutput,
+    letterboxInfo: LetterboxInfo
+  ): Promise<Detection[]>;
+}
+
+// =============================================================================
+// Segmentation Decoding Types
+// =============================================================================
+
+/**
+ * Activation used to decode segmentation logits
+ * - 'softmax': Multi-class, mask is the channel argmax
+ * - 'sigmoid': Binary, mask is 1 where sigmoid(logit) >= threshold
+ */
+export type SegmentationActivation = 'softmax' | 'sigmoid';
+
+/**
+ * Options for decoding semantic segmentation output
+ */
+export interface SegmentationDecodeOptions {
+  /** Layout of the logits tensor (default: 'nchw') */
+  layout?: DataLayout;
+  /** Activation (default: 'sigmoid' for a single channel, otherwise 'softmax') */
+  activation?: SegmentationActivation;
+  /** Foreground threshold for 'sigmoid' (default: 0.5) */
+  threshold?: number;
+  /** Include per-pixel confidence of the predicted class (default: false) */
+  includeConfidence?: boolean;
+  /**
+   * Letterbox info from preprocessing. Padding is removed and the mask is
+   * resized back to the original image size.
+   */
+  letterboxInfo?: LetterboxInfo;
+  /** Output mask size [width, height] (default: original size with letterboxInfo, otherwise the logits size) */
+  outputSize?: [number, number];
+  /**
+   * Interpolation when resizing (default: 'nearest').
+   * 'bilinear' interpolates logits before the argmax for smoother boundaries.
+   */
+  interpolation?: 'nearest' | 'bilinear';
+  /** Dataset used to attach labels to the class areas */
+  dataset?: LabelDataset;
+  /** Batch index to decode for batched layouts (default: 0) */
+  batchIndex?: number;
+}
+
+/**
+ * Pixel area covered by one class
+ */
+export interface SegmentationClassArea {
+  /** Class index */
+  classIndex: number;
+  /** Class label (when a dataset is given) */
+  label?: string;
+  /** Number of mask pixels assigned to this class */
+  pixelCount: number;
+  /** Fraction of the mask covered by this class (0-1) */
+  fraction: number;
+}
+
+/**
+ * Result of decodeSegmentation
+ */
+export interface SegmentationResult {
+  /** Class index per pixel, row-major (pass to overlayMask with isClassMask: true) */
+  mask: number[];
+  /** Mask width */
+  width: number;
+  /** Mask height */
+  height: number;
+  /** Confidence of the predicted class per pixel (when includeConfidence is set) */
+  confidence?: number[];
+  /** Classes present in the mask, sorted by pixel count (descending) */
+  classes: SegmentationClassArea[];
+  /** Number of channels in the logits */
+  numClasses: number;
+  /** Processing time in milliseconds */
+  processingTimeMs: number;
+}
+
+// =============================================================================
+// Instance Segmentation Types
+// =============================================================================
+
+/**
+ * Options for decoding instance masks from prototype masks (YOLOv8-seg)
+ */
+export interface InstanceMaskOptions {
+  /** Layout of the prototype tensor (default: 'nchw', e.g. [1, 32, 160, 160]) */
+  layout?: DataLayout;
+  /** Format of the detection boxes (default: 'xyxy') */
+  boxFormat?: BoxFormat;
+  /** Model input size [width, height] the boxes refer to (default: letterboxedSize or [640, 640]) */
+  inputSize?: [number, number];
+  /**
+   * Letterbox parameters (as passed to reverseLetterbox). Boxes and masks are
+   * mapped back to original image coordinates.
+   */
+  letterboxInfo?: Pick<LetterboxInfo, 'scale' | 'offset' | 'originalSize'> &
+    Partial<Pick<LetterboxInfo, 'letterboxedSize'>>;
+  /** Mask probability threshold (default: 0.5) */
+  threshold?: number;
+  /** Batch index to decode for batched layouts (default: 0) */
+  batchIndex?: number;
+}
+
+/**
+ * Binary mask for one detected instance
+ */
+export interface InstanceMask {
+  /** Bounding box [x1, y1, x2, y2] in output coordinates, clipped to the image */
+  box: BoundingBox;
+  /** Confidence score */
+  score: number;
+  /** Class index (optional) */
+  classIndex?: number;
+  /** Class label (optional) */
+  label?: string;
+  /** Binary mask (0/1) cropped to the box, row-major maskWidth x maskHeight */
+  mask: number[];
+  /** Top-left pixel [x, y] of the mask in output coordinates */
+  maskOrigin: [number, number];
+  /** Mask width in pixels */
+  maskWidth: number;
+  /** Mask height in pixels */
+  maskHeight: number;
+  /** Number of foreground pixels */
+  area: number;
+}
+
+/**
+ * Result of decodeInstanceMasks
+ */
+export interface InstanceMaskResult {
+  /** One mask per input detection, in the same order */
+  instances: InstanceMask[];
+  /** Width of the output coordinate space (original image width with letterboxInfo) */
+  width: number;
+  /** Height of the output coordinate space (original image height with letterboxInfo) */
+  height: number;
+  /** Processing time in milliseconds */
+  processingTimeMs: number;
+}
+
+/**
+ * Options for overlayInstanceMasks
+ */
+export interface OverlayInstanceMasksOptions
+  extends Omit<OverlayMaskOptions, 'maskWidth' | 'maskHeight' | 'isClassMask'> {
+  /** Color each instance separately or by class (default: 'instance') */
+  colorBy?: 'instance' | 'class';
+}
+
+// =============================================================================
+// Pose Estimation Types
+// =============================================================================
+
+/**
+ * Pose model output format
+ * - 'yolov8-pose': [1, 5 + K * 3, N] candidates (box, person score, keypoints)
+ * - 'movenet': [1, 1, K, 3] single-pose or [1, P, 56] multi-pose, normalized (y, x, score)
+ * - 'heatmap': [1, K, H, W] per-keypoint heatmaps (HRNet / SimpleBaseline), single person
+ */
+export type PoseOutputFormat = 'yolov8-pose' | 'movenet' | 'heatmap';
+
+/**
+ * Sub-pixel refinement of heatmap peaks
+ * - 'none': Integer argmax
+ * - 'quarter': Shift 0.25px towards the higher neighbour (HRNet default)
+ * - 'taylor': Second-order Taylor expansion of the log heatmap (DARK)
+ */
+export type HeatmapRefinement = 'none' | 'quarter' | 'taylor';
+
+/**
+ * Options for decoding pose estimation output
+ */
+export interface PoseDecodeOptions {
+  /** Output format of the model */
+  format: PoseOutputFormat;
+  /** Number of keypoints (default: inferred from the shape, usually 17) */
+  numKeypoints?: number;
+  /** Keypoint names (default: COCO_KEYPOINT_NAMES for 17 keypoints) */
+  keypointNames?: string[];
+  /** Minimum person score to keep a detection (default: 0.25) */
+  scoreThreshold?: number;
+  /** Tensor layout for 'yolov8-pose' (default: 'auto') */
+  layout?: YoloOutputLayout;
+  /** Heatmap layout for 'heatmap' (default: 'nchw') */
+  dataLayout?: DataLayout;
+  /**
+   * Model input size [width, height] used to scale coordinates
+   * (default: letterboxedSize, else [192, 192] for MoveNet and 4x the heatmap size for heatmaps)
+   */
+  inputSize?: [number, number];
+  /** Letterbox parameters; keypoints and boxes are mapped back to original image coordinates */
+  letterboxInfo?: Pick<LetterboxInfo, 'scale' | 'offset'> &
+    Partial<Pick<LetterboxInfo, 'letterboxedSize'>>;
+  /** Sub-pixel refinement for 'heatmap' (default: 'quarter') */
+  refinement?: HeatmapRefinement;
+  /** Keep only the top-K candidates by score for 'yolov8-pose' (optional) */
+  maxCandidates?: number;
+  /** Batch index to decode (default: 0) */
+  batchIndex?: number;
+}
+
+/**
+ * Detected person with keypoints
+ */
+export interface PoseDetection extends Detection {
+  /** Keypoints in output coordinates, in model keypoint order */
+  keypoints: Keypoint[];
+}
+
+/**
+ * Result of decodePoseOutput
+ */
+export interface PoseDecodeResult {
+  /**
+   * Detected people sorted by score. For 'yolov8-pose' these are candidates
+   * before NMS; pass them through nonMaxSuppression.
+   */
+  detections: PoseDetection[];
+  /** Output format that was decoded */
+  format: PoseOutputFormat;
+  /** Number of keypoints per person */
+  numKeypoints: number;
+  /** Processing time in milliseconds */
+  processingTimeMs: number;
+}
+
+// =============================================================================
+// Hugging Face Preprocessor Types
+// =============================================================================
+
+/**
+ * Size entry of a Hugging Face image processor config
+ *
+ * A plain number is the legacy form: a square size, or the shortest edge when
+ * center cropping (overridden by `default_to_square`).
+ */
+export type HFSize =
+  | number
+  | {
+      height?: number;
+      width?: number;
+      shortest_edge?: number;
+      longest_edge?: number;
+    };
+
+/**
+ * Parsed contents of a Hugging Face preprocessor_config.json
+ *
+ * Only the fields optionsFromHFPreprocessorConfig reads are typed; any other
+ * field is reported in the warnings when it is set.
+ */
+export interface HFPreprocessorConfig {
+  image_mean?: number | number[];
+  image_std?: number | number[];
+  do_normalize?: boolean;
+  do_rescale?: boolean;
+  rescale_factor?: number;
+  do_resize?: boolean;
+  size?: HFSize;
+  default_to_square?: boolean;
+  do_center_crop?: boolean;
+  crop_size?: HFSize;
+  do_convert_rgb?: boolean;
+  /** PIL resampling filter (0 nearest, 1 lanczos, 2 bilinear, 3 bicubic, 4 box, 5 hamming) */
+  resample?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Result of optionsFromHFPreprocessorConfig
+ */
+export interface HFPreprocessorImportResult {
+  /** getPixelData options; add a source to use them */
+  options: Omit<GetPixelDataOptions, 'source'>;
+  /** Config fields that are ignored or only approximated, one message each */
+  warnings: string[];
+}
+
+// =============================================================================
+// Object Tracking Types
+// =============================================================================
+
+/**
+ * Multi-object tracking algorithm
+ * - 'sort': Kalman filter + Hungarian matching on IoU (Bewley et al., 2016)
+ * - 'bytetrack': SORT plus a second matching pass that recovers tracks from
+ *   low-score detections (Zhang et al., 2022)
+ */
+export type TrackerType = 'sort' | 'bytetrack';
+
+/**
+ * Options for createTracker
+ */
+export interface TrackerOptions {
+  /** Tracking algorithm (default: 'sort') */
+  type?: TrackerType;
+  /** Minimum IoU for a detection to match a track (default: 0.3) */
+  iouThreshold?: number;
+  /** Frames a track survives without a match before it is dropped (default: 30) */
+  maxAge?: number;
+  /**
+   * Consecutive matches before a track is confirmed (default: 3). Tracks
+   * created during the first minHits frames are confirmed immediately.
+   */
+  minHits?: number;
+  /** Format of detection boxes and returned track boxes (default: 'xyxy') */
+  format?: BoxFormat;
+  /** Only match detections to tracks of the same classIndex (default: false) */
+  classAware?: boolean;
+  /** ByteTrack: detections at or above this score are matched first and can start tracks (default: 0.5) */
+  highThreshold?: number;
+  /** ByteTrack: detections below this score are ignored (default: 0.1) */
+  lowThreshold?: number;
+}
+
+/**
+ * Lifecycle state of a track
+ * - 'tentative': not yet matched minHits frames in a row
+ * - 'confirmed': confirmed and matched in the latest frame
+ * - 'lost': confirmed earlier but unmatched in the latest frame
+ */
+export type TrackState = 'tentative' | 'confirmed' | 'lost';
+
+/**
+ * A tracked object
+ */
+export interface Track {
+  /** Stable identifier, unique within the tracker */
+  trackId: number;
+  /** Kalman-smoothed box (predicted box while unmatched) */
+  box: BoundingBox;
+  /** Box center velocity in box units per frame [vx, vy] */
+  velocity: [number, number];
+  /** Score of the last matched detection */
+  score: number;
+  /** Class index of the last matched detection */
+  classIndex?: number;
+  /** Label of the last matched detection */
+  label?: string;
+  /** Frames since the track was created, starting at 1 */
+  age: number;
+  /** Total number of matched frames */
+  hits: number;
+  /** Frames since the last match (0 when matched in the latest frame) */
+  timeSinceUpdate: number;
+  /** Lifecycle state */
+  state: TrackState;
+  /** Index of the matched detection in the latest update() input */
+  detectionIndex?: number;
+}
+
+/**
+ * Stateful multi-object tracker returned by createTracker
+ */
+export interface Tracker {
+  /** Advance one frame and return the confirmed tracks matched in it */
+  update(detections: Detection[]): Track[];
+  /** All live tracks, including tentative and lost ones */
+  getTracks(): Track[];
+  /** Drop all tracks and restart track ids from 1 */
+  reset(): void;
+}
+
+// =============================================================================
+// Keypoint Smoothing Types
+// =============================================================================
+
+/**
+ * Unit of the timestamps passed to a keypoint smoother
+ */
+export type TimestampUnit = 's' | 'ms' | 'ns';
+
+/**
+ * Options for createKeypointSmoother (One Euro filter)
+ */
+export interface KeypointSmootherOptions {
+  /** Cutoff frequency in Hz at rest; lower is smoother but lags more (default: 1) */
+  minCutoff?: number;
+  /** Cutoff increase per unit of speed (px/s); higher reduces lag in fast motion (default: 0.007) */
+  beta?: number;
+  /** Cutoff frequency in Hz for the speed estimate (default: 1) */
+  dCutoff?: number;
+  /**
+   * Keypoints below this confidence are treated as missing and hold their
+   * last smoothed position (default: 0)
+   */
+  minConfidence?: number;
+  /**
+   * A keypoint or person missing for longer than this, in milliseconds,
+   * starts over from its next observation (default: 500)
+   */
+  maxGapMs?: number;
+  /** Unit of the timestamps passed to smooth() (default: 'ms') */
+  timestampUnit?: TimestampUnit;
+}
+
+/**
+ * Stateful One Euro filter for keypoint streams, one state per person
+ */
+export interface KeypointSmoother {
+  /**
+   * Smooth one frame of keypoints for a person
+   *
+   * @param keypoints - Keypoints in model order
+   * @param timestamp - Frame timestamp, e.g. CameraFrameSource.timestamp
+   * @param id - Person id, e.g. a Track trackId (default: 0)
+   * @returns Smoothed keypoints, same length and order as the input
+   */
+  smooth(
+    keypoints: Keypoint[],
+    timestamp: number,
+    id?: number | string
+  ): Keypoint[];
+  /** Forget one person, or everyone when no id is given */
+  reset(id?: number | string): void;
+}
+
+// =============================================================================
+// Sliced Inference Types
+// =============================================================================
+
+/**
+ * A region of the image that slicedDetect runs the model on
+ */
+export interface SliceRegion {
+  /** X coordinate of the top-left corner in the original image */
+  x: number;
+  /** Y coordinate of the top-left corner in the original image */
+  y: number;
+  /** Slice width in pixels */
+  width: number;
+  /** Slice height in pixels */
+  height: number;
+  /** Whether this is the full-image pass rather than a tile */
+  fullImage: boolean;
+}
+
+/**
+ * User-provided inference callback for sliced detection
+ *
+ * Receives the pixel data of one slice and resolves to its detections with
+ * boxes in the pixel coordinates of that data. If pixelOptions resizes the
+ * slice, slicedDetect scales the boxes back to the slice size.
+ */
+export type SlicedDetectionRunner = (
+  input: PixelDataResult,
+  slice: SliceRegion
+) => Promise<Detection[]>;
+
+/**
+ * How overlapping detections from different slices are combined
+ * - 'nms': Keep the highest-scoring detection of each overlapping group
+ * - 'nmm': Non-maximum merging; replace each group with the union of its
+ *   boxes and the highest score (SAHI's default)
+ */
+export type SliceMergeMode = 'nms' | 'nmm';
+
+/**
+ * Overlap measure used to match detections when merging
+ * - 'iou': Intersection over union
+ * - 'ios': Intersection over the smaller box, which also matches an object
+ *   cut in two by a tile boundary with its full detection
+ */
+export type SliceMatchMetric = 'iou' | 'ios';
+
+/**
+ * Options for slicedDetect
+ */
+export interface SlicedDetectOptions {
+  /** Slice size in pixels, square or [width, height] */
+  sliceSize: number | [number, number];
+  /** Overlap between neighbouring slices as a fraction of the slice size, 0-1 exclusive (default: 0.2) */
+  overlapPercent?: number;
+  /** Inference callback, called once per slice in order */
+  runModel: SlicedDetectionRunner;
+  /** Also run the model on the whole image to catch large objects (default: false) */
+  fullImage?: boolean;
+  /** Pixel options for each slice, e.g. resize and normalization; a resize must use the 'stretch' strategy */
+  pixelOptions?: Omit<GetPixelDataOptions, 'source' | 'roi'>;
+  /** Box format returned by runModel and used for the results (default: 'xyxy') */
+  format?: BoxFormat;
+  /** Merge strategy across slices (default: 'nmm') */
+  mergeMode?: SliceMergeMode;
+  /** Overlap measure for merging (default: 'ios') */
+  matchMetric?: SliceMatchMetric;
+  /** Minimum overlap for two detections to be merged (default: 0.5) */
+  matchThreshold?: number;
+  /** Merge detections of different classes too (default: false) */
+  classAgnostic?: boolean;
+}
+
+/**
+ * Result of slicedDetect
+ */
+export interface SlicedDetectResult {
+  /** Merged detections in original image coordinates, highest score first */
+  detections: Detection[];
+  /** Box format of the detections */
+  format: BoxFormat;
+  /** Regions the model ran on, in order */
+  slices: SliceRegion[];
+  /** Number of detections before merging */
+  rawDetectionCount: number;
+  /** Original image width */
+  imageWidth: number;
+  /** Original image height */
+  imageHeight: number;
+  /** Processing time in milliseconds */
+  processingTimeMs: number;
+}
+
+// =============================================================================
+// Patch Stitching Types
+// =============================================================================
+
+/**
+ * How overlapping patch outputs are combined
+ * - 'average': Equal weight everywhere
+ * - 'linear': Weight falls off linearly towards each patch edge
+ * - 'gaussian': Gaussian weight centered on each patch
+ * - 'max': Element-wise maximum, e.g. for class scores
+ */
+export type StitchBlendMode = 'average' | 'linear' | 'gaussian' | 'max';
+
+/**
+ * Dense model output for one patch
+ */
+export interface PatchOutput {
+  /** Output values */
+  data: number[] | Float32Array;
+  /** Output width; may differ from the patch width (e.g. 4x for super-resolution) */
+  width: number;
+  /** Output height */
+  height: number;
+  /** Channels or classes (default: data.length / (width * height)) */
+  channels?: number;
+}
+
+/**
+ * Options for stitchPatches
+ */
+export interface StitchPatchesOptions {
+  /** Blend mode for overlaps (default: 'linear') */
+  blend?: StitchBlendMode;
+  /** Layout of every patch output and of the result (default: 'hwc') */
+  layout?: DataLayout;
+  /** Gaussian standard deviation as a fraction of the patch size (default: 0.125) */
+  sigma?: number;
+}
+
+/**
+ * Result of stitchPatches
+ */
+export interface StitchPatchesResult {
+  /** Stitched map; pixels no patch covers are 0 */
+  data: Float32Array;
+  /** Map width */
+  width: number;
+  /** Map height */
+  height: number;
+  /** Channels or classes per pixel */
+  channels: number;
+  /** Layout of data */
+  layout: DataLayout;
+  /** Output size relative to the original image [x, y] */
+  scale: [number, number];
+  /** Processing time in milliseconds */
+  processingTimeMs: number;
+}
+
+// =============================================================================
+// Augmentation Pipeline Types
+// =============================================================================
+
+/**
+ * Augmentation step types understood by compose
+ */
+export type AugmentationStepType =
+  | 'horizontalFlip'
+  | 'verticalFlip'
+  | 'rotate'
+  | 'colorJitter'
+  | 'cutout'
+  | 'oneOf';
+
+/**
+ * Fields shared by every augmentation step
+ */
+export interface AugmentationStepBase {
+  /** Probability of applying the step (default: 0.5 for flips, 1 otherwise) */
+  p?: number;
+}
+
+/**
+ * Mirror the image
+ */
+export interface FlipStep extends AugmentationStepBase {
+  type: 'horizontalFlip' | 'verticalFlip';
+}
+
+/**
+ * Rotate about the center by a random angle, keeping the image size
+ */
+export interface RotateStep extends AugmentationStepBase {
+  type: 'rotate';
+  /** Angle range in degrees; a single value means [-limit, limit] (default: 30) */
+  limit?: number | [number, number];
+  /** Border fill [R, G, B] (0-255, default: [0, 0, 0]) */
+  fillValue?: [number, number, number];
+}
+
+/**
+ * Random brightness, contrast, saturation and hue (same ranges as colorJitter)
+ */
+export interface ColorJitterStep
+  extends AugmentationStepBase,
+    Omit<ColorJitterOptions, 'seed'> {
+  type: 'colorJitter';
+}
+
+/**
+ * Random erasing (same options as cutout)
+ */
+export interface CutoutStep
+  extends AugmentationStepBase,
+    Omit<CutoutOptions, 'seed' | 'probability'> {
+  type: 'cutout';
+}
+
+/**
+ * Apply one of several steps, chosen with probability proportional to their p
+ */
+export interface OneOfStep extends AugmentationStepBase {
+  type: 'oneOf';
+  /** Candidate steps */
+  transforms: AugmentationStep[];
+}
+
+/**
+ * One step of an augmentation pipeline. Plain JSON, so a pipeline can be
+ * shared with training code.
+ */
+export type AugmentationStep =
+  | FlipStep
+  | RotateStep
+  | ColorJitterStep
+  | CutoutStep
+  | OneOfStep;
+
+/**
+ * Options for compose
+ */
+export interface ComposeOptions {
+  /**
+   * Seed for the pipeline's random stream. Runs still differ from each
+   * other, but the sequence of runs is reproducible.
+   */
+  seed?: number;
+  /** Output image format (default: 'png') */
+  format?: 'png' | 'jpeg' | 'webp';
+  /** JPEG/WebP quality (0-100) */
+  quality?: number;
+}
+
+/**
+ * One transform in albumentations' serialization format (`A.to_dict`)
+ */
+export interface AlbumentationsTransform {
+  /** Transform class, e.g. 'HorizontalFlip', 'Rotate', 'OneOf' */
+  __class_fullname__: string;
+  /** Probability of applying the transform */
+  p?: number;
+  /** Children of Compose, OneOf and Sequential */
+  transforms?: AlbumentationsTransform[];
+  /** Class arguments, e.g. Rotate's limit and fill */
+  [argument: string]: unknown;
+}
+
+/**
+ * Serialized pipeline, as returned by AugmentationPipeline.toJSON
+ *
+ * The same dict albumentations' `A.to_dict` writes and `A.from_dict` reads.
+ * seed, format and quality ride along at the top level, where albumentations
+ * ignores them.
+ */
+export interface AugmentationPipelineConfig extends ComposeOptions {
+  /** albumentations version of the format */
+  __version__: string;
+  /** Root `Compose` transform */
+  transform: AlbumentationsTransform;
+}
+
+/**
+ * Options for one pipeline run
+ */
+export interface AugmentationPipelineRunOptions
+  extends AugmentationAnnotations {
+  /** Seed for this run only; reproduces a previous result.seed */
+  seed?: number;
+}
+
+/**
+ * What one step did in a run
+ */
+export interface AppliedAugmentation {
+  /** Step type */
+  type: AugmentationStepType;
+  /** Whether the step ran (its p roll succeeded) */
+  applied: boolean;
+  /**
+   * Sampled parameters, when applied:
+   * - rotate: { angle }
+   * - colorJitter: { brightness, contrast, saturation, hue }
+   * - cutout: { regions }
+   * - oneOf: { index } of the chosen step
+   */
+  params?: Record<string, number | CutoutRegion[]>;
+  /** Nested results (oneOf: the chosen step) */
+  transforms?: AppliedAugmentation[];
+}
+
+/**
+ * Result of running an augmentation pipeline
+ */
+export interface AugmentationPipelineResult extends TransformedAnnotations {
+  /** Augmented image as base64 */
+  base64: string;
+  /** Output image width */
+  width: number;
+  /** Output image height */
+  height: number;
+  /** Seed of this run; pass as run option to reproduce it */
+  seed: number;
+  /** Per-step report, in pipeline order */
+  applied: AppliedAugmentation[];
+  /** Processing time in milliseconds */
+  processingTimeMs: number;
+}
+
+/**
+ * Augmentation pipeline created by compose
+ */
+export interface AugmentationPipeline {
+  /** Steps in order */
+  readonly transforms: AugmentationStep[];
+  /** Decode, run every step and encode once */
+  run(
+    source: ImageSource,
+    options?: AugmentationPipelineRunOptions
+  ): Promise<AugmentationPipelineResult>;
+  /** Serializable definition; JSON.stringify uses it */
+  toJSON(): AugmentationPipelineConfig;
+}
+
+// =============================================================================
+// Multi-Image Augmentation Types
+// =============================================================================
+
+/**
+ * Label of one source image: a class index, or a one-hot/soft label vector
+ */
+export type MixLabel = number | number[];
+
+/**
+ * Options shared by mixup, cutMix and mosaic
+ */
+export interface MultiImageAugmentationOptions {
+  /** Label of each source image, mixed by the images' weights */
+  labels?: MixLabel[];
+  /** Number of classes (required when labels are class indices) */
+  numClasses?: number;
+  /** Random seed for reproducible results */
+  seed?: number;
+  /** Output image format (default: 'png') */
+  format?: 'png' | 'jpeg' | 'webp';
+  /** JPEG/WebP quality (0-100) */
+  quality?: number;
+}
+
+/**
+ * Options for mixup
+ */
+export interface MixupOptions extends MultiImageAugmentationOptions {
+  /** Lambda is drawn from Beta(alpha, alpha) (default: 0.2) */
+  alpha?: number;
+  /** Fixed weight of the first image (overrides alpha) */
+  lambda?: number;
+  /** Output size as size or [width, height] (default: first image size) */
+  size?: number | [number, number];
+}
+
+/**
+ * Options for cutMix
+ */
+export interface CutMixOptions extends MultiImageAugmentationOptions {
+  /** Lambda is drawn from Beta(alpha, alpha) (default: 1) */
+  alpha?: number;
+  /** Fixed target weight of the first image (overrides alpha) */
+  lambda?: number;
+  /** Output size as size or [width, height] (default: first image size) */
+  size?: number | [number, number];
+}
+
+/**
+ * Options for mosaic
+ */
+export interface MosaicOptions extends MultiImageAugmentationOptions {
+  /** Output size as size or [width, height] (default: 640) */
+  size?: number | [number, number];
+  /** Range of the mosaic center as a fraction of the size (default: [0.25, 0.75]) */
+  centerRange?: [number, number];
+  /** Boxes of each source image, in its own pixels */
+  boxes?: BoundingBox[][];
+  /** Format of input and output boxes (default: 'xyxy') */
+  boxFormat?: BoxFormat;
+  /** Fill for uncovered area [R, G, B] (0-255, default: [114, 114, 114]) */
+  fillValue?: [number, number, number];
+}
+
+/**
+ * Rectangle in output pixels
+ */
+export interface MixRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Fields shared by multi-image augmentation results
+ */
+export interface MultiImageAugmentationResult {
+  /** Augmented image as base64 */
+  base64: string;
+  /** Output image width */
+  width: number;
+  /** Output image height */
+  height: number;
+  /** Weight of each source image in the result (sums to 1) */
+  weights: number[];
+  /** Mixed label vector (when labels were given) */
+  labels?: number[];
+  /** Seed used for random generation */
+  seed: number;
+  /** Processing time in milliseconds */
+  processingTimeMs: number;
+}
+
+/**
+ * Result of mixup
+ */
+export interface MixupResult extends MultiImageAugmentationResult {
+  /** Weight of the first image */
+  lambda: number;
+}
+
+/**
+ * Result of cutMix
+ */
+export interface CutMixResult extends MultiImageAugmentationResult {
+  /** Weight of the first image: the fraction of the area it still covers */
+  lambda: number;
+  /** Region pasted from the second image */
+  region: MixRegion;
+}
+
+/**
+ * Placement of one source image in a mosaic
+ */
+export interface MosaicTile extends MixRegion {
+  /** Scale applied to the source image [x, y] */
+  scale: [number, number];
+  /** Offset added to scaled source coordinates [x, y] */
+  offset: [number, number];
+}
+
+/**
+ * Result of mosaic
+ */
+export interface MosaicResult extends MultiImageAugmentationResult {
+  /** Mosaic center [x, y] */
+  center: [number, number];
+  /** Canvas region of each source image */
+  tiles: MosaicTile[];
+  /** Merged boxes in output pixels, clipped; boxes left with no area are dropped */
+  boxes: BoundingBox[];
+  /** Format of boxes */
+  boxFormat: BoxFormat;
+  /** Source image of each box */
+  boxSources: number[];
+  /** Index of each box within its source image's boxes */
+  boxIndices: number[];
+}
+
+// =============================================================================
+// Augmentation Policy Types
+// =============================================================================
+
+/**
+ * Named augmentation policies
+ */
+export type AugmentationPolicyName =
+  | 'autoAugment'
+  | 'randAugment'
+  | 'trivialAugment';
+
+/**
+ * Learned AutoAugment policies
+ */
+export type AutoAugmentPolicy = 'imagenet';
+
+/**
+ * Ops policies choose from, each mapped onto AugmentationOptions
+ */
+export type PolicyOp =
+  | 'identity'
+  | 'rotate'
+  | 'brightness'
+  | 'contrast'
+  | 'saturation';
+
+/**
+ * Options shared by all policies
+ */
+export interface AugmentationPolicyOptions {
+  /** Seed for a reproducible sequence of samples (default: random) */
+  seed?: number;
+}
+
+/**
+ * Options for randAugment
+ */
+export interface RandAugmentOptions extends AugmentationPolicyOptions {
+  /** Number of ops applied to each image (default: 2) */
+  n?: number;
+  /** Magnitude bin, 0 to numMagnitudeBins - 1 (default: 9) */
+  m?: number;
+  /** Number of magnitude bins (default: 31) */
+  numMagnitudeBins?: number;
+}
+
+/**
+ * Options for trivialAugment
+ */
+export interface TrivialAugmentOptions extends AugmentationPolicyOptions {
+  /** Number of magnitude bins (default: 31) */
+  numMagnitudeBins?: number;
+}
+
+/**
+ * One op chosen by a policy
+ */
+export interface AppliedPolicyOp {
+  /** Op type */
+  op: PolicyOp;
+  /** Magnitude bin */
+  magnitude: number;
+  /**
+   * Signed value: degrees for rotate, offset for brightness, factor for
+   * contrast and saturation, 0 for identity
+   */
+  value: number;
+  /** Whether the op was applied (AutoAugment ops have a probability) */
+  applied: boolean;
+}
+
+/**
+ * Ops sampled by a policy for one image
+ */
+export interface AugmentationPolicySample {
+  /** The ops combined into applyAugmentations options */
+  options: AugmentationOptions;
+  /** Chosen ops, in order */
+  ops: AppliedPolicyOp[];
+  /** Chosen sub-policy (autoAugment only) */
+  subPolicy?: number;
+  /** Seed of this sample */
+  seed: number;
+}
+
+/**
+ * Per-image options for AugmentationPolicy.apply
+ */
+export interface AugmentationPolicyApplyOptions
+  extends AugmentationAnnotations {
+  /** Seed for this image; overrides the policy's seed sequence */
+  seed?: number;
+}
+
+/**
+ * Result of AugmentationPolicy.apply
+ */
+export interface AugmentationPolicyResult extends AugmentationResult {
+  /** Chosen ops, in order */
+  ops: AppliedPolicyOp[];
+  /** Chosen sub-policy (autoAugment only) */
+  subPolicy?: number;
+  /** Seed of this sample; pass it back to reproduce the result */
+  seed: number;
+}
+
+/**
+ * Augmentation policy, as returned by autoAugment, randAugment and
+ * trivialAugment
+ */
+export interface AugmentationPolicy {
+  /** Policy name */
+  readonly name: AugmentationPolicyName;
+  /** Choose ops for one image without applying them */
+  sample(seed?: number): AugmentationPolicySample;
+  /**
+   * Choose ops for one image and run them in the compose pipeline, which
+   * keeps the image size
+   */
+  apply(
+    source: ImageSource,
+    options?: AugmentationPolicyApplyOptions
+  ): Promise<AugmentationPolicyResult>;
+}
+
+// =============================================================================
+// Geometric Transform Types
+// =============================================================================
+
+/**
+ * 3x3 homogeneous transform, row-major, from source to output pixel
+ * coordinates (pixel corners at integers)
+ */
+export type TransformMatrix = [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number
+];
+
+/**
+ * Four [x, y] corners: top-left, top-right, bottom-right, bottom-left
+ */
+export type Quad = [
+  [number, number],
+  [number, number],
+  [number, number],
+  [number, number]
+];
+
+/**
+ * Options shared by the geometric transforms
+ */
+export interface GeometricTransformOptions extends AugmentationAnnotations {
+  /** Fill for areas outside the source [R, G, B] (0-255, default: [0, 0, 0]) */
+  fillValue?: [number, number, number];
+  /** Output image format (default: 'png') */
+  format?: 'png' | 'jpeg' | 'webp';
+  /** JPEG/WebP quality 0-100 (default: 100) */
+  quality?: number;
+}
+
+/**
+ * Options for affineTransform. Either give `matrix`, or any of rotate,
+ * scale, shear and translate: the image is scaled, sheared and rotated about
+ * `center`, then translated.
+ */
+export interface AffineTransformOptions extends GeometricTransformOptions {
+  /** Explicit transform: 2x3 [a, b, c, d, e, f] or 3x3 with last row [0, 0, 1] */
+  matrix?: number[];
+  /** Rotation in degrees, clockwise (default: 0) */
+  rotate?: number;
+  /** Scale factor, or [x, y] (default: 1) */
+  scale?: number | [number, number];
+  /** Shear angles in degrees along x, or [x, y] (default: 0) */
+  shear?: number | [number, number];
+  /** Translation in pixels [x, y] (default: [0, 0]) */
+  translate?: [number, number];
+  /** Center of rotation, scale and shear [x, y] (default: image center) */
+  center?: [number, number];
+  /** Output size [width, height] (default: source size) */
+  size?: [number, number];
+}
+
+/**
+ * Options for perspectiveTransform
+ */
+export interface PerspectiveTransformOptions extends GeometricTransformOptions {
+  /** Output size [width, height] (default: source size) */
+  size?: [number, number];
+}
+
+/**
+ * Options for randomResizedCrop (torchvision RandomResizedCrop)
+ */
+export interface RandomResizedCropOptions
+  extends Omit<GeometricTransformOptions, 'fillValue'> {
+  /** Output size, or [width, height] */
+  size: number | [number, number];
+  /** Range of the crop area as a fraction of the image (default: [0.08, 1]) */
+  scale?: [number, number];
+  /** Range of the crop aspect ratio, width / height (default: [3/4, 4/3]) */
+  ratio?: [number, number];
+  /** Random seed for reproducibility (default: random) */
+  seed?: number;
+}
+
+/**
+ * Result of a geometric transform
+ */
+export interface GeometricTransformResult extends TransformedAnnotations {
+  /** Transformed image as base64 */
+  base64: string;
+  /** Output width */
+  width: number;
+  /** Output height */
+  height: number;
+  /** Transform applied; invert it to map outputs back to the source */
+  matrix: TransformMatrix;
+  /** Processing time in milliseconds */
+  processingTimeMs: number;
+}
+
+/**
+ * Result of randomResizedCrop
+ */
+export interface RandomResizedCropResult extends GeometricTransformResult {
+  /** Crop taken from the source */
+  crop: Roi;
+  /** Seed used */
+  seed: number;
+}